@@ -60,6 +60,7 @@ export default defineConfig({
           { text: "Codex", link: "/agent-setup/codex" },
           { text: "Gemini CLI", link: "/agent-setup/gemini-cli" },
           { text: "Custom Agents", link: "/agent-setup/custom-agents" },
+          { text: "Secrets", link: "/agent-setup/secrets" },
         ],
       },
       {
@@ -71,6 +72,7 @@ export default defineConfig({
           { text: "Slash Commands", link: "/usage/slash-commands" },
           { text: "Mode Selection", link: "/usage/mode-selection" },
           { text: "Model Selection", link: "/usage/model-selection" },
+          { text: "Agent Profiles", link: "/usage/profiles" },
           { text: "Session History", link: "/usage/session-history" },
           { text: "Editing", link: "/usage/editing" },
           { text: "Chat Export", link: "/usage/chat-export" },
@@ -0,0 +1,102 @@
+import type {
+	AgentConfig,
+	InitializeResult,
+} from "../../domain/ports/agent-client.port";
+import { Logger } from "../../shared/logger";
+import type AgentClientPlugin from "../../plugin";
+import {
+	AcpConnection,
+	getConnectionKey,
+	type AcpConnectionClient,
+} from "./acp-connection";
+
+/**
+ * Shares agent processes between chat tabs.
+ *
+ * Connections are keyed by agent ID and spawn config (command, args, env,
+ * working directory), so tabs using the same agent talk to one process
+ * over separate ACP sessions. A connection's process is killed when the
+ * last tab using it is released.
+ */
+export class AcpConnectionPool {
+	private connections = new Map<string, AcpConnection>();
+	private owners = new Map<AcpConnectionClient, AcpConnection>();
+	private logger: Logger;
+
+	constructor(private plugin: AgentClientPlugin) {
+		this.logger = new Logger(plugin);
+	}
+
+	/**
+	 * Attach a session handle to the connection for a config, spawning the
+	 * agent if no tab is using it yet. A handle moving to a different
+	 * config is released from its previous connection first.
+	 *
+	 * @throws Error if the agent fails to start (the handle is released)
+	 */
+	async acquire(
+		config: AgentConfig,
+		client: AcpConnectionClient,
+	): Promise<{ connection: AcpConnection; initResult: InitializeResult }> {
+		const key = getConnectionKey(config);
+		const current = this.owners.get(client);
+		if (current && current.key !== key) {
+			this.release(client);
+		}
+
+		let connection = this.connections.get(key);
+		if (!connection) {
+			connection = new AcpConnection(this.plugin, config, key);
+			this.connections.set(key, connection);
+			this.logger.log(
+				`[AcpConnectionPool] New connection for ${config.id}`,
+			);
+		} else {
+			this.logger.log(
+				`[AcpConnectionPool] Reusing connection for ${config.id} (${connection.clientCount} tab(s))`,
+			);
+		}
+		connection.attach(client);
+		this.owners.set(client, connection);
+
+		try {
+			const initResult = await connection.start();
+			return { connection, initResult };
+		} catch (error) {
+			this.release(client);
+			throw error;
+		}
+	}
+
+	/**
+	 * Detach a session handle; kills the process if no tab uses it anymore.
+	 */
+	release(client: AcpConnectionClient): void {
+		const connection = this.owners.get(client);
+		if (!connection) {
+			return;
+		}
+		this.owners.delete(client);
+		connection.detach(client);
+		if (connection.clientCount === 0) {
+			this.logger.log(
+				`[AcpConnectionPool] Closing unused connection for ${connection.config.id}`,
+			);
+			connection.close();
+			if (this.connections.get(connection.key) === connection) {
+				this.connections.delete(connection.key);
+			}
+		}
+	}
+
+	/**
+	 * Kill every agent process (plugin unload, agent updates).
+	 */
+	closeAll(): void {
+		for (const connection of this.connections.values()) {
+			connection.close();
+		}
+		this.connections.clear();
+		this.owners.clear();
+	}
+}
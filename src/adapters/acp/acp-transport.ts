@@ -0,0 +1,324 @@
+import { Readable, Writable, Transform } from "stream";
+import { connect as connectSocket } from "net";
+import * as acp from "@agentclientprotocol/sdk";
+
+import { logWireLine } from "../../shared/error-log";
+import type { ErrorLog, WireDirection } from "../../shared/error-log";
+
+/**
+ * An open channel to an agent, whatever carries it.
+ *
+ * - stdio: a spawned child process (stdin/stdout, newline-delimited JSON)
+ * - tcp: a socket to a running agent (newline-delimited JSON)
+ * - websocket: a WebSocket to a running agent (one JSON-RPC message per frame)
+ *
+ * Every transport logs its traffic to the wire log (see ErrorLog).
+ */
+export interface AcpTransport {
+	/** Where the agent is, for logs (e.g. "PID 1234", "ws://host:8080") */
+	readonly label: string;
+	readonly stream: acp.Stream;
+	/** Close the channel; for stdio this kills the process */
+	close(): void;
+}
+
+/**
+ * Called once when a transport's channel closes on its own.
+ */
+export type TransportClosedCallback = (reason?: string) => void;
+
+/** Time allowed to open a socket before giving up */
+const CONNECT_TIMEOUT_MS = 10_000;
+
+/**
+ * Node Transform that passes bytes through unchanged and logs each
+ * newline-delimited frame to the wire log.
+ */
+function createWireTap(
+	errorLog: ErrorLog | undefined,
+	direction: WireDirection,
+	agentId: string,
+): Transform {
+	let buffer = "";
+	return new Transform({
+		transform(
+			chunk: Buffer,
+			_enc: BufferEncoding,
+			done: (err?: Error | null, data?: Buffer) => void,
+		) {
+			if (errorLog) {
+				try {
+					buffer += chunk.toString("utf-8");
+					let idx = buffer.indexOf("\n");
+					while (idx >= 0) {
+						const line = buffer.slice(0, idx).trim();
+						buffer = buffer.slice(idx + 1);
+						if (line.length > 0) {
+							void logWireLine(
+								errorLog,
+								direction,
+								line,
+								agentId,
+							);
+						}
+						idx = buffer.indexOf("\n");
+					}
+				} catch {
+					// Logging must never break the stream.
+				}
+			}
+			done(null, chunk);
+		},
+		flush(done: (err?: Error | null) => void) {
+			if (errorLog && buffer.trim().length > 0) {
+				void logWireLine(errorLog, direction, buffer.trim(), agentId);
+				buffer = "";
+			}
+			done();
+		},
+	});
+}
+
+/**
+ * Wrap a pair of Node.js byte streams carrying newline-delimited JSON
+ * (process stdio, a TCP socket) as an ACP stream, tapping both directions.
+ */
+export function createNdJsonStream(
+	writable: NodeJS.WritableStream,
+	readable: NodeJS.ReadableStream,
+	errorLog: ErrorLog | undefined,
+	agentId: string,
+): acp.Stream {
+	// Wire-tap using Node.js Transform streams — must be done BEFORE
+	// calling .toWeb() so we never mix Node.js Web Streams with Chromium's
+	// WHATWG Web Streams. Mixing them causes:
+	//   "transform.readable must be an instance of ReadableStream.
+	//    Received an instance of ReadableStream"
+	// because Node's ReadableStream and Chromium's ReadableStream are
+	// different classes even though they implement the same spec.
+
+	// Outgoing tap: ACP SDK → outTap (logs) → agent
+	const outTap = createWireTap(errorLog, "out", agentId);
+	outTap.pipe(writable);
+
+	// Incoming tap: agent → inTap (logs) → ACP SDK
+	const inTap = createWireTap(errorLog, "in", agentId);
+	readable.pipe(inTap);
+
+	// Convert tapped Node.js streams to Web Streams for the ACP SDK.
+	// Both sides are now pure Node.js streams — no Chromium/Node mismatch.
+	/* eslint-disable @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access */
+	const input = (Writable as any).toWeb(outTap) as WritableStream<Uint8Array>;
+	const output = (Readable as any).toWeb(inTap) as ReadableStream<Uint8Array>;
+	/* eslint-enable @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access */
+
+	return acp.ndJsonStream(input, output);
+}
+
+/**
+ * Split a `tcp://host:port` endpoint.
+ *
+ * @returns Host and port, or null if the endpoint is not a valid TCP URL
+ */
+export function parseTcpEndpoint(
+	endpoint: string,
+): { host: string; port: number } | null {
+	let url: URL;
+	try {
+		url = new URL(endpoint.trim());
+	} catch {
+		return null;
+	}
+	const port = Number(url.port);
+	if (
+		url.protocol !== "tcp:" ||
+		!url.hostname ||
+		!Number.isInteger(port) ||
+		port <= 0 ||
+		port > 65535
+	) {
+		return null;
+	}
+	// IPv6 literals keep their brackets in URL.hostname
+	return { host: url.hostname.replace(/^\[|\]$/g, ""), port };
+}
+
+/**
+ * Connect to an agent listening on a TCP socket.
+ *
+ * @throws Error if the endpoint is invalid or the connection fails
+ */
+export function connectTcpTransport(
+	endpoint: string,
+	errorLog: ErrorLog | undefined,
+	agentId: string,
+	onClosed: TransportClosedCallback,
+): Promise<AcpTransport> {
+	const target = parseTcpEndpoint(endpoint);
+	if (!target) {
+		return Promise.reject(
+			new Error(
+				`Invalid TCP endpoint "${endpoint}". Use tcp://host:port.`,
+			),
+		);
+	}
+
+	return new Promise((resolve, reject) => {
+		const socket = connectSocket({ host: target.host, port: target.port });
+		const timer = setTimeout(() => {
+			socket.destroy();
+			reject(
+				new Error(
+					`Timed out connecting to ${endpoint} after ${CONNECT_TIMEOUT_MS / 1000} seconds.`,
+				),
+			);
+		}, CONNECT_TIMEOUT_MS);
+
+		const onConnectError = (error: Error) => {
+			clearTimeout(timer);
+			reject(
+				new Error(`Could not connect to ${endpoint}: ${error.message}`),
+			);
+		};
+		socket.once("error", onConnectError);
+
+		socket.once("connect", () => {
+			clearTimeout(timer);
+			socket.off("error", onConnectError);
+			socket.setNoDelay(true);
+
+			let lastError: Error | undefined;
+			socket.on("error", (error) => {
+				lastError = error;
+			});
+			socket.once("close", () => onClosed(lastError?.message));
+
+			resolve({
+				label: endpoint,
+				stream: createNdJsonStream(socket, socket, errorLog, agentId),
+				close: () => socket.destroy(),
+			});
+		});
+	});
+}
+
+/**
+ * Connect to an agent behind a WebSocket (ws:// or wss://).
+ *
+ * Each frame carries one JSON-RPC message; frames holding several
+ * newline-delimited messages are split.
+ *
+ * @throws Error if the URL is invalid or the connection fails
+ */
+export function connectWebSocketTransport(
+	endpoint: string,
+	errorLog: ErrorLog | undefined,
+	agentId: string,
+	onClosed: TransportClosedCallback,
+): Promise<AcpTransport> {
+	let socket: WebSocket;
+	try {
+		const url = new URL(endpoint.trim());
+		if (url.protocol !== "ws:" && url.protocol !== "wss:") {
+			throw new Error("not a WebSocket URL");
+		}
+		socket = new WebSocket(url.toString());
+	} catch {
+		return Promise.reject(
+			new Error(
+				`Invalid WebSocket endpoint "${endpoint}". Use ws://host:port or wss://host:port.`,
+			),
+		);
+	}
+	socket.binaryType = "arraybuffer";
+
+	return new Promise((resolve, reject) => {
+		let opened = false;
+		const timer = setTimeout(() => {
+			socket.close();
+			reject(
+				new Error(
+					`Timed out connecting to ${endpoint} after ${CONNECT_TIMEOUT_MS / 1000} seconds.`,
+				),
+			);
+		}, CONNECT_TIMEOUT_MS);
+
+		socket.addEventListener("error", () => {
+			if (!opened) {
+				clearTimeout(timer);
+				reject(new Error(`Could not connect to ${endpoint}.`));
+			}
+		});
+
+		socket.addEventListener("open", () => {
+			opened = true;
+			clearTimeout(timer);
+
+			const decoder = new TextDecoder();
+			let incoming: ReadableStreamDefaultController<acp.AnyMessage>;
+			const readable = new ReadableStream<acp.AnyMessage>({
+				start(controller) {
+					incoming = controller;
+				},
+				cancel() {
+					socket.close();
+				},
+			});
+
+			socket.addEventListener("message", (event: MessageEvent) => {
+				const text =
+					typeof event.data === "string"
+						? event.data
+						: decoder.decode(event.data as ArrayBuffer);
+				for (const line of text.split("\n")) {
+					const trimmed = line.trim();
+					if (!trimmed) continue;
+					if (errorLog) {
+						void logWireLine(errorLog, "in", trimmed, agentId);
+					}
+					try {
+						incoming.enqueue(JSON.parse(trimmed) as acp.AnyMessage);
+					} catch {
+						// Not JSON: logged above, nothing for the SDK
+					}
+				}
+			});
+
+			socket.addEventListener("close", (event: CloseEvent) => {
+				try {
+					incoming.close();
+				} catch {
+					// Already closed or cancelled
+				}
+				onClosed(
+					event.reason ||
+						(event.code !== 1000
+							? `code ${event.code}`
+							: undefined),
+				);
+			});
+
+			const writable = new WritableStream<acp.AnyMessage>({
+				write(message) {
+					if (socket.readyState !== WebSocket.OPEN) {
+						throw new Error(`WebSocket to ${endpoint} is closed`);
+					}
+					const text = JSON.stringify(message);
+					if (errorLog) {
+						void logWireLine(errorLog, "out", text, agentId);
+					}
+					socket.send(text);
+				},
+				close() {
+					socket.close();
+				},
+			});
+
+			resolve({
+				label: endpoint,
+				stream: { readable, writable },
+				close: () => socket.close(),
+			});
+		});
+	});
+}
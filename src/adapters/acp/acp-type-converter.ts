@@ -1,6 +1,11 @@
 import * as acp from "@agentclientprotocol/sdk";
-import type { ToolCallContent } from "../../domain/models/chat-message";
+import type {
+	ContentBlock,
+	PromptResult,
+	ToolCallContent,
+} from "../../domain/models/chat-message";
 import type { PromptContent } from "../../domain/models/prompt-content";
+import type { McpServerSettings } from "../../domain/models/agent-config";
 
 /**
  * Type converter between ACP Protocol types and Domain types.
@@ -12,9 +17,8 @@ export class AcpTypeConverter {
 	/**
 	 * Convert ACP ToolCallContent to domain ToolCallContent.
 	 *
-	 * Filters out content types that are not supported by the domain model:
-	 * - Supports: "diff", "terminal"
-	 * - Ignores: "content" (not implemented in UI)
+	 * Supports "diff", "terminal" and "content" items. Content blocks the
+	 * domain model does not support (audio) are dropped.
 	 *
 	 * @param acpContent - Tool call content from ACP protocol
 	 * @returns Domain model tool call content, or undefined if input is null/empty
@@ -39,20 +43,86 @@ export class AcpTypeConverter {
 					type: "terminal",
 					terminalId: item.terminalId,
 				});
+			} else if (item.type === "content") {
+				const block = AcpTypeConverter.toContentBlock(item.content);
+				if (block) {
+					converted.push({ type: "content", content: block });
+				}
 			}
-			// "content" type is intentionally ignored (not implemented in UI)
 		}
 
 		return converted.length > 0 ? converted : undefined;
 	}
 
+	/**
+	 * Convert ACP rawInput/rawOutput (arbitrary JSON) to the domain record shape.
+	 *
+	 * Objects pass through; other JSON values (strings, arrays, numbers) are
+	 * wrapped as `{ value }` so nothing the agent sent is lost.
+	 *
+	 * @param raw - rawInput or rawOutput from a tool call
+	 * @returns Record, or undefined if the agent sent nothing
+	 */
+	static toRawToolData(raw: unknown): { [k: string]: unknown } | undefined {
+		if (raw === undefined || raw === null) return undefined;
+		if (typeof raw === "object" && !Array.isArray(raw)) {
+			return raw as { [k: string]: unknown };
+		}
+		return { value: raw };
+	}
+
+	/**
+	 * Convert an ACP ContentBlock to a domain ContentBlock.
+	 *
+	 * - Supports: "text", "image", "resource_link", "resource"
+	 * - Ignores: "audio" (no player in the chat view)
+	 *
+	 * @param block - Content block from a message chunk or tool call content
+	 * @returns Domain content block, or undefined if the block type is unsupported
+	 */
+	static toContentBlock(block: acp.ContentBlock): ContentBlock | undefined {
+		switch (block.type) {
+			case "text":
+				return { type: "text", text: block.text };
+			case "image":
+				return {
+					type: "image",
+					data: block.data,
+					mimeType: block.mimeType,
+					uri: block.uri ?? undefined,
+				};
+			case "resource_link":
+				return {
+					type: "resource_link",
+					uri: block.uri,
+					name: block.name,
+					title: block.title ?? undefined,
+					description: block.description ?? undefined,
+					mimeType: block.mimeType ?? undefined,
+					size: block.size ?? undefined,
+				};
+			case "resource": {
+				const resource = block.resource;
+				return {
+					type: "resource",
+					uri: resource.uri,
+					mimeType: resource.mimeType ?? undefined,
+					text: "text" in resource ? resource.text : undefined,
+					blob: "blob" in resource ? resource.blob : undefined,
+				};
+			}
+			default:
+				return undefined;
+		}
+	}
+
 	/**
 	 * Convert domain PromptContent to ACP ContentBlock.
 	 *
 	 * This converts our domain-layer prompt content to the ACP protocol format
 	 * for sending to the agent.
 	 *
-	 * @param content - Domain prompt content (text, image, or resource)
+	 * @param content - Domain prompt content (text, image, resource, or resource link)
 	 * @returns ACP ContentBlock for use with the prompt API
 	 */
 	static toAcpContentBlock(content: PromptContent): acp.ContentBlock {
@@ -75,6 +145,67 @@ export class AcpTypeConverter {
 					},
 					annotations: content.annotations,
 				};
+			case "resource_link":
+				return {
+					type: "resource_link",
+					uri: content.uri,
+					name: content.name,
+					description: content.description,
+					mimeType: content.mimeType,
+					size: content.size,
+				};
 		}
 	}
+
+	/**
+	 * Convert domain MCP server settings to an ACP McpServer entry.
+	 *
+	 * @param server - MCP server from plugin settings
+	 * @returns ACP McpServer for session/new, load, resume and fork
+	 */
+	static toAcpMcpServer(server: McpServerSettings): acp.McpServer {
+		if (server.transport === "stdio") {
+			return {
+				name: server.name,
+				command: server.command,
+				args: server.args,
+				env: server.env.map(({ key, value }) => ({
+					name: key,
+					value,
+				})),
+			};
+		}
+		return {
+			type: server.transport,
+			name: server.name,
+			url: server.url,
+			headers: server.headers.map(({ key, value }) => ({
+				name: key,
+				value,
+			})),
+		};
+	}
+
+	/**
+	 * Convert ACP PromptResponse to domain PromptResult.
+	 *
+	 * @param response - session/prompt response from the agent
+	 * @returns Stop reason and token usage (usage omitted if not reported)
+	 */
+	static toPromptResult(response: acp.PromptResponse): PromptResult {
+		const usage = response.usage;
+		return {
+			stopReason: response.stopReason,
+			usage: usage
+				? {
+						inputTokens: usage.inputTokens,
+						outputTokens: usage.outputTokens,
+						totalTokens: usage.totalTokens,
+						thoughtTokens: usage.thoughtTokens ?? undefined,
+						cachedReadTokens: usage.cachedReadTokens ?? undefined,
+						cachedWriteTokens: usage.cachedWriteTokens ?? undefined,
+					}
+				: undefined,
+		};
+	}
 }
@@ -1,6 +1,3 @@
-import { spawn, ChildProcess } from "child_process";
-import { existsSync } from "fs";
-import { Readable, Writable, Transform } from "stream";
 import * as acp from "@agentclientprotocol/sdk";
 import { Platform } from "obsidian";
 
@@ -13,10 +10,21 @@ import type {
 import type {
 	MessageContent,
 	PermissionOption,
+	PromptResult,
 } from "../../domain/models/chat-message";
 import type { SessionUpdate } from "../../domain/models/session-update";
 import type { PromptContent } from "../../domain/models/prompt-content";
 import type { AgentError } from "../../domain/models/agent-error";
+import type { IVaultAccess } from "../../domain/ports/vault-access.port";
+import type {
+	AgentRecoveryEvent,
+	SessionReattachMethod,
+} from "../../domain/models/agent-recovery";
+import type {
+	PermissionGrant,
+	PermissionRequestFacts,
+	PermissionRule,
+} from "../../domain/models/permission-rule";
 import type {
 	ListSessionsResult,
 	LoadSessionResult,
@@ -25,30 +33,42 @@ import type {
 } from "../../domain/models/session-info";
 import { AcpTypeConverter } from "./acp-type-converter";
 import { TerminalManager } from "../../shared/terminal-manager";
+import { VaultFileManager } from "../../shared/vault-file-manager";
+import { ObsidianExtensionHandler } from "../../shared/obsidian-extensions";
 import { Logger } from "../../shared/logger";
-import { describeError, logWireLine } from "../../shared/error-log";
+import { describeError } from "../../shared/error-log";
 import type AgentClientPlugin from "../../plugin";
+import type { VaultMcpClient } from "../obsidian/vault-mcp-server";
 import type {
 	SlashCommand,
 	SessionModeState,
 	SessionModelState,
 } from "src/domain/models/chat-session";
+import { convertWindowsPathToWsl } from "../../shared/wsl-utils";
+import { resolveSecretRefs } from "../../shared/secret-refs";
 import {
-	wrapCommandForWsl,
-	convertWindowsPathToWsl,
-} from "../../shared/wsl-utils";
-import { resolveCommandDirectory } from "../../shared/path-utils";
+	resolveEnvVarSecrets,
+	selectMcpServersForAgent,
+} from "../../shared/settings-utils";
 import {
-	getEnhancedWindowsEnv,
-	prependToPath,
-} from "../../shared/windows-env";
-import { escapeShellArgWindows } from "../../shared/shell-utils";
+	describePermissionRule,
+	findMatchingPermissionRule,
+	findPermissionGrant,
+	selectOptionForAction,
+	toGrantPaths,
+} from "../../shared/permission-rules";
 import {
 	installAgent,
 	getAgentInstallCommand,
 	getAgentDisplayName,
 	isKnownAgent,
 } from "../../shared/agent-installer";
+import {
+	isRemoteTransport,
+	type AcpConnection,
+	type AcpConnectionClient,
+	type AgentCrash,
+} from "./acp-connection";
 
 /**
  * Extended ACP Client interface for UI layer.
@@ -76,15 +96,26 @@ export interface IAcpClient extends acp.Client {
 /**
  * Adapter that wraps the Agent Client Protocol (ACP) library.
  *
+ * Each chat tab owns one adapter. The agent process itself lives in an
+ * AcpConnection shared (via the plugin's AcpConnectionPool) by every tab
+ * using the same agent and spawn config; the adapter is that tab's
+ * session handle.
+ *
  * This adapter:
- * - Manages agent process lifecycle (spawn, monitor, kill)
- * - Implements ACP protocol directly (no intermediate AcpClient layer)
+ * - Attaches to a pooled connection and registers its session there
+ * - Receives the session/update, permission, fs and terminal callbacks
+ *   routed to its session
  * - Handles message updates and terminal operations
+ * - Serves the `_obsidian/*` extension methods (open a note, show a
+ *   notice, insert at the cursor, ...)
+ * - Checks the vault MCP server's writes against the tab's permissions
  * - Provides callbacks for UI updates
  */
-export class AcpAdapter implements IAgentClient, IAcpClient {
-	private connection: acp.ClientSideConnection | null = null;
-	private agentProcess: ChildProcess | null = null;
+export class AcpAdapter
+	implements IAgentClient, IAcpClient, AcpConnectionClient, VaultMcpClient
+{
+	/** Shared connection this tab is attached to */
+	private pooled: AcpConnection | null = null;
 	private logger: Logger;
 
 	// Session update callback (unified callback for all session updates)
@@ -93,6 +124,8 @@ export class AcpAdapter implements IAgentClient, IAcpClient {
 
 	// Error callback for process-level errors
 	private errorCallback: ((error: AgentError) => void) | null = null;
+	private recoveryCallback: ((event: AgentRecoveryEvent) => void) | null =
+		null;
 
 	// Message update callback for permission UI updates
 	private updateMessage: (
@@ -105,8 +138,16 @@ export class AcpAdapter implements IAgentClient, IAcpClient {
 	private isInitializedFlag = false;
 	private currentAgentId: string | null = null;
 
+	// Session routing and crash recovery state
+	/** Session the chat is attached to, re-attached after a crash */
+	private attachedSessionId: string | null = null;
+	/** Session whose session/load history replay is being swallowed */
+	private suppressReplaySessionId: string | null = null;
+
 	// IAcpClient implementation properties
 	private terminalManager: TerminalManager;
+	private vaultFileManager: VaultFileManager;
+	private obsidianExtensions: ObsidianExtensionHandler;
 	private currentMessageId: string | null = null;
 	private pendingPermissionRequests = new Map<
 		string,
@@ -114,6 +155,12 @@ export class AcpAdapter implements IAgentClient, IAcpClient {
 			resolve: (response: acp.RequestPermissionResponse) => void;
 			toolCallId: string;
 			options: PermissionOption[];
+			sessionId: string;
+			facts: PermissionRequestFacts;
+			/** "ask" rule that routed this request to the prompt, if any */
+			rule: PermissionRule | null;
+			/** Options as the agent sent them (UI options are normalized) */
+			agentOptions: acp.PermissionOption[];
 		}
 	>();
 	private pendingPermissionQueue: Array<{
@@ -121,6 +168,10 @@ export class AcpAdapter implements IAgentClient, IAcpClient {
 		toolCallId: string;
 		options: PermissionOption[];
 	}> = [];
+	/** Rules from the tab's profile, checked before grants and rules */
+	private profilePermissionRules: PermissionRule[] = [];
+	/** The tab's vault access, used by the vault MCP server */
+	private vaultAccess: IVaultAccess | null = null;
 
 	constructor(private plugin: AgentClientPlugin) {
 		this.logger = new Logger(plugin);
@@ -129,6 +180,17 @@ export class AcpAdapter implements IAgentClient, IAcpClient {
 
 		// Initialize TerminalManager
 		this.terminalManager = new TerminalManager(plugin);
+		this.vaultFileManager = new VaultFileManager(plugin);
+		this.obsidianExtensions = new ObsidianExtensionHandler(
+			plugin,
+			this.vaultFileManager,
+			(title, path) => this.requestEditPermission(title, path),
+		);
+	}
+
+	/** The shared ACP connection, or null while detached or down */
+	private get connection(): acp.ClientSideConnection | null {
+		return this.pooled?.agent ?? null;
 	}
 
 	/**
@@ -145,38 +207,45 @@ export class AcpAdapter implements IAgentClient, IAcpClient {
 		this.updateMessage = updateMessage;
 	}
 
+	/**
+	 * Set the permission rules of the tab's profile (see
+	 * getProfilePermissionRules). They apply to requests from now on.
+	 */
+	setProfilePermissionRules(rules: PermissionRule[]): void {
+		this.profilePermissionRules = rules;
+	}
+
+	/**
+	 * Set the tab's vault access, which the vault MCP server reads and
+	 * writes notes through.
+	 */
+	setVaultAccess(vaultAccess: IVaultAccess): void {
+		this.vaultAccess = vaultAccess;
+	}
+
+	getVaultAccess(): IVaultAccess | null {
+		return this.vaultAccess;
+	}
+
 	/**
 	 * Initialize connection to an AI agent.
-	 * Spawns the agent process and establishes ACP connection.
+	 * Attaches this tab to the shared connection for the agent and spawn
+	 * config, starting the agent process if no other tab is using it.
 	 */
 	async initialize(config: AgentConfig): Promise<InitializeResult> {
 		this.logger.log(
 			"[AcpAdapter] Starting initialization with config:",
 			config,
 		);
-		this.logger.log(
-			`[AcpAdapter] Current state - process: ${!!this.agentProcess}, PID: ${this.agentProcess?.pid}`,
-		);
-
-		// Clean up existing process if any (e.g., when switching agents)
-		if (this.agentProcess) {
-			this.logger.log(
-				`[AcpAdapter] Killing existing process (PID: ${this.agentProcess.pid})`,
-			);
-			this.agentProcess.kill();
-			this.agentProcess = null;
-		}
-
-		// Clean up existing connection
-		if (this.connection) {
-			this.logger.log("[AcpAdapter] Cleaning up existing connection");
-			this.connection = null;
-		}
 
 		this.currentConfig = config;
+		this.isInitializedFlag = false;
 
-		// Check if command is configured
-		if (!config.command || config.command.trim().length === 0) {
+		// Check if command is configured (remote agents need none)
+		if (
+			!isRemoteTransport(config) &&
+			(!config.command || config.command.trim().length === 0)
+		) {
 			// For known agents, emit error with install option
 			if (isKnownAgent(config.id)) {
 				const agentError: AgentError = {
@@ -203,544 +272,69 @@ export class AcpAdapter implements IAgentClient, IAcpClient {
 			);
 		}
 
-		const command = config.command.trim();
-		const args = config.args.length > 0 ? [...config.args] : [];
-
-		// Pre-flight: verify the command actually exists before spawning.
-		// Without this, missing binaries surface as "ACP connection closed"
-		// on Windows (exit code 1, not 127), which is unhelpful — especially
-		// for users upgrading from claude-code-acp to claude-agent-acp who
-		// haven't reinstalled the npm package yet.
-		if (
-			!this.plugin.settings.windowsWslMode &&
-			!(await this.commandExistsAsync(command))
-		) {
-			this.logger.error(
-				`[AcpAdapter] Pre-flight: command not found: ${command}`,
-			);
-			if (isKnownAgent(config.id)) {
-				const agentError: AgentError = {
-					id: crypto.randomUUID(),
-					category: "configuration",
-					severity: "error",
-					title: "Command Not Found",
-					message: `${getAgentDisplayName(config.id)} is not installed (looked for "${command}"). Click "Install" to install the latest version automatically.`,
-					suggestion:
-						"Click 'Install' to install via npm, or configure the path manually in settings.",
-					occurredAt: new Date(),
-					agentId: config.id,
-					code: "COMMAND_NOT_FOUND",
-					canAutoInstall: true,
-				};
-				this.errorCallback?.(agentError);
-				const wrappedError = new Error(agentError.message);
-				(wrappedError as Error & { agentError: AgentError }).agentError =
-					agentError;
-				throw wrappedError;
-			}
-			throw new Error(
-				`Command "${command}" not found. Check the agent's command path in settings.`,
-			);
-		}
-
-		this.logger.log(
-			`[AcpAdapter] Active agent: ${config.displayName} (${config.id})`,
-		);
-		this.logger.log("[AcpAdapter] Command:", command);
-		this.logger.log(
-			"[AcpAdapter] Args:",
-			args.length > 0 ? args.join(" ") : "(none)",
-		);
-
-		// Prepare environment variables
-		let baseEnv: NodeJS.ProcessEnv = {
-			...process.env,
-			...(config.env || {}),
-		};
-
-		// On Windows, enhance PATH with full system/user PATH from registry.
-		// Electron apps launched from shortcuts don't inherit the full PATH,
-		// which causes executables like python, node, etc. to not be found.
-		if (Platform.isWin && !this.plugin.settings.windowsWslMode) {
-			baseEnv = getEnhancedWindowsEnv(baseEnv);
-		}
-
-		// Add Node.js path to PATH if specified in settings
-		if (
-			this.plugin.settings.nodePath &&
-			this.plugin.settings.nodePath.trim().length > 0
-		) {
-			const nodeDir = resolveCommandDirectory(
-				this.plugin.settings.nodePath.trim(),
-			);
-			if (nodeDir) {
-				const separator = Platform.isWin ? ";" : ":";
-				prependToPath(baseEnv, nodeDir, separator);
-			}
-		}
-
-		this.logger.log(
-			"[AcpAdapter] Starting agent process in directory:",
-			config.workingDirectory,
-		);
-
-		// Prepare command and args for spawning
-		let spawnCommand = command;
-		let spawnArgs = args;
-
-		// WSL mode for Windows (wrap command to run inside WSL)
-		if (Platform.isWin && this.plugin.settings.windowsWslMode) {
-			// Extract node directory from settings for PATH
-			const nodeDir = this.plugin.settings.nodePath
-				? resolveCommandDirectory(
-						this.plugin.settings.nodePath.trim(),
-					) || undefined
-				: undefined;
-
-			const wslWrapped = wrapCommandForWsl(
-				command,
-				args,
-				config.workingDirectory,
-				this.plugin.settings.windowsWslDistribution,
-				nodeDir,
-				// Agent command is a single executable path — escape it so
-				// paths with spaces survive the bash -c wrapping.
-				true,
-			);
-			spawnCommand = wslWrapped.command;
-			spawnArgs = wslWrapped.args;
-			this.logger.log(
-				"[AcpAdapter] Using WSL mode:",
-				this.plugin.settings.windowsWslDistribution || "default",
-				"with command:",
-				spawnCommand,
-				spawnArgs,
-			);
-		}
-		// On macOS and Linux, wrap the command in a login shell to inherit the user's environment
-		// This ensures that PATH modifications in .zshrc/.bash_profile are available
-		else if (Platform.isMacOS || Platform.isLinux) {
-			const shell = Platform.isMacOS ? "/bin/zsh" : "/bin/bash";
-			const commandString = [command, ...args]
-				.map((arg) => "'" + arg.replace(/'/g, "'\\''") + "'")
-				.join(" ");
-
-			// If nodePath is configured, prepend PATH export to ensure node is available.
-			// This is necessary because:
-			// 1. Login shells (-l) re-initialize PATH from shell config files, overwriting env.PATH
-			// 2. Even when the agent command uses an absolute path, scripts with shebang
-			//    "#!/usr/bin/env node" require node to be in PATH for the env command to find it
-			// Therefore, we must explicitly set PATH inside the shell command
-			let fullCommand = commandString;
-			if (
-				this.plugin.settings.nodePath &&
-				this.plugin.settings.nodePath.trim().length > 0
-			) {
-				const nodeDir = resolveCommandDirectory(
-					this.plugin.settings.nodePath.trim(),
-				);
-				if (nodeDir) {
-					// Escape single quotes in nodeDir for shell safety
-					const escapedNodeDir = nodeDir.replace(/'/g, "'\\''");
-					fullCommand = `export PATH='${escapedNodeDir}':"$PATH"; ${commandString}`;
-				}
-			}
-
-			spawnCommand = shell;
-			spawnArgs = ["-l", "-c", fullCommand];
-			this.logger.log(
-				"[AcpAdapter] Using login shell:",
-				shell,
-				"with command:",
-				fullCommand,
-			);
-		}
-		// On Windows (non-WSL), escape command and arguments for cmd.exe
-		// spawn() will be called with shell: true below
-		else if (Platform.isWin) {
-			spawnCommand = escapeShellArgWindows(command);
-			spawnArgs = args.map(escapeShellArgWindows);
-			this.logger.log(
-				"[AcpAdapter] Using Windows shell with command:",
-				spawnCommand,
-				spawnArgs,
-			);
+		// Sessions on the previous connection (e.g. when switching agents)
+		// end with this tab's use of it
+		if (this.pooled && this.attachedSessionId) {
+			this.pooled.unregisterSession(this.attachedSessionId, this);
+			this.attachedSessionId = null;
 		}
 
-		// Use shell on Windows for proper argument handling, but NOT in WSL mode
-		// When using WSL, wsl.exe is the command and doesn't need shell wrapper
-		const needsShell =
-			Platform.isWin && !this.plugin.settings.windowsWslMode;
-
-		// Spawn the agent process
-		// On Windows, explicitly specify cmd.exe path to avoid ENOENT errors when PATH is broken
-		const agentProcess = spawn(spawnCommand, spawnArgs, {
-			stdio: ["pipe", "pipe", "pipe"],
-			env: baseEnv,
-			cwd: config.workingDirectory,
-			shell: needsShell ? (process.env.ComSpec || "C:\\Windows\\System32\\cmd.exe") : false,
-		});
-		this.agentProcess = agentProcess;
-
-		const agentLabel = `${config.displayName} (${config.id})`;
-
-		// Set up process event handlers
-		agentProcess.on("spawn", () => {
-			this.logger.log(
-				`[AcpAdapter] ${agentLabel} process spawned successfully, PID:`,
-				agentProcess.pid,
-			);
-		});
-
-		agentProcess.on("error", (error) => {
-			this.logger.error(
-				`[AcpAdapter] ${agentLabel} process error:`,
-				error,
-			);
-
-			const agentError: AgentError = {
-				id: crypto.randomUUID(),
-				category: "connection",
-				severity: "error",
-				occurredAt: new Date(),
-				agentId: config.id,
-				originalError: error,
-				...this.getErrorInfo(error, command, agentLabel),
-			};
-
-			this.errorCallback?.(agentError);
-		});
-
-		agentProcess.on("exit", (code, signal) => {
-			this.logger.log(
-				`[AcpAdapter] ${agentLabel} process exited with code:`,
-				code,
-				"signal:",
-				signal,
-			);
-
-			if (code === 127) {
-				this.logger.error(`[AcpAdapter] Command not found: ${command}`);
-
-				const commandName =
-					command.split("/").pop()?.split("\\").pop() || command;
-
-				// Check if this is a known agent that can be installed
-				const canAutoInstall = isKnownAgent(config.id);
-
-				const agentError: AgentError = {
-					id: crypto.randomUUID(),
-					category: "configuration",
-					severity: "error",
-					title: "Command Not Found",
-					message: canAutoInstall
-						? `${getAgentDisplayName(config.id)} is not installed. Click "Install" to install it automatically.`
-						: `The command "${command}" could not be found. Please check the path configuration for ${agentLabel}.`,
-					suggestion: canAutoInstall
-						? "Click 'Install' to install via npm, or configure the path manually in settings."
-						: this.getCommandNotFoundSuggestion(command, commandName),
-					occurredAt: new Date(),
-					agentId: config.id,
-					code: code,
-					canAutoInstall,
-				};
-
-				this.errorCallback?.(agentError);
-			}
-		});
-
-		agentProcess.on("close", (code, signal) => {
-			this.logger.log(
-				`[AcpAdapter] ${agentLabel} process closed with code:`,
-				code,
-				"signal:",
-				signal,
-			);
-		});
-
-		agentProcess.stderr?.setEncoding("utf8");
-		const currentAgentId = config.id;
-		agentProcess.stderr?.on("data", (data) => {
-			// Always log stderr so users can diagnose agent crashes without
-			// having to enable debug mode first.
-			console.error(`[AcpAdapter] ${agentLabel} stderr:`, data);
-			void this.plugin.errorLog?.logError({
-				source: "acp-stderr",
-				agentId: currentAgentId,
-				message: typeof data === "string" ? data : String(data),
-			});
-		});
-
-		// Create stream for ACP communication
-		// stdio is configured as ["pipe", "pipe", "pipe"] so stdin/stdout are guaranteed to exist
-		if (!agentProcess.stdin || !agentProcess.stdout) {
-			throw new Error("Agent process stdin/stdout not available");
-		}
-
-		const stdin = agentProcess.stdin;
-		const stdout = agentProcess.stdout;
-
-		// Wire-tap using Node.js Transform streams — must be done BEFORE
-		// calling .toWeb() so we never mix Node.js Web Streams with Chromium's
-		// WHATWG Web Streams. Mixing them causes:
-		//   "transform.readable must be an instance of ReadableStream.
-		//    Received an instance of ReadableStream"
-		// because Node's ReadableStream and Chromium's ReadableStream are
-		// different classes even though they implement the same spec.
-		const errorLog = this.plugin.errorLog;
-		const tapAgentId = config.id;
-
-		// Outgoing tap: ACP SDK → stdinTap (logs) → process stdin
-		let outBuffer = "";
-		const stdinTap = new Transform({
-			transform(
-				chunk: Buffer,
-				_enc: BufferEncoding,
-				done: (err?: Error | null, data?: Buffer) => void,
-			) {
-				if (errorLog) {
-					try {
-						outBuffer += chunk.toString("utf-8");
-						let idx = outBuffer.indexOf("\n");
-						while (idx >= 0) {
-							const line = outBuffer.slice(0, idx).trim();
-							outBuffer = outBuffer.slice(idx + 1);
-							if (line.length > 0) {
-								void logWireLine(errorLog, "out", line, tapAgentId);
-							}
-							idx = outBuffer.indexOf("\n");
-						}
-					} catch {
-						// Logging must never break the stream.
-					}
-				}
-				done(null, chunk);
-			},
-			flush(done: (err?: Error | null) => void) {
-				if (errorLog && outBuffer.trim().length > 0) {
-					void logWireLine(errorLog, "out", outBuffer.trim(), tapAgentId);
-					outBuffer = "";
-				}
-				done();
-			},
-		});
-		stdinTap.pipe(stdin);
-
-		// Incoming tap: process stdout → stdoutTap (logs) → ACP SDK
-		let inBuffer = "";
-		const stdoutTap = new Transform({
-			transform(
-				chunk: Buffer,
-				_enc: BufferEncoding,
-				done: (err?: Error | null, data?: Buffer) => void,
-			) {
-				if (errorLog) {
-					try {
-						inBuffer += chunk.toString("utf-8");
-						let idx = inBuffer.indexOf("\n");
-						while (idx >= 0) {
-							const line = inBuffer.slice(0, idx).trim();
-							inBuffer = inBuffer.slice(idx + 1);
-							if (line.length > 0) {
-								void logWireLine(errorLog, "in", line, tapAgentId);
-							}
-							idx = inBuffer.indexOf("\n");
-						}
-					} catch {
-						// Logging must never break the stream.
-					}
-				}
-				done(null, chunk);
-			},
-			flush(done: (err?: Error | null) => void) {
-				if (errorLog && inBuffer.trim().length > 0) {
-					void logWireLine(errorLog, "in", inBuffer.trim(), tapAgentId);
-					inBuffer = "";
-				}
-				done();
-			},
-		});
-		stdout.pipe(stdoutTap);
-
-		// Convert tapped Node.js streams to Web Streams for the ACP SDK.
-		// Both sides are now pure Node.js streams — no Chromium/Node mismatch.
-		/* eslint-disable @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access */
-		const input = (Writable as any).toWeb(stdinTap) as WritableStream<Uint8Array>;
-		const output = (Readable as any).toWeb(stdoutTap) as ReadableStream<Uint8Array>;
-		/* eslint-enable @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access */
-
-		this.logger.log(
-			"[AcpAdapter] Using working directory:",
-			config.workingDirectory,
-		);
-
-		const stream = acp.ndJsonStream(input, output);
-		this.connection = new acp.ClientSideConnection(() => this, stream);
-
 		try {
-			this.logger.log("[AcpAdapter] Starting ACP initialization...");
-
-			// Add timeout to prevent hanging forever
-			const initPromise = this.connection.initialize({
-				protocolVersion: acp.PROTOCOL_VERSION,
-				clientCapabilities: {
-					fs: {
-						readTextFile: false,
-						writeTextFile: false,
-					},
-					terminal: true,
-					// Advertise gateway auth support so the agent offers the
-					// gateway method instead of requiring a local Claude login.
-					auth: {
-						_meta: { gateway: true },
-					},
-				},
-				clientInfo: {
-					name: "aitoolsforobsidian",
-					title: "AI Tools for Obsidian",
-					version: this.plugin.manifest.version,
-				},
-			});
-
-			let initTimeoutId: ReturnType<typeof setTimeout>;
-		const timeoutPromise = new Promise<never>((_, reject) => {
-				initTimeoutId = setTimeout(() => {
-					const causes: string[] = [];
-
-					// Suggest install command for known agents
-					const installCmd = getAgentInstallCommand(config.id);
-					if (installCmd) {
-						causes.push(`The agent package may not be installed. Run:\n  ${installCmd}`);
-					}
-
-					// WSL hint on Windows
-					if (Platform.isWin && this.plugin.settings.windowsWslMode) {
-						causes.push("WSL may not be installed or configured. Run: wsl --install");
-					}
-
-					causes.push("Missing or invalid API key/environment variables");
-					causes.push("Network connectivity issues");
-
-					const message = [
-						"Agent initialization timed out after 30 seconds.",
-						"",
-						"The agent process started but did not respond. Common causes:",
-						"",
-						...causes.map(c => `\u2022 ${c}`),
-						"",
-						`Check the console logs (Ctrl+Shift+I) for more details. Node version: ${process.version}`,
-					].join("\n");
-
-					reject(new Error(message));
-				}, 30000);
-			});
-
-			// If the timeout wins the race, a later rejection of initPromise
-			// would otherwise surface as an unhandled rejection.
-			initPromise.catch(() => {});
-
-			let initResult: Awaited<typeof initPromise>;
-			try {
-				initResult = await Promise.race([initPromise, timeoutPromise]);
-			} finally {
-				// Always clear the timer: if init fails fast, a stray timeout
-				// would reject the (already-raced) promise 30s later as an
-				// unhandled rejection.
-				clearTimeout(initTimeoutId!);
-			}
-
-			// Note: do NOT call connection.authenticate(gateway) here. When
-			// gateway auth is configured the agent forces ANTHROPIC_AUTH_TOKEN=" "
-			// on the Claude CLI subprocess, which makes Claude CLI emit its own
-			// (empty) Authorization header that overrides the gateway's real
-			// header. By not authenticating, the user's ANTHROPIC_AUTH_TOKEN /
-			// ANTHROPIC_BASE_URL env vars (set in buildAgentConfigWithApiKey)
-			// pass straight through process.env to the Claude CLI, which is the
-			// same flow that worked before the v0.37.0 agent upgrade.
-
-			this.logger.log(
-				`[AcpAdapter] ✅ Connected to agent (protocol v${initResult.protocolVersion})`,
-			);
-			this.logger.log(
-				"[AcpAdapter] Auth methods:",
-				initResult.authMethods,
-			);
-			this.logger.log(
-				"[AcpAdapter] Agent capabilities:",
-				initResult.agentCapabilities,
-			);
-
-			// Mark as initialized and store agent ID
+			const { connection, initResult } =
+				await this.plugin.acpConnections.acquire(config, this);
+			this.pooled = connection;
 			this.isInitializedFlag = true;
 			this.currentAgentId = config.id;
-
-			// Extract capabilities from agent capabilities
-			const promptCaps = initResult.agentCapabilities?.promptCapabilities;
-			const mcpCaps = initResult.agentCapabilities?.mcpCapabilities;
-			const sessionCaps =
-				initResult.agentCapabilities?.sessionCapabilities;
-
-			return {
-				protocolVersion: initResult.protocolVersion,
-				authMethods: initResult.authMethods || [],
-				// Convenience accessor for prompt capabilities
-				promptCapabilities: {
-					image: promptCaps?.image ?? false,
-					audio: promptCaps?.audio ?? false,
-					embeddedContext: promptCaps?.embeddedContext ?? false,
-				},
-				// Full agent capabilities
-				agentCapabilities: {
-					loadSession:
-						initResult.agentCapabilities?.loadSession ?? false,
-					// Session capabilities (unstable features)
-					sessionCapabilities: sessionCaps
-						? {
-								resume: sessionCaps.resume ?? undefined,
-								fork: sessionCaps.fork ?? undefined,
-								list: sessionCaps.list ?? undefined,
-							}
-						: undefined,
-					mcpCapabilities: mcpCaps
-						? {
-								http: mcpCaps.http ?? false,
-								sse: mcpCaps.sse ?? false,
-							}
-						: undefined,
-					promptCapabilities: {
-						image: promptCaps?.image ?? false,
-						audio: promptCaps?.audio ?? false,
-						embeddedContext: promptCaps?.embeddedContext ?? false,
-					},
-				},
-				// Agent implementation info
-				agentInfo: initResult.agentInfo
-					? {
-							name: initResult.agentInfo.name,
-							title: initResult.agentInfo.title ?? undefined,
-							version: initResult.agentInfo.version ?? undefined,
-						}
-					: undefined,
-			};
+			return initResult;
 		} catch (error) {
 			this.logger.error("[AcpAdapter] Initialization Error:", error);
-
-			// Force kill the process if initialization failed
-			if (this.agentProcess) {
-				this.logger.log(`[AcpAdapter] Killing orphaned process on init failure (PID: ${this.agentProcess.pid})`);
-				this.agentProcess.kill();
-				this.agentProcess = null;
-			}
-
-			// Clean up connection and reset flags on failure
-			this.connection = null;
-			this.isInitializedFlag = false;
+			this.pooled = null;
 			this.currentAgentId = null;
-
 			throw error;
 		}
 	}
 
+	/**
+	 * Build the MCP server list for session/new, load, resume and fork.
+	 *
+	 * Read from settings on every call so edits apply to the next session
+	 * without restarting the agent. The built-in vault server is appended
+	 * after user-configured servers.
+	 */
+	private async buildMcpServers(): Promise<acp.McpServer[]> {
+		if (!this.currentAgentId) {
+			return [];
+		}
+		const configured = [...this.plugin.settings.mcpServers];
+		const vaultServer = await this.plugin.vaultMcp?.getServerSettings(this);
+		if (vaultServer) {
+			configured.push(vaultServer);
+		}
+		const servers = selectMcpServersForAgent(
+			configured,
+			this.currentAgentId,
+			this.pooled?.mcpCapabilities,
+		);
+		if (servers.length > 0) {
+			this.logger.log(
+				`[AcpAdapter] Passing MCP servers: ${servers.map((s) => `${s.name} (${s.transport})`).join(", ")}`,
+			);
+		}
+		// Resolve secret references only now, so they never sit in settings
+		const getSecret = (name: string) => this.plugin.secrets.get(name);
+		return servers.map((server) =>
+			AcpTypeConverter.toAcpMcpServer({
+				...server,
+				args: server.args.map((arg) =>
+					resolveSecretRefs(arg, getSecret),
+				),
+				env: resolveEnvVarSecrets(server.env, getSecret),
+				url: resolveSecretRefs(server.url, getSecret),
+				headers: resolveEnvVarSecrets(server.headers, getSecret),
+			}),
+		);
+	}
+
 	/**
 	 * Create a new chat session with the agent.
 	 */
@@ -767,7 +361,7 @@ export class AcpAdapter implements IAgentClient, IAcpClient {
 
 			const sessionResult = await this.connection.newSession({
 				cwd: sessionCwd,
-				mcpServers: [],
+				mcpServers: await this.buildMcpServers(),
 			});
 
 			this.logger.log(
@@ -816,6 +410,7 @@ export class AcpAdapter implements IAgentClient, IAcpClient {
 				);
 			}
 
+			this.attachSession(sessionResult.sessionId);
 			return {
 				sessionId: sessionResult.sessionId,
 				modes,
@@ -854,7 +449,7 @@ export class AcpAdapter implements IAgentClient, IAcpClient {
 	async sendPrompt(
 		sessionId: string,
 		content: PromptContent[],
-	): Promise<void> {
+	): Promise<PromptResult> {
 		if (!this.connection) {
 			throw new Error(
 				"Connection not initialized. Call initialize() first.",
@@ -882,6 +477,11 @@ export class AcpAdapter implements IAgentClient, IAcpClient {
 			this.logger.log(
 				`[AcpAdapter] Agent completed with: ${promptResult.stopReason}`,
 			);
+			if (promptResult.usage) {
+				this.logger.log("[AcpAdapter] Turn usage:", promptResult.usage);
+			}
+
+			return AcpTypeConverter.toPromptResult(promptResult);
 		} catch (error: unknown) {
 			this.logger.error("[AcpAdapter] Prompt Error:", error);
 
@@ -921,14 +521,14 @@ export class AcpAdapter implements IAgentClient, IAcpClient {
 						this.logger.log(
 							"[AcpAdapter] Empty response text error - ignoring",
 						);
-						return;
+						return { stopReason: "end_turn" };
 					}
 					// Ignore "user aborted" errors (from cancel operation)
 					if (errorData.details.includes("user aborted")) {
 						this.logger.log(
 							"[AcpAdapter] User aborted request - ignoring",
 						);
-						return;
+						return { stopReason: "cancelled" };
 					}
 				}
 			}
@@ -980,18 +580,12 @@ export class AcpAdapter implements IAgentClient, IAcpClient {
 
 		// Cancel all pending operations
 		this.cancelAllOperations();
+		this.attachedSessionId = null;
 
-		// Kill the agent process
-		if (this.agentProcess) {
-			this.logger.log(
-				`[AcpAdapter] Killing agent process (PID: ${this.agentProcess.pid})`,
-			);
-			this.agentProcess.kill();
-			this.agentProcess = null;
-		}
-
-		// Clear connection and config references
-		this.connection = null;
+		// Leave the shared connection; the pool kills the agent process
+		// once no other tab uses it
+		this.plugin.acpConnections.release(this);
+		this.pooled = null;
 		this.currentConfig = null;
 
 		// Reset initialization state
@@ -1108,11 +702,7 @@ export class AcpAdapter implements IAgentClient, IAcpClient {
 	 * Implementation of IAgentClient.isInitialized()
 	 */
 	isInitialized(): boolean {
-		return (
-			this.isInitializedFlag &&
-			this.connection !== null &&
-			this.agentProcess !== null
-		);
+		return this.isInitializedFlag && (this.pooled?.isReady() ?? false);
 	}
 
 	/**
@@ -1191,8 +781,8 @@ export class AcpAdapter implements IAgentClient, IAcpClient {
 	 * Register a callback to receive session updates from the agent.
 	 *
 	 * This unified callback receives all session update events:
-	 * - agent_message_chunk: Text chunk from agent's response
-	 * - agent_thought_chunk: Text chunk from agent's reasoning
+	 * - agent_message_chunk: Chunk from agent's response (text, image, resource)
+	 * - agent_thought_chunk: Chunk from agent's reasoning
 	 * - tool_call: New tool call event
 	 * - tool_call_update: Update to existing tool call
 	 * - plan: Agent's task plan
@@ -1214,167 +804,228 @@ export class AcpAdapter implements IAgentClient, IAcpClient {
 	}
 
 	/**
-	 * Respond to a permission request from the agent.
+	 * Register callback for crash recovery notifications.
+	 *
+	 * Implementation of IAgentClient.onRecovery()
 	 */
-	respondToPermission(requestId: string, optionId: string): Promise<void> {
-		if (!this.connection) {
-			throw new Error(
-				"ACP connection not initialized. Call initialize() first.",
-			);
-		}
-
-		this.logger.log(
-			"[AcpAdapter] Responding to permission request:",
-			requestId,
-			"with option:",
-			optionId,
-		);
-		this.handlePermissionResponse(requestId, optionId);
-		return Promise.resolve();
+	onRecovery(callback: (event: AgentRecoveryEvent) => void): void {
+		this.recoveryCallback = callback;
 	}
 
-	// Helper methods
+	// ========================================================================
+	// Connection Events (AcpConnectionClient)
+	// ========================================================================
 
 	/**
-	 * Get error information for process spawn errors.
+	 * Route this tab's session through the shared connection, replacing
+	 * the session it used before.
 	 */
-	private getErrorInfo(
-		error: Error,
-		command: string,
-		agentLabel: string,
-	): { title: string; message: string; suggestion: string } {
-		const commandName =
-			command.split("/").pop()?.split("\\").pop() || command;
-
-		if ((error as NodeJS.ErrnoException).code === "ENOENT") {
-			return {
-				title: "Command Not Found",
-				message: `Could not find "${commandName}". This could mean:`,
-				suggestion: this.getCommandNotFoundSuggestion(command, commandName),
-			};
-		}
-
-		// Handle common exit codes
-		if ("code" in error && (error as { code?: number }).code === 127) {
-			return {
-				title: "Executable Not Found",
-				message: `"${commandName}" was not found at the specified path.`,
-				suggestion: this.getCommandNotFoundSuggestion(command, commandName),
-			};
+	private attachSession(sessionId: string): void {
+		if (this.attachedSessionId && this.attachedSessionId !== sessionId) {
+			this.pooled?.unregisterSession(this.attachedSessionId, this);
 		}
-
-		return {
-			title: "Agent Startup Error",
-			message: `Failed to start ${agentLabel}: ${error.message}`,
-			suggestion: "Please check the agent path and Node.js configuration in settings.",
-		};
+		this.pooled?.registerSession(sessionId, this);
+		this.attachedSessionId = sessionId;
 	}
 
-	private commandExistsAsync(command: string): Promise<boolean> {
-		// Full path: just stat it synchronously — always instant.
-		if (
-			command.includes("/") ||
-			command.includes("\\") ||
-			/^[A-Za-z]:/.test(command)
-		) {
-			return Promise.resolve(existsSync(command));
+	/**
+	 * Undo an early registration after session/load or session/resume failed.
+	 */
+	private releaseUnattachedSession(sessionId: string): void {
+		if (sessionId !== this.attachedSessionId) {
+			this.pooled?.unregisterSession(sessionId, this);
 		}
+	}
 
-		const nodePath = this.plugin.settings.nodePath?.trim();
-		const nodeDir = nodePath ? resolveCommandDirectory(nodePath) : null;
-
-		return new Promise<boolean>((resolve) => {
-			try {
-				let spawnCommand: string;
-				let spawnArgs: string[];
-				let env: NodeJS.ProcessEnv = { ...process.env };
-
-				if (Platform.isWin) {
-					env = getEnhancedWindowsEnv(env);
-					if (nodeDir) {
-						prependToPath(env, nodeDir, ";");
-					}
-					spawnCommand = "where.exe";
-					spawnArgs = [command];
-				} else {
-					// macOS / Linux: login shell so nvm/homebrew PATH is visible.
-					const shell = Platform.isMacOS ? "/bin/zsh" : "/bin/bash";
-					const safeCmd = command.replace(/'/g, "'\\''");
-					let shellCmd = `which '${safeCmd}'`;
-					if (nodeDir) {
-						const safeNodeDir = nodeDir.replace(/'/g, "'\\''");
-						shellCmd = `export PATH='${safeNodeDir}':"$PATH"; ${shellCmd}`;
-					}
-					spawnCommand = shell;
-					spawnArgs = ["-l", "-c", shellCmd];
-				}
-
-				const child = spawn(spawnCommand, spawnArgs, {
-					stdio: ["pipe", "pipe", "pipe"],
-					env,
-				});
-
-				let stdout = "";
-				child.stdout?.on("data", (data: unknown) => {
-					stdout += typeof data === "string" ? data : String(data);
-				});
-
-				// Timeout: resolve true so we proceed and let the actual agent
-				// spawn surface a real error if the binary is missing.
-				const timer = setTimeout(() => {
-					child.kill();
-					resolve(true);
-				}, 3000);
+	handleConnectionError(error: AgentError): void {
+		this.errorCallback?.(error);
+	}
 
-				child.on("close", (code: number | null) => {
-					clearTimeout(timer);
-					resolve(code === 0 && !!stdout.trim());
-				});
+	/**
+	 * The shared process died: pending permission prompts and terminals
+	 * belonged to its connection.
+	 */
+	handleConnectionLost(crash: AgentCrash): void {
+		this.logger.error(
+			`[AcpAdapter] Agent connection lost (${crash.cause}, code: ${crash.exitCode}, signal: ${crash.signal}), session: ${this.attachedSessionId}`,
+		);
+		this.cancelAllOperations();
+		this.isInitializedFlag = false;
+	}
 
-				child.on("error", () => {
-					clearTimeout(timer);
-					resolve(false);
-				});
-			} catch {
-				resolve(false);
-			}
+	handleRestartScheduled(crash: AgentCrash): void {
+		if (!this.currentConfig) {
+			return;
+		}
+		this.recoveryCallback?.({
+			status: "restarting",
+			cause: crash.cause,
+			agentId: this.currentConfig.id,
+			attempt: crash.attempt,
+			maxAttempts: crash.maxAttempts,
+			exitCode: crash.exitCode,
+			signal: crash.signal,
+			delayMs: crash.delayMs,
+			previousSessionId: this.attachedSessionId ?? undefined,
+			occurredAt: new Date(),
 		});
 	}
 
 	/**
-	 * Get user-friendly suggestions for command not found errors.
+	 * Re-attach the chat's session on the restarted process, preferring
+	 * session/resume, then session/load, then a new session.
 	 */
-	private getCommandNotFoundSuggestion(
-		command: string,
-		commandName: string,
-	): string {
-		// Build helpful suggestion based on the command
-		const installCommands: Record<string, string> = {
-			"claude-agent-acp":
-				"npm install -g @agentclientprotocol/claude-agent-acp",
-			"codex-acp": "npm install -g @zed-industries/codex-acp",
-			gemini: "npm install -g @google/gemini-cli",
-		};
+	async handleConnectionRestored(
+		crash: AgentCrash,
+		initResult: InitializeResult,
+	): Promise<void> {
+		const config = this.currentConfig;
+		if (!config) {
+			return;
+		}
+		this.isInitializedFlag = true;
+		const previousSessionId = this.attachedSessionId;
+		const capabilities = initResult.agentCapabilities;
 
-		const installHint = installCommands[commandName]
-			? `Install with: ${installCommands[commandName]}`
-			: "Make sure the agent is properly installed.";
+		try {
+			let method: SessionReattachMethod = "new";
+			let result: NewSessionResult | null = null;
+			if (
+				previousSessionId &&
+				capabilities?.sessionCapabilities?.resume
+			) {
+				try {
+					result = await this.resumeSession(
+						previousSessionId,
+						config.workingDirectory,
+					);
+					method = "resume";
+				} catch (error) {
+					this.logger.warn(
+						"[AcpAdapter] Resume after crash failed:",
+						error,
+					);
+				}
+			}
+			if (!result && previousSessionId && capabilities?.loadSession) {
+				// The chat already shows the history; drop the replay
+				this.suppressReplaySessionId = previousSessionId;
+				try {
+					result = await this.loadSession(
+						previousSessionId,
+						config.workingDirectory,
+					);
+					method = "load";
+				} catch (error) {
+					this.logger.warn(
+						"[AcpAdapter] Load after crash failed:",
+						error,
+					);
+				} finally {
+					this.suppressReplaySessionId = null;
+				}
+			}
+			if (!result) {
+				result = await this.newSession(config.workingDirectory);
+				method = "new";
+			}
 
-		if (Platform.isWin) {
-			return `${installHint}
+			this.logger.log(
+				`[AcpAdapter] Recovered ${config.id} after crash (${method}): ${previousSessionId} -> ${result.sessionId}`,
+			);
+			this.recoveryCallback?.({
+				status: "recovered",
+				cause: crash.cause,
+				agentId: config.id,
+				attempt: crash.attempt,
+				maxAttempts: crash.maxAttempts,
+				exitCode: crash.exitCode,
+				signal: crash.signal,
+				previousSessionId: previousSessionId ?? undefined,
+				sessionId: result.sessionId,
+				method,
+				modes: result.modes,
+				models: result.models,
+				occurredAt: new Date(),
+			});
+		} catch (error) {
+			this.logger.error(
+				"[AcpAdapter] Re-attaching session after restart failed:",
+				error,
+			);
+			this.handleRestartFailed(crash);
+		}
+	}
 
-To fix:
-1. Open Settings → AI Tools → Path
-2. Enter the full path to ${commandName}
-3. Or click "Auto-detect" to find it automatically`;
+	/**
+	 * Give up on recovery and surface the crash as an error.
+	 */
+	handleRestartFailed(crash: AgentCrash): void {
+		const config = this.currentConfig;
+		if (!config) {
+			return;
+		}
+		this.recoveryCallback?.({
+			status: "failed",
+			cause: crash.cause,
+			agentId: config.id,
+			attempt: crash.attempt,
+			maxAttempts: crash.maxAttempts,
+			exitCode: crash.exitCode,
+			signal: crash.signal,
+			previousSessionId: this.attachedSessionId ?? undefined,
+			occurredAt: new Date(),
+		});
+		this.isInitializedFlag = false;
+		this.currentAgentId = null;
+		const { exitCode, signal, attempt } = crash;
+		let message: string;
+		if (crash.cause === "disconnect") {
+			message =
+				attempt > 0
+					? `Lost the connection to ${config.displayName} and could not reconnect after ${attempt} attempts.`
+					: `Lost the connection to ${config.displayName}.`;
 		} else {
-			return `${installHint}
+			message =
+				attempt > 0
+					? `${config.displayName} exited unexpectedly and could not be restarted after ${attempt} attempts.`
+					: `${config.displayName} exited unexpectedly${exitCode !== null ? ` (exit code ${exitCode})` : signal ? ` (${signal})` : ""}.`;
+		}
+		this.errorCallback?.({
+			id: crypto.randomUUID(),
+			category: "connection",
+			severity: "error",
+			title:
+				crash.cause === "disconnect"
+					? "Agent Disconnected"
+					: "Agent Stopped",
+			message,
+			suggestion:
+				"Start a new chat to try again. The agent's output is in the error log (Settings → Diagnostics).",
+			occurredAt: new Date(),
+			agentId: config.id,
+			code: exitCode ?? undefined,
+		});
+	}
 
-To fix:
-1. Run "which ${commandName}" to find the correct path
-2. Or run "npm list -g --depth=0" to check if it's installed
-3. Update the path in Settings → AI Tools → Path`;
+	/**
+	 * Respond to a permission request from the agent.
+	 */
+	respondToPermission(requestId: string, optionId: string): Promise<void> {
+		if (!this.connection) {
+			throw new Error(
+				"ACP connection not initialized. Call initialize() first.",
+			);
 		}
+
+		this.logger.log(
+			"[AcpAdapter] Responding to permission request:",
+			requestId,
+			"with option:",
+			optionId,
+		);
+		this.handlePermissionResponse(requestId, optionId);
+		return Promise.resolve();
 	}
 
 	// ========================================================================
@@ -1390,38 +1041,39 @@ To fix:
 		const sessionId = params.sessionId;
 		this.logger.log("[AcpAdapter] sessionUpdate:", { sessionId, update });
 
+		// Re-attaching after a crash via session/load replays history the
+		// chat already shows; keep only session-level updates
+		if (
+			sessionId === this.suppressReplaySessionId &&
+			(update.sessionUpdate === "user_message_chunk" ||
+				update.sessionUpdate === "agent_message_chunk" ||
+				update.sessionUpdate === "agent_thought_chunk" ||
+				update.sessionUpdate === "tool_call" ||
+				update.sessionUpdate === "tool_call_update" ||
+				update.sessionUpdate === "plan")
+		) {
+			return Promise.resolve();
+		}
+
 		switch (update.sessionUpdate) {
 			case "agent_message_chunk":
-				if (update.content.type === "text") {
-					this.sessionUpdateCallback?.({
-						type: "agent_message_chunk",
-						sessionId,
-						text: update.content.text,
-					});
-				}
-				break;
-
 			case "agent_thought_chunk":
-				if (update.content.type === "text") {
-					this.sessionUpdateCallback?.({
-						type: "agent_thought_chunk",
-						sessionId,
-						text: update.content.text,
-					});
-				}
-				break;
-
-			case "user_message_chunk":
-				// Used for session/load to reconstruct user messages
-				if (update.content.type === "text") {
+			case "user_message_chunk": {
+				// user_message_chunk is used for session/load to reconstruct user messages
+				const content = AcpTypeConverter.toContentBlock(update.content);
+				if (content) {
 					this.sessionUpdateCallback?.({
-						type: "user_message_chunk",
+						type: update.sessionUpdate,
 						sessionId,
-						text: update.content.text,
+						content,
 					});
+				} else {
+					this.logger.log(
+						`[AcpAdapter] Ignoring unsupported ${update.sessionUpdate} content: ${update.content.type}`,
+					);
 				}
-				// Note: image, resource etc. ContentBlock types are not yet supported
 				break;
+			}
 
 			case "tool_call":
 			case "tool_call_update": {
@@ -1434,6 +1086,8 @@ To fix:
 					kind: update.kind ?? undefined,
 					content: AcpTypeConverter.toToolCallContent(update.content),
 					locations: update.locations ?? undefined,
+					rawInput: AcpTypeConverter.toRawToolData(update.rawInput),
+					rawOutput: AcpTypeConverter.toRawToolData(update.rawOutput),
 				});
 				break;
 			}
@@ -1480,6 +1134,18 @@ To fix:
 				});
 				break;
 			}
+
+			case "usage_update":
+				this.sessionUpdateCallback?.({
+					type: "usage_update",
+					sessionId,
+					usage: {
+						used: update.used,
+						size: update.size,
+						cost: update.cost ?? undefined,
+					},
+				});
+				break;
 		}
 		return Promise.resolve();
 	}
@@ -1501,6 +1167,19 @@ To fix:
 		}
 
 		const { resolve, toolCallId, options } = request;
+		const agentOption = request.agentOptions.find(
+			(option) => option.optionId === optionId,
+		);
+		this.auditUserDecision(toolCallId, request, agentOption);
+		if (
+			agentOption?.kind === "allow_always" ||
+			agentOption?.kind === "reject_always"
+		) {
+			this.rememberPermissionGrant(
+				request.facts,
+				agentOption.kind === "allow_always" ? "allow" : "reject",
+			);
+		}
 
 		// Reflect the selection in the UI immediately
 		this.updateMessage(toolCallId, {
@@ -1568,37 +1247,106 @@ To fix:
 	): Promise<acp.RequestPermissionResponse> {
 		this.logger.log("[AcpAdapter] Permission request received:", params);
 
-		// If auto-allow is enabled, automatically approve the first allow
-		// option. Read the setting live so toggling it mid-session applies
-		// immediately (it used to be snapshotted at initialize()).
-		if (this.plugin.settings.autoAllowPermissions) {
-			const allowOption = params.options.find(
-				(option) =>
-					option.kind === "allow_once" ||
-					option.kind === "allow_always" ||
-					(!option.kind &&
-						option.name.toLowerCase().includes("allow")),
-			);
+		const facts = this.buildPermissionFacts(params);
+		// Paths are case-insensitive on Windows and macOS
+		const ignoreCase = Platform.isWin || Platform.isMacOS;
+
+		// The profile's policy comes first, so a remembered "always allow"
+		// can't open up a read-only profile
+		const profileRule = findMatchingPermissionRule(
+			this.profilePermissionRules,
+			facts,
+			ignoreCase,
+		);
 
-			// Only auto-respond when a genuine allow option exists; otherwise
-			// fall through to the manual permission UI. Auto-selecting
-			// options[0] could auto-REJECT (or crash on an empty list).
-			if (allowOption) {
+		// Read the rules live so edits apply to the running session
+		const userRule = profileRule
+			? null
+			: findMatchingPermissionRule(
+					this.plugin.settings.permissionRules,
+					facts,
+					ignoreCase,
+				);
+
+		// A remembered "always" choice for this exact tool answers next,
+		// unless one of the user's reject or ask rules covers the request
+		const grant =
+			profileRule || (userRule && userRule.action !== "allow")
+				? null
+				: findPermissionGrant(
+						this.plugin.settings.permissionGrants,
+						facts,
+					);
+		if (grant) {
+			const option = selectOptionForAction(
+				params.options,
+				grant.decision,
+				"always",
+			);
+			if (option) {
 				this.logger.log(
-					"[AcpAdapter] Auto-allowing permission request:",
-					allowOption,
+					`[AcpAdapter] Permission ${grant.decision === "allow" ? "allowed" : "rejected"} by remembered grant ${grant.id}:`,
+					option,
 				);
+				void this.plugin.errorLog?.logPermissionDecision({
+					agentId: facts.agentId || undefined,
+					sessionId: params.sessionId,
+					toolCallId: params.toolCall?.toolCallId ?? "",
+					title: facts.title,
+					kind: facts.kind,
+					paths: facts.paths,
+					decidedBy: "grant",
+					grantId: grant.id,
+					optionId: option.optionId,
+					optionKind: option.kind ?? undefined,
+				});
+				this.touchPermissionGrant(grant.id);
 
-				return Promise.resolve({
+				return {
 					outcome: {
 						outcome: "selected",
-						optionId: allowOption.optionId,
+						optionId: option.optionId,
 					},
+				};
+			}
+		}
+
+		const rule = profileRule ?? userRule;
+
+		if (rule && rule.action !== "ask") {
+			const option = selectOptionForAction(params.options, rule.action);
+
+			// Only auto-respond when the agent offered a matching option;
+			// otherwise fall through to the manual permission UI.
+			if (option) {
+				this.logger.log(
+					`[AcpAdapter] Permission ${rule.action === "allow" ? "allowed" : "rejected"} by rule ${rule.id}:`,
+					option,
+				);
+				void this.plugin.errorLog?.logPermissionDecision({
+					agentId: facts.agentId || undefined,
+					sessionId: params.sessionId,
+					toolCallId: params.toolCall?.toolCallId ?? "",
+					title: facts.title,
+					kind: facts.kind,
+					paths: facts.paths,
+					decidedBy: "rule",
+					ruleId: rule.id,
+					rule: describePermissionRule(rule),
+					optionId: option.optionId,
+					optionKind: option.kind ?? undefined,
 				});
+
+				return {
+					outcome: {
+						outcome: "selected",
+						optionId: option.optionId,
+					},
+				};
 			}
 
 			this.logger.log(
-				"[AcpAdapter] Auto-allow enabled but no allow option found; showing manual UI",
+				`[AcpAdapter] Rule ${rule.id} matched but the agent offered no ${rule.action} option; showing manual UI`,
 			);
 		}
 
@@ -1655,6 +1403,7 @@ To fix:
 			content: AcpTypeConverter.toToolCallContent(
 				toolCallInfo?.content as acp.ToolCallContent[] | undefined,
 			),
+			rawInput: AcpTypeConverter.toRawToolData(toolCallInfo?.rawInput),
 			permissionRequest: permissionRequestData,
 		});
 
@@ -1664,10 +1413,156 @@ To fix:
 				resolve,
 				toolCallId,
 				options: normalizedOptions,
+				sessionId,
+				facts,
+				rule,
+				agentOptions: params.options,
 			});
 		});
 	}
 
+	/**
+	 * Check a change the plugin makes for the agent (vault MCP tools,
+	 * `_obsidian/insert_at_cursor`) like one of the agent's own tool
+	 * calls: profile policy, rules, grants, then a prompt, all recorded
+	 * in the audit log.
+	 *
+	 * @param title - What the change does, as shown to the user
+	 * @param path - Vault-relative path of the note
+	 * @returns True if the change was allowed
+	 */
+	async requestEditPermission(title: string, path: string): Promise<boolean> {
+		const toolCallId = crypto.randomUUID();
+		const response = await this.requestPermission({
+			sessionId: this.attachedSessionId ?? "",
+			toolCall: {
+				toolCallId,
+				title,
+				kind: "edit",
+				status: "pending",
+				locations: [{ path }],
+			},
+			options: [
+				{ optionId: "allow_once", name: "Allow", kind: "allow_once" },
+				{
+					optionId: "allow_always",
+					name: "Always allow",
+					kind: "allow_always",
+				},
+				{
+					optionId: "reject_once",
+					name: "Reject",
+					kind: "reject_once",
+				},
+			],
+		});
+		const allowed =
+			response.outcome.outcome === "selected" &&
+			response.outcome.optionId.startsWith("allow");
+
+		// Settle the prompt's tool call, if one was shown
+		this.updateMessage(toolCallId, {
+			type: "tool_call",
+			toolCallId,
+			status: allowed ? "completed" : "failed",
+		} as MessageContent);
+		return allowed;
+	}
+
+	/**
+	 * Collect the facts permission rules are matched against.
+	 * Location paths inside the vault are made vault-relative.
+	 */
+	private buildPermissionFacts(
+		params: acp.RequestPermissionRequest,
+	): PermissionRequestFacts {
+		const toolCall = params.toolCall;
+		return {
+			agentId: this.currentAgentId ?? "",
+			kind: (toolCall?.kind as acp.ToolKind | undefined) ?? undefined,
+			title: toolCall?.title ?? undefined,
+			paths: (toolCall?.locations ?? []).map(
+				(location) =>
+					this.vaultFileManager.toVaultPath(location.path) ??
+					location.path.replace(/\\/g, "/"),
+			),
+		};
+	}
+
+	/**
+	 * Append a user-decided (or cancelled) request to the permission audit log.
+	 */
+	private auditUserDecision(
+		toolCallId: string,
+		request: {
+			sessionId: string;
+			facts: PermissionRequestFacts;
+			rule: PermissionRule | null;
+		},
+		option?: acp.PermissionOption,
+	): void {
+		void this.plugin.errorLog?.logPermissionDecision({
+			agentId: request.facts.agentId || undefined,
+			sessionId: request.sessionId,
+			toolCallId,
+			title: request.facts.title,
+			kind: request.facts.kind,
+			paths: request.facts.paths,
+			decidedBy: "user",
+			ruleId: request.rule?.id,
+			rule: request.rule
+				? describePermissionRule(request.rule)
+				: undefined,
+			optionId: option?.optionId,
+			optionKind: option?.kind,
+		});
+	}
+
+	/**
+	 * Remember an allow_always / reject_always choice for this agent and
+	 * tool signature, replacing any earlier choice for the same tool.
+	 */
+	private rememberPermissionGrant(
+		facts: PermissionRequestFacts,
+		decision: PermissionGrant["decision"],
+	): void {
+		if (!facts.agentId) {
+			return;
+		}
+		const grants = this.plugin.settings.permissionGrants;
+		const existing = findPermissionGrant(grants, facts);
+		const grant: PermissionGrant = {
+			id: crypto.randomUUID(),
+			agentId: facts.agentId,
+			kind: facts.kind,
+			title: (facts.title ?? "").trim(),
+			paths: toGrantPaths(facts.paths),
+			decision,
+			createdAt: new Date().toISOString(),
+		};
+		this.logger.log("[AcpAdapter] Remembering permission grant:", grant);
+		void this.plugin.settingsStore.updateSettings({
+			permissionGrants: [
+				...grants.filter((item) => item !== existing),
+				grant,
+			],
+		});
+	}
+
+	/**
+	 * Record that a grant answered a request (shown in settings).
+	 */
+	private touchPermissionGrant(grantId: string): void {
+		void this.plugin.settingsStore.updateSettings({
+			permissionGrants: this.plugin.settings.permissionGrants.map(
+				(grant) =>
+					grant.id === grantId
+						? { ...grant, lastUsedAt: new Date().toISOString() }
+						: grant,
+			),
+		});
+	}
+
 	/**
 	 * Cancel all pending permission requests.
 	 */
@@ -1675,45 +1570,80 @@ To fix:
 		this.logger.log(
 			`[AcpAdapter] Cancelling ${this.pendingPermissionRequests.size} pending permission requests`,
 		);
-		this.pendingPermissionRequests.forEach(
-			({ resolve, toolCallId, options }, requestId) => {
-				// Update UI to show cancelled state
-				this.updateMessage(toolCallId, {
-					type: "tool_call",
-					toolCallId,
-					status: "completed",
-					permissionRequest: {
-						requestId,
-						options,
-						isCancelled: true,
-						isActive: false,
-					},
-				} as MessageContent);
+		this.pendingPermissionRequests.forEach((request, requestId) => {
+			const { resolve, toolCallId, options } = request;
+			this.auditUserDecision(toolCallId, request);
 
-				// Resolve the promise with cancelled outcome
-				resolve({
-					outcome: {
-						outcome: "cancelled",
-					},
-				});
-			},
-		);
+			// Update UI to show cancelled state
+			this.updateMessage(toolCallId, {
+				type: "tool_call",
+				toolCallId,
+				status: "completed",
+				permissionRequest: {
+					requestId,
+					options,
+					isCancelled: true,
+					isActive: false,
+				},
+			} as MessageContent);
+
+			// Resolve the promise with cancelled outcome
+			resolve({
+				outcome: {
+					outcome: "cancelled",
+				},
+			});
+		});
 		this.pendingPermissionRequests.clear();
 		this.pendingPermissionQueue = [];
 	}
 
 	// ========================================================================
-	// Terminal Operations (IAcpClient)
+	// File System Operations (IAcpClient)
 	// ========================================================================
 
-	readTextFile(params: acp.ReadTextFileRequest) {
-		return Promise.resolve({ content: "" });
+	readTextFile(
+		params: acp.ReadTextFileRequest,
+	): Promise<acp.ReadTextFileResponse> {
+		return this.vaultFileManager.readTextFile(params);
 	}
 
-	writeTextFile(params: acp.WriteTextFileRequest) {
-		return Promise.resolve({});
+	writeTextFile(
+		params: acp.WriteTextFileRequest,
+	): Promise<acp.WriteTextFileResponse> {
+		return this.vaultFileManager.writeTextFile(params);
+	}
+
+	// ========================================================================
+	// Obsidian Extension Methods (IAcpClient)
+	// ========================================================================
+
+	extMethod(
+		method: string,
+		params: Record<string, unknown>,
+	): Promise<Record<string, unknown>> {
+		return this.obsidianExtensions.handle(method, params);
 	}
 
+	async extNotification(
+		method: string,
+		params: Record<string, unknown>,
+	): Promise<void> {
+		// Notifications have no reply, so failures are only logged
+		try {
+			await this.obsidianExtensions.handle(method, params);
+		} catch (error) {
+			this.logger.warn(
+				`[AcpAdapter] Extension notification ${method} failed:`,
+				describeError(error).message,
+			);
+		}
+	}
+
+	// ========================================================================
+	// Terminal Operations (IAcpClient)
+	// ========================================================================
+
 	createTerminal(
 		params: acp.CreateTerminalRequest,
 	): Promise<acp.CreateTerminalResponse> {
@@ -1847,10 +1777,14 @@ To fix:
 		try {
 			this.logger.log(`[AcpAdapter] Loading session: ${sessionId}...`);
 
+			// Register first: the agent may send updates for the session
+			// before it answers
+			this.pooled?.registerSession(sessionId, this);
+
 			const response = await this.connection.loadSession({
 				sessionId,
 				cwd,
-				mcpServers: [],
+				mcpServers: await this.buildMcpServers(),
 			});
 
 			// Conversation history is received via session/update notifications
@@ -1886,6 +1820,7 @@ To fix:
 				};
 			}
 
+			this.attachSession(sessionId);
 			return {
 				sessionId,
 				modes,
@@ -1893,6 +1828,7 @@ To fix:
 			};
 		} catch (error) {
 			this.logger.error("[AcpAdapter] Load Session Error:", error);
+			this.releaseUnattachedSession(sessionId);
 			throw error;
 		}
 	}
@@ -1919,10 +1855,14 @@ To fix:
 		try {
 			this.logger.log(`[AcpAdapter] Resuming session: ${sessionId}...`);
 
+			// Register first: the agent may send updates for the session
+			// before it answers
+			this.pooled?.registerSession(sessionId, this);
+
 			const response = await this.connection.resumeSession({
 				sessionId,
 				cwd,
-				mcpServers: [],
+				mcpServers: await this.buildMcpServers(),
 			});
 
 			this.logger.log(`[AcpAdapter] Session resumed: ${sessionId}`);
@@ -1954,6 +1894,7 @@ To fix:
 				};
 			}
 
+			this.attachSession(sessionId);
 			return {
 				sessionId,
 				modes,
@@ -1961,6 +1902,7 @@ To fix:
 			};
 		} catch (error) {
 			this.logger.error("[AcpAdapter] Resume Session Error:", error);
+			this.releaseUnattachedSession(sessionId);
 			throw error;
 		}
 	}
@@ -1990,7 +1932,7 @@ To fix:
 			const response = await this.connection.unstable_forkSession({
 				sessionId,
 				cwd,
-				mcpServers: [],
+				mcpServers: await this.buildMcpServers(),
 			});
 
 			const newSessionId = response.sessionId;
@@ -2025,6 +1967,7 @@ To fix:
 				};
 			}
 
+			this.attachSession(newSessionId);
 			return {
 				sessionId: newSessionId,
 				modes,
@@ -1,35 +1,102 @@
-import { TFile, prepareFuzzySearch } from "obsidian";
+import {
+	TFile,
+	TFolder,
+	getAllTags,
+	normalizePath,
+	prepareFuzzySearch,
+	resolveSubpath,
+	type EventRef,
+	type TAbstractFile,
+} from "obsidian";
 import type AgentClientPlugin from "../../plugin";
+import type { ResolvedMention } from "../../domain/ports/vault-access.port";
 import { Logger } from "../../shared/logger";
+import {
+	getMentionFileType,
+	splitMentionTarget,
+	type IMentionService,
+} from "../../shared/mention-utils";
 
-// Note mention service for @-mention functionality
-export class NoteMentionService {
-	private files: TFile[] = [];
-	private lastBuild = 0;
+/**
+ * What a search result matched besides its name or path, for the
+ * dropdown snippet.
+ */
+export interface MentionMatch {
+	field: "heading" | "tag" | "alias";
+	text: string;
+	/** Offset of the heading within the note (heading matches only) */
+	offset?: number;
+}
+
+export interface MentionSearchResult {
+	file: TFile | TFolder;
+	match?: MentionMatch;
+}
+
+/** Searchable fields of an indexed file, from the metadata cache */
+interface IndexedFile {
+	file: TFile;
+	aliases: string[];
+	headings: Array<{ heading: string; offset: number }>;
+	/** Tags without the leading # */
+	tags: string[];
+}
+
+/** Maximum number of search results */
+const MAX_RESULTS = 20;
+
+// Score penalties by matched field, so a name match beats the same match
+// in an alias, path, tag or heading
+const ALIAS_PENALTY = 0.5;
+const PATH_PENALTY = 1;
+const TAG_PENALTY = 1;
+const HEADING_PENALTY = 1.5;
+
+/** Headings are only searched for queries at least this long */
+const MIN_HEADING_QUERY = 3;
+
+/** Boost for the most recently opened file (decays with age) */
+const RECENT_BOOST = 2;
+
+/** Boost for notes linked to or from the active note */
+const LINK_BOOST = 1.5;
+
+// Note mention service for @-mention functionality.
+// Indexes notes, mentionable attachments (PDFs, CSVs, canvases, images)
+// and folders. The index is updated file by file from vault and metadata
+// cache events; search matches names, paths, aliases, headings and tags,
+// boosted by recently opened files and links to and from the active note.
+export class NoteMentionService implements IMentionService {
+	private files = new Map<string, IndexedFile>();
+	private folders = new Map<string, TFolder>();
 	private plugin: AgentClientPlugin;
 	private logger: Logger;
-	private eventRefs: ReturnType<typeof this.plugin.app.vault.on>[] = [];
+	private eventRefs: EventRef[] = [];
+	private metadataEventRefs: EventRef[] = [];
 
 	constructor(plugin: AgentClientPlugin) {
 		this.plugin = plugin;
 		this.logger = new Logger(plugin);
-		this.rebuildIndex();
+		this.buildIndex();
 
 		// Listen for vault changes to keep index up to date
+		const { vault, metadataCache } = this.plugin.app;
 		this.eventRefs.push(
-			this.plugin.app.vault.on("create", (file) => {
-				if (file instanceof TFile && file.extension === "md") {
-					this.rebuildIndex();
-				}
-			}),
+			vault.on("create", (file) => this.addToIndex(file)),
 		);
 		this.eventRefs.push(
-			this.plugin.app.vault.on("delete", () => this.rebuildIndex()),
+			vault.on("delete", (file) => this.removeFromIndex(file.path)),
 		);
 		this.eventRefs.push(
-			this.plugin.app.vault.on("rename", (file) => {
-				if (file instanceof TFile && file.extension === "md") {
-					this.rebuildIndex();
+			vault.on("rename", (file, oldPath) => {
+				this.removeFromIndex(oldPath);
+				this.addToIndex(file);
+			}),
+		);
+		this.metadataEventRefs.push(
+			metadataCache.on("changed", (file) => {
+				if (this.files.has(file.path)) {
+					this.addToIndex(file);
 				}
 			}),
 		);
@@ -42,87 +109,263 @@ export class NoteMentionService {
 		for (const ref of this.eventRefs) {
 			this.plugin.app.vault.offref(ref);
 		}
+		for (const ref of this.metadataEventRefs) {
+			this.plugin.app.metadataCache.offref(ref);
+		}
 		this.eventRefs = [];
+		this.metadataEventRefs = [];
 	}
 
-	private rebuildIndex() {
-		this.files = this.plugin.app.vault.getMarkdownFiles();
-		this.lastBuild = Date.now();
+	private buildIndex() {
+		const { vault } = this.plugin.app;
+		for (const file of vault.getAllLoadedFiles()) {
+			this.addToIndex(file);
+		}
 		this.logger.log(
-			`[NoteMentionService] Rebuilt index with ${this.files.length} files`,
+			`[NoteMentionService] Indexed ${this.files.size} files and ${this.folders.size} folders`,
 		);
 	}
 
-	searchNotes(query: string): TFile[] {
-		this.logger.log(
-			"[DEBUG] NoteMentionService.searchNotes called with:",
-			query,
-		);
-		this.logger.log("[DEBUG] Total files indexed:", this.files.length);
-
-		if (!query.trim()) {
-			this.logger.log("[DEBUG] Empty query, returning recent files");
-			// If no query, return recently modified files
-			const recentFiles = this.files
-				.slice()
-				.sort((a, b) => (b.stat?.mtime || 0) - (a.stat?.mtime || 0))
-				.slice(0, 20);
-			this.logger.log(
-				"[DEBUG] Recent files:",
-				recentFiles.map((f) => f.name),
-			);
-			return recentFiles;
+	private addToIndex(file: TAbstractFile): void {
+		if (file instanceof TFolder) {
+			if (!file.isRoot()) {
+				this.folders.set(file.path, file);
+			}
+			return;
+		}
+		if (
+			!(file instanceof TFile) ||
+			getMentionFileType(file.extension) === null
+		) {
+			return;
+		}
+
+		const cache = this.plugin.app.metadataCache.getFileCache(file);
+		const aliases = cache?.frontmatter?.aliases as
+			| string[]
+			| string
+			| undefined;
+		this.files.set(file.path, {
+			file,
+			aliases: Array.isArray(aliases)
+				? aliases.map(String)
+				: aliases
+					? [String(aliases)]
+					: [],
+			headings: (cache?.headings ?? []).map((heading) => ({
+				heading: heading.heading,
+				offset: heading.position.start.offset,
+			})),
+			tags: Array.from(
+				new Set((cache ? getAllTags(cache) : null) ?? []),
+				(tag) => tag.replace(/^#/, ""),
+			),
+		});
+	}
+
+	private removeFromIndex(path: string): void {
+		this.files.delete(path);
+		this.folders.delete(path);
+	}
+
+	/**
+	 * Ranking signals that don't depend on the query: how recently each
+	 * file was opened, and which notes link to or from the active note.
+	 */
+	private getRankingContext(): {
+		recent: Map<string, number>;
+		linked: Set<string>;
+	} {
+		const { workspace, metadataCache } = this.plugin.app;
+		const lastOpen = workspace.getLastOpenFiles();
+		const recent = new Map<string, number>();
+		lastOpen.forEach((path, index) => {
+			recent.set(path, RECENT_BOOST * (1 - index / lastOpen.length));
+		});
+
+		const linked = new Set<string>();
+		const active = workspace.getActiveFile();
+		if (active) {
+			const { resolvedLinks } = metadataCache;
+			for (const path of Object.keys(resolvedLinks[active.path] ?? {})) {
+				linked.add(path);
+			}
+			for (const [source, links] of Object.entries(resolvedLinks)) {
+				if (links[active.path]) linked.add(source);
+			}
+			linked.delete(active.path);
 		}
+		return { recent, linked };
+	}
 
-		this.logger.log("[DEBUG] Preparing fuzzy search for:", query.trim());
-		const fuzzySearch = prepareFuzzySearch(query.trim());
-
-		// Score each file based on multiple fields
-		const scored: Array<{ file: TFile; score: number }> = this.files.map(
-			(file) => {
-				const basename = file.basename;
-				const path = file.path;
-
-				// Get aliases from frontmatter
-				const fileCache =
-					this.plugin.app.metadataCache.getFileCache(file);
-				const aliases = fileCache?.frontmatter?.aliases as
-					| string[]
-					| string
-					| undefined;
-				const aliasArray: string[] = Array.isArray(aliases)
-					? aliases
-					: aliases
-						? [aliases]
-						: [];
-
-				// Search in basename, path, and aliases
-				const searchFields = [basename, path, ...aliasArray];
-				let bestScore = -Infinity;
-
-				for (const field of searchFields) {
-					const match = fuzzySearch(field);
-					if (match && match.score > bestScore) {
-						bestScore = match.score;
+	/**
+	 * Search mentionable files and folders.
+	 *
+	 * An empty query lists recently opened files, then notes linked to or
+	 * from the active note, then recently modified files. A query starting
+	 * with `#` matches tags only.
+	 */
+	searchNotes(query: string): MentionSearchResult[] {
+		const trimmed = query.trim();
+		const { recent, linked } = this.getRankingContext();
+		const boost = (path: string) =>
+			(recent.get(path) ?? 0) + (linked.has(path) ? LINK_BOOST : 0);
+
+		if (!trimmed) {
+			return Array.from(this.files.values(), (entry) => entry.file)
+				.sort(
+					(a, b) =>
+						boost(b.path) - boost(a.path) ||
+						(b.stat?.mtime || 0) - (a.stat?.mtime || 0),
+				)
+				.slice(0, MAX_RESULTS)
+				.map((file) => ({ file }));
+		}
+
+		const tagQuery = trimmed.startsWith("#") ? trimmed.slice(1) : null;
+		const fuzzySearch = prepareFuzzySearch(tagQuery ?? trimmed);
+		const searchHeadings = trimmed.length >= MIN_HEADING_QUERY;
+
+		const scored: Array<MentionSearchResult & { score: number }> = [];
+		for (const entry of this.files.values()) {
+			let best = -Infinity;
+			let match: MentionMatch | undefined;
+			const consider = (
+				text: string,
+				penalty: number,
+				fieldMatch?: MentionMatch,
+			) => {
+				const result = fuzzySearch(text);
+				if (result && result.score - penalty > best) {
+					best = result.score - penalty;
+					match = fieldMatch;
+				}
+			};
+
+			if (tagQuery !== null) {
+				for (const tag of entry.tags) {
+					consider(tag, 0, { field: "tag", text: tag });
+				}
+			} else {
+				consider(entry.file.basename, 0);
+				for (const alias of entry.aliases) {
+					consider(alias, ALIAS_PENALTY, {
+						field: "alias",
+						text: alias,
+					});
+				}
+				consider(entry.file.path, PATH_PENALTY);
+				for (const tag of entry.tags) {
+					consider(tag, TAG_PENALTY, { field: "tag", text: tag });
+				}
+				if (searchHeadings) {
+					for (const { heading, offset } of entry.headings) {
+						consider(heading, HEADING_PENALTY, {
+							field: "heading",
+							text: heading,
+							offset,
+						});
 					}
 				}
+			}
 
-				return { file, score: bestScore };
-			},
-		);
+			if (best > -Infinity) {
+				scored.push({
+					file: entry.file,
+					match,
+					score: best + boost(entry.file.path),
+				});
+			}
+		}
+
+		// Folders match on their path
+		if (tagQuery === null) {
+			for (const folder of this.folders.values()) {
+				const result = fuzzySearch(folder.path);
+				if (result) {
+					scored.push({ file: folder, score: result.score });
+				}
+			}
+		}
 
 		return scored
-			.filter((item) => item.score > -Infinity)
 			.sort((a, b) => b.score - a.score)
-			.slice(0, 20)
-			.map((item) => item.file);
+			.slice(0, MAX_RESULTS)
+			.map(({ file, match }) => ({ file, match }));
 	}
 
 	getAllFiles(): TFile[] {
-		return this.files;
+		return Array.from(this.files.values(), (entry) => entry.file);
 	}
 
 	getFileByPath(path: string): TFile | null {
-		return this.files.find((file) => file.path === path) || null;
+		return this.files.get(path)?.file ?? null;
+	}
+
+	/**
+	 * Resolve the text inside @[[...]] the way Obsidian resolves links:
+	 * by name, path or name with extension, plus `#Heading`, `#^block`
+	 * (or `^block`) sections and `folder/` folders.
+	 */
+	resolveMention(target: string): ResolvedMention | null {
+		const { vault, metadataCache } = this.plugin.app;
+		const parts = splitMentionTarget(target);
+
+		if (parts.isFolder) {
+			const folder = vault.getAbstractFileByPath(
+				normalizePath(parts.linkpath),
+			);
+			if (!(folder instanceof TFolder)) return null;
+			return {
+				target,
+				kind: "folder",
+				path: folder.path,
+				name: folder.name,
+				mimeType: "",
+				size: 0,
+				modified: 0,
+			};
+		}
+
+		const file = metadataCache.getFirstLinkpathDest(parts.linkpath, "");
+		const fileType = file ? getMentionFileType(file.extension) : null;
+		if (!file || !fileType) return null;
+
+		const mention: ResolvedMention = {
+			target,
+			kind: fileType.kind,
+			path: file.path,
+			name: file.name,
+			mimeType: fileType.mimeType,
+			size: file.stat.size,
+			modified: file.stat.mtime,
+		};
+
+		const subpath = parts.blockId
+			? `#^${parts.blockId}`
+			: parts.heading
+				? `#${parts.heading}`
+				: null;
+		if (!subpath || fileType.kind !== "note") {
+			return mention;
+		}
+
+		const cache = metadataCache.getFileCache(file);
+		const section = cache ? resolveSubpath(cache, subpath) : null;
+		if (!section || section.type === "footnote") {
+			this.logger.log(
+				`[NoteMentionService] Section ${subpath} not found in ${file.path}`,
+			);
+			return null;
+		}
+		return {
+			...mention,
+			kind: section.type,
+			subpath: parts.blockId ?? parts.heading,
+			range: {
+				start: section.start.offset,
+				end: section.end?.offset,
+			},
+		};
 	}
 }
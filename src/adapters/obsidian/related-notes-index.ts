@@ -0,0 +1,176 @@
+import { TFile, type TAbstractFile } from "obsidian";
+import type AgentClientPlugin from "../../plugin";
+import type {
+	NoteMetadata,
+	RelatedNote,
+} from "../../domain/ports/vault-access.port";
+import { Bm25Index } from "../../shared/bm25-index";
+import { Logger } from "../../shared/logger";
+
+/** Notes read per batch during the initial build, between UI yields */
+const BUILD_BATCH_SIZE = 50;
+
+/** Characters indexed per note; the rest of very long notes is ignored */
+const MAX_INDEXED_CHARS = 100_000;
+
+/** Delay before re-indexing edited notes (edits arrive per keystroke) */
+const REINDEX_DELAY_MS = 2000;
+
+/** Times a note's name counts, so title matches outrank body matches */
+const TITLE_WEIGHT = 3;
+
+// Full-text index of the vault's markdown notes for related-note
+// suggestions. Runs entirely locally (BM25 over note text, no embeddings).
+// Shared by all chat tabs; built on first use and kept current from vault
+// events, like NoteMentionService.
+export class RelatedNotesIndex {
+	private index = new Bm25Index();
+	private buildPromise: Promise<void> | null = null;
+	private pending = new Set<string>();
+	private flushTimer: number | null = null;
+	private logger: Logger;
+
+	constructor(private plugin: AgentClientPlugin) {
+		this.logger = new Logger(plugin);
+	}
+
+	/**
+	 * Build the index if it isn't built yet. Safe to call repeatedly; the
+	 * first call starts the build and later calls share it.
+	 */
+	ensureIndexed(): Promise<void> {
+		if (!this.buildPromise) {
+			this.registerEvents();
+			this.buildPromise = this.build();
+		}
+		return this.buildPromise;
+	}
+
+	/**
+	 * Notes most related to a message, best first. Returns nothing until
+	 * the index is built (see ensureIndexed).
+	 *
+	 * @param query - The message being written
+	 * @param limit - Maximum number of notes
+	 * @param excludePaths - Notes to leave out (e.g. already mentioned)
+	 */
+	search(
+		query: string,
+		limit: number,
+		excludePaths?: Set<string>,
+	): RelatedNote[] {
+		const { vault } = this.plugin.app;
+		const related: RelatedNote[] = [];
+		for (const match of this.index.search(query, limit, excludePaths)) {
+			const file = vault.getAbstractFileByPath(match.id);
+			if (file instanceof TFile) {
+				related.push({
+					note: toNoteMetadata(file),
+					score: match.score,
+				});
+			}
+		}
+		return related;
+	}
+
+	/**
+	 * Drop the index and pending work (plugin unload).
+	 */
+	destroy(): void {
+		if (this.flushTimer !== null) {
+			window.clearTimeout(this.flushTimer);
+			this.flushTimer = null;
+		}
+		this.pending.clear();
+		this.index.clear();
+	}
+
+	private registerEvents(): void {
+		const { vault } = this.plugin.app;
+		this.plugin.registerEvent(
+			vault.on("create", (file) => this.schedule(file)),
+		);
+		this.plugin.registerEvent(
+			vault.on("modify", (file) => this.schedule(file)),
+		);
+		this.plugin.registerEvent(
+			vault.on("delete", (file) => {
+				this.pending.delete(file.path);
+				this.index.remove(file.path);
+			}),
+		);
+		this.plugin.registerEvent(
+			vault.on("rename", (file, oldPath) => {
+				this.pending.delete(oldPath);
+				this.index.remove(oldPath);
+				this.schedule(file);
+			}),
+		);
+	}
+
+	private async build(): Promise<void> {
+		const started = Date.now();
+		const files = this.plugin.app.vault.getMarkdownFiles();
+		for (let i = 0; i < files.length; i += BUILD_BATCH_SIZE) {
+			await Promise.all(
+				files
+					.slice(i, i + BUILD_BATCH_SIZE)
+					.map((file) => this.indexFile(file)),
+			);
+			// Yield so indexing a large vault doesn't freeze the UI
+			await new Promise((resolve) => window.setTimeout(resolve, 0));
+		}
+		this.logger.log(
+			`[RelatedNotesIndex] Indexed ${this.index.size} notes in ${Date.now() - started}ms`,
+		);
+	}
+
+	private schedule(file: TAbstractFile): void {
+		if (!(file instanceof TFile) || file.extension !== "md") return;
+		this.pending.add(file.path);
+		if (this.flushTimer !== null) {
+			window.clearTimeout(this.flushTimer);
+		}
+		this.flushTimer = window.setTimeout(() => {
+			this.flushTimer = null;
+			void this.flush();
+		}, REINDEX_DELAY_MS);
+	}
+
+	private async flush(): Promise<void> {
+		const paths = Array.from(this.pending);
+		this.pending.clear();
+		for (const path of paths) {
+			const file = this.plugin.app.vault.getAbstractFileByPath(path);
+			if (file instanceof TFile) {
+				await this.indexFile(file);
+			}
+		}
+	}
+
+	private async indexFile(file: TFile): Promise<void> {
+		try {
+			const content = await this.plugin.app.vault.cachedRead(file);
+			const title = `${file.basename} `.repeat(TITLE_WEIGHT);
+			this.index.set(
+				file.path,
+				title + content.slice(0, MAX_INDEXED_CHARS),
+			);
+		} catch (error) {
+			this.logger.warn(
+				`[RelatedNotesIndex] Failed to index ${file.path}:`,
+				error,
+			);
+		}
+	}
+}
+
+function toNoteMetadata(file: TFile): NoteMetadata {
+	return {
+		path: file.path,
+		name: file.basename,
+		extension: file.extension,
+		created: file.stat.ctime,
+		modified: file.stat.mtime,
+	};
+}
@@ -0,0 +1,247 @@
+import { arrayBufferToBase64, base64ToArrayBuffer } from "obsidian";
+import type AgentClientPlugin from "../../plugin";
+import type {
+	ISecretStore,
+	SecretBackend,
+} from "../../domain/ports/secret-store.port";
+import { SECRET_NAME_PATTERN } from "../../shared/secret-refs";
+
+/** localStorage key (per vault and device, never synced) */
+const STORAGE_KEY = "obsidianaitools-secrets";
+
+/** PBKDF2 iterations for the passphrase key */
+const PBKDF2_ITERATIONS = 210_000;
+
+/** Encrypted with the passphrase key to check a passphrase on unlock */
+const CHECK_VALUE = "obsidianaitools";
+
+/** Subset of Electron's safeStorage the store uses */
+interface SafeStorage {
+	isEncryptionAvailable(): boolean;
+	encryptString(plainText: string): Uint8Array;
+	decryptString(encrypted: Uint8Array): string;
+}
+
+/** What is saved in localStorage; values are always encrypted */
+interface StoredSecrets {
+	backend: SecretBackend;
+	/** PBKDF2 salt (passphrase only) */
+	salt?: string;
+	/** CHECK_VALUE encrypted with the passphrase key (passphrase only) */
+	check?: string;
+	/** Secret name → encrypted value (base64) */
+	entries: Record<string, string>;
+}
+
+/**
+ * Electron's safeStorage, when the OS keychain can be used.
+ */
+function getSafeStorage(): SafeStorage | null {
+	try {
+		const electron = (
+			window as unknown as { require?: (id: string) => unknown }
+		).require?.("electron") as
+			| { remote?: { safeStorage?: SafeStorage } }
+			| undefined;
+		const safeStorage = electron?.remote?.safeStorage;
+		return safeStorage?.isEncryptionAvailable() ? safeStorage : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Secret values for agent configs, kept out of data.json.
+ *
+ * Encrypted with the OS keychain through Electron's safeStorage when
+ * available, otherwise with AES-GCM under a key derived from a
+ * passphrase. Either way the ciphertext lives in this vault's
+ * localStorage on this device only.
+ */
+export class SecretStore implements ISecretStore {
+	readonly backend: SecretBackend;
+	private safeStorage: SafeStorage | null;
+	private stored: StoredSecrets;
+	/** Decrypted values while unlocked (passphrase only) */
+	private unlocked: Map<string, string> | null = null;
+	private key: CryptoKey | null = null;
+
+	constructor(private plugin: AgentClientPlugin) {
+		this.safeStorage = getSafeStorage();
+		this.backend = this.safeStorage ? "keychain" : "passphrase";
+		this.stored = this.load();
+	}
+
+	isUnlocked(): boolean {
+		return this.backend === "keychain" || this.unlocked !== null;
+	}
+
+	hasPassphrase(): boolean {
+		return this.stored.check !== undefined;
+	}
+
+	async unlock(passphrase: string): Promise<boolean> {
+		if (this.backend === "keychain") return true;
+
+		if (!this.stored.salt || !this.stored.check) {
+			// First use: the passphrase becomes the key
+			const salt = window.crypto.getRandomValues(new Uint8Array(16));
+			this.key = await deriveKey(passphrase, salt.buffer);
+			this.stored = {
+				backend: "passphrase",
+				salt: arrayBufferToBase64(salt.buffer),
+				check: await encrypt(this.key, CHECK_VALUE),
+				entries: {},
+			};
+			this.unlocked = new Map();
+			this.save();
+			return true;
+		}
+
+		const key = await deriveKey(
+			passphrase,
+			base64ToArrayBuffer(this.stored.salt),
+		);
+		try {
+			if ((await decrypt(key, this.stored.check)) !== CHECK_VALUE) {
+				return false;
+			}
+		} catch {
+			return false;
+		}
+		const values = new Map<string, string>();
+		for (const [name, encrypted] of Object.entries(this.stored.entries)) {
+			values.set(name, await decrypt(key, encrypted));
+		}
+		this.key = key;
+		this.unlocked = values;
+		return true;
+	}
+
+	lock(): void {
+		this.key = null;
+		this.unlocked = null;
+	}
+
+	list(): string[] {
+		return Object.keys(this.stored.entries).sort();
+	}
+
+	get(name: string): string | null {
+		if (this.backend === "passphrase") {
+			return this.unlocked?.get(name) ?? null;
+		}
+		const encrypted = this.stored.entries[name];
+		if (encrypted === undefined || !this.safeStorage) return null;
+		try {
+			return this.safeStorage.decryptString(
+				new Uint8Array(base64ToArrayBuffer(encrypted)),
+			);
+		} catch (error) {
+			console.warn(`[SecretStore] Failed to decrypt "${name}":`, error);
+			return null;
+		}
+	}
+
+	async set(name: string, value: string): Promise<void> {
+		if (!SECRET_NAME_PATTERN.test(name)) {
+			throw new Error(
+				`Invalid secret name "${name}": use lowercase letters, digits and dashes.`,
+			);
+		}
+		if (this.backend === "keychain" && this.safeStorage) {
+			const encrypted = this.safeStorage.encryptString(value);
+			this.stored.entries[name] = arrayBufferToBase64(
+				new Uint8Array(encrypted).buffer,
+			);
+		} else {
+			if (!this.key || !this.unlocked) {
+				throw new Error("Secret storage is locked.");
+			}
+			this.stored.entries[name] = await encrypt(this.key, value);
+			this.unlocked.set(name, value);
+		}
+		this.save();
+	}
+
+	async delete(name: string): Promise<void> {
+		delete this.stored.entries[name];
+		this.unlocked?.delete(name);
+		this.save();
+	}
+
+	private load(): StoredSecrets {
+		const raw = this.plugin.app.loadLocalStorage(STORAGE_KEY) as unknown;
+		if (
+			typeof raw === "object" &&
+			raw !== null &&
+			(raw as StoredSecrets).backend === this.backend &&
+			typeof (raw as StoredSecrets).entries === "object"
+		) {
+			return raw as StoredSecrets;
+		}
+		if (raw) {
+			// Written by the other backend (e.g. the keychain became
+			// unavailable); its values can't be read here
+			console.warn(
+				"[SecretStore] Stored secrets use a different backend and were not loaded",
+			);
+		}
+		return { backend: this.backend, entries: {} };
+	}
+
+	private save(): void {
+		this.plugin.app.saveLocalStorage(STORAGE_KEY, this.stored);
+	}
+}
+
+async function deriveKey(
+	passphrase: string,
+	salt: ArrayBuffer,
+): Promise<CryptoKey> {
+	const material = await window.crypto.subtle.importKey(
+		"raw",
+		new TextEncoder().encode(passphrase),
+		"PBKDF2",
+		false,
+		["deriveKey"],
+	);
+	return window.crypto.subtle.deriveKey(
+		{
+			name: "PBKDF2",
+			salt,
+			iterations: PBKDF2_ITERATIONS,
+			hash: "SHA-256",
+		},
+		material,
+		{ name: "AES-GCM", length: 256 },
+		false,
+		["encrypt", "decrypt"],
+	);
+}
+
+/**
+ * AES-GCM encrypt; the result is base64 of IV + ciphertext.
+ */
+async function encrypt(key: CryptoKey, value: string): Promise<string> {
+	const iv = window.crypto.getRandomValues(new Uint8Array(12));
+	const data = await window.crypto.subtle.encrypt(
+		{ name: "AES-GCM", iv },
+		key,
+		new TextEncoder().encode(value),
+	);
+	const combined = new Uint8Array(iv.length + data.byteLength);
+	combined.set(iv);
+	combined.set(new Uint8Array(data), iv.length);
+	return arrayBufferToBase64(combined.buffer);
+}
+
+async function decrypt(key: CryptoKey, encrypted: string): Promise<string> {
+	const combined = new Uint8Array(base64ToArrayBuffer(encrypted));
+	const data = await window.crypto.subtle.decrypt(
+		{ name: "AES-GCM", iv: combined.slice(0, 12) },
+		key,
+		combined.slice(12),
+	);
+	return new TextDecoder().decode(data);
+}
@@ -0,0 +1,492 @@
+/**
+ * Built-in Vault MCP Server
+ *
+ * Hosts a local MCP server that gives agents structured access to the
+ * vault: reading notes, full-text search, tags, links and frontmatter,
+ * plus (optionally) creating and appending to notes. Injected into every
+ * session for agents that support MCP over HTTP.
+ *
+ * Each chat tab gets its own token, so writes are checked against that
+ * tab's permission rules and profile like the agent's own tool calls.
+ */
+
+import {
+	TFile,
+	getAllTags,
+	normalizePath,
+	type CachedMetadata,
+} from "obsidian";
+import type AgentClientPlugin from "../../plugin";
+import type { McpServerSettings } from "../../domain/models/agent-config";
+import type { IVaultAccess } from "../../domain/ports/vault-access.port";
+import {
+	McpHttpServer,
+	McpToolError,
+	type McpTool,
+} from "../../shared/mcp-http-server";
+import { Logger } from "../../shared/logger";
+import { describeError } from "../../shared/error-log";
+import { isProtectedVaultPath } from "../../shared/path-utils";
+
+/** Name the server is registered under in agent sessions */
+export const VAULT_MCP_SERVER_NAME = "obsidian-vault";
+
+const DEFAULT_RESULT_LIMIT = 20;
+const MAX_RESULT_LIMIT = 100;
+const SNIPPET_RADIUS = 80;
+
+/**
+ * The chat tab an agent's tool calls come from.
+ */
+export interface VaultMcpClient {
+	/** The tab's vault access (null until the chat view provides it) */
+	getVaultAccess(): IVaultAccess | null;
+
+	/**
+	 * Check a change to a note against the tab's permission rules,
+	 * asking the user if they say so.
+	 *
+	 * @param title - What the change does, as shown to the user
+	 * @param path - Vault-relative path of the note
+	 * @returns True if the change was allowed
+	 */
+	requestEditPermission(title: string, path: string): Promise<boolean>;
+}
+
+export class VaultMcpServer {
+	private server: McpHttpServer<VaultMcpClient>;
+	private logger: Logger;
+
+	constructor(private plugin: AgentClientPlugin) {
+		this.logger = new Logger(plugin);
+		this.server = new McpHttpServer(
+			{
+				name: VAULT_MCP_SERVER_NAME,
+				version: plugin.manifest.version,
+			},
+			() => this.getTools(),
+			(message, error) => {
+				void this.plugin.errorLog?.logError({
+					source: "other",
+					message: `${message}: ${describeError(error).message}`,
+				});
+			},
+		);
+	}
+
+	/**
+	 * Start the server if needed and describe it as an MCP server entry.
+	 *
+	 * @param client - Tab the entry is for; its token identifies the tab
+	 * @returns Server entry to pass to the agent, or null if disabled or
+	 *   the server could not be started
+	 */
+	async getServerSettings(
+		client: VaultMcpClient,
+	): Promise<McpServerSettings | null> {
+		if (!this.plugin.settings.vaultMcpServer.enabled) {
+			return null;
+		}
+		try {
+			const url = await this.server.start();
+			return {
+				id: VAULT_MCP_SERVER_NAME,
+				name: VAULT_MCP_SERVER_NAME,
+				transport: "http",
+				enabled: true,
+				agentIds: [],
+				command: "",
+				args: [],
+				env: [],
+				url,
+				headers: [
+					{
+						key: "Authorization",
+						value: this.server.authorizationHeaderFor(client),
+					},
+				],
+			};
+		} catch (error) {
+			this.logger.error(
+				"[VaultMcpServer] Failed to start server:",
+				error,
+			);
+			return null;
+		}
+	}
+
+	/** Invalidate a tab's token (the tab is gone) */
+	releaseClient(client: VaultMcpClient): void {
+		this.server.revoke(client);
+	}
+
+	stop(): void {
+		this.server.stop();
+	}
+
+	private getTools(): McpTool<VaultMcpClient>[] {
+		const tools: McpTool<VaultMcpClient>[] = [
+			{
+				name: "read_note",
+				description:
+					"Read the full Markdown content of a note. Accepts a vault-relative path or a wikilink target (note name).",
+				inputSchema: objectSchema(
+					{ path: stringProp("Vault-relative path or note name") },
+					["path"],
+				),
+				handler: (args, client) => this.readNote(args, client),
+			},
+			{
+				name: "search_notes",
+				description:
+					"Full-text search across all Markdown notes. Every whitespace-separated term must appear (case-insensitive). Returns paths with a snippet around the first match.",
+				inputSchema: objectSchema(
+					{
+						query: stringProp("Search terms"),
+						limit: limitProp(),
+					},
+					["query"],
+				),
+				handler: (args) => this.searchNotes(args),
+			},
+			{
+				name: "list_notes_by_tag",
+				description:
+					"List notes carrying a tag (from the body or frontmatter). Nested tags match their parent, so #project also matches #project/alpha.",
+				inputSchema: objectSchema(
+					{
+						tag: stringProp("Tag with or without the leading #"),
+						limit: limitProp(),
+					},
+					["tag"],
+				),
+				handler: (args) => this.listNotesByTag(args),
+			},
+			{
+				name: "get_links",
+				description:
+					"Get a note's outgoing links (resolved and unresolved) and its backlinks (notes linking to it).",
+				inputSchema: objectSchema(
+					{ path: stringProp("Vault-relative path or note name") },
+					["path"],
+				),
+				handler: (args) => this.getLinks(args),
+			},
+			{
+				name: "query_frontmatter",
+				description:
+					"Find notes whose frontmatter has a property. If value is given, the property must equal it (or contain it, for lists). Comparison is case-insensitive.",
+				inputSchema: objectSchema(
+					{
+						key: stringProp("Frontmatter property name"),
+						value: stringProp("Optional value to match"),
+						limit: limitProp(),
+					},
+					["key"],
+				),
+				handler: (args) => this.queryFrontmatter(args),
+			},
+		];
+
+		if (this.plugin.settings.vaultMcpServer.allowWrites) {
+			tools.push(
+				{
+					name: "create_note",
+					description:
+						"Create a new note. Fails if the note already exists. Missing folders are created.",
+					inputSchema: objectSchema(
+						{
+							path: stringProp(
+								"Vault-relative path; .md is added if missing",
+							),
+							content: stringProp("Markdown content"),
+						},
+						["path", "content"],
+					),
+					handler: (args, client) => this.createNote(args, client),
+				},
+				{
+					name: "append_to_note",
+					description:
+						"Append Markdown to the end of an existing note, on a new line.",
+					inputSchema: objectSchema(
+						{
+							path: stringProp(
+								"Vault-relative path or note name",
+							),
+							content: stringProp("Markdown to append"),
+						},
+						["path", "content"],
+					),
+					handler: (args, client) => this.appendToNote(args, client),
+				},
+			);
+		}
+
+		return tools;
+	}
+
+	// ========================================================================
+	// Tool handlers
+	// ========================================================================
+
+	private async readNote(
+		args: Record<string, unknown>,
+		client: VaultMcpClient,
+	): Promise<string> {
+		const file = this.resolveNote(requireString(args, "path"));
+		return await getVaultAccess(client).readNote(file.path);
+	}
+
+	private async searchNotes(args: Record<string, unknown>): Promise<string> {
+		const terms = requireString(args, "query")
+			.toLowerCase()
+			.split(/\s+/)
+			.filter((term) => term.length > 0);
+		const limit = readLimit(args);
+		const results: { path: string; snippet: string }[] = [];
+
+		for (const file of this.plugin.app.vault.getMarkdownFiles()) {
+			if (results.length >= limit) break;
+			const content = await this.plugin.app.vault.cachedRead(file);
+			const haystack = `${file.path}\n${content}`.toLowerCase();
+			if (!terms.every((term) => haystack.includes(term))) continue;
+
+			const index = content.toLowerCase().indexOf(terms[0]);
+			results.push({
+				path: file.path,
+				snippet: index >= 0 ? snippetAround(content, index) : "",
+			});
+		}
+
+		return JSON.stringify(results, null, 2);
+	}
+
+	private listNotesByTag(args: Record<string, unknown>): Promise<string> {
+		const tag = normalizeTag(requireString(args, "tag"));
+		const limit = readLimit(args);
+		const results: string[] = [];
+
+		for (const file of this.plugin.app.vault.getMarkdownFiles()) {
+			if (results.length >= limit) break;
+			const cache = this.plugin.app.metadataCache.getFileCache(file);
+			const tags = cache ? (getAllTags(cache) ?? []) : [];
+			if (
+				tags.some((t) => {
+					const normalized = normalizeTag(t);
+					return (
+						normalized === tag || normalized.startsWith(`${tag}/`)
+					);
+				})
+			) {
+				results.push(file.path);
+			}
+		}
+
+		return Promise.resolve(JSON.stringify(results, null, 2));
+	}
+
+	private getLinks(args: Record<string, unknown>): Promise<string> {
+		const file = this.resolveNote(requireString(args, "path"));
+		const { resolvedLinks, unresolvedLinks } =
+			this.plugin.app.metadataCache;
+
+		const backlinks = Object.entries(resolvedLinks)
+			.filter(([, targets]) => file.path in targets)
+			.map(([source]) => source);
+
+		return Promise.resolve(
+			JSON.stringify(
+				{
+					path: file.path,
+					outgoing: Object.keys(resolvedLinks[file.path] ?? {}),
+					unresolved: Object.keys(unresolvedLinks[file.path] ?? {}),
+					backlinks,
+				},
+				null,
+				2,
+			),
+		);
+	}
+
+	private queryFrontmatter(args: Record<string, unknown>): Promise<string> {
+		const key = requireString(args, "key");
+		const expected =
+			typeof args.value === "string" && args.value.length > 0
+				? args.value.toLowerCase()
+				: null;
+		const limit = readLimit(args);
+		const results: { path: string; value: unknown }[] = [];
+
+		for (const file of this.plugin.app.vault.getMarkdownFiles()) {
+			if (results.length >= limit) break;
+			const frontmatter: CachedMetadata["frontmatter"] =
+				this.plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+			if (!frontmatter || !(key in frontmatter)) continue;
+
+			const value: unknown = frontmatter[key];
+			if (expected !== null && !frontmatterMatches(value, expected)) {
+				continue;
+			}
+			results.push({ path: file.path, value });
+		}
+
+		return Promise.resolve(JSON.stringify(results, null, 2));
+	}
+
+	private async createNote(
+		args: Record<string, unknown>,
+		client: VaultMcpClient,
+	): Promise<string> {
+		let path = normalizePath(requireString(args, "path"));
+		if (!path.toLowerCase().endsWith(".md")) {
+			path = `${path}.md`;
+		}
+		const content = requireString(args, "content");
+		const vaultAccess = getVaultAccess(client);
+
+		this.assertAccessible(path);
+		if (this.plugin.app.vault.getAbstractFileByPath(path)) {
+			throw new McpToolError(`Note already exists: ${path}`);
+		}
+		await requireEditPermission(client, `Create note ${path}`, path);
+
+		await vaultAccess.createNote(path, content);
+		this.logger.log(`[VaultMcpServer] Created ${path}`);
+		return `Created ${path}`;
+	}
+
+	private async appendToNote(
+		args: Record<string, unknown>,
+		client: VaultMcpClient,
+	): Promise<string> {
+		const file = this.resolveNote(requireString(args, "path"));
+		const content = requireString(args, "content");
+		const vaultAccess = getVaultAccess(client);
+		await requireEditPermission(
+			client,
+			`Append to note ${file.path}`,
+			file.path,
+		);
+
+		await vaultAccess.appendToNote(file.path, content);
+		this.logger.log(`[VaultMcpServer] Appended to ${file.path}`);
+		return `Appended ${content.length} characters to ${file.path}`;
+	}
+
+	/**
+	 * Refuse the config folder, hidden files and paths leaving the vault.
+	 */
+	private assertAccessible(path: string): void {
+		if (isProtectedVaultPath(path, this.plugin.app.vault.configDir)) {
+			throw new McpToolError(`Access denied: ${path}`);
+		}
+	}
+
+	/**
+	 * Resolve a vault-relative path or wikilink target to a note.
+	 */
+	private resolveNote(pathOrLink: string): TFile {
+		const { vault, metadataCache } = this.plugin.app;
+		const normalized = normalizePath(pathOrLink);
+		this.assertAccessible(normalized);
+
+		const direct = vault.getAbstractFileByPath(normalized);
+		if (direct instanceof TFile) return direct;
+
+		const withExtension = vault.getAbstractFileByPath(`${normalized}.md`);
+		if (withExtension instanceof TFile) return withExtension;
+
+		const linked = metadataCache.getFirstLinkpathDest(
+			pathOrLink.replace(/^\[\[|\]\]$/g, ""),
+			"",
+		);
+		if (linked) return linked;
+
+		throw new McpToolError(`Note not found: ${pathOrLink}`);
+	}
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function getVaultAccess(client: VaultMcpClient): IVaultAccess {
+	const vaultAccess = client.getVaultAccess();
+	if (!vaultAccess) {
+		throw new McpToolError("The chat is not ready yet");
+	}
+	return vaultAccess;
+}
+
+async function requireEditPermission(
+	client: VaultMcpClient,
+	title: string,
+	path: string,
+): Promise<void> {
+	if (!(await client.requestEditPermission(title, path))) {
+		throw new McpToolError(`Permission denied: ${title}`);
+	}
+}
+
+function objectSchema(
+	properties: Record<string, unknown>,
+	required: string[],
+): Record<string, unknown> {
+	return { type: "object", properties, required };
+}
+
+function stringProp(description: string): Record<string, unknown> {
+	return { type: "string", description };
+}
+
+function limitProp(): Record<string, unknown> {
+	return {
+		type: "integer",
+		description: `Maximum results (default ${DEFAULT_RESULT_LIMIT}, max ${MAX_RESULT_LIMIT})`,
+		minimum: 1,
+		maximum: MAX_RESULT_LIMIT,
+	};
+}
+
+function requireString(args: Record<string, unknown>, key: string): string {
+	const value = args[key];
+	if (typeof value !== "string" || value.trim().length === 0) {
+		throw new McpToolError(`Missing required argument: ${key}`);
+	}
+	return value;
+}
+
+function readLimit(args: Record<string, unknown>): number {
+	const value = args.limit;
+	if (typeof value !== "number" || !Number.isFinite(value) || value < 1) {
+		return DEFAULT_RESULT_LIMIT;
+	}
+	return Math.min(Math.floor(value), MAX_RESULT_LIMIT);
+}
+
+function normalizeTag(tag: string): string {
+	return tag.trim().replace(/^#/, "").toLowerCase();
+}
+
+function snippetAround(content: string, index: number): string {
+	const start = Math.max(0, index - SNIPPET_RADIUS);
+	const end = Math.min(content.length, index + SNIPPET_RADIUS);
+	const prefix = start > 0 ? "…" : "";
+	const suffix = end < content.length ? "…" : "";
+	return `${prefix}${content.slice(start, end).replace(/\s+/g, " ")}${suffix}`;
+}
+
+function frontmatterMatches(value: unknown, expected: string): boolean {
+	if (Array.isArray(value)) {
+		return value.some((item) => frontmatterMatches(item, expected));
+	}
+	if (
+		typeof value === "string" ||
+		typeof value === "number" ||
+		typeof value === "boolean"
+	) {
+		return String(value).toLowerCase() === expected;
+	}
+	return false;
+}
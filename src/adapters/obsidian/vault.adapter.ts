@@ -9,18 +9,25 @@
 import type {
 	IVaultAccess,
 	NoteMetadata,
+	NoteOutline,
 	EditorPosition,
 } from "../../domain/ports/vault-access.port";
 import { NoteMentionService } from "./mention-service";
 import type AgentClientPlugin from "../../plugin";
 import {
 	TFile,
+	TFolder,
+	Vault,
 	MarkdownView,
 	type EventRef,
 	type EditorSelection,
 } from "obsidian";
 import { EditorView } from "@codemirror/view";
 import { Compartment, StateEffect } from "@codemirror/state";
+import { isProtectedVaultPath } from "../../shared/path-utils";
+
+/** Characters of note text shown under a mention suggestion */
+const SNIPPET_LENGTH = 100;
 
 /**
  * Adapter for accessing Obsidian vault notes.
@@ -66,21 +73,77 @@ export class ObsidianVaultAdapter implements IVaultAccess {
 	/**
 	 * Search for notes matching a query.
 	 *
-	 * Uses fuzzy search against note names, paths, and aliases.
-	 * Returns up to 5 best matches sorted by relevance.
-	 * If query is empty, returns recently modified files.
+	 * Uses fuzzy search against note names, paths, aliases, headings and
+	 * tags, ranked up by recently opened files and links to and from the
+	 * active note. Notes get a snippet of their content (from the matched
+	 * heading, if any).
+	 * If query is empty, returns recently opened and linked files.
 	 *
 	 * @param query - Search query string (can be empty for recent files)
 	 * @returns Promise resolving to array of matching note metadata
 	 */
-	searchNotes(query: string): Promise<NoteMetadata[]> {
+	async searchNotes(query: string): Promise<NoteMetadata[]> {
 		// Use existing NoteMentionService for fuzzy search
-		const files = this.mentionService.searchNotes(query);
-		return Promise.resolve(
-			files.map((file) => this.convertToMetadata(file)),
+		const results = this.mentionService.searchNotes(query);
+		return await Promise.all(
+			results.map(async ({ file, match }) => {
+				if (file instanceof TFolder) {
+					return this.convertFolderToMetadata(file);
+				}
+				const metadata = this.convertToMetadata(file);
+				if (match) {
+					metadata.matchedOn =
+						match.field === "heading"
+							? `§ ${match.text}`
+							: match.field === "tag"
+								? `#${match.text}`
+								: `alias ${match.text}`;
+				}
+				if (file.extension === "md") {
+					metadata.snippet = await this.readSnippet(
+						file,
+						match?.offset,
+					);
+				}
+				return metadata;
+			}),
 		);
 	}
 
+	/**
+	 * Short plain-text excerpt of a note: the text under a heading, or the
+	 * start of the body after the front matter.
+	 *
+	 * @param headingOffset - Offset of the matched heading, if any
+	 */
+	private async readSnippet(
+		file: TFile,
+		headingOffset?: number,
+	): Promise<string | undefined> {
+		try {
+			const content = await this.plugin.app.vault.cachedRead(file);
+			let start = 0;
+			if (headingOffset !== undefined) {
+				const lineEnd = content.indexOf("\n", headingOffset);
+				start = lineEnd >= 0 ? lineEnd + 1 : content.length;
+			} else {
+				const cache = this.plugin.app.metadataCache.getFileCache(file);
+				start = cache?.frontmatterPosition?.end.offset ?? 0;
+			}
+			const text = content
+				.slice(start, start + SNIPPET_LENGTH * 4)
+				.replace(/^#+\s+/gm, "")
+				.replace(/\s+/g, " ")
+				.trim();
+			if (!text) return undefined;
+			return text.length > SNIPPET_LENGTH
+				? `${text.slice(0, SNIPPET_LENGTH)}…`
+				: text;
+		} catch {
+			return undefined;
+		}
+	}
+
 	/**
 	 * Get the currently active note in the editor.
 	 *
@@ -316,12 +379,116 @@ export class ObsidianVaultAdapter implements IVaultAccess {
 	 */
 	listNotes(): Promise<NoteMetadata[]> {
 		// Use existing NoteMentionService to get all files
-		const files = this.mentionService.getAllFiles();
+		const files = this.mentionService
+			.getAllFiles()
+			.filter((file) => file.extension === "md");
 		return Promise.resolve(
 			files.map((file) => this.convertToMetadata(file)),
 		);
 	}
 
+	/**
+	 * Read a file's raw bytes.
+	 *
+	 * @param path - Path to the file within the vault
+	 * @returns Promise resolving to the file content
+	 * @throws Error if file doesn't exist or cannot be read
+	 */
+	async readBinary(path: string): Promise<ArrayBuffer> {
+		const file = this.plugin.app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) {
+			throw new Error(`File not found: ${path}`);
+		}
+		return await this.plugin.app.vault.readBinary(file);
+	}
+
+	/**
+	 * List the files beneath a folder, recursively.
+	 *
+	 * @param path - Path to the folder within the vault
+	 * @returns Promise resolving to the sorted vault paths of the files
+	 * @throws Error if folder doesn't exist
+	 */
+	listFolder(path: string): Promise<string[]> {
+		const folder = this.plugin.app.vault.getAbstractFileByPath(path);
+		if (!(folder instanceof TFolder)) {
+			return Promise.reject(new Error(`Folder not found: ${path}`));
+		}
+		const paths: string[] = [];
+		Vault.recurseChildren(folder, (child) => {
+			if (child instanceof TFile) {
+				paths.push(child.path);
+			}
+		});
+		return Promise.resolve(paths.sort((a, b) => a.localeCompare(b)));
+	}
+
+	/**
+	 * Get a note's headings and front matter position from the metadata cache.
+	 *
+	 * @param path - Path to the note within the vault
+	 * @returns Promise resolving to the outline (empty if not cached)
+	 */
+	getNoteOutline(path: string): Promise<NoteOutline> {
+		const file = this.plugin.app.vault.getAbstractFileByPath(path);
+		const cache =
+			file instanceof TFile
+				? this.plugin.app.metadataCache.getFileCache(file)
+				: null;
+		return Promise.resolve({
+			headings: (cache?.headings ?? []).map((heading) => ({
+				heading: heading.heading,
+				level: heading.level,
+				offset: heading.position.start.offset,
+			})),
+			frontmatterEnd: cache?.frontmatterPosition?.end.offset,
+		});
+	}
+
+	/**
+	 * Create a note, along with any missing folders.
+	 *
+	 * @param path - Path of the new note within the vault
+	 * @param content - Note content
+	 * @throws Error if the path is taken, inside the config folder or hidden
+	 */
+	async createNote(path: string, content: string): Promise<void> {
+		const { vault } = this.plugin.app;
+		if (isProtectedVaultPath(path, vault.configDir)) {
+			throw new Error(`Access denied: ${path}`);
+		}
+		if (vault.getAbstractFileByPath(path)) {
+			throw new Error(`File already exists: ${path}`);
+		}
+		const lastSlash = path.lastIndexOf("/");
+		if (lastSlash > 0) {
+			const folder = path.slice(0, lastSlash);
+			if (!vault.getAbstractFileByPath(folder)) {
+				await vault.createFolder(folder);
+			}
+		}
+		await vault.create(path, content);
+	}
+
+	/**
+	 * Append text to the end of a note, on a new line.
+	 *
+	 * @param path - Path to the note within the vault
+	 * @param content - Text to append
+	 * @throws Error if note doesn't exist
+	 */
+	async appendToNote(path: string, content: string): Promise<void> {
+		const file = this.plugin.app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) {
+			throw new Error(`File not found: ${path}`);
+		}
+		await this.plugin.app.vault.process(file, (data) => {
+			const separator =
+				data.length === 0 || data.endsWith("\n") ? "" : "\n";
+			return `${data}${separator}${content}`;
+		});
+	}
+
 	/**
 	 * Convert Obsidian TFile to domain NoteMetadata.
 	 *
@@ -351,4 +518,21 @@ export class ObsidianVaultAdapter implements IVaultAccess {
 					: undefined,
 		};
 	}
+
+	/**
+	 * Convert Obsidian TFolder to domain NoteMetadata (for folder mentions).
+	 *
+	 * @param folder - Obsidian TFolder object
+	 * @returns NoteMetadata object with isFolder set
+	 */
+	private convertFolderToMetadata(folder: TFolder): NoteMetadata {
+		return {
+			path: folder.path,
+			name: folder.name,
+			extension: "",
+			created: 0,
+			modified: 0,
+			isFolder: true,
+		};
+	}
 }
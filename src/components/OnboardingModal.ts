@@ -1,6 +1,7 @@
 import { Modal, App, ButtonComponent, Notice, Setting } from "obsidian";
 import type AgentClientPlugin from "../plugin";
 import { getAgentInstallCommand } from "../shared/agent-installer";
+import { getDefaultCredentialEnvNames } from "../shared/agent-credentials";
 import { detectWsl, detectNodePath, detectAgentPath, detectSandboxEnvironment } from "../shared/path-detector";
 import { spawn } from "child_process";
 import { Platform } from "obsidian";
@@ -150,8 +151,11 @@ export class OnboardingModal extends Modal {
 	private async saveSettings(): Promise<void> {
 		const settings = this.plugin.settings;
 
-		// Save API key and base URL
-		settings.apiKey = this.apiKey.trim();
+		// Save API key (to secret storage when it's usable) and base URL
+		settings.apiKey = await this.plugin.storeSecret(
+			"api-key",
+			this.apiKey.trim(),
+		);
 		// Normalize URL: trim and remove trailing slash
 		const normalizedUrl = this.baseUrl.trim().replace(/\/$/, "");
 		settings.baseUrl = normalizedUrl || "https://chat.obsidianaitools.com";
@@ -345,8 +349,18 @@ export class OnboardingModal extends Modal {
 		signupLink.setAttribute("target", "_blank");
 		noAccountP.appendText(" to get started.");
 
+		// Say which variable the chosen agent reads the key from
+		const envName = this.selectedAgent
+			? getDefaultCredentialEnvNames(
+					this.plugin.settings,
+					this.selectedAgent.id,
+				).apiKey
+			: "";
 		this.stepContainer.createEl("p", {
-			text: "Tip: The API key is used by all agents via ANTHROPIC_AUTH_TOKEN, GEMINI_API_KEY, or OPENAI_API_KEY",
+			text:
+				this.selectedAgent && envName
+					? `Tip: ${this.selectedAgent.name} receives this key as ${envName}. It is the default for all agents; you can give an agent its own key, base URL and model later in Settings → AI Tools.`
+					: "Tip: This key is the default for all agents; you can give an agent its own key, base URL and model later in Settings → AI Tools.",
 			cls: "obsidianaitools-onboarding-tip",
 		});
 
@@ -0,0 +1,75 @@
+import * as React from "react";
+import type { AgentRecoveryEvent } from "../../domain/models/agent-recovery";
+
+export interface AgentRecoveryBannerProps {
+	recovery: AgentRecoveryEvent;
+	agentLabel: string;
+	onDismiss: () => void;
+}
+
+/**
+ * Describe how the crashed process ended, e.g. "exit code 1" or "SIGKILL".
+ */
+function describeExit(recovery: AgentRecoveryEvent): string {
+	if (recovery.signal) return recovery.signal;
+	if (recovery.exitCode !== null) return `exit code ${recovery.exitCode}`;
+	return "no exit code";
+}
+
+/**
+ * Inline banner shown while an agent is restarted after a crash (or a
+ * remote agent is reconnected), and afterwards to say whether the
+ * conversation kept its context.
+ */
+export function AgentRecoveryBanner({
+	recovery,
+	agentLabel,
+	onDismiss,
+}: AgentRecoveryBannerProps) {
+	const remote = recovery.cause === "disconnect";
+	const lost = remote
+		? `Lost the connection to ${agentLabel}`
+		: `${agentLabel} stopped unexpectedly (${describeExit(recovery)})`;
+	let icon: string;
+	let text: string;
+	switch (recovery.status) {
+		case "restarting":
+			icon = "⟳";
+			text = `${lost}. ${remote ? "Reconnecting" : "Restarting"} in ${Math.round((recovery.delayMs ?? 0) / 1000)}s… (attempt ${recovery.attempt} of ${recovery.maxAttempts})`;
+			break;
+		case "recovered":
+			if (recovery.method === "new") {
+				icon = "⚠️";
+				text = remote
+					? `Reconnected to ${agentLabel}, but it can't reopen sessions: this conversation continues in a new session without the earlier context.`
+					: `${agentLabel} was restarted after a crash, but it can't reopen sessions: it no longer remembers the earlier conversation.`;
+			} else {
+				icon = "✓";
+				text = remote
+					? `Reconnected to ${agentLabel} and resumed this conversation.`
+					: `${agentLabel} was restarted after a crash and reconnected to this conversation.`;
+			}
+			break;
+		case "failed":
+			icon = "✕";
+			text = `${lost} and could not ${remote ? "reconnect" : "be restarted"}.`;
+			break;
+	}
+
+	return (
+		<div
+			className={`obsidianaitools-recovery-banner obsidianaitools-recovery-banner-${recovery.status}`}
+		>
+			<span className="obsidianaitools-recovery-banner-icon">{icon}</span>
+			<span className="obsidianaitools-recovery-banner-text">{text}</span>
+			{recovery.status !== "restarting" && (
+				<button
+					className="obsidianaitools-recovery-banner-dismiss"
+					onClick={onDismiss}
+				>
+					Dismiss
+				</button>
+			)}
+		</div>
+	);
+}
@@ -1,5 +1,8 @@
 import * as React from "react";
+const { useEffect, useRef } = React;
+import { DropdownComponent, setIcon } from "obsidian";
 import { HeaderButton } from "./HeaderButton";
+import type { AgentProfile } from "../../domain/models/agent-profile";
 
 /**
  * One chip in the session tab strip.
@@ -61,12 +64,73 @@ export function TabStrip({ strip }: { strip: TabStripState }) {
 	);
 }
 
+/** Dropdown value for "no profile" */
+const NO_PROFILE = "";
+
+/**
+ * Profile picker under the agent name. Picking a profile starts a new
+ * chat with it in this tab.
+ */
+function ProfileSelector({
+	profiles,
+	profileId,
+	onSelectProfile,
+}: {
+	profiles: AgentProfile[];
+	profileId: string | null;
+	onSelectProfile: (profileId: string | null) => void;
+}) {
+	const containerRef = useRef<HTMLDivElement>(null);
+	const onSelectRef = useRef(onSelectProfile);
+	onSelectRef.current = onSelectProfile;
+
+	useEffect(() => {
+		const containerEl = containerRef.current;
+		if (!containerEl) return;
+		const dropdown = new DropdownComponent(containerEl);
+		dropdown.addOption(NO_PROFILE, "No profile");
+		for (const profile of profiles) {
+			dropdown.addOption(profile.id, profile.name);
+		}
+		dropdown.setValue(profileId ?? NO_PROFILE);
+		dropdown.onChange((value) => {
+			onSelectRef.current(value === NO_PROFILE ? null : value);
+		});
+		return () => {
+			containerEl.empty();
+		};
+	}, [profiles, profileId]);
+
+	return (
+		<div
+			className="obsidianaitools-profile-selector"
+			title="Profile for new chats in this tab"
+		>
+			<div ref={containerRef} />
+			<span
+				className="obsidianaitools-profile-selector-icon"
+				ref={(el) => {
+					if (el) setIcon(el, "chevron-down");
+				}}
+			/>
+		</div>
+	);
+}
+
 /**
  * Props for ChatHeader component
  */
 export interface ChatHeaderProps {
 	/** Display name of the active agent */
 	agentLabel: string;
+	/** Profiles to choose from (the selector is hidden when empty) */
+	profiles: AgentProfile[];
+	/** Profile of this tab, if any */
+	profileId: string | null;
+	/** Callback to start a new chat with a profile (null: none) */
+	onSelectProfile: (profileId: string | null) => void;
+	/** Token and cost totals of this chat (hidden when null) */
+	totals?: { summary: string; details: string } | null;
 	/** Whether a plugin update is available */
 	isUpdateAvailable: boolean;
 	/** Whether session history is supported (show History button) */
@@ -85,12 +149,17 @@ export interface ChatHeaderProps {
  * Header component for the chat view.
  *
  * Displays:
- * - Agent name
+ * - Agent name and profile picker
+ * - Token and cost totals of the chat (if the agent reports them)
  * - Update notification (if available)
  * - Action buttons (new chat, history, export, settings)
  */
 export function ChatHeader({
 	agentLabel,
+	profiles,
+	profileId,
+	onSelectProfile,
+	totals = null,
 	isUpdateAvailable,
 	hasHistoryCapability = false,
 	onNewChat,
@@ -104,6 +173,21 @@ export function ChatHeader({
 				<h3 className="obsidianaitools-chat-view-header-title">
 					{agentLabel}
 				</h3>
+				{profiles.length > 0 && (
+					<ProfileSelector
+						profiles={profiles}
+						profileId={profileId}
+						onSelectProfile={onSelectProfile}
+					/>
+				)}
+				{totals && (
+					<span
+						className="obsidianaitools-chat-view-header-totals"
+						title={totals.details}
+					>
+						{totals.summary}
+					</span>
+				)}
 			</div>
 			{isUpdateAvailable && (
 				<p className="obsidianaitools-chat-view-header-update">
@@ -14,11 +14,21 @@ import type { ImagePromptContent } from "../../domain/models/prompt-content";
 import type { QueuedMessage } from "../../hooks/useChat";
 import type { QuickPromptSetting } from "../../plugin";
 import { useQuickPrompts } from "../../hooks/useQuickPrompts";
+import { useRelatedNotes } from "../../hooks/useRelatedNotes";
+import { getMentionLinkText } from "../../shared/mention-utils";
 import type { UseMentionsReturn } from "../../hooks/useMentions";
+import {
+	getMentionBudgetId,
+	type ContextBudgetItem,
+	type ContextOverrides,
+	type MentionPreview,
+	type PreparePromptResult,
+} from "../../shared/message-service";
 import type { UseSlashCommandsReturn } from "../../hooks/useSlashCommands";
 import type { UseAutoMentionReturn } from "../../hooks/useAutoMention";
 import { SuggestionDropdown } from "./SuggestionDropdown";
 import { ImagePreviewStrip, type AttachedImage } from "./ImagePreviewStrip";
+import { ContextBudgetPanel, MIN_TRIM_CHARS } from "./ContextBudgetPanel";
 import { Logger } from "../../shared/logger";
 import { useSettings } from "../../hooks/useSettings";
 
@@ -45,6 +55,46 @@ const SUPPORTED_IMAGE_TYPES = [
 
 type SupportedImageType = (typeof SUPPORTED_IMAGE_TYPES)[number];
 
+/** Delay before re-checking mentions after the composer text changes */
+const MENTION_PREVIEW_DELAY_MS = 300;
+
+/** Delay before re-ranking related notes after the composer text changes */
+const RELATED_NOTES_DELAY_MS = 600;
+
+/** Delay before re-estimating the context budget after an edit */
+const CONTEXT_BUDGET_DELAY_MS = 500;
+
+/** Short label for a mention chip */
+const MENTION_DELIVERY_LABELS: Record<MentionPreview["delivery"], string> = {
+	embedded: "embedded",
+	truncated: "truncated",
+	linked: "linked",
+	missing: "not found",
+};
+
+/**
+ * Tooltip explaining how a mention will be sent.
+ */
+function describeMentionPreview(
+	preview: MentionPreview,
+	maxNoteLength: number,
+): string {
+	switch (preview.delivery) {
+		case "embedded":
+			return preview.kind === "image"
+				? "Sent as an image"
+				: preview.kind === "folder"
+					? "The folder's file listing is sent"
+					: `Sent in full (${(preview.length ?? 0).toLocaleString()} characters)`;
+		case "truncated":
+			return `Too long: only ${maxNoteLength.toLocaleString()} of ${(preview.length ?? 0).toLocaleString()} characters are sent`;
+		case "linked":
+			return "Sent as a link; the agent reads the file itself if it needs to";
+		case "missing":
+			return "No matching note, file or folder; sent as plain text";
+	}
+}
+
 /**
  * Props for ChatInput component
  */
@@ -77,9 +127,20 @@ export interface ChatInputProps {
 	onSendMessage: (
 		content: string,
 		images?: ImagePromptContent[],
+		contextOverrides?: ContextOverrides,
 	) => Promise<void>;
 	/** Callback to queue a message while the agent is streaming */
-	onQueueMessage: (content: string, images?: ImagePromptContent[]) => void;
+	onQueueMessage: (
+		content: string,
+		images?: ImagePromptContent[],
+		contextOverrides?: ContextOverrides,
+	) => void;
+	/** Callback to prepare the message without sending it (context budget) */
+	onPreviewPrompt: (
+		content: string,
+		images?: ImagePromptContent[],
+		contextOverrides?: ContextOverrides,
+	) => Promise<PreparePromptResult>;
 	/** Messages queued to send when the current turn finishes */
 	queuedMessages: QueuedMessage[];
 	/** Callback to remove a queued message (chip dismissed) */
@@ -129,6 +190,7 @@ export function ChatInput({
 	view,
 	onSendMessage,
 	onQueueMessage,
+	onPreviewPrompt,
 	queuedMessages,
 	onRemoveQueuedMessage,
 	onStopGeneration,
@@ -146,16 +208,26 @@ export function ChatInput({
 	// Quick prompt `!` menu (prompts are configured in settings)
 	const quickPromptMenu = useQuickPrompts(settings.quickPrompts);
 
+	// Related-note chips from the local full-text index
+	const relatedNotes = useRelatedNotes(plugin);
+
 	// Local state
 	const [inputValue, setInputValue] = useState("");
 	const [hintText, setHintText] = useState<string | null>(null);
 	const [commandText, setCommandText] = useState<string>("");
 	const [attachedImages, setAttachedImages] = useState<AttachedImage[]>([]);
 	const [isDraggingOver, setIsDraggingOver] = useState(false);
+	const [contextOverrides, setContextOverrides] = useState<ContextOverrides>(
+		{},
+	);
+	const [contextPreview, setContextPreview] =
+		useState<PreparePromptResult | null>(null);
+	const [isContextPanelOpen, setIsContextPanelOpen] = useState(false);
 
 	// Refs
 	const textareaRef = useRef<HTMLTextAreaElement>(null);
 	const dragCounterRef = useRef(0);
+	const contextPreviewRequestRef = useRef(0);
 	const sendButtonRef = useRef<HTMLButtonElement>(null);
 	const modeDropdownRef = useRef<HTMLDivElement>(null);
 	const modeDropdownInstance = useRef<DropdownComponent | null>(null);
@@ -369,6 +441,60 @@ export function ChatInput({
 		}, 0);
 	}, []);
 
+	// The auto-mentioned note is already in the context; never suggest it
+	const relatedExcludePaths = useMemo(
+		() =>
+			autoMentionEnabled &&
+			autoMention.activeNote &&
+			!autoMention.isDisabled
+				? [autoMention.activeNote.path]
+				: [],
+		[autoMentionEnabled, autoMention.activeNote, autoMention.isDisabled],
+	);
+
+	// Related notes mentioned automatically when sending. The preview and
+	// the send path both use this list, so the budget shows what is sent.
+	const autoAttached = useMemo(
+		() => (inputValue.trim() ? relatedNotes.autoAttach : []),
+		[inputValue, relatedNotes.autoAttach],
+	);
+	const autoAttachedIds = useMemo(
+		() =>
+			new Set(
+				autoAttached.map((note) =>
+					getMentionBudgetId(getMentionLinkText(note)),
+				),
+			),
+		[autoAttached],
+	);
+
+	/**
+	 * The typed message followed by mentions of the given related notes.
+	 */
+	const withRelatedMentions = useCallback(
+		(notes: NoteMetadata[]) => {
+			const message = inputValue.trim();
+			if (!message || notes.length === 0) return message;
+			return `${message}\n\n${notes
+				.map((note) => `@[[${getMentionLinkText(note)}]]`)
+				.join(" ")}`;
+		},
+		[inputValue],
+	);
+
+	/**
+	 * Mention a related note (chip click) at the end of the message.
+	 */
+	const attachRelatedNote = useCallback(
+		(note: NoteMetadata) => {
+			const base = inputValue.trimEnd();
+			setTextAndFocus(
+				`${base}${base ? " " : ""}@[[${getMentionLinkText(note)}]] `,
+			);
+		},
+		[inputValue, setTextAndFocus],
+	);
+
 	/**
 	 * Handle mention selection from dropdown.
 	 */
@@ -535,8 +661,15 @@ export function ChatInput({
 		// Allow sending if there's text OR images
 		if (!hasContent) return;
 
-		// Save input value and images before clearing
-		const messageToSend = inputValue.trim();
+		// Save input value and images before clearing. Auto-attached notes
+		// the user dropped from the budget are left out entirely.
+		const dropped = new Set(contextOverrides.dropped ?? []);
+		const messageToSend = withRelatedMentions(
+			autoAttached.filter(
+				(note) =>
+					!dropped.has(getMentionBudgetId(getMentionLinkText(note))),
+			),
+		);
 		const imagesToSend: ImagePromptContent[] = attachedImages.map(
 			(img) => ({
 				type: "image",
@@ -545,11 +678,18 @@ export function ChatInput({
 			}),
 		);
 
+		const overridesToSend =
+			contextOverrides.dropped?.length ||
+			Object.keys(contextOverrides.trimmed ?? {}).length > 0
+				? contextOverrides
+				: undefined;
+
 		// Clear input, images, and hint state immediately
 		setInputValue("");
 		setAttachedImages([]);
 		setHintText(null);
 		setCommandText("");
+		setContextOverrides({});
 
 		// While streaming, queue instead of sending — the message auto-sends
 		// when the current turn finishes (Claude Code semantics)
@@ -557,6 +697,7 @@ export function ChatInput({
 			onQueueMessage(
 				messageToSend,
 				imagesToSend.length > 0 ? imagesToSend : undefined,
+				overridesToSend,
 			);
 			return;
 		}
@@ -564,12 +705,16 @@ export function ChatInput({
 		await onSendMessage(
 			messageToSend,
 			imagesToSend.length > 0 ? imagesToSend : undefined,
+			overridesToSend,
 		);
 	}, [
 		isSending,
 		hasContent,
 		inputValue,
 		attachedImages,
+		contextOverrides,
+		autoAttached,
+		withRelatedMentions,
 		onSendMessage,
 		onQueueMessage,
 		onStopGeneration,
@@ -749,6 +894,128 @@ export function ChatInput({
 		[logger, hintText, commandText, mentions, slashCommands, quickPromptMenu],
 	);
 
+	// Re-check how mentions will be sent when the set of mentions changes
+	// (not on every keystroke: previews read the mentioned files)
+	const mentionKey = useMemo(
+		() =>
+			Array.from(inputValue.matchAll(/@\[\[([^\]]+)\]\]/g))
+				.map((match) => `@[[${match[1]}]]`)
+				.join(" "),
+		[inputValue],
+	);
+	const { updatePreviews } = mentions;
+	useEffect(() => {
+		const timer = window.setTimeout(() => {
+			void updatePreviews(mentionKey, supportsImages);
+		}, MENTION_PREVIEW_DELAY_MS);
+		return () => window.clearTimeout(timer);
+	}, [
+		mentionKey,
+		supportsImages,
+		updatePreviews,
+		settings.displaySettings.maxNoteLength,
+		settings.displaySettings.mentionLinkThreshold,
+	]);
+
+	// Re-rank related notes once typing pauses
+	const { updateSuggestions: updateRelatedNotes } = relatedNotes;
+	useEffect(() => {
+		const timer = window.setTimeout(() => {
+			void updateRelatedNotes(inputValue, relatedExcludePaths);
+		}, RELATED_NOTES_DELAY_MS);
+		return () => window.clearTimeout(timer);
+	}, [
+		inputValue,
+		relatedExcludePaths,
+		updateRelatedNotes,
+		settings.relatedNotes,
+	]);
+
+	// Re-estimate the context budget after edits settle. Preparing the
+	// prompt reads every mentioned file, so it waits for a pause in typing.
+	useEffect(() => {
+		const requestId = ++contextPreviewRequestRef.current;
+		if (!hasContent) {
+			setContextPreview(null);
+			setContextOverrides({});
+			return;
+		}
+		const timer = window.setTimeout(() => {
+			const images: ImagePromptContent[] = attachedImages.map((img) => ({
+				type: "image",
+				data: img.data,
+				mimeType: img.mimeType,
+			}));
+			onPreviewPrompt(
+				withRelatedMentions(autoAttached),
+				images.length > 0 ? images : undefined,
+				contextOverrides,
+			)
+				.then((result) => {
+					if (requestId === contextPreviewRequestRef.current) {
+						setContextPreview(result);
+					}
+				})
+				.catch((error) => {
+					logger.warn("[ChatInput] Context preview failed:", error);
+				});
+		}, CONTEXT_BUDGET_DELAY_MS);
+		return () => window.clearTimeout(timer);
+	}, [
+		hasContent,
+		autoAttached,
+		withRelatedMentions,
+		attachedImages,
+		contextOverrides,
+		onPreviewPrompt,
+		logger,
+	]);
+
+	const handleDropContextItem = useCallback(
+		(item: ContextBudgetItem) => {
+			switch (item.source) {
+				case "mention":
+				case "instructions":
+					setContextOverrides((prev) => ({
+						...prev,
+						dropped: [...(prev.dropped ?? []), item.id],
+					}));
+					break;
+				case "auto-mention":
+					autoMention.toggle(true);
+					break;
+				case "image": {
+					const image = attachedImages[Number(item.id.split(":")[1])];
+					if (image) removeImage(image.id);
+					break;
+				}
+			}
+		},
+		[autoMention, attachedImages, removeImage],
+	);
+
+	const handleTrimContextItem = useCallback((item: ContextBudgetItem) => {
+		const limit = Math.max(
+			MIN_TRIM_CHARS,
+			Math.floor((item.trimmedTo ?? item.chars) / 2),
+		);
+		setContextOverrides((prev) => ({
+			...prev,
+			trimmed: { ...prev.trimmed, [item.id]: limit },
+		}));
+	}, []);
+
+	const handleResetContextItem = useCallback((item: ContextBudgetItem) => {
+		setContextOverrides((prev) => {
+			const trimmed = { ...prev.trimmed };
+			delete trimmed[item.id];
+			return {
+				dropped: prev.dropped?.filter((id) => id !== item.id),
+				trimmed,
+			};
+		});
+	}, []);
+
 	// Adjust textarea height when input changes
 	useEffect(() => {
 		adjustTextareaHeight();
@@ -1067,6 +1334,58 @@ export function ChatInput({
 					</div>
 				)}
 
+				{/* Mention chips: how each @[[...]] will be sent */}
+				{mentions.previews.length > 0 && (
+					<div className="obsidianaitools-mention-chips">
+						{mentions.previews.map((preview) => (
+							<span
+								key={preview.target}
+								className={`obsidianaitools-mention-chip obsidianaitools-mention-chip-${preview.delivery}`}
+								title={describeMentionPreview(
+									preview,
+									settings.displaySettings.maxNoteLength,
+								)}
+							>
+								<span className="obsidianaitools-mention-chip-name">
+									@{preview.target}
+								</span>
+								<span className="obsidianaitools-mention-chip-status">
+									{MENTION_DELIVERY_LABELS[preview.delivery]}
+								</span>
+							</span>
+						))}
+					</div>
+				)}
+
+				{/* Related notes: one click mentions the note */}
+				{inputValue.trim() && relatedNotes.suggestions.length > 0 && (
+					<div className="obsidianaitools-related-notes">
+						<span className="obsidianaitools-related-notes-label">
+							Related:
+						</span>
+						{relatedNotes.suggestions.map(({ note }) => {
+							const isAuto = autoAttached.some(
+								(attached) => attached.path === note.path,
+							);
+							return (
+								<button
+									key={note.path}
+									className={`obsidianaitools-related-note-chip ${isAuto ? "obsidianaitools-related-note-chip-auto" : ""}`}
+									title={
+										isAuto
+											? `${note.path} (attached automatically when you send)`
+											: `Mention ${note.path}`
+									}
+									onClick={() => attachRelatedNote(note)}
+								>
+									{isAuto ? "✓ " : "+ "}
+									{note.name}
+								</button>
+							);
+						})}
+					</div>
+				)}
+
 				{/* Textarea with Hint Overlay */}
 				<div className="obsidianaitools-textarea-wrapper">
 					<textarea
@@ -1102,6 +1421,22 @@ export function ChatInput({
 					/>
 				)}
 
+				{/* Context budget: estimated size and exact content */}
+				{hasContent && contextPreview && (
+					<ContextBudgetPanel
+						budget={contextPreview.budget}
+						agentContent={contextPreview.agentContent}
+						autoAttachedIds={autoAttachedIds}
+						isOpen={isContextPanelOpen}
+						onToggle={() =>
+							setIsContextPanelOpen(!isContextPanelOpen)
+						}
+						onDrop={handleDropContextItem}
+						onTrim={handleTrimContextItem}
+						onReset={handleResetContextItem}
+					/>
+				)}
+
 				{/* Queued messages — auto-send when the turn finishes */}
 				{queuedMessages.length > 0 && (
 					<div className="obsidianaitools-queued-strip">
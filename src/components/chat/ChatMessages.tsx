@@ -1,12 +1,19 @@
 import * as React from "react";
 const { useRef, useState, useEffect, useCallback } = React;
 
-import type { ChatMessage } from "../../domain/models/chat-message";
+import type {
+	ChatMessage,
+	PromptResult,
+} from "../../domain/models/chat-message";
 import type { StreamingPhase } from "../../hooks/useChat";
 import type { IAcpClient } from "../../adapters/acp/acp.adapter";
 import type AgentClientPlugin from "../../plugin";
 import type { ChatView } from "./ChatView";
 import { MessageRenderer } from "./MessageRenderer";
+import {
+	STOP_REASON_LABELS,
+	describeTokenUsage,
+} from "../../shared/token-usage";
 
 /**
  * Error information to display
@@ -50,6 +57,8 @@ export interface ChatMessagesProps {
 	) => Promise<void>;
 	/** Callback to send a message (used for "Other" option) */
 	onSendMessage?: (content: string) => Promise<void>;
+	/** Callback to send or queue a follow-up (used for rejected diff hunks) */
+	onSendFollowUp?: (content: string) => Promise<void>;
 	/** Callback to clear the error */
 	onClearError: () => void;
 	/** Whether the agent is properly configured */
@@ -114,6 +123,76 @@ function LoadingIndicator({ streamingPhase }: { streamingPhase: StreamingPhase }
 	);
 }
 
+/** Explanations for stop reasons that need the user's attention */
+const STOP_REASON_BANNERS: Partial<
+	Record<PromptResult["stopReason"], { title: string; message: string }>
+> = {
+	refusal: {
+		title: "The agent declined to continue",
+		message:
+			"The agent refused this request. Rephrase it or start a new chat to continue.",
+	},
+	max_tokens: {
+		title: "Response cut off",
+		message:
+			"The agent hit its output token limit. Ask it to continue, or break the task into smaller steps.",
+	},
+};
+
+/**
+ * Per-turn footer: stop reason and token usage for the turn that ended
+ * with this message. Refusals and token-limit stops get a banner instead
+ * of a muted label.
+ */
+function TurnFooter({ turnResult }: { turnResult: PromptResult }) {
+	const banner = STOP_REASON_BANNERS[turnResult.stopReason];
+	const usageParts = turnResult.usage
+		? describeTokenUsage(turnResult.usage)
+		: [];
+
+	// Nothing worth showing for a normal turn without usage data
+	if (
+		!banner &&
+		turnResult.stopReason === "end_turn" &&
+		usageParts.length === 0
+	) {
+		return null;
+	}
+
+	const totalTitle = turnResult.usage
+		? `${turnResult.usage.totalTokens.toLocaleString()} tokens total`
+		: undefined;
+
+	return (
+		<div className="obsidianaitools-turn-footer">
+			{banner && (
+				<div
+					className={`obsidianaitools-turn-banner obsidianaitools-turn-banner-${turnResult.stopReason}`}
+				>
+					<div className="obsidianaitools-turn-banner-title">
+						{banner.title}
+					</div>
+					<div className="obsidianaitools-turn-banner-message">
+						{banner.message}
+					</div>
+				</div>
+			)}
+			<div className="obsidianaitools-turn-stats" title={totalTitle}>
+				{!banner && turnResult.stopReason !== "end_turn" && (
+					<span className="obsidianaitools-turn-stop-reason">
+						{STOP_REASON_LABELS[turnResult.stopReason]}
+					</span>
+				)}
+				{usageParts.map((part) => (
+					<span key={part} className="obsidianaitools-turn-usage">
+						{part}
+					</span>
+				))}
+			</div>
+		</div>
+	);
+}
+
 /**
  * Messages container component for the chat view.
  *
@@ -137,6 +216,7 @@ export function ChatMessages({
 	acpClient,
 	onApprovePermission,
 	onSendMessage,
+	onSendFollowUp,
 	onClearError,
 	isAgentConfigured,
 	onOpenSettings,
@@ -294,14 +374,19 @@ export function ChatMessages({
 			) : (
 				<>
 					{messages.map((message) => (
-						<MessageRenderer
-							key={message.id}
-							message={message}
-							plugin={plugin}
-							acpClient={acpClient}
-							onApprovePermission={onApprovePermission}
-							onSendMessage={onSendMessage}
-						/>
+						<React.Fragment key={message.id}>
+							<MessageRenderer
+								message={message}
+								plugin={plugin}
+								acpClient={acpClient}
+								onApprovePermission={onApprovePermission}
+								onSendMessage={onSendMessage}
+								onSendFollowUp={onSendFollowUp}
+							/>
+							{message.turnResult && (
+								<TurnFooter turnResult={message.turnResult} />
+							)}
+						</React.Fragment>
 					))}
 					{isSending && (
 						<LoadingIndicator streamingPhase={streamingPhase} />
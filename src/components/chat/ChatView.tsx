@@ -12,6 +12,8 @@ import { ChatMessages } from "./ChatMessages";
 import { ChatInput } from "./ChatInput";
 import { AgentUpdateBanner } from "./AgentUpdateBanner";
 import { CompatWarningBanner } from "./CompatWarningBanner";
+import { AgentRecoveryBanner } from "./AgentRecoveryBanner";
+import { DefaultsFallbackBanner } from "./DefaultsFallbackBanner";
 import { SessionHistoryModal } from "./SessionHistoryModal";
 import { ConfirmDeleteModal } from "./ConfirmDeleteModal";
 
@@ -21,6 +23,9 @@ import { NoteMentionService } from "../../adapters/obsidian/mention-service";
 // Utility imports
 import { Logger } from "../../shared/logger";
 import { ChatExporter } from "../../shared/chat-exporter";
+import type { ContextOverrides } from "../../shared/message-service";
+import { getProfilePermissionRules } from "../../shared/permission-rules";
+import { describeSessionTotals } from "../../shared/token-usage";
 
 // Adapter imports
 import type { IAcpClient } from "../../adapters/acp/acp.adapter";
@@ -106,8 +111,9 @@ function ChatComponent({
 		};
 	}, [noteMentionService]);
 
-	// Each instance (tab) owns its own adapter — its own agent process and
-	// connection — so parallel tabs never share a session-update callback.
+	// Each instance (tab) owns its own adapter — its session handle on the
+	// agent process it shares with other tabs using the same agent — so
+	// updates for its session never reach another tab's callbacks.
 	// useRef, not useMemo: adapter creation has side effects (registry) and
 	// must run exactly once per mounted instance.
 	const acpAdapterRef = useRef<AcpAdapter | null>(null);
@@ -119,7 +125,8 @@ function ChatComponent({
 
 	// Release + disconnect this tab's adapter when the instance unmounts
 	// (tab closed or view closed); closeSession cleanup also disconnects,
-	// but this guarantees the process dies and the registry stays accurate.
+	// but this guarantees the tab leaves the shared process (which exits
+	// with its last tab) and the registry stays accurate.
 	useEffect(() => {
 		return () => {
 			plugin.releaseAdapter(acpAdapter);
@@ -140,14 +147,29 @@ function ChatComponent({
 		acpAdapter,
 		plugin.settingsStore,
 		vaultPath,
+		plugin.secrets,
+		vaultAccessAdapter,
 	);
 
 	const {
 		session,
 		errorInfo: sessionErrorInfo,
 		isReady: isSessionReady,
+		profile,
 	} = agentSession;
 
+	// The profile's permission policy applies to this tab's requests
+	useEffect(() => {
+		acpAdapter.setProfilePermissionRules(
+			getProfilePermissionRules(profile?.permissionPolicy ?? "rules"),
+		);
+	}, [acpAdapter, profile?.permissionPolicy]);
+
+	// The vault MCP server reads and writes this tab's notes through it
+	useEffect(() => {
+		acpAdapter.setVaultAccess(vaultAccessAdapter);
+	}, [acpAdapter, vaultAccessAdapter]);
+
 	const chat = useChat(
 		acpAdapter,
 		vaultAccessAdapter,
@@ -161,6 +183,9 @@ function ChatComponent({
 			windowsWslMode: settings.windowsWslMode,
 			maxNoteLength: settings.displaySettings.maxNoteLength,
 			maxSelectionLength: settings.displaySettings.maxSelectionLength,
+			mentionLinkThreshold:
+				settings.displaySettings.mentionLinkThreshold,
+			mentionTruncation: settings.displaySettings.mentionTruncation,
 		},
 	);
 
@@ -173,7 +198,11 @@ function ChatComponent({
 
 	const permission = usePermission(acpAdapter, messages);
 
-	const mentions = useMentions(vaultAccessAdapter, plugin);
+	const mentions = useMentions(
+		vaultAccessAdapter,
+		noteMentionService,
+		plugin,
+	);
 	const autoMention = useAutoMention(vaultAccessAdapter);
 	const slashCommands = useSlashCommands(
 		session.availableCommands || [],
@@ -298,24 +327,41 @@ function ChatComponent({
 		return custom?.displayName || custom?.id || activeId;
 	}, [session.agentId, plugin.settings]);
 
+	// Tokens add up per turn in the saved session; cost and context use
+	// come live from the agent, with the saved cost until it reports one
+	const sessionTotals = useMemo(() => {
+		const saved = settings.savedSessions.find(
+			(s) => s.sessionId === session.sessionId,
+		);
+		return describeSessionTotals(saved?.usage, session.usage, saved?.cost);
+	}, [settings.savedSessions, session.sessionId, session.usage]);
+
 	// ============================================================
 	// Callbacks
 	// ============================================================
 	/**
 	 * Handle new chat request.
 	 * @param requestedAgentId - If provided, switch to this agent (from "New chat with [Agent]" command)
+	 * @param requestedProfileId - If provided, start with this profile (null: no profile)
 	 */
 	const handleNewChat = useCallback(
-		async (requestedAgentId?: string) => {
+		async (
+			requestedAgentId?: string,
+			requestedProfileId?: string | null,
+		) => {
 			const isAgentSwitch =
 				requestedAgentId && requestedAgentId !== session.agentId;
+			const isProfileSwitch =
+				requestedProfileId !== undefined &&
+				requestedProfileId !== (profile?.id ?? null);
 
 			// Skip if already an empty, healthy session and not switching
-			// agents. When the session is in an error/disconnected state,
-			// "New chat" doubles as a retry even with no messages.
+			// agents or profiles. When the session is in an error/disconnected
+			// state, "New chat" doubles as a retry even with no messages.
 			if (
 				messages.length === 0 &&
 				!isAgentSwitch &&
+				!isProfileSwitch &&
 				session.state === "ready"
 			) {
 				new Notice("[AI Tools] Already a new session");
@@ -340,8 +386,10 @@ function ChatComponent({
 				);
 			}
 
-			// Switch agent if requested
-			if (isAgentSwitch) {
+			// Switch profile (and its agent) or agent if requested
+			if (isProfileSwitch) {
+				await agentSession.selectProfile(requestedProfileId);
+			} else if (isAgentSwitch) {
 				await agentSession.switchAgent(requestedAgentId);
 			}
 
@@ -355,6 +403,7 @@ function ChatComponent({
 		[
 			messages,
 			session,
+			profile,
 			logger,
 			autoExport,
 			autoMention,
@@ -543,7 +592,11 @@ function ChatComponent({
 	]);
 
 	const handleSendMessage = useCallback(
-		async (content: string, images?: ImagePromptContent[]) => {
+		async (
+			content: string,
+			images?: ImagePromptContent[],
+			contextOverrides?: ContextOverrides,
+		) => {
 			const isFirstMessage = messages.length === 0;
 
 			await chat.sendMessage(content, {
@@ -553,6 +606,8 @@ function ChatComponent({
 						.basePath || "",
 				isAutoMentionDisabled: autoMention.isDisabled,
 				images,
+				contextOverrides,
+				preamble: isFirstMessage ? profile?.preamble : undefined,
 			});
 
 			// Save session metadata locally on first message
@@ -571,6 +626,7 @@ function ChatComponent({
 			autoMention,
 			plugin,
 			messages.length,
+			profile?.preamble,
 			session.sessionId,
 			sessionHistory,
 			logger,
@@ -583,7 +639,11 @@ function ChatComponent({
 	 * handleSendMessage.
 	 */
 	const handleQueueMessage = useCallback(
-		(content: string, images?: ImagePromptContent[]) => {
+		(
+			content: string,
+			images?: ImagePromptContent[],
+			contextOverrides?: ContextOverrides,
+		) => {
 			chat.queueMessage(content, {
 				activeNote: autoMention.activeNote,
 				vaultBasePath:
@@ -591,11 +651,43 @@ function ChatComponent({
 						.basePath || "",
 				isAutoMentionDisabled: autoMention.isDisabled,
 				images,
+				contextOverrides,
 			});
 		},
 		[chat, autoMention, plugin],
 	);
 
+	/**
+	 * Prepare the composer's message without sending it, for the context
+	 * budget and preview. Uses the same options as handleSendMessage.
+	 */
+	const { previewPrompt } = chat;
+	const handlePreviewPrompt = useCallback(
+		(
+			content: string,
+			images?: ImagePromptContent[],
+			contextOverrides?: ContextOverrides,
+		) =>
+			previewPrompt(content, {
+				activeNote: autoMention.activeNote,
+				vaultBasePath:
+					(plugin.app.vault.adapter as VaultAdapterWithBasePath)
+						.basePath || "",
+				isAutoMentionDisabled: autoMention.isDisabled,
+				images,
+				contextOverrides,
+				preamble: messages.length === 0 ? profile?.preamble : undefined,
+			}),
+		[
+			previewPrompt,
+			autoMention.activeNote,
+			autoMention.isDisabled,
+			plugin,
+			messages.length,
+			profile?.preamble,
+		],
+	);
+
 	const handleStopGeneration = useCallback(async () => {
 		logger.log("Cancelling current operation...");
 		// Stop kills only the current response — a queued message then
@@ -632,6 +724,21 @@ function ChatComponent({
 		[chat, autoMention, plugin],
 	);
 
+	/**
+	 * Send a follow-up generated by the UI (e.g. rejected diff hunks).
+	 * Queued while the agent is busy so it doesn't cancel the running turn.
+	 */
+	const handleSendFollowUp = useCallback(
+		async (content: string) => {
+			if (isSending) {
+				handleQueueMessage(content);
+				return;
+			}
+			await handleSendMessageFromPermission(content);
+		},
+		[isSending, handleQueueMessage, handleSendMessageFromPermission],
+	);
+
 	const handleClearError = useCallback(() => {
 		chat.clearError();
 	}, [chat]);
@@ -698,13 +805,16 @@ function ChatComponent({
 	const handleSessionUpdateRef = useRef(chat.handleSessionUpdate);
 	const updateAvailableCommandsRef = useRef(agentSession.updateAvailableCommands);
 	const updateCurrentModeRef = useRef(agentSession.updateCurrentMode);
+	const updateUsageRef = useRef(agentSession.updateUsage);
 	sessionIdRef.current = session.sessionId;
 	isLoadingSessionHistoryRef.current = isLoadingSessionHistory;
 	handleSessionUpdateRef.current = chat.handleSessionUpdate;
 	updateAvailableCommandsRef.current = agentSession.updateAvailableCommands;
 	updateCurrentModeRef.current = agentSession.updateCurrentMode;
+	updateUsageRef.current = agentSession.updateUsage;
 
-	// Reload session when API settings change (apiKey, baseUrl, model).
+	// Reload session when API settings change (apiKey, baseUrl, model, or
+	// per-agent credentials).
 	// Debounced: the settings tab saves on every keystroke, and applying a new
 	// API key respawns the agent process (env vars only apply at spawn) — do
 	// that once after the user stops typing, not per keystroke. Skips the
@@ -727,6 +837,7 @@ function ChatComponent({
 		settings.apiKey,
 		settings.baseUrl,
 		settings.model,
+		settings.agentCredentials,
 		agentSession.createSession,
 		logger,
 	]);
@@ -794,6 +905,8 @@ function ChatComponent({
 					updateAvailableCommandsRef.current(update.commands);
 				} else if (update.type === "current_mode_update") {
 					updateCurrentModeRef.current(update.currentModeId);
+				} else if (update.type === "usage_update") {
+					updateUsageRef.current(update.usage);
 				}
 				// Ignore all message-related updates (history replay)
 				return;
@@ -807,6 +920,8 @@ function ChatComponent({
 				updateAvailableCommandsRef.current(update.commands);
 			} else if (update.type === "current_mode_update") {
 				updateCurrentModeRef.current(update.currentModeId);
+			} else if (update.type === "usage_update") {
+				updateUsageRef.current(update.usage);
 			}
 		});
 	}, [acpAdapter, logger]);
@@ -960,11 +1075,30 @@ function ChatComponent({
 		) {
 			// Fire-and-forget save via sessionHistory hook
 			sessionHistory.saveSessionMessages(session.sessionId, messages);
+
+			// Accumulate this turn's token usage into the saved session,
+			// along with the cost the agent last reported
+			const turnUsage = messages[messages.length - 1].turnResult?.usage;
+			const cost = session.usage?.cost;
+			if (turnUsage || cost) {
+				sessionHistory.recordSessionUsage(
+					session.sessionId,
+					turnUsage,
+					cost,
+				);
+			}
 			logger.log(
 				`[ChatView] Session messages saved: ${session.sessionId}`,
 			);
 		}
-	}, [isSending, session.sessionId, messages, sessionHistory, logger]);
+	}, [
+		isSending,
+		session.sessionId,
+		session.usage?.cost,
+		messages,
+		sessionHistory,
+		logger,
+	]);
 
 	// ============================================================
 	// Effects - Auto-mention Active Note Tracking
@@ -1018,13 +1152,20 @@ function ChatComponent({
 			workspace as unknown as {
 				on: (
 					name: string,
-					callback: (agentId?: string) => void,
+					callback: (agentId?: string, profileId?: string) => void,
 				) => ReturnType<typeof workspace.on>;
 			}
-		).on("obsidianaitools:new-chat-requested", (agentId?: string) => {
-			if (!isActiveTab) return;
-			void handleNewChat(agentId);
-		});
+		).on(
+			"obsidianaitools:new-chat-requested",
+			(agentId?: string, profileId?: string) => {
+				if (!isActiveTab) return;
+				// An agent command starts a chat without a profile
+				void handleNewChat(
+					agentId,
+					profileId ?? (agentId ? null : undefined),
+				);
+			},
+		);
 
 		return () => {
 			workspace.offref(eventRef);
@@ -1092,6 +1233,12 @@ function ChatComponent({
 		<div className="obsidianaitools-chat-view-container">
 			<ChatHeader
 				agentLabel={activeAgentLabel}
+				profiles={settings.profiles}
+				profileId={profile?.id ?? null}
+				onSelectProfile={(profileId) =>
+					void handleNewChat(undefined, profileId)
+				}
+				totals={sessionTotals}
 				isUpdateAvailable={isUpdateAvailable}
 				hasHistoryCapability={sessionHistory.canShowSessionHistory}
 				onNewChat={() => void handleNewChat()}
@@ -1157,6 +1304,22 @@ function ChatComponent({
 				/>
 			)}
 
+			{agentSession.recovery && (
+				<AgentRecoveryBanner
+					recovery={agentSession.recovery}
+					agentLabel={activeAgentLabel}
+					onDismiss={agentSession.dismissRecovery}
+				/>
+			)}
+
+			{agentSession.defaultsNotice && (
+				<DefaultsFallbackBanner
+					notice={agentSession.defaultsNotice}
+					onOpenSettings={handleOpenSettings}
+					onDismiss={agentSession.dismissDefaultsNotice}
+				/>
+			)}
+
 			<ChatMessages
 				messages={messages}
 				isSending={isSending}
@@ -1170,6 +1333,7 @@ function ChatComponent({
 				acpClient={acpClientRef.current}
 				onApprovePermission={permission.approvePermission}
 				onSendMessage={handleSendMessageFromPermission}
+				onSendFollowUp={handleSendFollowUp}
 				onClearError={handleClearError}
 				isAgentConfigured={!!session.agentId}
 				onOpenSettings={handleOpenSettings}
@@ -1191,6 +1355,7 @@ function ChatComponent({
 				view={view}
 				onSendMessage={handleSendMessage}
 				onQueueMessage={handleQueueMessage}
+				onPreviewPrompt={handlePreviewPrompt}
 				queuedMessages={chat.queuedMessages}
 				onRemoveQueuedMessage={chat.removeQueuedMessage}
 				onStopGeneration={handleStopGeneration}
@@ -1212,7 +1377,7 @@ const MAX_TABS = 4;
 /**
  * Container that renders one ChatComponent instance per session tab and
  * toggles visibility with CSS. Instances stay mounted while their tab is
- * open, so each keeps its own agent process, transcript, queue, and
+ * open, so each keeps its own agent session, transcript, queue, and
  * streaming state; the strip in the header is just "which one is visible".
  */
 function TabbedChat({
@@ -0,0 +1,178 @@
+import * as React from "react";
+const { useState } = React;
+import type { PromptContent } from "../../domain/models/prompt-content";
+import type { ContextBudgetItem } from "../../shared/message-service";
+import { formatTokenCount } from "../../shared/token-usage";
+
+interface ContextBudgetPanelProps {
+	/** Size of each part of the prompt */
+	budget: ContextBudgetItem[];
+	/** Exactly what will be sent to the agent */
+	agentContent: PromptContent[];
+	/** IDs of the mentions added for related notes (auto-attach) */
+	autoAttachedIds?: Set<string>;
+	/** Whether the breakdown is shown (the summary bar always is) */
+	isOpen: boolean;
+	onToggle: () => void;
+	onDrop: (item: ContextBudgetItem) => void;
+	onTrim: (item: ContextBudgetItem) => void;
+	/** Undo a drop or trim */
+	onReset: (item: ContextBudgetItem) => void;
+}
+
+/** Smallest length Trim cuts an item down to */
+export const MIN_TRIM_CHARS = 500;
+
+/**
+ * Label for one content block in the exact-content view.
+ */
+function describeBlock(block: PromptContent): string {
+	switch (block.type) {
+		case "text":
+			return "Text";
+		case "image":
+			return `Image (${block.mimeType}, ${Math.round((block.data.length * 3) / 4 / 1024)} KB)`;
+		case "resource":
+			return `Resource ${block.resource.uri}`;
+		case "resource_link":
+			return `Link ${block.uri}`;
+	}
+}
+
+/**
+ * Context budget for the composer: a summary bar with the estimated size
+ * of the next prompt, and a breakdown by source with Drop/Trim controls
+ * plus a view of the exact content blocks that will be sent.
+ */
+export function ContextBudgetPanel({
+	budget,
+	agentContent,
+	autoAttachedIds,
+	isOpen,
+	onToggle,
+	onDrop,
+	onTrim,
+	onReset,
+}: ContextBudgetPanelProps) {
+	const [showContent, setShowContent] = useState(false);
+	const sent = budget.filter((item) => !item.dropped);
+	const chars = sent.reduce((total, item) => total + item.chars, 0);
+	const tokens = sent.reduce((total, item) => total + item.tokens, 0);
+
+	return (
+		<div className="obsidianaitools-context-budget">
+			<button
+				className="obsidianaitools-context-budget-summary"
+				onClick={onToggle}
+				title={
+					isOpen
+						? "Hide the context breakdown"
+						: "Show what will be sent"
+				}
+			>
+				≈ {formatTokenCount(tokens)} tokens · {chars.toLocaleString()}{" "}
+				chars
+				<span className="obsidianaitools-context-budget-caret">
+					{isOpen ? "▾" : "▸"}
+				</span>
+			</button>
+
+			{isOpen && (
+				<div className="obsidianaitools-context-budget-panel">
+					<ul className="obsidianaitools-context-budget-items">
+						{budget.map((item) => (
+							<li
+								key={item.id}
+								className={`obsidianaitools-context-budget-item ${item.dropped ? "obsidianaitools-context-budget-item-dropped" : ""}`}
+							>
+								<span
+									className="obsidianaitools-context-budget-label"
+									title={item.label}
+								>
+									{item.label}
+									{autoAttachedIds?.has(item.id) && (
+										<span
+											className="obsidianaitools-context-budget-delivery"
+											title="Related note, attached automatically when you send"
+										>
+											related
+										</span>
+									)}
+									{item.delivery && (
+										<span className="obsidianaitools-context-budget-delivery">
+											{item.delivery}
+										</span>
+									)}
+								</span>
+								<span className="obsidianaitools-context-budget-size">
+									{item.dropped
+										? "dropped"
+										: `≈ ${formatTokenCount(item.tokens)} · ${item.chars.toLocaleString()}`}
+								</span>
+								<span className="obsidianaitools-context-budget-actions">
+									{item.source !== "message" &&
+										!item.dropped && (
+											<button
+												onClick={() => onDrop(item)}
+											>
+												Drop
+											</button>
+										)}
+									{item.canTrim &&
+										!item.dropped &&
+										item.chars > MIN_TRIM_CHARS && (
+											<button
+												onClick={() => onTrim(item)}
+												title="Send half as much of this item"
+											>
+												Trim
+											</button>
+										)}
+									{(item.dropped ||
+										item.trimmedTo !== undefined) && (
+										<button onClick={() => onReset(item)}>
+											Reset
+										</button>
+									)}
+								</span>
+							</li>
+						))}
+					</ul>
+
+					<button
+						className="obsidianaitools-context-budget-content-toggle"
+						onClick={() => setShowContent(!showContent)}
+					>
+						{showContent ? "Hide" : "Show"} exact content (
+						{agentContent.length}{" "}
+						{agentContent.length === 1 ? "block" : "blocks"})
+					</button>
+					{showContent && (
+						<div className="obsidianaitools-context-budget-content">
+							{agentContent.map((block, index) => (
+								<div
+									key={index}
+									className="obsidianaitools-context-budget-block"
+								>
+									<div className="obsidianaitools-context-budget-block-header">
+										{describeBlock(block)}
+									</div>
+									{block.type === "text" && (
+										<pre>{block.text}</pre>
+									)}
+									{block.type === "resource" && (
+										<pre>{block.resource.text}</pre>
+									)}
+									{block.type === "resource_link" &&
+										block.description && (
+											<pre>{block.description}</pre>
+										)}
+								</div>
+							))}
+						</div>
+					)}
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,39 @@
+import * as React from "react";
+
+export interface DefaultsFallbackBannerProps {
+	/** What was unavailable and what the session uses instead */
+	notice: string;
+	onOpenSettings: () => void;
+	onDismiss: () => void;
+}
+
+/**
+ * Inline banner shown when a session couldn't switch to the agent's
+ * remembered, pinned or profile model or mode because the agent no
+ * longer offers it.
+ */
+export function DefaultsFallbackBanner({
+	notice,
+	onOpenSettings,
+	onDismiss,
+}: DefaultsFallbackBannerProps) {
+	return (
+		<div className="obsidianaitools-defaults-banner">
+			<span className="obsidianaitools-defaults-banner-text">
+				⚠️ {notice}
+			</span>
+			<button
+				className="obsidianaitools-defaults-banner-button"
+				onClick={onOpenSettings}
+			>
+				Settings
+			</button>
+			<button
+				className="obsidianaitools-defaults-banner-button"
+				onClick={onDismiss}
+			>
+				Dismiss
+			</button>
+		</div>
+	);
+}
@@ -0,0 +1,101 @@
+import * as React from "react";
+const { useState } = React;
+import type AgentClientPlugin from "../../plugin";
+import { fileUriToPath } from "../../shared/path-utils";
+import {
+	formatByteSize,
+	resolveVaultPathFromUri,
+} from "./ResourceLinkRenderer";
+
+interface EmbeddedResourceRendererProps {
+	uri: string;
+	mimeType?: string;
+	text?: string;
+	blob?: string;
+	plugin: AgentClientPlugin;
+}
+
+/**
+ * Renders an embedded resource content block as a collapsible preview.
+ * Text resources show their contents; image blobs show the image;
+ * other binary blobs show only their size.
+ */
+export function EmbeddedResourceRenderer({
+	uri,
+	mimeType,
+	text,
+	blob,
+	plugin,
+}: EmbeddedResourceRendererProps) {
+	const [isExpanded, setIsExpanded] = useState(false);
+
+	const vaultPath = resolveVaultPathFromUri(plugin, uri);
+	const absolutePath = fileUriToPath(uri);
+	const label = vaultPath ?? absolutePath?.split("/").pop() ?? uri;
+
+	// base64 → byte count (approximate; ignores padding)
+	const blobSize = blob ? Math.floor((blob.length * 3) / 4) : 0;
+	const isImageBlob = !!blob && !!mimeType?.startsWith("image/");
+
+	const handleOpen = (e: React.MouseEvent) => {
+		e.preventDefault();
+		e.stopPropagation();
+		if (vaultPath !== null) {
+			void plugin.app.workspace.openLinkText(vaultPath, "");
+		}
+	};
+
+	return (
+		<div className="obsidianaitools-embedded-resource">
+			<div
+				className="obsidianaitools-embedded-resource-header"
+				onClick={() => setIsExpanded(!isExpanded)}
+				title={uri}
+			>
+				<span className="obsidianaitools-embedded-resource-icon">
+					📄
+				</span>
+				{vaultPath !== null ? (
+					<a
+						href="#"
+						className="obsidianaitools-embedded-resource-name"
+						onClick={handleOpen}
+					>
+						{label}
+					</a>
+				) : (
+					<span className="obsidianaitools-embedded-resource-name">
+						{label}
+					</span>
+				)}
+				{mimeType && (
+					<span className="obsidianaitools-embedded-resource-details">
+						{mimeType}
+					</span>
+				)}
+				<span className="obsidianaitools-embedded-resource-toggle">
+					{isExpanded ? "▼" : "▶"}
+				</span>
+			</div>
+			{isExpanded && (
+				<div className="obsidianaitools-embedded-resource-content">
+					{text !== undefined ? (
+						<pre className="obsidianaitools-embedded-resource-text">
+							{text}
+						</pre>
+					) : isImageBlob ? (
+						<img
+							src={`data:${mimeType};base64,${blob}`}
+							alt={label}
+							className="obsidianaitools-embedded-resource-image"
+						/>
+					) : (
+						<div className="obsidianaitools-embedded-resource-binary">
+							Binary content ({formatByteSize(blobSize)})
+						</div>
+					)}
+				</div>
+			)}
+		</div>
+	);
+}
@@ -4,6 +4,8 @@ import type { IAcpClient } from "../../adapters/acp/acp.adapter";
 import type AgentClientPlugin from "../../plugin";
 import { MarkdownTextRenderer } from "./MarkdownTextRenderer";
 import { CollapsibleThought } from "./CollapsibleThought";
+import { EmbeddedResourceRenderer } from "./EmbeddedResourceRenderer";
+import { ResourceLinkRenderer } from "./ResourceLinkRenderer";
 import { TerminalRenderer } from "./TerminalRenderer";
 import { TextWithMentions } from "./TextWithMentions";
 import { ToolCallRenderer } from "./ToolCallRenderer";
@@ -21,6 +23,8 @@ interface MessageContentRendererProps {
 	) => Promise<void>;
 	/** Callback to send a message (used for "Other" option) */
 	onSendMessage?: (content: string) => Promise<void>;
+	/** Callback to send or queue a follow-up (used for rejected diff hunks) */
+	onSendFollowUp?: (content: string) => Promise<void>;
 }
 
 export function MessageContentRenderer({
@@ -31,6 +35,7 @@ export function MessageContentRenderer({
 	acpClient,
 	onApprovePermission,
 	onSendMessage,
+	onSendFollowUp,
 }: MessageContentRendererProps) {
 	switch (content.type) {
 		case "text":
@@ -62,6 +67,7 @@ export function MessageContentRenderer({
 					acpClient={acpClient}
 					onApprovePermission={onApprovePermission}
 					onSendMessage={onSendMessage}
+					onSendFollowUp={onSendFollowUp}
 				/>
 			);
 
@@ -111,6 +117,30 @@ export function MessageContentRenderer({
 				</div>
 			);
 
+		case "resource_link":
+			return (
+				<ResourceLinkRenderer
+					uri={content.uri}
+					name={content.name}
+					title={content.title}
+					description={content.description}
+					mimeType={content.mimeType}
+					size={content.size}
+					plugin={plugin}
+				/>
+			);
+
+		case "resource":
+			return (
+				<EmbeddedResourceRenderer
+					uri={content.uri}
+					mimeType={content.mimeType}
+					text={content.text}
+					blob={content.blob}
+					plugin={plugin}
+				/>
+			);
+
 		default:
 			return <span>Unsupported content type</span>;
 	}
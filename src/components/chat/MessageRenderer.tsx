@@ -18,6 +18,8 @@ interface MessageRendererProps {
 	) => Promise<void>;
 	/** Callback to send a message (used for "Other" option) */
 	onSendMessage?: (content: string) => Promise<void>;
+	/** Callback to send or queue a follow-up (used for rejected diff hunks) */
+	onSendFollowUp?: (content: string) => Promise<void>;
 }
 
 /**
@@ -64,6 +66,7 @@ export function MessageRenderer({
 	acpClient,
 	onApprovePermission,
 	onSendMessage,
+	onSendFollowUp,
 }: MessageRendererProps) {
 	const groups = groupContent(message.content);
 
@@ -89,6 +92,7 @@ export function MessageRenderer({
 									acpClient={acpClient}
 									onApprovePermission={onApprovePermission}
 									onSendMessage={onSendMessage}
+									onSendFollowUp={onSendFollowUp}
 								/>
 							))}
 						</div>
@@ -105,6 +109,7 @@ export function MessageRenderer({
 								acpClient={acpClient}
 								onApprovePermission={onApprovePermission}
 								onSendMessage={onSendMessage}
+								onSendFollowUp={onSendFollowUp}
 							/>
 						</div>
 					);
@@ -0,0 +1,109 @@
+import * as React from "react";
+import { Platform } from "obsidian";
+import type AgentClientPlugin from "../../plugin";
+import { fileUriToPath, toVaultRelativePath } from "../../shared/path-utils";
+import { convertWindowsPathToWsl } from "../../shared/wsl-utils";
+
+interface ResourceLinkRendererProps {
+	uri: string;
+	name: string;
+	title?: string;
+	description?: string;
+	mimeType?: string;
+	size?: number;
+	plugin: AgentClientPlugin;
+}
+
+/**
+ * Resolve a resource URI to a vault-relative path.
+ *
+ * @returns Vault-relative path, or null if the URI is not a file in the vault
+ */
+export function resolveVaultPathFromUri(
+	plugin: AgentClientPlugin,
+	uri: string,
+): string | null {
+	const absolutePath = fileUriToPath(uri);
+	if (!absolutePath) return null;
+
+	const basePath =
+		(plugin.app.vault.adapter as { basePath?: string }).basePath || "";
+	const basePaths = [basePath];
+	if (Platform.isWin && plugin.settings.windowsWslMode) {
+		basePaths.push(convertWindowsPathToWsl(basePath));
+	}
+
+	const relativePath = toVaultRelativePath(
+		absolutePath,
+		basePaths,
+		Platform.isWin || Platform.isMacOS,
+	);
+	return relativePath ? relativePath : null;
+}
+
+/**
+ * Format a byte count for display (e.g., 512 B, 4.2 KB).
+ */
+export function formatByteSize(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Renders a resource_link content block as a clickable link.
+ * Vault files open in Obsidian; http(s) URLs open in the browser.
+ */
+export function ResourceLinkRenderer({
+	uri,
+	name,
+	title,
+	description,
+	mimeType,
+	size,
+	plugin,
+}: ResourceLinkRendererProps) {
+	const vaultPath = resolveVaultPathFromUri(plugin, uri);
+	const isWebUrl = /^https?:\/\//i.test(uri);
+	const isClickable = vaultPath !== null || isWebUrl;
+
+	const handleClick = (e: React.MouseEvent) => {
+		e.preventDefault();
+		if (vaultPath !== null) {
+			void plugin.app.workspace.openLinkText(vaultPath, "");
+		} else if (isWebUrl) {
+			window.open(uri);
+		}
+	};
+
+	const details = [mimeType, size !== undefined ? formatByteSize(size) : null]
+		.filter(Boolean)
+		.join(" · ");
+
+	return (
+		<div
+			className="obsidianaitools-resource-link"
+			title={description ? `${uri}\n${description}` : uri}
+		>
+			<span className="obsidianaitools-resource-link-icon">🔗</span>
+			{isClickable ? (
+				<a
+					href={isWebUrl ? uri : "#"}
+					className="obsidianaitools-resource-link-name"
+					onClick={handleClick}
+				>
+					{title || vaultPath || name}
+				</a>
+			) : (
+				<span className="obsidianaitools-resource-link-name">
+					{title || name}
+				</span>
+			)}
+			{details && (
+				<span className="obsidianaitools-resource-link-details">
+					{details}
+				</span>
+			)}
+		</div>
+	);
+}
@@ -6,6 +6,7 @@ import type { ChatView } from "./ChatView";
 import type { NoteMetadata } from "../../domain/ports/vault-access.port";
 import type { SlashCommand } from "../../domain/models/chat-session";
 import type { QuickPromptSetting } from "../../plugin";
+import { getMentionLinkText } from "../../shared/mention-utils";
 
 /**
  * Dropdown type for suggestion display.
@@ -134,11 +135,21 @@ export function SuggestionDropdown({
 					}}
 				>
 					<div className="obsidianaitools-mention-dropdown-item-name">
-						{note.name}
+						{getMentionLinkText(note)}
 					</div>
 					<div className="obsidianaitools-mention-dropdown-item-path">
 						{note.path}
+						{note.matchedOn && (
+							<span className="obsidianaitools-mention-dropdown-item-match">
+								{note.matchedOn}
+							</span>
+						)}
 					</div>
+					{note.snippet && (
+						<div className="obsidianaitools-mention-dropdown-item-snippet">
+							{note.snippet}
+						</div>
+					)}
 				</div>
 			);
 		} else {
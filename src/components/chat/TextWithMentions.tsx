@@ -1,5 +1,7 @@
 import * as React from "react";
+import { TFolder, normalizePath } from "obsidian";
 import type AgentClientPlugin from "../../plugin";
+import { splitMentionTarget } from "../../shared/mention-utils";
 
 interface TextWithMentionsProps {
 	text: string;
@@ -20,7 +22,7 @@ export function TextWithMentions({
 	plugin,
 	autoMentionContext,
 }: TextWithMentionsProps): React.ReactElement {
-	// Match @[[filename]] format only
+	// Match @[[...]] format only (notes, sections, files and folders)
 	const mentionRegex = /@\[\[([^\]]+)\]\]/g;
 	const parts: React.ReactNode[] = [];
 
@@ -56,30 +58,48 @@ export function TextWithMentions({
 			parts.push(text.slice(lastIndex, match.index));
 		}
 
-		// Extract filename from [[brackets]]
-		const noteName = match[1];
+		// Extract the link target from [[brackets]]
+		const target = match[1];
+		const { linkpath, heading, blockId, isFolder } =
+			splitMentionTarget(target);
+		// Obsidian's own link syntax, so note^id opens the block too
+		const linktext = blockId
+			? `${linkpath}#^${blockId}`
+			: heading
+				? `${linkpath}#${heading}`
+				: linkpath;
 
-		// Check if file actually exists
-		const file = plugin.app.vault
-			.getMarkdownFiles()
-			.find((f) => f.basename === noteName);
+		// Check if the file (or folder) actually exists
+		const exists = isFolder
+			? plugin.app.vault.getAbstractFileByPath(
+					normalizePath(linkpath),
+				) instanceof TFolder
+			: plugin.app.metadataCache.getFirstLinkpathDest(linkpath, "") !==
+				null;
 
-		if (file) {
-			// File exists - render as clickable mention
+		if (exists && !isFolder) {
+			// File exists - render as clickable mention (opens the section
+			// for heading and block mentions)
 			parts.push(
 				<span
 					key={match.index}
 					className="obsidianaitools-text-mention"
 					onClick={() => {
-						void plugin.app.workspace.openLinkText(file.path, "");
+						void plugin.app.workspace.openLinkText(linktext, "");
 					}}
 				>
-					@{noteName}
+					@{target}
+				</span>,
+			);
+		} else if (exists) {
+			parts.push(
+				<span key={match.index} className="obsidianaitools-text-mention">
+					@{target}
 				</span>,
 			);
 		} else {
 			// File doesn't exist - render as plain text
-			parts.push(`@${noteName}`);
+			parts.push(`@${target}`);
 		}
 
 		lastIndex = match.index + match[0].length;
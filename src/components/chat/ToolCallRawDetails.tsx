@@ -0,0 +1,85 @@
+import * as React from "react";
+const { useState } = React;
+import { Notice } from "obsidian";
+
+interface ToolCallRawDetailsProps {
+	rawInput?: { [k: string]: unknown };
+	rawOutput?: { [k: string]: unknown };
+}
+
+function RawDataSection({
+	label,
+	data,
+}: {
+	label: string;
+	data: { [k: string]: unknown };
+}) {
+	// Raw data arrives as JSON, so it always round-trips
+	const formatted = JSON.stringify(data, null, 2);
+
+	const handleCopy = async (e: React.MouseEvent) => {
+		e.stopPropagation();
+		try {
+			await navigator.clipboard.writeText(formatted);
+			new Notice(`${label} copied to clipboard.`, 2000);
+		} catch {
+			new Notice("Failed to copy to clipboard.", 3000);
+		}
+	};
+
+	return (
+		<div className="obsidianaitools-tool-call-raw-section">
+			<div className="obsidianaitools-tool-call-raw-section-header">
+				<span>{label}</span>
+				<button
+					className="obsidianaitools-tool-call-raw-copy"
+					onClick={(e) => void handleCopy(e)}
+				>
+					Copy
+				</button>
+			</div>
+			<pre className="obsidianaitools-tool-call-raw-json">
+				{formatted}
+			</pre>
+		</div>
+	);
+}
+
+/**
+ * Expandable pane showing the exact input the agent sent to a tool and the
+ * raw output it got back. Useful for debugging what an agent actually ran.
+ */
+export function ToolCallRawDetails({
+	rawInput,
+	rawOutput,
+}: ToolCallRawDetailsProps) {
+	const [isExpanded, setIsExpanded] = useState(false);
+
+	if (!rawInput && !rawOutput) {
+		return null;
+	}
+
+	return (
+		<div className="obsidianaitools-tool-call-raw">
+			<div
+				className="obsidianaitools-tool-call-raw-toggle"
+				onClick={() => setIsExpanded(!isExpanded)}
+			>
+				<span className="obsidianaitools-tool-call-raw-icon">
+					{isExpanded ? "▼" : "▶"}
+				</span>
+				Details
+			</div>
+			{isExpanded && (
+				<div className="obsidianaitools-tool-call-raw-content">
+					{rawInput && (
+						<RawDataSection label="Input" data={rawInput} />
+					)}
+					{rawOutput && (
+						<RawDataSection label="Output" data={rawOutput} />
+					)}
+				</div>
+			)}
+		</div>
+	);
+}
@@ -1,13 +1,27 @@
 import * as React from "react";
 const { useState, useMemo } = React;
-import type { MessageContent } from "../../domain/models/chat-message";
+import type {
+	ContentBlock,
+	MessageContent,
+} from "../../domain/models/chat-message";
 import type { IAcpClient } from "../../adapters/acp/acp.adapter";
 import type AgentClientPlugin from "../../plugin";
 import { TerminalRenderer } from "./TerminalRenderer";
+import { MarkdownTextRenderer } from "./MarkdownTextRenderer";
+import { ResourceLinkRenderer } from "./ResourceLinkRenderer";
+import { EmbeddedResourceRenderer } from "./EmbeddedResourceRenderer";
+import { ToolCallRawDetails } from "./ToolCallRawDetails";
 import { PermissionRequestSection } from "./PermissionRequestSection";
 import { toRelativePath } from "../../shared/path-utils";
+import { VaultFileManager } from "../../shared/vault-file-manager";
+import {
+	applyReviewedDiff,
+	computeDiffHunks,
+	formatRejectionMessage,
+	locateDiff,
+	type HunkDecision,
+} from "../../shared/diff-review";
 import * as Diff from "diff";
-// import { MarkdownTextRenderer } from "./MarkdownTextRenderer";
 
 interface ToolCallRendererProps {
 	content: Extract<MessageContent, { type: "tool_call" }>;
@@ -20,6 +34,8 @@ interface ToolCallRendererProps {
 	) => Promise<void>;
 	/** Callback to send a message (used for "Other" option) */
 	onSendMessage?: (content: string) => Promise<void>;
+	/** Callback to send or queue a follow-up (used for rejected diff hunks) */
+	onSendFollowUp?: (content: string) => Promise<void>;
 }
 
 export function ToolCallRenderer({
@@ -28,6 +44,7 @@ export function ToolCallRenderer({
 	acpClient,
 	onApprovePermission,
 	onSendMessage,
+	onSendFollowUp,
 }: ToolCallRendererProps) {
 	const {
 		kind,
@@ -36,7 +53,8 @@ export function ToolCallRenderer({
 		toolCallId,
 		permissionRequest,
 		locations,
-		// rawInput,
+		rawInput,
+		rawOutput,
 		content: toolContent,
 	} = content;
 
@@ -143,6 +161,8 @@ export function ToolCallRenderer({
 								key={index}
 								diff={item}
 								plugin={plugin}
+								reviewable={status === "completed"}
+								onSendFollowUp={onSendFollowUp}
 								autoCollapse={
 									plugin.settings.displaySettings
 										.autoCollapseDiffs
@@ -154,23 +174,21 @@ export function ToolCallRenderer({
 							/>
 						);
 					}
-					/*
 					if (item.type === "content") {
-						// Handle content blocks (text, image, etc.)
-						if ("text" in item.content) {
-							return (
-								<div key={index} className="obsidianaitools-tool-call-content">
-									<MarkdownTextRenderer
-										text={item.content.text}
-										app={plugin.app}
-									/>
-								</div>
-							);
-						}
-						}*/
+						return (
+							<ToolCallContentBlock
+								key={index}
+								block={item.content}
+								plugin={plugin}
+							/>
+						);
+					}
 					return null;
 				})}
 
+			{/* Raw tool input/output (debugging) */}
+			<ToolCallRawDetails rawInput={rawInput} rawOutput={rawOutput} />
+
 			{/* Permission request section */}
 			{permissionRequest && (
 				<PermissionRequestSection
@@ -393,6 +411,56 @@ function FetchDetails({
 }
 */
 
+// Tool output content block (text, image or resource)
+function ToolCallContentBlock({
+	block,
+	plugin,
+}: {
+	block: ContentBlock;
+	plugin: AgentClientPlugin;
+}) {
+	switch (block.type) {
+		case "text":
+			return (
+				<div className="obsidianaitools-tool-call-content">
+					<MarkdownTextRenderer text={block.text} plugin={plugin} />
+				</div>
+			);
+		case "image":
+			return (
+				<div className="obsidianaitools-tool-call-content">
+					<img
+						src={`data:${block.mimeType};base64,${block.data}`}
+						alt="Tool output"
+						className="obsidianaitools-tool-call-content-image"
+					/>
+				</div>
+			);
+		case "resource_link":
+			return (
+				<ResourceLinkRenderer
+					uri={block.uri}
+					name={block.name}
+					title={block.title}
+					description={block.description}
+					mimeType={block.mimeType}
+					size={block.size}
+					plugin={plugin}
+				/>
+			);
+		case "resource":
+			return (
+				<EmbeddedResourceRenderer
+					uri={block.uri}
+					mimeType={block.mimeType}
+					text={block.text}
+					blob={block.blob}
+					plugin={plugin}
+				/>
+			);
+	}
+}
+
 // Diff renderer component
 interface DiffRendererProps {
 	diff: {
@@ -404,6 +472,10 @@ interface DiffRendererProps {
 	plugin: AgentClientPlugin;
 	autoCollapse?: boolean;
 	collapseThreshold?: number;
+	/** Show per-hunk Accept/Reject controls (tool call has finished) */
+	reviewable?: boolean;
+	/** Callback to send or queue a follow-up listing rejected hunks */
+	onSendFollowUp?: (content: string) => Promise<void>;
 }
 
 /**
@@ -413,6 +485,8 @@ interface DiffRendererProps {
  * @property newLineNumber - Line number in the new file (undefined for removed lines)
  * @property content - The text content of the line
  * @property wordDiff - Optional word-level diff for lines that were modified (adjacent removed+added pairs)
+ * @property hunkIndex - Index of the hunk this line belongs to
+ * @property isHunkHeader - Whether this line is a hunk header row
  */
 interface DiffLine {
 	type: "added" | "removed" | "context";
@@ -420,6 +494,8 @@ interface DiffLine {
 	newLineNumber?: number;
 	content: string;
 	wordDiff?: { type: "added" | "removed" | "context"; value: string }[];
+	hunkIndex?: number;
+	isHunkHeader?: boolean;
 }
 
 /**
@@ -489,53 +565,85 @@ function renderWordDiff(
 	);
 }
 
-// Number of context lines to show around changes
-const CONTEXT_LINES = 3;
+/** Overall review progress for a diff */
+type ReviewPhase = "reviewing" | "conflict" | "applying" | "applied";
 
 function DiffRenderer({
 	diff,
+	plugin,
 	autoCollapse = false,
 	collapseThreshold = 10,
+	reviewable = false,
+	onSendFollowUp,
 }: DiffRendererProps) {
-	// Generate diff using the diff library
+	const hunks = useMemo(
+		() => computeDiffHunks(diff.oldText, diff.newText),
+		[diff.oldText, diff.newText],
+	);
+
+	const fileManager = useMemo(() => new VaultFileManager(plugin), [plugin]);
+	const vaultPath = useMemo(() => {
+		const adapter = plugin.app.vault.adapter as { basePath?: string };
+		return adapter.basePath || "";
+	}, [plugin]);
+	const canReview =
+		reviewable && hunks.length > 0 && fileManager.isVaultPath(diff.path);
+
+	// Review state (reset whenever the diff itself changes)
+	const [decisions, setDecisions] = useState<HunkDecision[]>(() =>
+		hunks.map(() => "pending"),
+	);
+	const [phase, setPhase] = useState<ReviewPhase>("reviewing");
+	const [reviewError, setReviewError] = useState<string | null>(null);
+	React.useEffect(() => {
+		setDecisions(hunks.map(() => "pending"));
+		setPhase("reviewing");
+		setReviewError(null);
+	}, [hunks]);
+
+	// Generate diff lines from the hunks
 	const diffLines = useMemo(() => {
+		const showHunkHeaders = canReview || hunks.length > 1;
+
 		if (isNewFile(diff)) {
 			// New file - all lines are added
 			const lines = diff.newText.split("\n");
-			return lines.map(
-				(line, idx): DiffLine => ({
-					type: "added",
-					newLineNumber: idx + 1,
-					content: line,
-				}),
+			const result: DiffLine[] = showHunkHeaders
+				? [
+						{
+							type: "context",
+							content: `@@ +1,${lines.length} @@`,
+							hunkIndex: 0,
+							isHunkHeader: true,
+						},
+					]
+				: [];
+			return result.concat(
+				lines.map(
+					(line, idx): DiffLine => ({
+						type: "added",
+						newLineNumber: idx + 1,
+						content: line,
+						hunkIndex: 0,
+					}),
+				),
 			);
 		}
 
-		// Use structuredPatch to get a proper unified diff
-		// At this point, oldText is guaranteed to be a non-empty string (checked by isNewFile)
-		const oldText = diff.oldText || "";
-		const patch = Diff.structuredPatch(
-			"old",
-			"new",
-			oldText,
-			diff.newText,
-			"",
-			"",
-			{ context: CONTEXT_LINES },
-		);
-
 		const result: DiffLine[] = [];
 		let oldLineNum = 0;
 		let newLineNum = 0;
 
 		// Process hunks
-		for (const hunk of patch.hunks) {
-			// Add hunk header only if there are multiple hunks
-			// (helps users see gaps between different sections of changes)
-			if (patch.hunks.length > 1) {
+		hunks.forEach((hunk, hunkIndex) => {
+			// Add hunk header when there are multiple hunks (helps users see
+			// gaps between sections) or when hunks can be reviewed
+			if (showHunkHeaders) {
 				result.push({
 					type: "context",
 					content: `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`,
+					hunkIndex,
+					isHunkHeader: true,
 				});
 			}
 
@@ -551,24 +659,28 @@ function DiffRenderer({
 						type: "added",
 						newLineNumber: newLineNum++,
 						content,
+						hunkIndex,
 					});
 				} else if (marker === "-") {
 					result.push({
 						type: "removed",
 						oldLineNumber: oldLineNum++,
 						content,
+						hunkIndex,
 					});
-				} else {
+				} else if (marker === " ") {
 					// Context line (unchanged)
 					result.push({
 						type: "context",
 						oldLineNumber: oldLineNum++,
 						newLineNumber: newLineNum++,
 						content,
+						hunkIndex,
 					});
 				}
+				// "\ No newline at end of file" markers are skipped
 			}
-		}
+		});
 
 		// Add word-level diff for modified lines that are adjacent
 		for (let i = 0; i < result.length - 1; i++) {
@@ -585,16 +697,126 @@ function DiffRenderer({
 		}
 
 		return result;
-	}, [diff.oldText, diff.newText]);
+	}, [diff.oldText, diff.newText, hunks, canReview]);
 
-	const renderLine = (line: DiffLine, idx: number) => {
-		const isHunkHeader =
-			line.type === "context" && line.content.startsWith("@@");
+	const setDecision = (hunkIndex: number, decision: HunkDecision) => {
+		setDecisions((prev) =>
+			prev.map((d, i) =>
+				i === hunkIndex ? (d === decision ? "pending" : decision) : d,
+			),
+		);
+	};
+
+	/**
+	 * Write the reviewed content (oldText + accepted hunks, in place of the
+	 * diff's span of the file) to the vault and report rejected hunks back
+	 * to the agent. Nothing is written if the span can't be found.
+	 */
+	const applyDecisions = async (finalDecisions: HunkDecision[]) => {
+		setDecisions(finalDecisions);
+		setReviewError(null);
+		setPhase("applying");
+
+		try {
+			const current = await fileManager.readFile(diff.path);
+			const location = locateDiff(current, diff.oldText, diff.newText);
+			if (location.state === "conflict") {
+				setPhase("conflict");
+				return;
+			}
+
+			const reviewed = applyReviewedDiff(
+				current,
+				location,
+				diff.oldText,
+				hunks,
+				finalDecisions,
+			);
+			if (reviewed === null) {
+				throw new Error("The accepted changes could not be applied.");
+			}
+
+			const rejectsNewFile =
+				isNewFile(diff) && !finalDecisions.includes("accepted");
+			if (rejectsNewFile) {
+				// The agent created the file; rejecting it removes it again.
+				// A file that was never written (or was changed since) stays
+				// as it is.
+				if (current !== null && current === diff.newText) {
+					await fileManager.deleteFile(diff.path);
+				}
+			} else if (reviewed !== current) {
+				await fileManager.writeFile(diff.path, reviewed);
+			}
+			setPhase("applied");
+
+			const followUp = formatRejectionMessage(
+				toRelativePath(diff.path, vaultPath),
+				hunks,
+				finalDecisions,
+			);
+			if (followUp && onSendFollowUp) {
+				await onSendFollowUp(followUp);
+			}
+		} catch (error) {
+			setReviewError(
+				error instanceof Error ? error.message : String(error),
+			);
+			setPhase("reviewing");
+		}
+	};
+
+	const acceptedCount = decisions.filter((d) => d === "accepted").length;
+	const rejectedCount = decisions.filter((d) => d === "rejected").length;
+	const pendingCount = decisions.length - acceptedCount - rejectedCount;
+	const isLocked = phase === "applying" || phase === "applied";
+
+	const renderHunkControls = (hunkIndex: number) => {
+		const decision = decisions[hunkIndex] ?? "pending";
+		if (phase === "applied") {
+			return (
+				<span
+					className={`obsidianaitools-diff-hunk-status obsidianaitools-diff-hunk-${decision}`}
+				>
+					{decision === "accepted" ? "Accepted" : "Rejected"}
+				</span>
+			);
+		}
+		return (
+			<span className="obsidianaitools-diff-hunk-actions">
+				<button
+					className={`obsidianaitools-diff-hunk-button${decision === "accepted" ? " obsidianaitools-diff-hunk-accepted" : ""}`}
+					disabled={isLocked}
+					onClick={() => setDecision(hunkIndex, "accepted")}
+				>
+					✓ Accept
+				</button>
+				<button
+					className={`obsidianaitools-diff-hunk-button${decision === "rejected" ? " obsidianaitools-diff-hunk-rejected" : ""}`}
+					disabled={isLocked}
+					onClick={() => setDecision(hunkIndex, "rejected")}
+				>
+					✗ Reject
+				</button>
+			</span>
+		);
+	};
 
-		if (isHunkHeader) {
+	const renderLine = (line: DiffLine, idx: number) => {
+		if (line.isHunkHeader) {
+			const decision =
+				line.hunkIndex !== undefined
+					? decisions[line.hunkIndex]
+					: undefined;
 			return (
-				<div key={idx} className="obsidianaitools-diff-hunk-header">
-					{line.content}
+				<div
+					key={idx}
+					className={`obsidianaitools-diff-hunk-header${canReview && decision && decision !== "pending" ? ` obsidianaitools-diff-hunk-header-${decision}` : ""}`}
+				>
+					<span>{line.content}</span>
+					{canReview &&
+						line.hunkIndex !== undefined &&
+						renderHunkControls(line.hunkIndex)}
 				</div>
 			);
 		}
@@ -668,6 +890,59 @@ function DiffRenderer({
 					</span>
 				</div>
 			)}
+			{canReview && (
+				<div className="obsidianaitools-diff-review-bar">
+					{phase === "conflict" ? (
+						<>
+							<span className="obsidianaitools-diff-review-warning">
+								⚠️ This part of the file changed since the
+								agent&apos;s edit, so the changes can&apos;t be
+								applied here. Edit the note directly instead.
+							</span>
+							<button onClick={() => setPhase("reviewing")}>
+								Back
+							</button>
+						</>
+					) : phase === "applied" ? (
+						<span className="obsidianaitools-diff-review-summary">
+							Applied: {acceptedCount} accepted, {rejectedCount}{" "}
+							rejected
+						</span>
+					) : (
+						<>
+							<span className="obsidianaitools-diff-review-summary">
+								{pendingCount > 0
+									? `${pendingCount} of ${decisions.length} changes to review`
+									: `${acceptedCount} accepted, ${rejectedCount} rejected`}
+							</span>
+							<button
+								disabled={isLocked || pendingCount > 0}
+								onClick={() => void applyDecisions(decisions)}
+							>
+								Apply
+							</button>
+							<button
+								className="mod-cta"
+								disabled={isLocked}
+								onClick={() =>
+									void applyDecisions(
+										decisions.map((d) =>
+											d === "pending" ? "accepted" : d,
+										),
+									)
+								}
+							>
+								Apply all
+							</button>
+						</>
+					)}
+					{reviewError && (
+						<span className="obsidianaitools-diff-review-error">
+							{reviewError}
+						</span>
+					)}
+				</div>
+			)}
 		</div>
 	);
 }
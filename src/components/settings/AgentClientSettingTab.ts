@@ -12,10 +12,46 @@ import type AgentClientPlugin from "../../plugin";
 import type {
 	CustomAgentSettings,
 	AgentEnvVar,
+	McpServerSettings,
 	QuickPromptSetting,
 } from "../../plugin";
 import { QuickPromptEditModal } from "./QuickPromptEditModal";
-import { normalizeEnvVars } from "../../shared/settings-utils";
+import {
+	getAgentEndpointError,
+	normalizeEnvVars,
+	normalizePermissionRule,
+	toAgentConfig,
+} from "../../shared/settings-utils";
+import {
+	createInterpolationContext,
+	loadDotEnvFile,
+	quoteArg,
+} from "../../shared/variable-interpolation";
+import {
+	TOOL_KINDS,
+	describePermissionRule,
+} from "../../shared/permission-rules";
+import type {
+	PermissionGrant,
+	PermissionRule,
+} from "../../domain/models/permission-rule";
+import type {
+	AgentCredentials,
+	AgentSessionDefaults,
+	BaseAgentSettings,
+} from "../../domain/models/agent-config";
+import {
+	EMPTY_AGENT_CREDENTIALS,
+	describeAgentCredentials,
+	getCredentialEnv,
+	getDefaultCredentialEnvNames,
+	maskSecret,
+	resolveAgentCredentials,
+} from "../../shared/agent-credentials";
+import type {
+	AgentProfile,
+	ProfilePermissionPolicy,
+} from "../../domain/models/agent-profile";
 import { detectNodePath, detectAgentPath, validatePath } from "../../shared/path-detector";
 import { checkAgentVersion, getNpmPackage } from "../../shared/version-checker";
 import {
@@ -23,15 +59,25 @@ import {
 	getAgentDisplayName,
 	showAgentRestartNotice,
 } from "../../shared/agent-installer";
+import type { MentionTruncationStrategy } from "../../shared/note-truncation";
+import {
+	collectSecretFields,
+	getReferencedSecrets,
+	isPlaintextSecret,
+	isSensitiveName,
+	SECRET_NAME_PATTERN,
+	toSecretName,
+} from "../../shared/secret-refs";
 import { ErrorLogModal } from "./ErrorLogModal";
+import { ConfirmExportModal } from "./ConfirmExportModal";
 import { OnboardingModal } from "../OnboardingModal";
 
 export class AgentClientSettingTab extends PluginSettingTab {
 	plugin: AgentClientPlugin;
 	private agentSelector: DropdownComponent | null = null;
 	private unsubscribe: (() => void) | null = null;
-	/** Whether the quick-prompts sub-page is showing instead of main settings */
-	private showQuickPromptsPage = false;
+	/** Sub-page showing instead of main settings, if any */
+	private subPage: "quick-prompts" | "permission-grants" | null = null;
 	/** Main-page scroll position, captured when entering a sub-page */
 	private mainScrollPos = { container: 0, parent: 0 };
 	/** Index being dragged in the quick-prompts list, if any */
@@ -82,11 +128,16 @@ export class AgentClientSettingTab extends PluginSettingTab {
 			this.unsubscribe = null;
 		}
 
-		// Sub-page: quick prompts manager replaces the main settings content
-		if (this.showQuickPromptsPage) {
+		// Sub-pages (quick prompts, remembered permissions) replace the
+		// main settings content
+		if (this.subPage === "quick-prompts") {
 			this.renderQuickPromptsPage(containerEl);
 			return;
 		}
+		if (this.subPage === "permission-grants") {
+			this.renderPermissionGrantsPage(containerEl);
+			return;
+		}
 
 		// Documentation link
 		const docContainer = containerEl.createDiv({
@@ -175,26 +226,65 @@ export class AgentClientSettingTab extends PluginSettingTab {
 
 		this.renderSystemStatusSection(containerEl);
 
+		new Setting(containerEl)
+			.setName("Restart agents after a crash")
+			.setDesc(
+				"If an agent process stops unexpectedly (or the connection to a remote agent drops), restart or reconnect it automatically and re-attach the chat to the same session when the agent supports it.",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.autoRestartAgent)
+					.onChange(async (value) => {
+						this.plugin.settings.autoRestartAgent = value;
+						await this.saveAndNotify();
+					}),
+			);
+
 		// ─────────────────────────────────────────────────────────────────────
-		// API Configuration (global for all agents)
+		// API Configuration (default for all agents)
 		// ─────────────────────────────────────────────────────────────────────
 
 		new Setting(containerEl).setName("API Configuration").setHeading();
 
+		this.addSecretText(
+			new Setting(containerEl)
+				.setName("API Key")
+				.setDesc(
+					"Default API key for all agents; an agent's own credentials (under Built-in agents and Custom agents) take precedence. For Claude, this is used as ANTHROPIC_AUTH_TOKEN. For Gemini, this is used as GEMINI_API_KEY.",
+				),
+			"Enter your API key",
+			() => "api-key",
+			() => this.plugin.settings.apiKey,
+			async (value) => {
+				this.plugin.settings.apiKey = value;
+				await this.saveAndNotify();
+			},
+		);
+
 		new Setting(containerEl)
-			.setName("API Key")
-			.setDesc(
-				"API key used by all agents. For Claude, this is used as ANTHROPIC_AUTH_TOKEN. For Gemini, this is used as GEMINI_API_KEY.",
-			)
+			.setName("Base URL")
+			.setDesc("Default API base URL for all agents.")
+			.addText((text) => {
+				text.setPlaceholder("https://chat.obsidianaitools.com")
+					.setValue(this.plugin.settings.baseUrl)
+					.onChange(async (value) => {
+						this.plugin.settings.baseUrl = value
+							.trim()
+							.replace(/\/$/, "");
+						await this.saveAndNotify();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("Model")
+			.setDesc("Default model, for agents that read one from a variable.")
 			.addText((text) => {
-				text.setPlaceholder("Enter your API key")
-					.setValue(this.plugin.settings.apiKey)
+				text.setPlaceholder("Agent default")
+					.setValue(this.plugin.settings.model)
 					.onChange(async (value) => {
-						this.plugin.settings.apiKey = value.trim();
+						this.plugin.settings.model = value.trim();
 						await this.saveAndNotify();
 					});
-				// Make the input a password field
-				text.inputEl.type = "password";
 			});
 
 		// API Key Instructions
@@ -242,6 +332,14 @@ export class AgentClientSettingTab extends PluginSettingTab {
 			href: "mailto:support@ultimateai.org",
 		});
 
+		// ─────────────────────────────────────────────────────────────────────
+		// Secrets
+		// ─────────────────────────────────────────────────────────────────────
+
+		new Setting(containerEl).setName("Secrets").setHeading();
+
+		this.renderSecrets(containerEl);
+
 		new Setting(containerEl)
 			.setName("Send message shortcut")
 			.setDesc(
@@ -309,6 +407,54 @@ export class AgentClientSettingTab extends PluginSettingTab {
 					}),
 			);
 
+		new Setting(containerEl)
+			.setName("Truncate long notes by")
+			.setDesc(
+				"What to keep when a mentioned note is longer than the max note length. Section-based options use the note's headings and mark what was left out.",
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption(
+						"relevant",
+						"Sections matching your message (with outline)",
+					)
+					.addOption("outline", "Outline and sections from the top")
+					.addOption("head-tail", "Start and end of the note")
+					.addOption("head", "Start of the note only")
+					.setValue(
+						this.plugin.settings.displaySettings.mentionTruncation,
+					)
+					.onChange(async (value) => {
+						this.plugin.settings.displaySettings.mentionTruncation =
+							value as MentionTruncationStrategy;
+						await this.saveAndNotify();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Link mentions longer than")
+			.setDesc(
+				"Mentioned notes longer than this many characters are sent as a link the agent opens itself, instead of being truncated. Set to 0 to always truncate.",
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("50000")
+					.setValue(
+						String(
+							this.plugin.settings.displaySettings
+								.mentionLinkThreshold,
+						),
+					)
+					.onChange(async (value) => {
+						const num = parseInt(value, 10);
+						if (!isNaN(num) && num >= 0) {
+							this.plugin.settings.displaySettings.mentionLinkThreshold =
+								num;
+							await this.saveAndNotify();
+						}
+					}),
+			);
+
 		new Setting(containerEl)
 			.setName("Max selection length")
 			.setDesc(
@@ -333,6 +479,60 @@ export class AgentClientSettingTab extends PluginSettingTab {
 					}),
 			);
 
+		new Setting(containerEl)
+			.setName("Suggest related notes")
+			.setDesc(
+				"While you type, suggest notes related to your message as chips above the input. Uses a full-text index of the vault built on this device; nothing leaves your computer.",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.relatedNotes.enabled)
+					.onChange(async (value) => {
+						this.plugin.settings.relatedNotes.enabled = value;
+						await this.saveAndNotify();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Related note suggestions")
+			.setDesc("How many related notes to suggest.")
+			.addText((text) =>
+				text
+					.setPlaceholder("3")
+					.setValue(
+						String(this.plugin.settings.relatedNotes.suggestionCount),
+					)
+					.onChange(async (value) => {
+						const num = parseInt(value, 10);
+						if (!isNaN(num) && num >= 1) {
+							this.plugin.settings.relatedNotes.suggestionCount =
+								num;
+							await this.saveAndNotify();
+						}
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Auto-attach related notes")
+			.setDesc(
+				"Mention this many of the top related notes automatically when you send a message. Set to 0 to only suggest them.",
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("0")
+					.setValue(
+						String(this.plugin.settings.relatedNotes.autoAttachCount),
+					)
+					.onChange(async (value) => {
+						const num = parseInt(value, 10);
+						if (!isNaN(num) && num >= 0) {
+							this.plugin.settings.relatedNotes.autoAttachCount =
+								num;
+							await this.saveAndNotify();
+						}
+					}),
+			);
+
 		// ─────────────────────────────────────────────────────────────────────
 		// Quick prompts
 		// ─────────────────────────────────────────────────────────────────────
@@ -355,13 +555,7 @@ export class AgentClientSettingTab extends PluginSettingTab {
 			});
 		navSetting.settingEl.addClass("obsidianaitools-qp-nav-row");
 		navSetting.settingEl.addEventListener("click", () => {
-			// Remember where the user was so Back returns them here
-			this.mainScrollPos = {
-				container: this.containerEl.scrollTop,
-				parent: this.containerEl.parentElement?.scrollTop ?? 0,
-			};
-			this.showQuickPromptsPage = true;
-			this.display();
+			this.openSubPage("quick-prompts");
 		});
 
 		// ─────────────────────────────────────────────────────────────────────
@@ -414,26 +608,89 @@ export class AgentClientSettingTab extends PluginSettingTab {
 				);
 		}
 
+		// ─────────────────────────────────────────────────────────────────────
+		// Model and mode
+		// ─────────────────────────────────────────────────────────────────────
+
+		new Setting(containerEl).setName("Model and mode").setHeading();
+
+		this.renderSessionDefaults(containerEl);
+
+		// ─────────────────────────────────────────────────────────────────────
+		// Profiles
+		// ─────────────────────────────────────────────────────────────────────
+
+		new Setting(containerEl).setName("Profiles").setHeading();
+
+		this.renderProfiles(containerEl);
+
 		// ─────────────────────────────────────────────────────────────────────
 		// Permissions
 		// ─────────────────────────────────────────────────────────────────────
 
 		new Setting(containerEl).setName("Permissions").setHeading();
 
+		this.renderPermissionRules(containerEl);
+
+		const grantCount = this.plugin.settings.permissionGrants.length;
+		const grantsNav = new Setting(containerEl)
+			.setName("Remembered permissions")
+			.setDesc(
+				grantCount === 0
+					? "Choices you made with an \"always\" option are remembered per agent and tool. None yet."
+					: `Choices you made with an "always" option are remembered per agent and tool. ${grantCount} remembered.`,
+			)
+			.addExtraButton((button) => {
+				button
+					.setIcon("chevron-right")
+					.setTooltip("Manage remembered permissions");
+			});
+		grantsNav.settingEl.addClass("obsidianaitools-qp-nav-row");
+		grantsNav.settingEl.addEventListener("click", () => {
+			this.openSubPage("permission-grants");
+		});
+
 		new Setting(containerEl)
-			.setName("Auto-allow permissions")
+			.setName("Permission audit log")
 			.setDesc(
-				"Automatically allow all permission requests from agents. ⚠️ Use with caution - this gives agents full access to your system.",
+				"Every permission request and whether a rule or you decided it. Recorded automatically.",
 			)
-			.addToggle((toggle) =>
-				toggle
-					.setValue(this.plugin.settings.autoAllowPermissions)
-					.onChange(async (value) => {
-						this.plugin.settings.autoAllowPermissions = value;
-						await this.saveAndNotify();
+			.addButton((button) =>
+				button.setButtonText("Copy").onClick(async () => {
+					const raw = await this.plugin.errorLog.readPermissionAudit();
+					if (!raw) {
+						new Notice("Permission audit log is empty.", 2000);
+						return;
+					}
+					try {
+						await navigator.clipboard.writeText(raw);
+						new Notice(
+							"Permission audit log copied to clipboard.",
+							2000,
+						);
+					} catch {
+						new Notice("Failed to copy to clipboard.", 3000);
+					}
+				}),
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Clear")
+					.setWarning()
+					.onClick(async () => {
+						await this.plugin.errorLog.clearPermissionAudit();
+						new Notice("Permission audit log cleared.", 2000);
 					}),
 			);
 
+		const auditPathInfo = containerEl.createDiv({
+			cls: "obsidianaitools-diagnostics-path",
+		});
+		auditPathInfo.appendText("Audit log file: ");
+		auditPathInfo.createEl("code", {
+			text: this.plugin.errorLog.getPermissionAuditPath(),
+		});
+
 		// ─────────────────────────────────────────────────────────────────────
 		// Windows WSL Settings (Windows only)
 		// ─────────────────────────────────────────────────────────────────────
@@ -494,6 +751,48 @@ export class AgentClientSettingTab extends PluginSettingTab {
 
 		this.renderCustomAgents(containerEl);
 
+		// ─────────────────────────────────────────────────────────────────────
+		// MCP servers
+		// ─────────────────────────────────────────────────────────────────────
+
+		new Setting(containerEl).setName("MCP servers").setHeading();
+
+		new Setting(containerEl)
+			.setName("Built-in vault server")
+			.setDesc(
+				"Give agents tools to read notes, search the vault, and follow tags, links and frontmatter. Only used by agents that support MCP over HTTP.",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.vaultMcpServer.enabled)
+					.onChange(async (value) => {
+						this.plugin.settings.vaultMcpServer.enabled = value;
+						await this.saveAndNotify();
+						this.refreshDisplay();
+					}),
+			);
+
+		if (this.plugin.settings.vaultMcpServer.enabled) {
+			new Setting(containerEl)
+				.setName("Allow creating and appending to notes")
+				.setDesc(
+					"Also expose the create-note and append-to-note tools. Each write is checked against your permission rules and the chat's profile, like the agent's own edits.",
+				)
+				.addToggle((toggle) =>
+					toggle
+						.setValue(
+							this.plugin.settings.vaultMcpServer.allowWrites,
+						)
+						.onChange(async (value) => {
+							this.plugin.settings.vaultMcpServer.allowWrites =
+								value;
+							await this.saveAndNotify();
+						}),
+				);
+		}
+
+		this.renderMcpServers(containerEl);
+
 		// ─────────────────────────────────────────────────────────────────────
 		// Export
 		// ─────────────────────────────────────────────────────────────────────
@@ -596,6 +895,23 @@ export class AgentClientSettingTab extends PluginSettingTab {
 			}
 		}
 
+		new Setting(containerEl)
+			.setName("Include tool details")
+			.setDesc(
+				"Include each tool call's raw input and output as JSON in exported markdown files",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(
+						this.plugin.settings.exportSettings.includeToolDetails,
+					)
+					.onChange(async (value) => {
+						this.plugin.settings.exportSettings.includeToolDetails =
+							value;
+						await this.saveAndNotify();
+					}),
+			);
+
 		new Setting(containerEl)
 			.setName("Auto-export on new chat")
 			.setDesc(
@@ -796,7 +1112,7 @@ export class AgentClientSettingTab extends PluginSettingTab {
 			this.unsubscribe = null;
 		}
 		// Reopening settings should land on the main page, not a sub-page
-		this.showQuickPromptsPage = false;
+		this.subPage = null;
 	}
 
 	private renderAgentSelector(containerEl: HTMLElement) {
@@ -1386,7 +1702,7 @@ export class AgentClientSettingTab extends PluginSettingTab {
 		new Setting(sectionEl)
 			.setName("Environment variables")
 			.setDesc(
-				"Enter KEY=VALUE pairs, one per line. Required to authenticate with Vertex AI. GEMINI_API_KEY is derived from the field above.(Stored as plain text)",
+				"Enter KEY=VALUE pairs, one per line. Required to authenticate with Vertex AI. The API credentials below take precedence. Use ${secret:name} for tokens.",
 			)
 			.addTextArea((text) => {
 				text.setPlaceholder("GOOGLE_CLOUD_PROJECT=...")
@@ -1397,6 +1713,9 @@ export class AgentClientSettingTab extends PluginSettingTab {
 					});
 				text.inputEl.rows = 3;
 			});
+
+		this.renderAgentLaunch(sectionEl, () => this.plugin.settings.gemini);
+		this.renderAgentCredentials(sectionEl, () => gemini.id);
 	}
 
 	private renderClaudeSettings(sectionEl: HTMLElement) {
@@ -1473,7 +1792,7 @@ export class AgentClientSettingTab extends PluginSettingTab {
 		new Setting(sectionEl)
 			.setName("Environment variables")
 			.setDesc(
-				"Enter KEY=VALUE pairs, one per line. ANTHROPIC_API_KEY is derived from the field above.",
+				"Enter KEY=VALUE pairs, one per line. The API credentials below take precedence.",
 			)
 			.addTextArea((text) => {
 				text.setPlaceholder("")
@@ -1484,6 +1803,9 @@ export class AgentClientSettingTab extends PluginSettingTab {
 					});
 				text.inputEl.rows = 3;
 			});
+
+		this.renderAgentLaunch(sectionEl, () => this.plugin.settings.claude);
+		this.renderAgentCredentials(sectionEl, () => claude.id);
 	}
 
 	private renderCodexSettings(sectionEl: HTMLElement) {
@@ -1558,7 +1880,7 @@ export class AgentClientSettingTab extends PluginSettingTab {
 		new Setting(sectionEl)
 			.setName("Environment variables")
 			.setDesc(
-				"Enter KEY=VALUE pairs, one per line. OPENAI_API_KEY is derived from the field above.",
+				"Enter KEY=VALUE pairs, one per line. The API credentials below take precedence.",
 			)
 			.addTextArea((text) => {
 				text.setPlaceholder("")
@@ -1569,53 +1891,528 @@ export class AgentClientSettingTab extends PluginSettingTab {
 					});
 				text.inputEl.rows = 3;
 			});
+
+		this.renderAgentLaunch(sectionEl, () => this.plugin.settings.codex);
+		this.renderAgentCredentials(sectionEl, () => codex.id);
 	}
 
 	/**
-	 * Quick prompts manager sub-page (replaces main settings content).
-	 * Back arrow returns to the main page; + adds via modal; each row has
-	 * edit (modal), delete, and a drag handle for reordering.
+	 * API key, base URL and model for one agent, with the variables they
+	 * are passed in. Empty fields inherit the API configuration above.
 	 */
-	private renderQuickPromptsPage(containerEl: HTMLElement) {
-		if (!Array.isArray(this.plugin.settings.quickPrompts)) {
-			this.plugin.settings.quickPrompts = [];
-		}
-		const prompts = this.plugin.settings.quickPrompts;
+	private renderAgentCredentials(
+		sectionEl: HTMLElement,
+		getAgentId: () => string,
+	) {
+		const defaults = getDefaultCredentialEnvNames(
+			this.plugin.settings,
+			getAgentId(),
+		);
+		const current = () =>
+			this.plugin.settings.agentCredentials[getAgentId()] ??
+			EMPTY_AGENT_CREDENTIALS;
+
+		const summary = new Setting(sectionEl).setName("API credentials");
+		const describe = () => {
+			summary.setDesc(
+				describeAgentCredentials(this.plugin.settings, getAgentId()),
+			);
+		};
+		const update = async (patch: Partial<AgentCredentials>) => {
+			// Replace the record so open chats see the change and respawn
+			this.plugin.settings.agentCredentials = {
+				...this.plugin.settings.agentCredentials,
+				[getAgentId()]: { ...current(), ...patch },
+			};
+			describe();
+			await this.saveAndNotify();
+		};
+		describe();
+
+		this.addSecretText(
+			new Setting(sectionEl)
+				.setName("API key")
+				.setDesc("Leave empty to use the global API key."),
+			"Global API key",
+			() => toSecretName(`${getAgentId()} api key`),
+			() => current().apiKey,
+			async (value) => {
+				await update({ apiKey: value });
+			},
+		);
 
-		// Header: back arrow + title
-		const header = containerEl.createDiv({
-			cls: "obsidianaitools-qp-page-header",
-		});
-		const backBtn = header.createEl("button", {
-			cls: "clickable-icon obsidianaitools-qp-back",
-			attr: { "aria-label": "Back to settings" },
-		});
-		setIcon(backBtn, "arrow-left");
-		backBtn.addEventListener("click", () => {
-			this.showQuickPromptsPage = false;
-			this.display();
-			// Return to where the user was on the main page
-			this.containerEl.scrollTop = this.mainScrollPos.container;
-			if (this.containerEl.parentElement) {
-				this.containerEl.parentElement.scrollTop =
-					this.mainScrollPos.parent;
-			}
-		});
-		header.createEl("span", {
-			text: "Quick prompts",
-			cls: "obsidianaitools-qp-page-title",
-		});
+		new Setting(sectionEl)
+			.setName("Base URL and model")
+			.setDesc("Leave empty to use the global base URL and model.")
+			.addText((text) => {
+				text.setPlaceholder(this.plugin.settings.baseUrl || "Base URL")
+					.setValue(current().baseUrl)
+					.onChange(async (value) => {
+						await update({
+							baseUrl: value.trim().replace(/\/$/, ""),
+						});
+					});
+			})
+			.addText((text) => {
+				text.setPlaceholder(this.plugin.settings.model || "Model")
+					.setValue(current().model)
+					.onChange(async (value) => {
+						await update({ model: value.trim() });
+					});
+			});
 
-		// List heading with add button top right
-		new Setting(containerEl)
-			.setName("Prompts")
-			.setHeading()
-			.addExtraButton((button) => {
-				button
-					.setIcon("plus")
-					.setTooltip("Add quick prompt")
-					.onClick(() => {
-						const newPrompt: QuickPromptSetting = {
+		new Setting(sectionEl)
+			.setName("Variable names")
+			.setDesc(
+				defaults.apiKey
+					? "Variables for the API key, base URL and model. Leave empty for the standard names shown."
+					: "Variables for the API key, base URL and model. Nothing is passed until the API key variable is named.",
+			)
+			.addText((text) => {
+				text.setPlaceholder(defaults.apiKey || "API key variable")
+					.setValue(current().apiKeyEnv)
+					.onChange(async (value) => {
+						await update({ apiKeyEnv: value.trim() });
+					});
+			})
+			.addText((text) => {
+				text.setPlaceholder(defaults.baseUrl || "Base URL variable")
+					.setValue(current().baseUrlEnv)
+					.onChange(async (value) => {
+						await update({ baseUrlEnv: value.trim() });
+					});
+			})
+			.addText((text) => {
+				text.setPlaceholder(defaults.model || "Model variable")
+					.setValue(current().modelEnv)
+					.onChange(async (value) => {
+						await update({ modelEnv: value.trim() });
+					});
+			});
+	}
+
+	/**
+	 * .env file field and a preview of the command the agent is started
+	 * with, variables replaced and secrets masked.
+	 */
+	private renderAgentLaunch(
+		sectionEl: HTMLElement,
+		getAgent: () => BaseAgentSettings,
+	) {
+		let refreshPreview = () => {};
+
+		new Setting(sectionEl)
+			.setName(".env file")
+			.setDesc(
+				"Variables from this file are passed too; the environment variables above take precedence. Relative paths start at the vault.",
+			)
+			.addText((text) => {
+				text.setPlaceholder("e.g. .agents/claude.env")
+					.setValue(getAgent().envFile)
+					.onChange(async (value) => {
+						getAgent().envFile = value.trim();
+						await this.saveAndNotify();
+						refreshPreview();
+					});
+			});
+
+		new Setting(sectionEl)
+			.setName("Resolved command")
+			.setDesc(
+				"Arguments and environment variables accept ${vault}, ${cwd}, ${activeNote}, ${env:NAME} and ${secret:name}. With ${activeNote}, chats started on different notes each get their own agent process.",
+			)
+			.addExtraButton((button) =>
+				button
+					.setIcon("refresh-cw")
+					.setTooltip("Refresh preview")
+					.onClick(() => refreshPreview()),
+			);
+		const previewEl = sectionEl.createEl("pre", {
+			cls: "obsidianaitools-command-preview",
+		});
+		refreshPreview = () => {
+			previewEl.setText(this.describeAgentLaunch(getAgent()));
+		};
+		refreshPreview();
+	}
+
+	/**
+	 * Command line and environment an agent would get right now, with
+	 * secret values, credential-like variables and everything from the
+	 * .env file masked.
+	 */
+	private describeAgentLaunch(agent: BaseAgentSettings): string {
+		const vault =
+			(this.app.vault.adapter as { basePath?: string }).basePath ||
+			process.cwd();
+		const getSecret = (name: string) =>
+			this.plugin.secrets.get(name) === null ? null : "••••";
+		try {
+			const context = createInterpolationContext(
+				vault,
+				vault,
+				this.app.workspace.getActiveFile()?.path ?? null,
+				getSecret,
+			);
+			const config = toAgentConfig(agent, context);
+			// The file's values aren't shown anywhere else in settings
+			const ownKeys = new Set(agent.env.map(({ key }) => key));
+			const fileKeys = new Set(
+				config.transport === "stdio" && agent.envFile
+					? loadDotEnvFile(agent.envFile, context)
+							.map(({ key }) => key)
+							.filter((key) => !ownKeys.has(key))
+					: [],
+			);
+			const apiKeyEnv = resolveAgentCredentials(
+				this.plugin.settings,
+				agent.id,
+			).find((credential) => credential.field === "apiKey")?.envName;
+			const env = {
+				...config.env,
+				...getCredentialEnv(this.plugin.settings, agent.id, getSecret),
+			};
+			const lines = [
+				[
+					config.command ? quoteArg(config.command) : "(no path set)",
+					...config.args.map(quoteArg),
+				].join(" "),
+			];
+			for (const [key, value] of Object.entries(env)) {
+				const masked =
+					key === apiKeyEnv ||
+					isSensitiveName(key) ||
+					fileKeys.has(key)
+						? maskSecret(value)
+						: value;
+				lines.push(`${key}=${masked}`);
+			}
+			return lines.join("\n");
+		} catch (error) {
+			return error instanceof Error ? error.message : String(error);
+		}
+	}
+
+	/**
+	 * Password field for a credential. What is entered goes to secret
+	 * storage once the field loses focus, and settings keep the reference;
+	 * nothing is saved while typing.
+	 */
+	private addSecretText(
+		setting: Setting,
+		placeholder: string,
+		secretName: () => string,
+		getValue: () => string,
+		save: (value: string) => Promise<void>,
+	) {
+		setting.addText((text) => {
+			// References are safe to show; plain keys stay hidden
+			const updateType = () => {
+				text.inputEl.type = isPlaintextSecret(text.getValue())
+					? "password"
+					: "text";
+			};
+			text.setPlaceholder(placeholder).setValue(getValue());
+			updateType();
+			text.inputEl.addEventListener("change", () => {
+				void (async () => {
+					const value = text.getValue().trim();
+					if (value === getValue()) return;
+					try {
+						const stored = await this.plugin.storeSecret(
+							secretName(),
+							value,
+						);
+						if (isPlaintextSecret(stored)) {
+							new Notice(
+								"Secret storage is locked, so this key is saved in plain text. Unlock the secret storage to move it.",
+								5000,
+							);
+						}
+						text.setValue(stored);
+						updateType();
+						await save(stored);
+					} catch (error) {
+						new Notice(
+							`Failed to store the key: ${error instanceof Error ? error.message : String(error)}`,
+							5000,
+						);
+					}
+				})();
+			});
+		});
+	}
+
+	private renderSecrets(containerEl: HTMLElement) {
+		const secrets = this.plugin.secrets;
+
+		const status = new Setting(containerEl).setName("Secret storage");
+		if (secrets.backend === "keychain") {
+			status.setDesc(
+				"API keys are encrypted with your system keychain and kept on this device, outside data.json. Settings only hold references like ${secret:api-key}.",
+			);
+		} else if (!secrets.isUnlocked()) {
+			let passphrase = "";
+			status
+				.setDesc(
+					secrets.hasPassphrase()
+						? "Locked. Enter your passphrase so agents can use stored keys."
+						: "The system keychain isn't available, so API keys are encrypted with a passphrase and kept on this device, outside data.json. Choose a passphrase to start.",
+				)
+				.addText((text) => {
+					text.setPlaceholder("Passphrase").onChange((value) => {
+						passphrase = value;
+					});
+					text.inputEl.type = "password";
+				})
+				.addButton((button) =>
+					button
+						.setButtonText(
+							secrets.hasPassphrase()
+								? "Unlock"
+								: "Set passphrase",
+						)
+						.setCta()
+						.onClick(async () => {
+							if (!passphrase) return;
+							if (await secrets.unlock(passphrase)) {
+								this.refreshDisplay();
+							} else {
+								new Notice("Wrong passphrase.", 3000);
+							}
+						}),
+				);
+		} else {
+			status
+				.setDesc(
+					"Unlocked. API keys are encrypted with your passphrase and kept on this device, outside data.json. Settings only hold references like ${secret:api-key}.",
+				)
+				.addButton((button) =>
+					button.setButtonText("Lock").onClick(() => {
+						secrets.lock();
+						this.refreshDisplay();
+					}),
+				);
+		}
+
+		if (secrets.isUnlocked()) {
+			const referenced = new Set(
+				getReferencedSecrets(this.plugin.settings),
+			);
+			for (const name of secrets.list()) {
+				new Setting(containerEl)
+					.setName(name)
+					.setDesc(
+						referenced.has(name)
+							? `Used as \${secret:${name}}.`
+							: "Not used in settings.",
+					)
+					.addExtraButton((button) =>
+						button
+							.setIcon("trash")
+							.setTooltip("Delete secret")
+							.onClick(async () => {
+								await secrets.delete(name);
+								this.refreshDisplay();
+							}),
+					);
+			}
+
+			let newName = "";
+			let newValue = "";
+			new Setting(containerEl)
+				.setName("Add secret")
+				.setDesc(
+					"Saving under an existing name replaces its value. Use the reference in any API key, env var or argument.",
+				)
+				.addText((text) =>
+					text.setPlaceholder("Name").onChange((value) => {
+						newName = value.trim();
+					}),
+				)
+				.addText((text) => {
+					text.setPlaceholder("Value").onChange((value) => {
+						newValue = value;
+					});
+					text.inputEl.type = "password";
+				})
+				.addButton((button) =>
+					button.setButtonText("Save").onClick(async () => {
+						if (!SECRET_NAME_PATTERN.test(newName) || !newValue) {
+							new Notice(
+								"Enter a name (lowercase letters, digits and dashes) and a value.",
+								4000,
+							);
+							return;
+						}
+						await secrets.set(newName, newValue);
+						this.refreshDisplay();
+					}),
+				);
+		}
+
+		const missing = this.plugin.getMissingSecrets();
+		if (missing.length > 0) {
+			new Setting(containerEl)
+				.setName("Missing secrets")
+				.setDesc(
+					`Referenced in settings but not stored on this device: ${missing.join(", ")}. Agents using them won't start until they're added.`,
+				);
+		}
+
+		const plaintext = collectSecretFields(this.plugin.settings).filter(
+			(field) => isPlaintextSecret(field.value),
+		);
+		if (plaintext.length > 0 && secrets.isUnlocked()) {
+			new Setting(containerEl)
+				.setName("Plain text credentials")
+				.setDesc(
+					`Saved in data.json: ${plaintext.map((field) => field.label).join(", ")}. Secret storage is per device, so other devices that sync this vault need the same secrets added.`,
+				)
+				.addButton((button) =>
+					button
+						.setButtonText("Move to secret storage")
+						.setCta()
+						.onClick(async () => {
+							const moved =
+								await this.plugin.moveSecretsToStorage();
+							new Notice(
+								`Moved ${moved} credential${moved === 1 ? "" : "s"} to secret storage.`,
+								3000,
+							);
+							this.refreshDisplay();
+						}),
+				);
+		}
+
+		new Setting(containerEl)
+			.setName("Share settings")
+			.setDesc(
+				"Copy settings as JSON, or replace them with JSON from the clipboard. Exports only carry secret references; plain text keys are left out, and you are asked about other values that could hold one.",
+			)
+			.addButton((button) =>
+				button.setButtonText("Export").onClick(() => {
+					const { unchecked } = this.plugin.exportSettings();
+					if (unchecked.length === 0) {
+						void this.copySettings(false);
+						return;
+					}
+					new ConfirmExportModal(this.app, unchecked, (leaveOut) =>
+						this.copySettings(leaveOut),
+					).open();
+				}),
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Import")
+					.setWarning()
+					.onClick(async () => {
+						try {
+							const missing = await this.plugin.importSettings(
+								await navigator.clipboard.readText(),
+							);
+							new Notice(
+								missing.length > 0
+									? `Settings imported. Add the missing secrets: ${missing.join(", ")}.`
+									: "Settings imported.",
+								5000,
+							);
+						} catch (error) {
+							new Notice(
+								`Failed to import settings: ${error instanceof Error ? error.message : String(error)}`,
+								5000,
+							);
+						}
+						this.display();
+					}),
+			);
+	}
+
+	/**
+	 * Copy the exported settings to the clipboard.
+	 *
+	 * @param leaveOutUnchecked - Leave out values that might be credentials
+	 */
+	private async copySettings(leaveOutUnchecked: boolean) {
+		const { json, omitted } = this.plugin.exportSettings(leaveOutUnchecked);
+		try {
+			await navigator.clipboard.writeText(json);
+		} catch {
+			new Notice("Failed to copy to clipboard.", 3000);
+			return;
+		}
+		new Notice(
+			omitted.length > 0
+				? `Settings copied to clipboard without plain text keys: ${omitted.join(", ")}.`
+				: "Settings copied to clipboard.",
+			4000,
+		);
+	}
+
+	/**
+	 * Show a sub-page in place of the main settings content.
+	 */
+	private openSubPage(page: NonNullable<typeof this.subPage>) {
+		// Remember where the user was so Back returns them here
+		this.mainScrollPos = {
+			container: this.containerEl.scrollTop,
+			parent: this.containerEl.parentElement?.scrollTop ?? 0,
+		};
+		this.subPage = page;
+		this.display();
+	}
+
+	/**
+	 * Sub-page header: back arrow + title.
+	 */
+	private renderSubPageHeader(containerEl: HTMLElement, title: string) {
+		const header = containerEl.createDiv({
+			cls: "obsidianaitools-qp-page-header",
+		});
+		const backBtn = header.createEl("button", {
+			cls: "clickable-icon obsidianaitools-qp-back",
+			attr: { "aria-label": "Back to settings" },
+		});
+		setIcon(backBtn, "arrow-left");
+		backBtn.addEventListener("click", () => {
+			this.subPage = null;
+			this.display();
+			// Return to where the user was on the main page
+			this.containerEl.scrollTop = this.mainScrollPos.container;
+			if (this.containerEl.parentElement) {
+				this.containerEl.parentElement.scrollTop =
+					this.mainScrollPos.parent;
+			}
+		});
+		header.createEl("span", {
+			text: title,
+			cls: "obsidianaitools-qp-page-title",
+		});
+	}
+
+	/**
+	 * Quick prompts manager sub-page (replaces main settings content).
+	 * Back arrow returns to the main page; + adds via modal; each row has
+	 * edit (modal), delete, and a drag handle for reordering.
+	 */
+	private renderQuickPromptsPage(containerEl: HTMLElement) {
+		if (!Array.isArray(this.plugin.settings.quickPrompts)) {
+			this.plugin.settings.quickPrompts = [];
+		}
+		const prompts = this.plugin.settings.quickPrompts;
+
+		this.renderSubPageHeader(containerEl, "Quick prompts");
+
+		// List heading with add button top right
+		new Setting(containerEl)
+			.setName("Prompts")
+			.setHeading()
+			.addExtraButton((button) => {
+				button
+					.setIcon("plus")
+					.setTooltip("Add quick prompt")
+					.onClick(() => {
+						const newPrompt: QuickPromptSetting = {
 							id: crypto.randomUUID(),
 							name: "",
 							prompt: "",
@@ -1763,6 +2560,9 @@ export class AgentClientSettingTab extends PluginSettingTab {
 						command: "",
 						args: [],
 						env: [],
+						envFile: "",
+						transport: "stdio",
+						endpoint: "",
 					});
 					this.plugin.ensureActiveAgentId();
 					await this.saveAndNotify();
@@ -1799,6 +2599,23 @@ export class AgentClientSettingTab extends PluginSettingTab {
 						if (this.plugin.settings.activeAgentId === previousId) {
 							this.plugin.settings.activeAgentId = nextId;
 						}
+						for (const profile of this.plugin.settings.profiles) {
+							if (profile.agentId === previousId) {
+								profile.agentId = nextId;
+							}
+						}
+						const { [previousId]: defaults, ...otherDefaults } =
+							this.plugin.settings.sessionDefaults;
+						this.plugin.settings.sessionDefaults = defaults
+							? { ...otherDefaults, [nextId]: defaults }
+							: otherDefaults;
+						const {
+							[previousId]: credentials,
+							...otherCredentials
+						} = this.plugin.settings.agentCredentials;
+						this.plugin.settings.agentCredentials = credentials
+							? { ...otherCredentials, [nextId]: credentials }
+							: otherCredentials;
 						this.plugin.ensureActiveAgentId();
 						await this.saveAndNotify();
 						this.refreshAgentDropdown();
@@ -1810,8 +2627,26 @@ export class AgentClientSettingTab extends PluginSettingTab {
 				.setIcon("trash")
 				.setTooltip("Delete this agent")
 				.onClick(async () => {
-					this.plugin.settings.customAgents.splice(index, 1);
+					const [removed] = this.plugin.settings.customAgents.splice(
+						index,
+						1,
+					);
 					this.plugin.ensureActiveAgentId();
+					// Profiles of the deleted agent fall back to the active one
+					for (const profile of this.plugin.settings.profiles) {
+						if (profile.agentId === removed?.id) {
+							profile.agentId =
+								this.plugin.settings.activeAgentId;
+						}
+					}
+					if (removed) {
+						delete this.plugin.settings.sessionDefaults[removed.id];
+						const credentials = {
+							...this.plugin.settings.agentCredentials,
+						};
+						delete credentials[removed.id];
+						this.plugin.settings.agentCredentials = credentials;
+					}
 					await this.saveAndNotify();
 					this.display();
 				});
@@ -1834,6 +2669,58 @@ export class AgentClientSettingTab extends PluginSettingTab {
 					});
 			});
 
+		new Setting(blockEl)
+			.setName("Transport")
+			.setDesc(
+				"Start the agent as a local process, or connect to one that is already running.",
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("stdio", "Local process (stdio)")
+					.addOption("websocket", "WebSocket (ws://)")
+					.addOption("tcp", "TCP (tcp://host:port)")
+					.setValue(agent.transport)
+					.onChange(async (value) => {
+						this.plugin.settings.customAgents[index].transport =
+							value === "websocket" || value === "tcp"
+								? value
+								: "stdio";
+						await this.saveAndNotify();
+						this.refreshDisplay();
+					}),
+			);
+
+		if (agent.transport !== "stdio") {
+			const endpointSetting = new Setting(blockEl).setName("Endpoint");
+			const describeEndpoint = (endpoint: string) => {
+				const problem = getAgentEndpointError(agent.transport, endpoint);
+				endpointSetting.setDesc(
+					problem ??
+						"Address of the running agent. Chats reconnect automatically if the connection drops.",
+				);
+				endpointSetting.descEl.toggleClass(
+					"obsidianaitools-setting-warning",
+					!!problem,
+				);
+			};
+			endpointSetting.addText((text) => {
+				text.setPlaceholder(
+					agent.transport === "websocket"
+						? "ws://localhost:8080"
+						: "tcp://localhost:9000",
+				)
+					.setValue(agent.endpoint)
+					.onChange(async (value) => {
+						this.plugin.settings.customAgents[index].endpoint =
+							value.trim();
+						describeEndpoint(value);
+						await this.saveAndNotify();
+					});
+			});
+			describeEndpoint(agent.endpoint);
+			return;
+		}
+
 		new Setting(blockEl)
 			.setName("Path")
 			.setDesc("Absolute path to the custom agent.")
@@ -1866,7 +2753,7 @@ export class AgentClientSettingTab extends PluginSettingTab {
 		new Setting(blockEl)
 			.setName("Environment variables")
 			.setDesc(
-				"Enter KEY=VALUE pairs, one per line. (Stored as plain text)",
+				"Enter KEY=VALUE pairs, one per line. Use ${secret:name} for tokens.",
 			)
 			.addTextArea((text) => {
 				text.setPlaceholder("TOKEN=...")
@@ -1878,14 +2765,741 @@ export class AgentClientSettingTab extends PluginSettingTab {
 					});
 				text.inputEl.rows = 3;
 			});
-	}
 
-	private generateCustomAgentDisplayName(): string {
-		const base = "Custom agent";
-		const existing = new Set<string>();
-		existing.add(
-			this.plugin.settings.claude.displayName ||
-				this.plugin.settings.claude.id,
+		this.renderAgentLaunch(
+			blockEl,
+			() => this.plugin.settings.customAgents[index],
+		);
+
+		// The ID can be renamed while this block is shown
+		this.renderAgentCredentials(
+			blockEl,
+			() => this.plugin.settings.customAgents[index].id,
+		);
+	}
+
+	private renderMcpServers(containerEl: HTMLElement) {
+		containerEl.createEl("p", {
+			cls: "setting-item-description",
+			text: "Tool servers passed to agents when a chat starts. HTTP and SSE servers are only sent to agents that support them. Changes apply to the next new or restored session.",
+		});
+
+		if (this.plugin.settings.mcpServers.length === 0) {
+			containerEl.createEl("p", {
+				text: "No MCP servers configured yet.",
+			});
+		} else {
+			this.plugin.settings.mcpServers.forEach((server, index) => {
+				this.renderMcpServer(containerEl, server, index);
+			});
+		}
+
+		new Setting(containerEl).addButton((button) => {
+			button
+				.setButtonText("Add MCP server")
+				.setCta()
+				.onClick(async () => {
+					this.plugin.settings.mcpServers.push({
+						id: crypto.randomUUID(),
+						name: this.generateMcpServerName(),
+						transport: "stdio",
+						enabled: true,
+						agentIds: [],
+						command: "",
+						args: [],
+						env: [],
+						url: "",
+						headers: [],
+					});
+					await this.saveAndNotify();
+					this.refreshDisplay();
+				});
+		});
+	}
+
+	private renderMcpServer(
+		containerEl: HTMLElement,
+		server: McpServerSettings,
+		index: number,
+	) {
+		const blockEl = containerEl.createDiv({
+			cls: "obsidianaitools-custom-agent obsidianaitools-mcp-server",
+		});
+		const current = () => this.plugin.settings.mcpServers[index];
+
+		new Setting(blockEl)
+			.setName("Name")
+			.setDesc("Server name reported to the agent. Must be unique.")
+			.addText((text) => {
+				text.setPlaceholder("my-tools")
+					.setValue(server.name)
+					.onChange(async (value) => {
+						current().name =
+							value.trim() || this.generateMcpServerName();
+						await this.saveAndNotify();
+					});
+			})
+			.addToggle((toggle) =>
+				toggle
+					.setTooltip("Enabled")
+					.setValue(server.enabled)
+					.onChange(async (value) => {
+						current().enabled = value;
+						await this.saveAndNotify();
+					}),
+			)
+			.addExtraButton((button) => {
+				button
+					.setIcon("trash")
+					.setTooltip("Delete this server")
+					.onClick(async () => {
+						this.plugin.settings.mcpServers.splice(index, 1);
+						await this.saveAndNotify();
+						this.refreshDisplay();
+					});
+			});
+
+		new Setting(blockEl)
+			.setName("Transport")
+			.setDesc("How the agent connects to the server.")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("stdio", "Stdio (local command)")
+					.addOption("http", "HTTP")
+					.addOption("sse", "SSE")
+					.setValue(server.transport)
+					.onChange(async (value) => {
+						current().transport =
+							value === "http" || value === "sse"
+								? value
+								: "stdio";
+						await this.saveAndNotify();
+						this.refreshDisplay();
+					}),
+			);
+
+		new Setting(blockEl)
+			.setName("Agents")
+			.setDesc(
+				`Comma-separated agent IDs that receive this server. Leave empty for all agents. Available: ${this.getAgentOptions()
+					.map((option) => option.id)
+					.join(", ")}`,
+			)
+			.addText((text) => {
+				text.setPlaceholder("All agents")
+					.setValue(server.agentIds.join(", "))
+					.onChange(async (value) => {
+						current().agentIds = value
+							.split(",")
+							.map((id) => id.trim())
+							.filter((id) => id.length > 0);
+						await this.saveAndNotify();
+					});
+			});
+
+		if (server.transport === "stdio") {
+			new Setting(blockEl)
+				.setName("Command")
+				.setDesc("Executable the agent launches for this server.")
+				.addText((text) => {
+					text.setPlaceholder("npx")
+						.setValue(server.command)
+						.onChange(async (value) => {
+							current().command = value.trim();
+							await this.saveAndNotify();
+						});
+				});
+
+			new Setting(blockEl)
+				.setName("Arguments")
+				.setDesc("Enter one argument per line.")
+				.addTextArea((text) => {
+					text.setPlaceholder("-y\n@modelcontextprotocol/server-memory")
+						.setValue(this.formatArgs(server.args))
+						.onChange(async (value) => {
+							current().args = this.parseArgs(value);
+							await this.saveAndNotify();
+						});
+					text.inputEl.rows = 3;
+				});
+
+			new Setting(blockEl)
+				.setName("Environment variables")
+				.setDesc(
+					"Enter KEY=VALUE pairs, one per line. Use ${secret:name} for tokens.",
+				)
+				.addTextArea((text) => {
+					text.setPlaceholder("TOKEN=...")
+						.setValue(this.formatEnv(server.env))
+						.onChange(async (value) => {
+							current().env = this.parseEnv(value);
+							await this.saveAndNotify();
+						});
+					text.inputEl.rows = 3;
+				});
+		} else {
+			new Setting(blockEl)
+				.setName("URL")
+				.setDesc("Server endpoint.")
+				.addText((text) => {
+					text.setPlaceholder("https://example.com/mcp")
+						.setValue(server.url)
+						.onChange(async (value) => {
+							current().url = value.trim();
+							await this.saveAndNotify();
+						});
+				});
+
+			new Setting(blockEl)
+				.setName("Headers")
+				.setDesc(
+					"Enter Name: value pairs, one per line. Use ${secret:name} for tokens.",
+				)
+				.addTextArea((text) => {
+					text.setPlaceholder("Authorization: Bearer ...")
+						.setValue(this.formatHeaders(server.headers))
+						.onChange(async (value) => {
+							current().headers = this.parseHeaders(value);
+							await this.saveAndNotify();
+						});
+					text.inputEl.rows = 3;
+				});
+		}
+	}
+
+	private renderSessionDefaults(containerEl: HTMLElement) {
+		new Setting(containerEl)
+			.setName("Remember model and mode")
+			.setDesc(
+				"Start each new chat with the model and mode last chosen for its agent. Also applied when restoring or forking a session.",
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.rememberModelAndMode)
+					.onChange(async (value) => {
+						this.plugin.settings.rememberModelAndMode = value;
+						await this.saveAndNotify();
+					}),
+			);
+
+		for (const option of this.getAgentOptions()) {
+			this.renderAgentSessionDefaults(containerEl, option);
+		}
+	}
+
+	private renderAgentSessionDefaults(
+		containerEl: HTMLElement,
+		option: { id: string; label: string },
+	) {
+		const stored = this.plugin.settings.sessionDefaults[option.id] ?? {
+			lastModelId: "",
+			lastModeId: "",
+			pinnedModelId: "",
+			pinnedModeId: "",
+		};
+		const lastChosen = [stored.lastModelId, stored.lastModeId]
+			.filter((id) => id.length > 0)
+			.join(", ");
+		const update = async (patch: Partial<AgentSessionDefaults>) => {
+			this.plugin.settings.sessionDefaults = {
+				...this.plugin.settings.sessionDefaults,
+				[option.id]: {
+					...stored,
+					...this.plugin.settings.sessionDefaults[option.id],
+					...patch,
+				},
+			};
+			await this.saveAndNotify();
+		};
+
+		new Setting(containerEl)
+			.setName(option.label)
+			.setDesc(
+				`Pinned model and mode IDs win over the last choice${lastChosen ? ` (last chosen: ${lastChosen})` : ""}. Leave empty to use the last choice.`,
+			)
+			.addText((text) => {
+				text.setPlaceholder("Model ID")
+					.setValue(stored.pinnedModelId)
+					.onChange(async (value) => {
+						await update({ pinnedModelId: value.trim() });
+					});
+			})
+			.addText((text) => {
+				text.setPlaceholder("Mode ID")
+					.setValue(stored.pinnedModeId)
+					.onChange(async (value) => {
+						await update({ pinnedModeId: value.trim() });
+					});
+			});
+	}
+
+	private renderProfiles(containerEl: HTMLElement) {
+		containerEl.createEl("p", {
+			cls: "setting-item-description",
+			text: "A profile starts a chat with an agent, model, mode, instructions and permission policy. Pick one per tab from the chat header, or start a chat with one from the command palette.",
+		});
+
+		if (this.plugin.settings.profiles.length === 0) {
+			containerEl.createEl("p", {
+				text: "No profiles yet.",
+			});
+		} else {
+			this.plugin.settings.profiles.forEach((profile, index) => {
+				this.renderProfile(containerEl, profile, index);
+			});
+		}
+
+		new Setting(containerEl).addButton((button) => {
+			button
+				.setButtonText("Add profile")
+				.setCta()
+				.onClick(async () => {
+					this.plugin.settings.profiles = [
+						...this.plugin.settings.profiles,
+						{
+							id: crypto.randomUUID(),
+							name: `Profile ${this.plugin.settings.profiles.length + 1}`,
+							agentId: this.plugin.settings.activeAgentId,
+							modelId: "",
+							modeId: "",
+							preamble: "",
+							permissionPolicy: "rules",
+						},
+					];
+					await this.saveAndNotify();
+					this.plugin.registerProfileCommands();
+					this.refreshDisplay();
+				});
+		});
+	}
+
+	private renderProfile(
+		containerEl: HTMLElement,
+		profile: AgentProfile,
+		index: number,
+	) {
+		const blockEl = containerEl.createDiv({
+			cls: "obsidianaitools-custom-agent obsidianaitools-profile",
+		});
+		// Replace the profile rather than mutating it, so open chats see the change
+		const update = async (patch: Partial<AgentProfile>) => {
+			const profiles = [...this.plugin.settings.profiles];
+			profiles[index] = { ...profiles[index], ...patch };
+			this.plugin.settings.profiles = profiles;
+			await this.saveAndNotify();
+		};
+
+		new Setting(blockEl)
+			.setName("Name")
+			.setDesc("Shown in the chat header and the command palette.")
+			.addText((text) => {
+				text.setPlaceholder("Research")
+					.setValue(profile.name)
+					.onChange(async (value) => {
+						await update({
+							name: value.trim() || `Profile ${index + 1}`,
+						});
+						this.plugin.registerProfileCommands();
+					});
+			})
+			.addExtraButton((button) => {
+				button
+					.setIcon("trash")
+					.setTooltip("Delete this profile")
+					.onClick(async () => {
+						this.plugin.settings.profiles =
+							this.plugin.settings.profiles.filter(
+								(_, i) => i !== index,
+							);
+						await this.saveAndNotify();
+						this.refreshDisplay();
+					});
+			});
+
+		new Setting(blockEl)
+			.setName("Agent")
+			.setDesc("Agent the profile starts chats with.")
+			.addDropdown((dropdown) => {
+				for (const option of this.getAgentOptions()) {
+					dropdown.addOption(option.id, option.label);
+				}
+				dropdown.setValue(profile.agentId).onChange(async (value) => {
+					await update({ agentId: value });
+				});
+			});
+
+		new Setting(blockEl)
+			.setName("Model")
+			.setDesc(
+				"Model ID to switch to once the chat starts, as the agent lists it in the model picker. Leave empty to use the agent's remembered or pinned model.",
+			)
+			.addText((text) => {
+				text.setPlaceholder("Agent default")
+					.setValue(profile.modelId)
+					.onChange(async (value) => {
+						await update({ modelId: value.trim() });
+					});
+			});
+
+		new Setting(blockEl)
+			.setName("Mode")
+			.setDesc(
+				"Mode ID to switch to once the chat starts, such as plan. Leave empty to use the agent's remembered or pinned mode.",
+			)
+			.addText((text) => {
+				text.setPlaceholder("Agent default")
+					.setValue(profile.modeId)
+					.onChange(async (value) => {
+						await update({ modeId: value.trim() });
+					});
+			});
+
+		new Setting(blockEl)
+			.setName("Instructions")
+			.setDesc("Sent ahead of the first message of each chat.")
+			.addTextArea((text) => {
+				text.setPlaceholder(
+					"Only read notes. Answer with sources as [[wikilinks]].",
+				)
+					.setValue(profile.preamble)
+					.onChange(async (value) => {
+						await update({ preamble: value });
+					});
+				text.inputEl.rows = 3;
+			});
+
+		new Setting(blockEl)
+			.setName("Permissions")
+			.setDesc(
+				"Checked before remembered permissions and permission rules.",
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("rules", "Use permission rules")
+					.addOption("ask", "Ask for everything")
+					.addOption("read-only", "Read-only")
+					.addOption("auto-edits", "Allow edits automatically")
+					.setValue(profile.permissionPolicy)
+					.onChange(async (value) => {
+						await update({
+							permissionPolicy: value as ProfilePermissionPolicy,
+						});
+					}),
+			);
+	}
+
+	private renderPermissionRules(containerEl: HTMLElement) {
+		containerEl.createEl("p", {
+			cls: "setting-item-description",
+			text: "Rules decide permission requests without prompting. They are checked top to bottom and the first enabled match wins; requests no rule matches are shown to you. ⚠️ Allow rules give agents access without asking — keep them narrow.",
+		});
+
+		if (this.plugin.settings.permissionRules.length === 0) {
+			containerEl.createEl("p", {
+				text: "No permission rules yet. Every request is shown to you.",
+			});
+		} else {
+			this.plugin.settings.permissionRules.forEach((rule, index) => {
+				this.renderPermissionRule(containerEl, rule, index);
+			});
+		}
+
+		new Setting(containerEl).addButton((button) => {
+			button
+				.setButtonText("Add permission rule")
+				.setCta()
+				.onClick(async () => {
+					this.plugin.settings.permissionRules.push(
+						normalizePermissionRule({ action: "ask" }),
+					);
+					await this.saveAndNotify();
+					this.refreshDisplay();
+				});
+		});
+	}
+
+	/**
+	 * Remembered permissions sub-page, like a browser's site permissions:
+	 * grants grouped by agent, each with a decision dropdown and revoke.
+	 */
+	private renderPermissionGrantsPage(containerEl: HTMLElement) {
+		const grants = this.plugin.settings.permissionGrants;
+
+		this.renderSubPageHeader(containerEl, "Remembered permissions");
+
+		new Setting(containerEl)
+			.setName("Grants")
+			.setHeading()
+			.addExtraButton((button) => {
+				button
+					.setIcon("trash")
+					.setTooltip("Revoke all")
+					.setDisabled(grants.length === 0)
+					.onClick(async () => {
+						this.plugin.settings.permissionGrants = [];
+						await this.saveAndNotify();
+						this.refreshDisplay();
+					});
+			});
+
+		containerEl.createEl("p", {
+			cls: "setting-item-description",
+			text: "When you answer a permission request with an \"always\" option, the choice is remembered for that agent and tool (its kind and title) and repeat requests are answered automatically. Remembered choices are checked before permission rules. Revoke one to be asked again.",
+		});
+
+		if (grants.length === 0) {
+			containerEl.createEl("p", {
+				text: "No remembered permissions yet.",
+			});
+			return;
+		}
+
+		const labels = new Map(
+			this.getAgentOptions().map((option) => [option.id, option.label]),
+		);
+		const agentIds = [...new Set(grants.map((grant) => grant.agentId))];
+		for (const agentId of agentIds) {
+			new Setting(containerEl)
+				.setName(labels.get(agentId) ?? agentId)
+				.setHeading();
+			for (const grant of grants) {
+				if (grant.agentId === agentId) {
+					this.renderPermissionGrant(containerEl, grant);
+				}
+			}
+		}
+	}
+
+	private renderPermissionGrant(
+		containerEl: HTMLElement,
+		grant: PermissionGrant,
+	) {
+		// Look grants up by ID: the adapter may add grants while this page
+		// is open, replacing the array
+		const formatDate = (iso: string) => new Date(iso).toLocaleString();
+		const details = [
+			grant.kind ?? "other",
+			grant.paths.length > 0 ? grant.paths.join(", ") : null,
+			`remembered ${formatDate(grant.createdAt)}`,
+			grant.lastUsedAt ? `last used ${formatDate(grant.lastUsedAt)}` : null,
+		]
+			.filter(Boolean)
+			.join(" · ");
+
+		const row = new Setting(containerEl)
+			.setName(grant.title || "(untitled tool call)")
+			.setDesc(details)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("allow", "Always allow")
+					.addOption("reject", "Always reject")
+					.setValue(grant.decision)
+					.onChange(async (value) => {
+						this.plugin.settings.permissionGrants =
+							this.plugin.settings.permissionGrants.map((item) =>
+								item.id === grant.id
+									? {
+											...item,
+											decision:
+												value === "reject"
+													? "reject"
+													: "allow",
+										}
+									: item,
+							);
+						await this.saveAndNotify();
+					}),
+			)
+			.addExtraButton((button) => {
+				button
+					.setIcon("x")
+					.setTooltip("Revoke")
+					.onClick(async () => {
+						this.plugin.settings.permissionGrants =
+							this.plugin.settings.permissionGrants.filter(
+								(item) => item.id !== grant.id,
+							);
+						await this.saveAndNotify();
+						this.refreshDisplay();
+					});
+			});
+		row.settingEl.addClass("obsidianaitools-qp-row");
+	}
+
+	private renderPermissionRule(
+		containerEl: HTMLElement,
+		rule: PermissionRule,
+		index: number,
+	) {
+		const rules = this.plugin.settings.permissionRules;
+		const blockEl = containerEl.createDiv({
+			cls: "obsidianaitools-custom-agent obsidianaitools-permission-rule",
+		});
+		const current = () => rules[index];
+
+		const headerSetting = new Setting(blockEl)
+			.setName(`Rule ${index + 1}`)
+			.setDesc(describePermissionRule(rule))
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("allow", "Allow")
+					.addOption("reject", "Reject")
+					.addOption("ask", "Ask")
+					.setValue(rule.action)
+					.onChange(async (value) => {
+						current().action =
+							value === "allow" || value === "reject"
+								? value
+								: "ask";
+						await this.saveAndNotify();
+						updateSummary();
+					}),
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setTooltip("Enabled")
+					.setValue(rule.enabled)
+					.onChange(async (value) => {
+						current().enabled = value;
+						await this.saveAndNotify();
+					}),
+			)
+			.addExtraButton((button) => {
+				button
+					.setIcon("arrow-up")
+					.setTooltip("Move up")
+					.setDisabled(index === 0)
+					.onClick(async () => {
+						if (index === 0) return;
+						[rules[index - 1], rules[index]] = [
+							rules[index],
+							rules[index - 1],
+						];
+						await this.saveAndNotify();
+						this.refreshDisplay();
+					});
+			})
+			.addExtraButton((button) => {
+				button
+					.setIcon("arrow-down")
+					.setTooltip("Move down")
+					.setDisabled(index === rules.length - 1)
+					.onClick(async () => {
+						if (index === rules.length - 1) return;
+						[rules[index], rules[index + 1]] = [
+							rules[index + 1],
+							rules[index],
+						];
+						await this.saveAndNotify();
+						this.refreshDisplay();
+					});
+			})
+			.addExtraButton((button) => {
+				button
+					.setIcon("trash")
+					.setTooltip("Delete this rule")
+					.onClick(async () => {
+						rules.splice(index, 1);
+						await this.saveAndNotify();
+						this.refreshDisplay();
+					});
+			});
+		const updateSummary = () =>
+			headerSetting.setDesc(describePermissionRule(current()));
+
+		new Setting(blockEl)
+			.setName("Agents")
+			.setDesc(
+				`Comma-separated agent IDs this rule applies to. Leave empty for all agents. Available: ${this.getAgentOptions()
+					.map((option) => option.id)
+					.join(", ")}`,
+			)
+			.addText((text) => {
+				text.setPlaceholder("All agents")
+					.setValue(rule.agentIds.join(", "))
+					.onChange(async (value) => {
+						current().agentIds = value
+							.split(",")
+							.map((id) => id.trim())
+							.filter((id) => id.length > 0);
+						await this.saveAndNotify();
+						updateSummary();
+					});
+			});
+
+		new Setting(blockEl)
+			.setName("Tool kinds")
+			.setDesc(
+				`Comma-separated tool kinds. Leave empty for all tools. Available: ${TOOL_KINDS.join(", ")}`,
+			)
+			.addText((text) => {
+				text.setPlaceholder("All tools")
+					.setValue(rule.kinds.join(", "))
+					.onChange(async (value) => {
+						const entered = value
+							.split(",")
+							.map((kind) => kind.trim().toLowerCase());
+						current().kinds = TOOL_KINDS.filter((kind) =>
+							entered.includes(kind),
+						);
+						await this.saveAndNotify();
+						updateSummary();
+					});
+			});
+
+		new Setting(blockEl)
+			.setName("Title pattern")
+			.setDesc(
+				"Matched against the tool call title, ignoring case. Plain text matches titles containing it; * matches anything; a leading ! negates.",
+			)
+			.addText((text) => {
+				text.setPlaceholder("Any title")
+					.setValue(rule.titlePattern)
+					.onChange(async (value) => {
+						current().titlePattern = value;
+						await this.saveAndNotify();
+						updateSummary();
+					});
+			});
+
+		new Setting(blockEl)
+			.setName("Path pattern")
+			.setDesc(
+				"Glob matched against the files the tool touches, relative to the vault. A folder matches everything inside it; ** spans folders; *.md matches file names anywhere; a leading ! negates. Allow rules need every file to match.",
+			)
+			.addText((text) => {
+				text.setPlaceholder("Any path")
+					.setValue(rule.pathPattern)
+					.onChange(async (value) => {
+						current().pathPattern = value.trim();
+						await this.saveAndNotify();
+						updateSummary();
+					});
+			});
+	}
+
+	// Create a readable server name and avoid collisions
+	private generateMcpServerName(): string {
+		const base = "mcp-server";
+		const existing = new Set(
+			this.plugin.settings.mcpServers.map((item) => item.name),
+		);
+		if (!existing.has(base)) {
+			return base;
+		}
+		let counter = 2;
+		while (existing.has(`${base}-${counter}`)) {
+			counter += 1;
+		}
+		return `${base}-${counter}`;
+	}
+
+	private generateCustomAgentDisplayName(): string {
+		const base = "Custom agent";
+		const existing = new Set<string>();
+		existing.add(
+			this.plugin.settings.claude.displayName ||
+				this.plugin.settings.claude.id,
 		);
 		existing.add(
 			this.plugin.settings.codex.displayName ||
@@ -1967,4 +3581,28 @@ export class AgentClientSettingTab extends PluginSettingTab {
 
 		return normalizeEnvVars(envVars);
 	}
+
+	private formatHeaders(headers: AgentEnvVar[]): string {
+		return headers
+			.map((entry) => `${entry.key}: ${entry.value ?? ""}`)
+			.join("\n");
+	}
+
+	private parseHeaders(value: string): AgentEnvVar[] {
+		const headers: AgentEnvVar[] = [];
+
+		for (const line of value.split(/\r?\n/)) {
+			const trimmed = line.trim();
+			const delimiter = trimmed.indexOf(":");
+			if (delimiter <= 0) {
+				continue;
+			}
+			headers.push({
+				key: trimmed.slice(0, delimiter).trim(),
+				value: trimmed.slice(delimiter + 1).trim(),
+			});
+		}
+
+		return normalizeEnvVars(headers);
+	}
 }
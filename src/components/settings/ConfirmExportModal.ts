@@ -0,0 +1,83 @@
+/**
+ * Confirmation Modal for Settings Export
+ *
+ * Obsidian Modal listing settings values that might hold a credential
+ * under a name that doesn't look like one (arguments, env vars, URL
+ * query strings), so the user decides whether the export includes them.
+ */
+
+import { Modal, App } from "obsidian";
+
+/**
+ * Confirmation modal for exporting settings.
+ *
+ * Calls onConfirm with whether to leave the listed values out; nothing
+ * is exported on Cancel.
+ */
+export class ConfirmExportModal extends Modal {
+	private labels: string[];
+	private onConfirm: (leaveOut: boolean) => void | Promise<void>;
+
+	constructor(
+		app: App,
+		labels: string[],
+		onConfirm: (leaveOut: boolean) => void | Promise<void>,
+	) {
+		super(app);
+		this.labels = labels;
+		this.onConfirm = onConfirm;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h2", { text: "Check before sharing" });
+
+		contentEl.createEl("p", {
+			text: "These values are exported as written. Make sure none of them is a token or password:",
+			cls: "obsidianaitools-confirm-export-message",
+		});
+
+		const list = contentEl.createEl("ul", {
+			cls: "obsidianaitools-confirm-export-list",
+		});
+		for (const label of this.labels) {
+			list.createEl("li", { text: label });
+		}
+
+		contentEl.createEl("p", {
+			text: "Credentials are safer as ${secret:name} references, which are exported without their values.",
+			cls: "obsidianaitools-confirm-export-hint",
+		});
+
+		const buttonContainer = contentEl.createDiv({
+			cls: "obsidianaitools-confirm-export-buttons",
+		});
+
+		buttonContainer
+			.createEl("button", { text: "Cancel" })
+			.addEventListener("click", () => {
+				this.close();
+			});
+
+		buttonContainer
+			.createEl("button", { text: "Leave them out" })
+			.addEventListener("click", () => {
+				this.close();
+				void this.onConfirm(true);
+			});
+
+		buttonContainer
+			.createEl("button", { text: "Include them", cls: "mod-warning" })
+			.addEventListener("click", () => {
+				this.close();
+				void this.onConfirm(false);
+			});
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
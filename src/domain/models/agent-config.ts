@@ -51,6 +51,12 @@ export interface BaseAgentSettings {
 
 	/** Environment variables for the agent process */
 	env: AgentEnvVar[];
+
+	/**
+	 * .env file whose variables are passed too; the env vars above win
+	 * ("" = none, relative paths start at the vault)
+	 */
+	envFile: string;
 }
 
 /**
@@ -83,10 +89,130 @@ export interface CodexAgentSettings extends BaseAgentSettings {
 	apiKey: string;
 }
 
+/**
+ * How the plugin reaches an agent.
+ *
+ * - stdio: spawn `command` and talk over stdin/stdout
+ * - websocket: connect to an agent already running at a ws:// or wss:// URL
+ * - tcp: connect to an agent already running at tcp://host:port
+ */
+export type AgentTransport = "stdio" | "websocket" | "tcp";
+
 /**
  * Configuration for custom ACP-compatible agents.
  *
- * Uses only the base settings, allowing users to configure
- * any agent that implements the Agent Client Protocol.
+ * Extends the base settings with a transport, allowing users to
+ * configure any agent that implements the Agent Client Protocol,
+ * whether the plugin spawns it or it is already running elsewhere.
  */
-export type CustomAgentSettings = BaseAgentSettings;
+export interface CustomAgentSettings extends BaseAgentSettings {
+	/** How to reach the agent */
+	transport: AgentTransport;
+
+	/** Endpoint of a running agent (websocket/tcp only) */
+	endpoint: string;
+}
+
+// ============================================================================
+// API Credentials
+// ============================================================================
+
+/**
+ * API credentials for one agent, passed as environment variables.
+ *
+ * Empty values inherit the global API configuration; empty variable
+ * names use the agent's standard names (none for custom agents).
+ */
+export interface AgentCredentials {
+	/** API key ("" = global key) */
+	apiKey: string;
+
+	/** API base URL ("" = global base URL) */
+	baseUrl: string;
+
+	/** Model name ("" = global model) */
+	model: string;
+
+	/** Variable for the API key (e.g. "ANTHROPIC_AUTH_TOKEN") */
+	apiKeyEnv: string;
+
+	/** Variable for the base URL (e.g. "OPENAI_BASE_URL") */
+	baseUrlEnv: string;
+
+	/** Variable for the model (e.g. "GEMINI_MODEL") */
+	modelEnv: string;
+}
+
+// ============================================================================
+// MCP Server Configuration
+// ============================================================================
+
+/**
+ * Transport used to reach an MCP server.
+ *
+ * - stdio: the agent spawns `command` and talks over stdin/stdout
+ * - http / sse: the agent connects to `url` (requires agent support)
+ */
+export type McpServerTransport = "stdio" | "http" | "sse";
+
+/**
+ * User-configured MCP (Model Context Protocol) server.
+ *
+ * Passed to agents on session/new, session/load, session/resume and
+ * session/fork so their tools are available in every chat.
+ */
+export interface McpServerSettings {
+	/** Unique identifier for this entry */
+	id: string;
+
+	/** Server name reported to the agent (must be unique per session) */
+	name: string;
+
+	/** Connection transport */
+	transport: McpServerTransport;
+
+	/** Whether the server is passed to agents at all */
+	enabled: boolean;
+
+	/** Agent IDs that receive this server (empty = all agents) */
+	agentIds: string[];
+
+	/** Command to execute (stdio only) */
+	command: string;
+
+	/** Command-line arguments (stdio only) */
+	args: string[];
+
+	/** Environment variables for the server process (stdio only) */
+	env: AgentEnvVar[];
+
+	/** Server URL (http/sse only) */
+	url: string;
+
+	/** HTTP headers sent with every request (http/sse only) */
+	headers: AgentEnvVar[];
+}
+
+// ============================================================================
+// Session Defaults
+// ============================================================================
+
+/**
+ * Model and mode a new session of an agent switches to.
+ *
+ * A pinned ID wins over the last choice; with neither, the agent's own
+ * default stays. Empty strings mean "none".
+ */
+export interface AgentSessionDefaults {
+	/** Model last chosen in a chat */
+	lastModelId: string;
+
+	/** Mode last chosen in a chat */
+	lastModeId: string;
+
+	/** Model every session starts with, whatever was chosen last */
+	pinnedModelId: string;
+
+	/** Mode every session starts with, whatever was chosen last */
+	pinnedModeId: string;
+}
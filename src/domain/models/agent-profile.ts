@@ -0,0 +1,42 @@
+/**
+ * Domain Models for Agent Profiles
+ *
+ * A profile bundles what a chat starts with: an agent, its default model
+ * and mode, instructions sent ahead of the first message, and a
+ * permission policy. Profiles are stored in plugin settings and chosen
+ * per chat tab, from the header or a "New chat with profile" command.
+ */
+
+/**
+ * How a profile answers permission requests, ahead of remembered choices
+ * and permission rules.
+ * - rules: Nothing extra; remembered choices and rules decide
+ * - ask: Show every request, even ones rules or remembered choices allow
+ * - read-only: Allow reading and searching; reject edits, deletes, moves
+ *   and commands
+ * - auto-edits: Allow reading, searching, edits and moves; deletes and
+ *   commands go to the rules
+ */
+export type ProfilePermissionPolicy =
+	| "rules"
+	| "ask"
+	| "read-only"
+	| "auto-edits";
+
+/**
+ * A named agent profile.
+ */
+export interface AgentProfile {
+	id: string;
+	/** Label in the header and the command palette */
+	name: string;
+	/** Agent the profile starts chats with */
+	agentId: string;
+	/** Model applied after the session starts ("" = the agent's usual one) */
+	modelId: string;
+	/** Mode applied after the session starts ("" = the agent's usual one) */
+	modeId: string;
+	/** Instructions sent ahead of the first message of each chat */
+	preamble: string;
+	permissionPolicy: ProfilePermissionPolicy;
+}
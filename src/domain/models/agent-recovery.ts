@@ -0,0 +1,61 @@
+/**
+ * Domain Models for Agent Crash Recovery
+ *
+ * When an agent process exits unexpectedly (or the socket to a remote
+ * agent closes), the agent client restarts (or reconnects) it with backoff
+ * and re-attaches to the session the chat was using. These events let the
+ * UI show what happened without knowing about processes.
+ */
+
+import type { SessionModeState, SessionModelState } from "./chat-session";
+
+/**
+ * How the chat was re-attached after a restart.
+ * - resume: session/resume (agent kept the context, no history replay)
+ * - load: session/load (agent rebuilt the context from its own history)
+ * - new: A fresh session; the agent can't reopen sessions, context is lost
+ */
+export type SessionReattachMethod = "resume" | "load" | "new";
+
+/**
+ * Progress of a crash recovery.
+ * - restarting: The process died; a restart is scheduled
+ * - recovered: The process is back and the chat is re-attached
+ * - failed: All restart attempts failed (an AgentError follows)
+ */
+export type AgentRecoveryStatus = "restarting" | "recovered" | "failed";
+
+/**
+ * What ended the agent connection.
+ * - exit: The spawned agent process exited (it is restarted)
+ * - disconnect: The socket to a remote agent closed (it is reconnected)
+ */
+export type AgentRecoveryCause = "exit" | "disconnect";
+
+/**
+ * Crash recovery event emitted by the agent client.
+ */
+export interface AgentRecoveryEvent {
+	status: AgentRecoveryStatus;
+	cause: AgentRecoveryCause;
+	agentId: string;
+	/** 1-based restart attempt this event belongs to */
+	attempt: number;
+	maxAttempts: number;
+	/** Exit code of the crashed process (null if killed by a signal) */
+	exitCode: number | null;
+	/** Signal that killed the crashed process, if any */
+	signal: string | null;
+	/** Delay before the restart (restarting only) */
+	delayMs?: number;
+	/** Session the chat was using when the process died */
+	previousSessionId?: string;
+	/** Session the chat uses now (recovered only; differs for "new") */
+	sessionId?: string;
+	/** How the session was re-attached (recovered only) */
+	method?: SessionReattachMethod;
+	/** Session modes/models reported on re-attach (recovered only) */
+	modes?: SessionModeState;
+	models?: SessionModelState;
+	occurredAt: Date;
+}
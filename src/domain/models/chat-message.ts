@@ -44,9 +44,12 @@ export type ToolKind =
 
 /**
  * Content that can be included in a tool call result.
- * Currently supports diffs and terminal output.
+ * Supports diffs, terminal output and standard content blocks.
  */
-export type ToolCallContent = DiffContent | TerminalContent;
+export type ToolCallContent =
+	| DiffContent
+	| TerminalContent
+	| ContentBlockContent;
 
 /**
  * Represents a file modification with before/after content.
@@ -66,6 +69,15 @@ export interface TerminalContent {
 	terminalId: string;
 }
 
+/**
+ * Standard content block produced by a tool (fetched pages, search results,
+ * command output, etc.).
+ */
+export interface ContentBlockContent {
+	type: "content";
+	content: ContentBlock;
+}
+
 // ============================================================================
 // Supporting Types
 // ============================================================================
@@ -111,6 +123,68 @@ export interface ToolCallInfo {
 	rawOutput?: { [k: string]: unknown }; // Tool's output data
 }
 
+// ============================================================================
+// Prompt Turn Result
+// ============================================================================
+
+/**
+ * Why the agent stopped processing a prompt turn.
+ * - end_turn: Finished normally
+ * - max_tokens: Hit the model's output token limit
+ * - max_turn_requests: Hit the per-turn model request limit
+ * - refusal: The agent declined to continue
+ * - cancelled: The user cancelled the turn
+ */
+export type PromptStopReason =
+	| "end_turn"
+	| "max_tokens"
+	| "max_turn_requests"
+	| "refusal"
+	| "cancelled";
+
+/**
+ * Token counts reported by the agent for a prompt turn.
+ */
+export interface TokenUsage {
+	inputTokens: number;
+	outputTokens: number;
+	totalTokens: number;
+	thoughtTokens?: number;
+	cachedReadTokens?: number;
+	cachedWriteTokens?: number;
+}
+
+/**
+ * Money spent on a session, as reported by the agent.
+ */
+export interface SessionCost {
+	amount: number;
+	/** ISO 4217 currency code, e.g. "USD" */
+	currency: string;
+}
+
+/**
+ * Result of a prompt turn (session/prompt response).
+ */
+export interface PromptResult {
+	stopReason: PromptStopReason;
+	/** Token usage for this turn (only if the agent reports it) */
+	usage?: TokenUsage;
+}
+
+// ============================================================================
+// Content Blocks
+// ============================================================================
+
+/**
+ * Standard content block (text, image or resource).
+ * Appears in message chunks and in tool call "content" output.
+ */
+export type ContentBlock = Extract<
+	MessageContent,
+	{ type: "text" | "image" | "resource_link" | "resource" }
+>;
+
 // ============================================================================
 // Chat Message
 // ============================================================================
@@ -126,6 +200,8 @@ export interface ChatMessage {
 	role: Role;
 	content: MessageContent[];
 	timestamp: Date;
+	/** Outcome of the prompt turn this assistant message ended (if finished) */
+	turnResult?: PromptResult;
 }
 
 /**
@@ -135,6 +211,8 @@ export interface ChatMessage {
  * - text: Plain text from user or agent
  * - agent_thought: Agent's internal reasoning (often collapsed in UI)
  * - image: Visual content (base64 encoded)
+ * - resource_link: Reference to a file or URL (not embedded)
+ * - resource: Embedded file contents (text or base64 blob)
  * - tool_call: Agent's tool execution with results
  * - plan: Agent's task breakdown
  * - permission_request: Request for user approval
@@ -167,6 +245,22 @@ export type MessageContent =
 			mimeType: string; // e.g., "image/png"
 			uri?: string; // Optional source URI
 	  }
+	| {
+			type: "resource_link";
+			uri: string; // file:// or other URI
+			name: string;
+			title?: string;
+			description?: string;
+			mimeType?: string;
+			size?: number; // Bytes
+	  }
+	| {
+			type: "resource";
+			uri: string;
+			mimeType?: string;
+			text?: string; // Text resources
+			blob?: string; // Base64 encoded binary resources
+	  }
 	| {
 			type: "tool_call";
 			toolCallId: string;
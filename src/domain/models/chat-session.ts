@@ -6,6 +6,8 @@
  * state, authentication, and session metadata.
  */
 
+import type { SessionCost } from "./chat-message";
+
 // ============================================================================
 // Session State
 // ============================================================================
@@ -156,6 +158,21 @@ export interface SessionModelState {
 	currentModelId: string;
 }
 
+/**
+ * Context window use and session cost.
+ * Updated via the `usage_update` notification (cumulative, not per turn).
+ */
+export interface SessionUsage {
+	/** Tokens currently in the context window */
+	used: number;
+
+	/** Size of the context window in tokens */
+	size: number;
+
+	/** Total cost of the session so far (if the agent reports it) */
+	cost?: SessionCost;
+}
+
 // ============================================================================
 // Chat Session
 // ============================================================================
@@ -209,6 +226,12 @@ export interface ChatSession {
 	 */
 	models?: SessionModelState;
 
+	/**
+	 * Context window use and cost, if the agent reports them.
+	 * Updated via the `usage_update` notification.
+	 */
+	usage?: SessionUsage;
+
 	/**
 	 * Prompt capabilities supported by the agent.
 	 * Indicates which content types (image, audio, etc.) can be included in prompts.
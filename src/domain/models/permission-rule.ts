@@ -0,0 +1,116 @@
+/**
+ * Domain Models for Permission Rules
+ *
+ * Rules decide agent permission requests before the user is prompted.
+ * They are stored in plugin settings and evaluated in order; the first
+ * enabled rule that matches a request decides it. Requests no rule
+ * matches are shown to the user.
+ *
+ * Grants are remembered "always allow" / "always reject" answers the user
+ * gave for a specific agent and tool signature. Reject and ask rules are
+ * checked before grants, so a remembered "always allow" never overrides
+ * them; grants in turn win over allow rules, since they record an
+ * explicit choice for that exact tool.
+ */
+
+import type { ToolKind } from "./chat-message";
+
+/**
+ * What a matching rule does with a permission request.
+ * - allow: Select the agent's allow option without prompting
+ * - reject: Select the agent's reject option without prompting
+ * - ask: Show the permission prompt (stops later rules from matching)
+ */
+export type PermissionRuleAction = "allow" | "reject" | "ask";
+
+/**
+ * A single permission rule.
+ *
+ * Empty conditions match everything. Patterns are globs (`*`, `**`, `?`);
+ * a leading `!` negates the pattern.
+ */
+export interface PermissionRule {
+	id: string;
+	enabled: boolean;
+	action: PermissionRuleAction;
+	/** Agent IDs this rule applies to (empty = all agents) */
+	agentIds: string[];
+	/** Tool kinds this rule applies to (empty = all kinds) */
+	kinds: ToolKind[];
+	/** Glob matched against the tool call title ("" = any title) */
+	titlePattern: string;
+	/**
+	 * Glob matched against the tool call's location paths, vault-relative
+	 * when inside the vault ("" = any path). Requests without locations
+	 * never match a rule that has a path pattern.
+	 */
+	pathPattern: string;
+}
+
+/**
+ * A remembered allow_always / reject_always decision.
+ *
+ * The tool signature is the tool kind, the tool call title (for example
+ * `execute` + `` `npm test` ``) and the location paths, so a grant only
+ * answers requests for the same tool doing the same thing to the same
+ * files.
+ */
+export interface PermissionGrant {
+	id: string;
+	agentId: string;
+	kind?: ToolKind;
+	/** Tool call title the decision was made for */
+	title: string;
+	/**
+	 * Location paths the decision was made for, sorted (empty = the
+	 * request had none)
+	 */
+	paths: string[];
+	decision: Exclude<PermissionRuleAction, "ask">;
+	/** ISO timestamp of the user's choice */
+	createdAt: string;
+	/** ISO timestamp of the last request this grant answered */
+	lastUsedAt?: string;
+}
+
+/**
+ * Facts about a permission request that rules are matched against.
+ */
+export interface PermissionRequestFacts {
+	agentId: string;
+	kind?: ToolKind;
+	title?: string;
+	/** Location paths (vault-relative when inside the vault) */
+	paths: string[];
+}
+
+/**
+ * Who decided a permission request.
+ * - rule: A permission rule (see ruleId)
+ * - grant: A remembered always-allow/reject choice (see grantId)
+ * - user: The user, via the permission prompt
+ */
+export type PermissionDecider = "rule" | "grant" | "user";
+
+/**
+ * Audit record for a decided permission request.
+ */
+export interface PermissionAuditEntry {
+	timestamp: string;
+	agentId?: string;
+	sessionId?: string;
+	toolCallId: string;
+	title?: string;
+	kind?: ToolKind;
+	paths: string[];
+	decidedBy: PermissionDecider;
+	/** Rule that decided (or routed to the prompt), if any */
+	ruleId?: string;
+	/** Human-readable summary of that rule */
+	rule?: string;
+	/** Remembered grant that decided, if any */
+	grantId?: string;
+	/** Selected option, or undefined if the request was cancelled */
+	optionId?: string;
+	optionKind?: string;
+}
@@ -63,10 +63,33 @@ export interface ResourcePromptContent {
 	annotations?: ResourceAnnotations;
 }
 
+/**
+ * Resource link content in a prompt
+ *
+ * Points the agent at a file without sending its content. Every ACP agent
+ * accepts links; the agent reads the file itself if it needs to. Used for
+ * attachments that can't be embedded as text (PDFs, unsupported images)
+ * and for mentions above the link threshold.
+ */
+export interface ResourceLinkPromptContent {
+	type: "resource_link";
+	/** Resource URI (e.g., "file:///path/to/report.pdf") */
+	uri: string;
+	/** File name */
+	name: string;
+	/** Hint for the agent (e.g., which section matters) */
+	description?: string;
+	/** MIME type of the resource */
+	mimeType?: string;
+	/** Size in bytes */
+	size?: number;
+}
+
 /**
  * Union type for all prompt content types
  */
 export type PromptContent =
 	| TextPromptContent
 	| ImagePromptContent
-	| ResourcePromptContent;
+	| ResourcePromptContent
+	| ResourceLinkPromptContent;
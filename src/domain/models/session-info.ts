@@ -1,3 +1,4 @@
+import type { SessionCost, TokenUsage } from "./chat-message";
 import type { SessionModeState, SessionModelState } from "./chat-session";
 
 /**
@@ -89,4 +90,8 @@ export interface SavedSessionInfo {
 	createdAt: string;
 	/** ISO 8601 timestamp of last activity */
 	updatedAt: string;
+	/** Cumulative token usage across all turns (if the agent reports usage) */
+	usage?: TokenUsage;
+	/** Total cost as of the last turn (if the agent reports it) */
+	cost?: SessionCost;
 }
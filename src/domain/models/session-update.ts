@@ -10,6 +10,7 @@
  */
 
 import type {
+	ContentBlock,
 	PlanEntry,
 	ToolCallContent,
 	ToolCallLocation,
@@ -17,7 +18,7 @@ import type {
 	ToolCallStatus,
 	PermissionOption,
 } from "./chat-message";
-import type { SlashCommand } from "./chat-session";
+import type { SessionUsage, SlashCommand } from "./chat-session";
 
 // ============================================================================
 // Base Type
@@ -37,30 +38,31 @@ interface SessionUpdateBase {
 // ============================================================================
 
 /**
- * Text chunk from agent's message stream.
- * Used for streaming text responses.
+ * Chunk from agent's message stream.
+ * Used for streaming text responses and attachments.
  */
 export interface AgentMessageChunk extends SessionUpdateBase {
 	type: "agent_message_chunk";
-	text: string;
+	content: ContentBlock;
 }
 
 /**
- * Text chunk from agent's internal reasoning.
+ * Chunk from agent's internal reasoning.
  * Used for streaming thought/reasoning content.
  */
 export interface AgentThoughtChunk extends SessionUpdateBase {
 	type: "agent_thought_chunk";
-	text: string;
+	content: ContentBlock;
 }
 
 /**
- * Text chunk from user's message during session/load.
- * Used for reconstructing user messages when loading a saved session.
+ * Chunk from user's message during session/load.
+ * Used for reconstructing user messages (including attachments)
+ * when loading a saved session.
  */
 export interface UserMessageChunk extends SessionUpdateBase {
 	type: "user_message_chunk";
-	text: string;
+	content: ContentBlock;
 }
 
 /**
@@ -75,6 +77,8 @@ export interface ToolCall extends SessionUpdateBase {
 	kind?: ToolKind;
 	content?: ToolCallContent[];
 	locations?: ToolCallLocation[];
+	rawInput?: { [k: string]: unknown };
+	rawOutput?: { [k: string]: unknown };
 	permissionRequest?: {
 		requestId: string;
 		options: PermissionOption[];
@@ -97,6 +101,8 @@ export interface ToolCallUpdate extends SessionUpdateBase {
 	kind?: ToolKind;
 	content?: ToolCallContent[];
 	locations?: ToolCallLocation[];
+	rawInput?: { [k: string]: unknown };
+	rawOutput?: { [k: string]: unknown };
 	permissionRequest?: {
 		requestId: string;
 		options: PermissionOption[];
@@ -133,6 +139,15 @@ export interface CurrentModeUpdate extends SessionUpdateBase {
 	currentModeId: string;
 }
 
+/**
+ * Update to context window use and session cost.
+ * Values are cumulative for the session.
+ */
+export interface UsageUpdate extends SessionUpdateBase {
+	type: "usage_update";
+	usage: SessionUsage;
+}
+
 // ============================================================================
 // Union Type
 // ============================================================================
@@ -141,14 +156,15 @@ export interface CurrentModeUpdate extends SessionUpdateBase {
  * Union of all session update types.
  *
  * These types correspond to ACP's SessionNotification.update.sessionUpdate values:
- * - agent_message_chunk: Text chunk from agent's response
- * - agent_thought_chunk: Text chunk from agent's reasoning
- * - user_message_chunk: Text chunk from user's message (session/load)
+ * - agent_message_chunk: Chunk from agent's response (text, image, resource)
+ * - agent_thought_chunk: Chunk from agent's reasoning
+ * - user_message_chunk: Chunk from user's message (session/load)
  * - tool_call: New tool call event
  * - tool_call_update: Update to existing tool call
  * - plan: Agent's task plan
  * - available_commands_update: Slash commands changed
  * - current_mode_update: Mode changed
+ * - usage_update: Context window use or session cost changed
  *
  * All session update types include a sessionId field to identify which
  * session the update belongs to. This enables filtering/routing of updates
@@ -162,4 +178,5 @@ export type SessionUpdate =
 	| ToolCallUpdate
 	| Plan
 	| AvailableCommandsUpdate
-	| CurrentModeUpdate;
+	| CurrentModeUpdate
+	| UsageUpdate;
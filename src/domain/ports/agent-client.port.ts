@@ -11,7 +11,10 @@
  * adapter layer, keeping the domain logic stable.
  */
 
-import type { PermissionOption } from "../models/chat-message";
+import type {
+	PermissionOption,
+	PromptResult,
+} from "../models/chat-message";
 import type {
 	AuthenticationMethod,
 	SessionModeState,
@@ -19,6 +22,8 @@ import type {
 } from "../models/chat-session";
 import type { SessionUpdate } from "../models/session-update";
 import type { AgentError } from "../models/agent-error";
+import type { AgentTransport } from "../models/agent-config";
+import type { AgentRecoveryEvent } from "../models/agent-recovery";
 import type { PromptContent } from "../models/prompt-content";
 import type {
 	ListSessionsResult,
@@ -61,6 +66,15 @@ export interface AgentConfig {
 
 	/** Working directory for the agent session */
 	workingDirectory: string;
+
+	/**
+	 * How to reach the agent (default "stdio": spawn `command`).
+	 * For websocket/tcp, command, args and env are not used.
+	 */
+	transport?: AgentTransport;
+
+	/** Endpoint of a running agent (websocket/tcp only) */
+	endpoint?: string;
 }
 
 /**
@@ -263,10 +277,13 @@ export interface IAgentClient {
 	 *
 	 * @param sessionId - Session identifier
 	 * @param content - Array of content blocks to send (text and/or images)
-	 * @returns Promise resolving when agent completes processing
+	 * @returns Stop reason and token usage once the agent completes processing
 	 * @throws AgentError if sending fails
 	 */
-	sendPrompt(sessionId: string, content: PromptContent[]): Promise<void>;
+	sendPrompt(
+		sessionId: string,
+		content: PromptContent[],
+	): Promise<PromptResult>;
 
 	/**
 	 * Cancel ongoing agent operations.
@@ -289,9 +306,9 @@ export interface IAgentClient {
 	 * Register callback for session updates.
 	 *
 	 * Called when the agent sends session update events such as:
-	 * - agent_message_chunk: Text chunk from agent's response
-	 * - agent_thought_chunk: Text chunk from agent's reasoning
-	 * - user_message_chunk: Text chunk from user message (for session/load history replay)
+	 * - agent_message_chunk: Chunk from agent's response (text, image, resource)
+	 * - agent_thought_chunk: Chunk from agent's reasoning
+	 * - user_message_chunk: Chunk from user message (for session/load history replay)
 	 * - tool_call: New tool call event
 	 * - tool_call_update: Update to existing tool call
 	 * - plan: Agent's task plan
@@ -314,6 +331,17 @@ export interface IAgentClient {
 	 */
 	onError(callback: (error: AgentError) => void): void;
 
+	/**
+	 * Register callback for crash recovery notifications.
+	 *
+	 * Called when the agent process exits unexpectedly and is restarted,
+	 * and when the chat has been re-attached to its session (or recovery
+	 * gave up).
+	 *
+	 * @param callback - Function to call on each recovery step
+	 */
+	onRecovery(callback: (event: AgentRecoveryEvent) => void): void;
+
 	/**
 	 * Respond to a permission request.
 	 *
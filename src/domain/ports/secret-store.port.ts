@@ -0,0 +1,79 @@
+/**
+ * Port for storing secrets (API keys, tokens) outside plugin settings
+ *
+ * Settings hold only `${secret:name}` references; the values live in a
+ * store that is never written to data.json, so they stay out of vault
+ * sync and git backups.
+ */
+
+/**
+ * How secret values are protected.
+ * - keychain: Encrypted with the operating system's keychain
+ * - passphrase: Encrypted with a key derived from a user passphrase;
+ *   locked until the passphrase is entered
+ */
+export type SecretBackend = "keychain" | "passphrase";
+
+/**
+ * Interface for reading and writing named secrets.
+ *
+ * Reads are synchronous so references can be resolved while an agent's
+ * spawn config is built; a locked store reads as empty.
+ */
+export interface ISecretStore {
+	/** How values are (or will be) protected on this device */
+	readonly backend: SecretBackend;
+
+	/**
+	 * Whether values can be read and written. Always true for the
+	 * keychain; for a passphrase, true once unlocked.
+	 */
+	isUnlocked(): boolean;
+
+	/**
+	 * Whether a passphrase has been set (passphrase backend only).
+	 */
+	hasPassphrase(): boolean;
+
+	/**
+	 * Unlock with the passphrase, or set it when none exists yet.
+	 *
+	 * @param passphrase - The user's passphrase
+	 * @returns false if the passphrase is wrong
+	 */
+	unlock(passphrase: string): Promise<boolean>;
+
+	/**
+	 * Forget the unlocked values until the passphrase is entered again.
+	 */
+	lock(): void;
+
+	/**
+	 * Names of all stored secrets, sorted.
+	 */
+	list(): string[];
+
+	/**
+	 * Read a secret.
+	 *
+	 * @param name - Secret name
+	 * @returns The value, or null if it isn't set or the store is locked
+	 */
+	get(name: string): string | null;
+
+	/**
+	 * Store a secret, replacing any previous value.
+	 * Throws if the store is locked or the name is invalid.
+	 *
+	 * @param name - Lowercase letters, digits and dashes
+	 * @param value - The secret value
+	 */
+	set(name: string, value: string): Promise<void>;
+
+	/**
+	 * Remove a secret.
+	 *
+	 * @param name - Secret name
+	 */
+	delete(name: string): Promise<void>;
+}
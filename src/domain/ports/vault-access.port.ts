@@ -42,6 +42,18 @@ export interface NoteMetadata {
 	/** Optional aliases from frontmatter */
 	aliases?: string[];
 
+	/** Whether this entry is a folder (extension is "" for folders) */
+	isFolder?: boolean;
+
+	/**
+	 * What a search matched besides the name or path, e.g. "§ Setup",
+	 * "#project" or "alias Foo" (search results only)
+	 */
+	matchedOn?: string;
+
+	/** Short excerpt of the note's text (search results only) */
+	snippet?: string;
+
 	/** Optional text selection range in the editor */
 	selection?: {
 		from: EditorPosition;
@@ -49,6 +61,93 @@ export interface NoteMetadata {
 	};
 }
 
+/**
+ * A note related to the message being written (local full-text search).
+ */
+export interface RelatedNote {
+	note: NoteMetadata;
+
+	/** Relevance score (BM25; only meaningful relative to other hits) */
+	score: number;
+}
+
+/**
+ * What an @[[...]] mention points at.
+ * - note: A whole markdown note
+ * - heading: One section of a note (`note#Heading`)
+ * - block: One block of a note (`note#^id` or `note^id`)
+ * - folder: A folder (`folder/`), sent as a file listing
+ * - image, pdf, csv, canvas: An attachment of that type
+ */
+export type MentionKind =
+	| "note"
+	| "heading"
+	| "block"
+	| "folder"
+	| "image"
+	| "pdf"
+	| "csv"
+	| "canvas";
+
+/**
+ * A mention resolved against the vault.
+ */
+export interface ResolvedMention {
+	/** Text between `@[[` and `]]` as the user typed it */
+	target: string;
+
+	kind: MentionKind;
+
+	/** Path of the file or folder within the vault */
+	path: string;
+
+	/** File name with extension, or the folder name */
+	name: string;
+
+	/** MIME type of the file ("" for folders) */
+	mimeType: string;
+
+	/** File size in bytes (0 for folders) */
+	size: number;
+
+	/** Last modified timestamp (milliseconds since epoch, 0 for folders) */
+	modified: number;
+
+	/** Heading text or block ID (heading and block mentions only) */
+	subpath?: string;
+
+	/**
+	 * Character offsets of the section within the note (heading and block
+	 * mentions only). A missing end means the section runs to the end.
+	 */
+	range?: { start: number; end?: number };
+}
+
+/**
+ * A heading in a note, from the metadata cache.
+ */
+export interface NoteHeading {
+	/** Heading text without the leading #s */
+	heading: string;
+
+	/** Heading level (1-6) */
+	level: number;
+
+	/** Character offset of the heading line within the note */
+	offset: number;
+}
+
+/**
+ * Structure of a note, used to truncate it along section boundaries.
+ */
+export interface NoteOutline {
+	/** Headings in document order */
+	headings: NoteHeading[];
+
+	/** Character offset just past the front matter, if the note has any */
+	frontmatterEnd?: number;
+}
+
 /**
  * Interface for accessing vault notes and files.
  *
@@ -69,9 +168,12 @@ export interface IVaultAccess {
 	/**
 	 * Search for notes matching a query.
 	 *
-	 * Uses fuzzy search against note names, paths, and aliases.
-	 * Returns up to 5 best matches sorted by relevance.
-	 * If query is empty, returns recently modified files.
+	 * Uses fuzzy search against note names, paths, aliases, headings and
+	 * tags (a query starting with # matches tags only), boosted by recently
+	 * opened files and links to and from the active note.
+	 * Mentionable attachments and folders (isFolder) are included.
+	 * Returns up to 20 best matches sorted by relevance, with snippets.
+	 * If query is empty, returns recently opened and linked files.
 	 *
 	 * @param query - Search query string (can be empty for recent files)
 	 * @returns Promise resolving to array of matching note metadata
@@ -91,4 +193,48 @@ export interface IVaultAccess {
 	 * @returns Promise resolving to array of all note metadata
 	 */
 	listNotes(): Promise<NoteMetadata[]>;
+
+	/**
+	 * Read a file's raw bytes (images, PDFs and other attachments).
+	 *
+	 * @param path - Path to the file within the vault
+	 * @throws Error if the file doesn't exist or cannot be read
+	 */
+	readBinary(path: string): Promise<ArrayBuffer>;
+
+	/**
+	 * List the files beneath a folder, recursively.
+	 *
+	 * @param path - Path to the folder within the vault
+	 * @returns Vault paths of the files, sorted
+	 * @throws Error if the folder doesn't exist
+	 */
+	listFolder(path: string): Promise<string[]>;
+
+	/**
+	 * Get a note's headings and front matter position from the metadata
+	 * cache. Offsets refer to the note's content as readNote returns it.
+	 *
+	 * @param path - Path to the note within the vault
+	 * @returns Outline (no headings if the note isn't indexed yet)
+	 */
+	getNoteOutline(path: string): Promise<NoteOutline>;
+
+	/**
+	 * Create a note, along with any missing folders.
+	 *
+	 * @param path - Path of the new note within the vault
+	 * @param content - Note content
+	 * @throws Error if the path is taken, inside the config folder or hidden
+	 */
+	createNote(path: string, content: string): Promise<void>;
+
+	/**
+	 * Append text to the end of a note, on a new line.
+	 *
+	 * @param path - Path to the note within the vault
+	 * @param content - Text to append
+	 * @throws Error if note doesn't exist
+	 */
+	appendToNote(path: string, content: string): Promise<void>;
 }
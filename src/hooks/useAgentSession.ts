@@ -6,16 +6,23 @@ import type {
 	SessionModelState,
 	SlashCommand,
 	AuthenticationMethod,
+	SessionUsage,
 } from "../domain/models/chat-session";
 import type { IAgentClient } from "../domain/ports/agent-client.port";
 import type { ISettingsAccess } from "../domain/ports/settings-access.port";
+import type { ISecretStore } from "../domain/ports/secret-store.port";
+import type { IVaultAccess } from "../domain/ports/vault-access.port";
 import type { AgentClientPluginSettings } from "../plugin";
 import type {
+	AgentSessionDefaults,
 	BaseAgentSettings,
 } from "../domain/models/agent-config";
 import type { AgentError } from "../domain/models/agent-error";
+import type { AgentRecoveryEvent } from "../domain/models/agent-recovery";
+import type { AgentProfile } from "../domain/models/agent-profile";
 import { toAgentConfig } from "../shared/settings-utils";
-import { mapToApiUrl } from "../shared/url-mapper";
+import { getCredentialEnv } from "../shared/agent-credentials";
+import { createInterpolationContext } from "../shared/variable-interpolation";
 
 // ============================================================================
 // Types
@@ -53,6 +60,25 @@ export interface UseAgentSessionReturn {
 	isReady: boolean;
 	/** Error information if session operation failed */
 	errorInfo: SessionErrorInfo | null;
+	/** Latest crash recovery step, shown as a banner until dismissed */
+	recovery: AgentRecoveryEvent | null;
+	/** Profile this tab's chats start with, if any */
+	profile: AgentProfile | null;
+	/**
+	 * Set when a remembered, pinned or profile model or mode was no longer
+	 * offered and the session kept the agent's default instead
+	 */
+	defaultsNotice: string | null;
+
+	/**
+	 * Dismiss the crash recovery banner.
+	 */
+	dismissRecovery: () => void;
+
+	/**
+	 * Dismiss the model/mode fallback notice.
+	 */
+	dismissDefaultsNotice: () => void;
 
 	/**
 	 * Create a new session with the current active agent.
@@ -79,7 +105,8 @@ export interface UseAgentSessionReturn {
 
 	/**
 	 * Close the current session and disconnect from agent.
-	 * Cancels any running operation and kills the agent process.
+	 * Cancels any running operation and leaves the agent process
+	 * (it exits with its last tab).
 	 */
 	closeSession: () => Promise<void>;
 
@@ -103,7 +130,15 @@ export interface UseAgentSessionReturn {
 	getAvailableAgents: () => AgentInfo[];
 
 	/**
-	 * Update session state after loading/resuming/forking a session.
+	 * Choose the profile for this tab's next chats and switch to its
+	 * agent. Its model and mode are applied when the next session starts.
+	 * @param profileId - Profile ID, or null for no profile
+	 */
+	selectProfile: (profileId: string | null) => Promise<void>;
+
+	/**
+	 * Update session state after loading/resuming/forking a session, then
+	 * switch it to the agent's default model and mode.
 	 * Called by useSessionHistory after a successful session operation.
 	 * @param sessionId - New session ID
 	 * @param modes - Session modes (optional)
@@ -127,16 +162,24 @@ export interface UseAgentSessionReturn {
 	 */
 	updateCurrentMode: (modeId: string) => void;
 
+	/**
+	 * Callback to update context window use and cost.
+	 * Called by AcpAdapter when agent sends usage_update.
+	 */
+	updateUsage: (usage: SessionUsage) => void;
+
 	/**
 	 * Set the session mode.
-	 * Sends a request to the agent to change the mode.
+	 * Sends a request to the agent to change the mode, and remembers it
+	 * for the agent's next sessions.
 	 * @param modeId - ID of the mode to set
 	 */
 	setMode: (modeId: string) => Promise<void>;
 
 	/**
 	 * Set the session model (experimental).
-	 * Sends a request to the agent to change the model.
+	 * Sends a request to the agent to change the model, and remembers it
+	 * for the agent's next sessions.
 	 * @param modelId - ID of the model to set
 	 */
 	setModel: (modelId: string) => Promise<void>;
@@ -221,63 +264,43 @@ function findAgentSettings(
 }
 
 /**
- * Build AgentConfig with API key injection for known agents.
- * Uses global API key, base URL, and model for all agents.
+ * Build AgentConfig with variables replaced and the agent's API
+ * credentials injected. Per-agent credentials override the global API
+ * key, base URL, and model, and take precedence over env vars.
  */
-function buildAgentConfigWithApiKey(
+async function buildAgentConfigWithApiKey(
 	settings: AgentClientPluginSettings,
 	agentSettings: BaseAgentSettings,
 	agentId: string,
 	workingDirectory: string,
+	secrets: ISecretStore,
+	vaultAccess: IVaultAccess,
 ) {
-	const baseConfig = toAgentConfig(agentSettings, workingDirectory);
-	const env: Record<string, string> = {
-		...baseConfig.env,
-	};
-
-	// Use global API key for all agents
-	if (settings.apiKey) {
-		// Claude: use ANTHROPIC_AUTH_TOKEN (not ANTHROPIC_API_KEY)
-		if (agentId === settings.claude.id) {
-			env.ANTHROPIC_AUTH_TOKEN = settings.apiKey;
-			if (settings.baseUrl) {
-				// Map display URL (obsidianaitools.com) to actual API URL (ultimateai.org)
-				env.ANTHROPIC_BASE_URL = mapToApiUrl(settings.baseUrl);
-			}
-		}
-		// Gemini: use GEMINI_API_KEY
-		if (agentId === settings.gemini.id) {
-			env.GEMINI_API_KEY = settings.apiKey;
-			if (settings.baseUrl) {
-				// Map display URL (obsidianaitools.com) to actual API URL (ultimateai.org)
-				env.GOOGLE_GEMINI_BASE_URL = mapToApiUrl(settings.baseUrl);
-			}
-			if (settings.model) {
-				env.GEMINI_MODEL = settings.model;
-			}
-		}
-		// Codex: use OPENAI_API_KEY
-		if (agentId === settings.codex.id) {
-			env.OPENAI_API_KEY = settings.apiKey;
-			if (settings.baseUrl) {
-				// Map display URL (obsidianaitools.com) to actual API URL (ultimateai.org)
-				env.OPENAI_BASE_URL = mapToApiUrl(settings.baseUrl);
-			}
-			if (settings.model) {
-				env.OPENAI_MODEL = settings.model;
-			}
-		}
-	}
-
+	const getSecret = (name: string) => secrets.get(name);
+	const activeNote = await vaultAccess.getActiveNote();
+	// Chats run in the vault folder, so it is also the working directory
+	const baseConfig = toAgentConfig(
+		agentSettings,
+		createInterpolationContext(
+			workingDirectory,
+			workingDirectory,
+			activeNote?.path ?? null,
+			getSecret,
+		),
+	);
 	return {
 		...baseConfig,
-		env,
+		env: {
+			...baseConfig.env,
+			...getCredentialEnv(settings, agentId, getSecret),
+		},
 	};
 }
 
 /**
  * Signature of the parts of an AgentConfig that only take effect at process
- * spawn time (command, args, env — including injected API key/base URL).
+ * spawn time (command, args, env — including injected API key/base URL) or
+ * connect time (transport, endpoint).
  * If this changes, the agent process must be re-initialized: creating a new
  * session on the old process would silently keep the old environment.
  */
@@ -285,14 +308,141 @@ function getSpawnConfigSignature(config: {
 	command: string;
 	args: string[];
 	env: Record<string, string>;
+	transport?: string;
+	endpoint?: string;
 }): string {
 	return JSON.stringify({
 		command: config.command,
 		args: config.args,
 		env: config.env,
+		transport: config.transport,
+		endpoint: config.endpoint,
 	});
 }
 
+const EMPTY_SESSION_DEFAULTS: AgentSessionDefaults = {
+	lastModelId: "",
+	lastModeId: "",
+	pinnedModelId: "",
+	pinnedModeId: "",
+};
+
+/** Model and mode IDs to switch a session to ("" = keep the agent's) */
+interface WantedSessionDefaults {
+	modelId: string;
+	modeId: string;
+}
+
+/** A wanted model or mode the session doesn't offer */
+interface SessionDefaultFallback {
+	kind: "model" | "mode";
+	wantedId: string;
+	/** Name of the model or mode the session kept */
+	fallbackName: string;
+}
+
+/**
+ * Model and mode a session of an agent should switch to: the tab's
+ * profile (when it is for this agent) first, then the pinned ones, then
+ * the last chosen ones (when remembering is on).
+ */
+function resolveSessionDefaults(
+	settings: AgentClientPluginSettings,
+	agentId: string,
+	profileId: string | null,
+): WantedSessionDefaults {
+	const profile = settings.profiles.find(
+		(p) => p.id === profileId && p.agentId === agentId,
+	);
+	const stored = settings.sessionDefaults[agentId] ?? EMPTY_SESSION_DEFAULTS;
+	const remember = settings.rememberModelAndMode;
+	return {
+		modelId:
+			profile?.modelId ||
+			stored.pinnedModelId ||
+			(remember ? stored.lastModelId : ""),
+		modeId:
+			profile?.modeId ||
+			stored.pinnedModeId ||
+			(remember ? stored.lastModeId : ""),
+	};
+}
+
+/**
+ * Switch a session to the wanted model and mode when the agent offers
+ * them. Returns the resulting states and the wanted IDs it doesn't offer;
+ * a failed switch leaves the agent's default in place.
+ */
+async function applySessionDefaults(
+	agentClient: IAgentClient,
+	sessionId: string,
+	wanted: WantedSessionDefaults,
+	modes: SessionModeState | undefined,
+	models: SessionModelState | undefined,
+): Promise<{
+	modes?: SessionModeState;
+	models?: SessionModelState;
+	fallbacks: SessionDefaultFallback[];
+}> {
+	const fallbacks: SessionDefaultFallback[] = [];
+	if (wanted.modelId && models && models.currentModelId !== wanted.modelId) {
+		if (
+			models.availableModels.some(
+				(model) => model.modelId === wanted.modelId,
+			)
+		) {
+			try {
+				await agentClient.setSessionModel(sessionId, wanted.modelId);
+				models = { ...models, currentModelId: wanted.modelId };
+			} catch (error) {
+				console.warn("Failed to apply default model:", error);
+			}
+		} else {
+			const current = models.currentModelId;
+			fallbacks.push({
+				kind: "model",
+				wantedId: wanted.modelId,
+				fallbackName:
+					models.availableModels.find((m) => m.modelId === current)
+						?.name ?? current,
+			});
+		}
+	}
+	if (wanted.modeId && modes && modes.currentModeId !== wanted.modeId) {
+		if (modes.availableModes.some((mode) => mode.id === wanted.modeId)) {
+			try {
+				await agentClient.setSessionMode(sessionId, wanted.modeId);
+				modes = { ...modes, currentModeId: wanted.modeId };
+			} catch (error) {
+				console.warn("Failed to apply default mode:", error);
+			}
+		} else {
+			const current = modes.currentModeId;
+			fallbacks.push({
+				kind: "mode",
+				wantedId: wanted.modeId,
+				fallbackName:
+					modes.availableModes.find((m) => m.id === current)?.name ??
+					current,
+			});
+		}
+	}
+	return { modes, models, fallbacks };
+}
+
+/**
+ * Notice text for defaults the session doesn't offer, or null for none.
+ */
+function describeFallbacks(fallbacks: SessionDefaultFallback[]): string | null {
+	if (fallbacks.length === 0) return null;
+	return fallbacks
+		.map(
+			({ kind, wantedId, fallbackName }) =>
+				`The ${kind} "${wantedId}" is no longer available; using ${fallbackName || "the agent's default"} instead.`,
+		)
+		.join(" ");
+}
+
 // ============================================================================
 // Initial State
 // ============================================================================
@@ -314,6 +464,7 @@ function createInitialSession(
 		availableCommands: undefined,
 		modes: undefined,
 		models: undefined,
+		usage: undefined,
 		createdAt: new Date(),
 		lastActivityAt: new Date(),
 		workingDirectory,
@@ -333,11 +484,15 @@ function createInitialSession(
  * @param agentClient - Agent client for communication
  * @param settingsAccess - Settings access for agent configuration
  * @param workingDirectory - Working directory for the session
+ * @param secrets - Secret store resolving `${secret:name}` references
+ * @param vaultAccess - Vault access for the `${activeNote}` variable
  */
 export function useAgentSession(
 	agentClient: IAgentClient,
 	settingsAccess: ISettingsAccess,
 	workingDirectory: string,
+	secrets: ISecretStore,
+	vaultAccess: IVaultAccess,
 ): UseAgentSessionReturn {
 	// Get initial agent info from settings
 	const initialSettings = settingsAccess.getSnapshot();
@@ -356,6 +511,19 @@ export function useAgentSession(
 	// Error state
 	const [errorInfo, setErrorInfo] = useState<SessionErrorInfo | null>(null);
 
+	// Crash recovery state
+	const [recovery, setRecovery] = useState<AgentRecoveryEvent | null>(null);
+
+	// Model/mode fallback notice
+	const [defaultsNotice, setDefaultsNotice] = useState<string | null>(null);
+
+	// Profile of this tab (the ref is read when a session starts)
+	const [profileId, setProfileId] = useState<string | null>(null);
+	const profileIdRef = useRef<string | null>(null);
+	const profile =
+		settingsAccess.getSnapshot().profiles.find((p) => p.id === profileId) ??
+		null;
+
 	// Spawn-config signature of the last successful initialize(). Compared
 	// against the current config so env changes (API key, base URL) force a
 	// process re-initialization instead of reusing the old environment.
@@ -379,6 +547,36 @@ export function useAgentSession(
 		};
 	}, [agentClient]);
 
+	// Follow crash recovery: block input while the agent restarts, then
+	// switch to the re-attached session (a new ID if it had to start over)
+	useEffect(() => {
+		const handleRecovery = (event: AgentRecoveryEvent) => {
+			setRecovery(event);
+			if (event.status === "restarting") {
+				setSession((prev) => ({ ...prev, state: "initializing" }));
+			} else if (event.status === "recovered" && event.sessionId) {
+				const sessionId = event.sessionId;
+				setSession((prev) => ({
+					...prev,
+					sessionId,
+					state: "ready",
+					modes: event.modes ?? prev.modes,
+					models: event.models ?? prev.models,
+					lastActivityAt: new Date(),
+				}));
+			}
+		};
+		agentClient.onRecovery(handleRecovery);
+	}, [agentClient]);
+
+	const dismissRecovery = useCallback(() => {
+		setRecovery(null);
+	}, []);
+
+	const dismissDefaultsNotice = useCallback(() => {
+		setDefaultsNotice(null);
+	}, []);
+
 	// Derived state
 	const isReady = session.state === "ready";
 
@@ -403,6 +601,7 @@ export function useAgentSession(
 			availableCommands: undefined,
 			modes: undefined,
 			models: undefined,
+			usage: undefined,
 			// Keep capabilities/info from previous session if same agent
 			// They will be updated if re-initialization is needed
 			promptCapabilities: prev.promptCapabilities,
@@ -412,6 +611,8 @@ export function useAgentSession(
 			lastActivityAt: new Date(),
 		}));
 		setErrorInfo(null);
+		setRecovery(null);
+		setDefaultsNotice(null);
 
 		try {
 			// Find agent settings
@@ -429,11 +630,13 @@ export function useAgentSession(
 			}
 
 			// Build AgentConfig with API key injection
-			const agentConfig = buildAgentConfigWithApiKey(
+			const agentConfig = await buildAgentConfigWithApiKey(
 				settings,
 				agentSettings,
 				activeAgentId,
 				workingDirectory,
+				secrets,
+				vaultAccess,
 			);
 
 			// Check if initialization is needed
@@ -489,6 +692,18 @@ export function useAgentSession(
 			// Create new session (lightweight operation)
 			const sessionResult =
 				await agentClient.newSession(workingDirectory);
+			const { modes, models, fallbacks } = await applySessionDefaults(
+				agentClient,
+				sessionResult.sessionId,
+				resolveSessionDefaults(
+					settings,
+					activeAgentId,
+					profileIdRef.current,
+				),
+				sessionResult.modes,
+				sessionResult.models,
+			);
+			setDefaultsNotice(describeFallbacks(fallbacks));
 
 			// Success - update to ready state
 			setSession((prev) => ({
@@ -496,8 +711,8 @@ export function useAgentSession(
 				sessionId: sessionResult.sessionId,
 				state: "ready",
 				authMethods: authMethods,
-				modes: sessionResult.modes,
-				models: sessionResult.models,
+				modes,
+				models,
 				// Only update capabilities/info if we re-initialized
 				// Otherwise, keep the previous value (from the same agent)
 				promptCapabilities: needsInitialize
@@ -519,7 +734,7 @@ export function useAgentSession(
 					"Please check the agent configuration and try again.",
 			});
 		}
-	}, [agentClient, settingsAccess, workingDirectory]);
+	}, [agentClient, settingsAccess, workingDirectory, secrets, vaultAccess]);
 
 	/**
 	 * Load a previous session by ID.
@@ -548,11 +763,14 @@ export function useAgentSession(
 				availableCommands: undefined,
 				modes: undefined,
 				models: undefined,
+				usage: undefined,
 				promptCapabilities: prev.promptCapabilities,
 				createdAt: new Date(),
 				lastActivityAt: new Date(),
 			}));
 			setErrorInfo(null);
+			setRecovery(null);
+			setDefaultsNotice(null);
 
 			try {
 				// Find agent settings
@@ -573,11 +791,13 @@ export function useAgentSession(
 				}
 
 				// Build AgentConfig with API key injection
-				const agentConfig = buildAgentConfigWithApiKey(
+				const agentConfig = await buildAgentConfigWithApiKey(
 					settings,
 					agentSettings,
 					activeAgentId,
 					workingDirectory,
+					secrets,
+					vaultAccess,
 				);
 
 				// Check if initialization is needed (same rules as createSession)
@@ -631,6 +851,18 @@ export function useAgentSession(
 					sessionId,
 					workingDirectory,
 				);
+				const { modes, models, fallbacks } = await applySessionDefaults(
+					agentClient,
+					loadResult.sessionId,
+					resolveSessionDefaults(
+						settings,
+						activeAgentId,
+						profileIdRef.current,
+					),
+					loadResult.modes,
+					loadResult.models,
+				);
+				setDefaultsNotice(describeFallbacks(fallbacks));
 
 				// Success - update to ready state with session ID
 				setSession((prev) => ({
@@ -638,8 +870,8 @@ export function useAgentSession(
 					sessionId: loadResult.sessionId,
 					state: "ready",
 					authMethods: authMethods,
-					modes: loadResult.modes,
-					models: loadResult.models,
+					modes,
+					models,
 					promptCapabilities: needsInitialize
 						? promptCapabilities
 						: prev.promptCapabilities,
@@ -671,7 +903,7 @@ export function useAgentSession(
 				}
 			}
 		},
-		[agentClient, settingsAccess, workingDirectory],
+		[agentClient, settingsAccess, workingDirectory, secrets, vaultAccess],
 	);
 
 	/**
@@ -683,7 +915,8 @@ export function useAgentSession(
 
 	/**
 	 * Close the current session and disconnect from agent.
-	 * Cancels any running operation and kills the agent process.
+	 * Cancels any running operation and leaves the agent process
+	 * (it exits with its last tab).
 	 */
 	const closeSession = useCallback(async () => {
 		// Cancel current session if active
@@ -696,7 +929,7 @@ export function useAgentSession(
 			}
 		}
 
-		// Disconnect from agent (kill process)
+		// Disconnect from agent (the process exits with its last tab)
 		try {
 			await agentClient.disconnect();
 		} catch (error) {
@@ -742,10 +975,19 @@ export function useAgentSession(
 
 	/**
 	 * Switch to a different agent.
-	 * Updates settings and local session state.
+	 * Updates settings and local session state. Drops a profile that is
+	 * for another agent.
 	 */
 	const switchAgent = useCallback(
 		async (agentId: string) => {
+			const current = settingsAccess
+				.getSnapshot()
+				.profiles.find((p) => p.id === profileIdRef.current);
+			if (current && current.agentId !== agentId) {
+				profileIdRef.current = null;
+				setProfileId(null);
+			}
+
 			// Update settings (persists the change)
 			await settingsAccess.updateSettings({ activeAgentId: agentId });
 
@@ -757,6 +999,7 @@ export function useAgentSession(
 				availableCommands: undefined,
 				modes: undefined,
 				models: undefined,
+				usage: undefined,
 				promptCapabilities: undefined,
 				agentCapabilities: undefined,
 				agentInfo: undefined,
@@ -765,6 +1008,23 @@ export function useAgentSession(
 		[settingsAccess],
 	);
 
+	/**
+	 * Choose this tab's profile and switch to its agent.
+	 */
+	const selectProfile = useCallback(
+		async (nextProfileId: string | null) => {
+			const next = settingsAccess
+				.getSnapshot()
+				.profiles.find((p) => p.id === nextProfileId);
+			if (next && next.agentId !== session.agentId) {
+				await switchAgent(next.agentId);
+			}
+			profileIdRef.current = next?.id ?? null;
+			setProfileId(next?.id ?? null);
+		},
+		[settingsAccess, session.agentId, switchAgent],
+	);
+
 	/**
 	 * Get list of available agents.
 	 */
@@ -804,6 +1064,35 @@ export function useAgentSession(
 		});
 	}, []);
 
+	/**
+	 * Update context window use and cost.
+	 * Called by AcpAdapter when receiving usage_update.
+	 */
+	const updateUsage = useCallback((usage: SessionUsage) => {
+		setSession((prev) => ({ ...prev, usage }));
+	}, []);
+
+	/**
+	 * Store a model or mode chosen in a chat as the agent's last choice.
+	 */
+	const rememberChoice = useCallback(
+		async (agentId: string, choice: Partial<AgentSessionDefaults>) => {
+			const settings = settingsAccess.getSnapshot();
+			if (!settings.rememberModelAndMode) return;
+			await settingsAccess.updateSettings({
+				sessionDefaults: {
+					...settings.sessionDefaults,
+					[agentId]: {
+						...EMPTY_SESSION_DEFAULTS,
+						...settings.sessionDefaults[agentId],
+						...choice,
+					},
+				},
+			});
+		},
+		[settingsAccess],
+	);
+
 	/**
 	 * Set the session mode.
 	 * Sends a request to the agent to change the mode.
@@ -835,6 +1124,7 @@ export function useAgentSession(
 				// Per ACP protocol, current_mode_update is only sent when the agent
 				// changes its own mode, not in response to client's setSessionMode.
 				// UI is already updated optimistically above.
+				await rememberChoice(session.agentId, { lastModeId: modeId });
 			} catch (error) {
 				console.error("Failed to set mode:", error);
 				// Rollback to previous mode on error
@@ -852,7 +1142,13 @@ export function useAgentSession(
 				}
 			}
 		},
-		[agentClient, session.sessionId, session.modes?.currentModeId],
+		[
+			agentClient,
+			session.sessionId,
+			session.agentId,
+			session.modes?.currentModeId,
+			rememberChoice,
+		],
 	);
 
 	/**
@@ -885,6 +1181,7 @@ export function useAgentSession(
 				await agentClient.setSessionModel(session.sessionId, modelId);
 				// Note: Unlike modes, there is no dedicated notification for model changes.
 				// UI is already updated optimistically above.
+				await rememberChoice(session.agentId, { lastModelId: modelId });
 			} catch (error) {
 				console.error("Failed to set model:", error);
 				// Rollback to previous model on error
@@ -902,11 +1199,18 @@ export function useAgentSession(
 				}
 			}
 		},
-		[agentClient, session.sessionId, session.models?.currentModelId],
+		[
+			agentClient,
+			session.sessionId,
+			session.agentId,
+			session.models?.currentModelId,
+			rememberChoice,
+		],
 	);
 
 	/**
-	 * Update session state after loading/resuming/forking a session.
+	 * Update session state after loading/resuming/forking a session, then
+	 * apply the agent's default model and mode.
 	 * Called by useSessionHistory after a successful session operation.
 	 */
 	const updateSessionFromLoad = useCallback(
@@ -921,16 +1225,46 @@ export function useAgentSession(
 				state: "ready",
 				modes: modes ?? prev.modes,
 				models: models ?? prev.models,
+				usage: prev.sessionId === sessionId ? prev.usage : undefined,
 				lastActivityAt: new Date(),
 			}));
+			// The first call (before the restore request) carries no states
+			if (!modes && !models) return;
+
+			const settings = settingsAccess.getSnapshot();
+			const agentId =
+				agentClient.getCurrentAgentId() ?? getActiveAgentId(settings);
+			void applySessionDefaults(
+				agentClient,
+				sessionId,
+				resolveSessionDefaults(settings, agentId, profileIdRef.current),
+				modes,
+				models,
+			).then((result) => {
+				setDefaultsNotice(describeFallbacks(result.fallbacks));
+				setSession((prev) =>
+					prev.sessionId === sessionId
+						? {
+								...prev,
+								modes: result.modes ?? prev.modes,
+								models: result.models ?? prev.models,
+							}
+						: prev,
+				);
+			});
 		},
-		[],
+		[agentClient, settingsAccess],
 	);
 
 	return {
 		session,
 		isReady,
 		errorInfo,
+		recovery,
+		profile,
+		defaultsNotice,
+		dismissRecovery,
+		dismissDefaultsNotice,
 		createSession,
 		loadSession,
 		restartSession,
@@ -938,9 +1272,11 @@ export function useAgentSession(
 		cancelOperation,
 		switchAgent,
 		getAvailableAgents,
+		selectProfile,
 		updateSessionFromLoad,
 		updateAvailableCommands,
 		updateCurrentMode,
+		updateUsage,
 		setMode,
 		setModel,
 	};
@@ -2,6 +2,7 @@ import { useState, useCallback, useMemo, useRef } from "react";
 import type {
 	ChatMessage,
 	MessageContent,
+	PromptResult,
 } from "../domain/models/chat-message";
 import type { SessionUpdate } from "../domain/models/session-update";
 import type { IAgentClient } from "../domain/ports/agent-client.port";
@@ -11,7 +12,14 @@ import type { AuthenticationMethod } from "../domain/models/chat-session";
 import type { ErrorInfo } from "../domain/models/agent-error";
 import type { ImagePromptContent } from "../domain/models/prompt-content";
 import type { IMentionService } from "../shared/mention-utils";
-import { preparePrompt, sendPreparedPrompt } from "../shared/message-service";
+import {
+	preparePrompt,
+	sendPreparedPrompt,
+	type ContextOverrides,
+	type PreparePromptInput,
+	type PreparePromptResult,
+} from "../shared/message-service";
+import type { MentionTruncationStrategy } from "../shared/note-truncation";
 import { Platform } from "obsidian";
 
 // ============================================================================
@@ -21,6 +29,18 @@ import { Platform } from "obsidian";
 /** Tool call content type extracted for type safety */
 type ToolCallMessageContent = Extract<MessageContent, { type: "tool_call" }>;
 
+/**
+ * Whether content is a standalone attachment (image or resource).
+ * Attachments are appended in order rather than merged or replaced.
+ */
+function isAttachmentContent(content: MessageContent): boolean {
+	return (
+		content.type === "image" ||
+		content.type === "resource_link" ||
+		content.type === "resource"
+	);
+}
+
 /**
  * Options for sending a message.
  */
@@ -33,6 +53,10 @@ export interface SendMessageOptions {
 	isAutoMentionDisabled?: boolean;
 	/** Attached images */
 	images?: ImagePromptContent[];
+	/** Items dropped or trimmed in the context preview */
+	contextOverrides?: ContextOverrides;
+	/** Profile instructions (sent with the first message of a chat) */
+	preamble?: string;
 }
 
 /**
@@ -95,6 +119,15 @@ export interface UseChatReturn {
 		options: SendMessageOptions,
 	) => Promise<void>;
 
+	/**
+	 * Prepare a message without sending it, for the context preview.
+	 * Returns exactly what sendMessage would send, with its size budget.
+	 */
+	previewPrompt: (
+		content: string,
+		options: SendMessageOptions,
+	) => Promise<PreparePromptResult>;
+
 	/**
 	 * Clear all messages (e.g., when starting a new session).
 	 */
@@ -181,6 +214,8 @@ export interface SettingsContext {
 	windowsWslMode: boolean;
 	maxNoteLength: number;
 	maxSelectionLength: number;
+	mentionLinkThreshold: number;
+	mentionTruncation: MentionTruncationStrategy;
 }
 
 // ============================================================================
@@ -208,6 +243,17 @@ function mergeToolCallContent(
 			);
 		}
 
+		// Same for content blocks: updates carry the full tool output
+		// (ACP replaces the collection), so appending would duplicate it
+		const hasContentBlocks = newContent.some(
+			(item) => item.type === "content",
+		);
+		if (hasContentBlocks) {
+			mergedContent = mergedContent.filter(
+				(item) => item.type !== "content",
+			);
+		}
+
 		mergedContent = [...mergedContent, ...newContent];
 	}
 
@@ -222,6 +268,12 @@ function mergeToolCallContent(
 			update.locations !== undefined
 				? update.locations
 				: existing.locations,
+		rawInput:
+			update.rawInput !== undefined ? update.rawInput : existing.rawInput,
+		rawOutput:
+			update.rawOutput !== undefined
+				? update.rawOutput
+				: existing.rawOutput,
 		permissionRequest:
 			update.permissionRequest !== undefined
 				? update.permissionRequest
@@ -339,6 +391,9 @@ export function useChat(
 				} else {
 					updatedMessage.content.push(content);
 				}
+			} else if (isAttachmentContent(content)) {
+				// Images and resources accumulate (one chunk per attachment)
+				updatedMessage.content.push(content);
 			} else {
 				// Replace or add non-text content
 				const existingIndex = updatedMessage.content.findIndex(
@@ -356,6 +411,32 @@ export function useChat(
 		});
 	}, []);
 
+	/**
+	 * Record the prompt turn outcome on the last assistant message.
+	 * Creates an empty assistant message if the agent sent nothing
+	 * (e.g., an immediate refusal) so the outcome is still shown.
+	 */
+	const attachTurnResult = useCallback((turnResult: PromptResult): void => {
+		setMessages((prev) => {
+			const lastMessage = prev[prev.length - 1];
+			if (!lastMessage || lastMessage.role !== "assistant") {
+				// Nothing to annotate for a turn cancelled before any output
+				if (turnResult.stopReason === "cancelled") {
+					return prev;
+				}
+				const newMessage: ChatMessage = {
+					id: crypto.randomUUID(),
+					role: "assistant",
+					content: [],
+					timestamp: new Date(),
+					turnResult,
+				};
+				return [...prev, newMessage];
+			}
+			return [...prev.slice(0, -1), { ...lastMessage, turnResult }];
+		});
+	}, []);
+
 	/**
 	 * Update or create the last user message with new content.
 	 * Used for session/load to reconstruct user messages from chunks.
@@ -400,6 +481,8 @@ export function useChat(
 				} else {
 					updatedMessage.content.push(content);
 				}
+			} else if (isAttachmentContent(content)) {
+				updatedMessage.content.push(content);
 			} else {
 				// Replace or add non-text content
 				const existingIndex = updatedMessage.content.findIndex(
@@ -501,25 +584,20 @@ export function useChat(
 			switch (update.type) {
 				case "agent_message_chunk":
 					setStreamingPhase("responding");
-					updateLastMessage({
-						type: "text",
-						text: update.text,
-					});
+					updateLastMessage(update.content);
 					break;
 
 				case "agent_thought_chunk":
 					setStreamingPhase("thinking");
-					updateLastMessage({
-						type: "agent_thought",
-						text: update.text,
-					});
+					updateLastMessage(
+						update.content.type === "text"
+							? { type: "agent_thought", text: update.content.text }
+							: update.content,
+					);
 					break;
 
 				case "user_message_chunk":
-					updateUserMessage({
-						type: "text",
-						text: update.text,
-					});
+					updateUserMessage(update.content);
 					break;
 
 				case "tool_call":
@@ -533,6 +611,8 @@ export function useChat(
 						kind: update.kind,
 						content: update.content,
 						locations: update.locations,
+						rawInput: update.rawInput,
+						rawOutput: update.rawOutput,
 						permissionRequest: update.permissionRequest,
 					});
 					break;
@@ -547,6 +627,7 @@ export function useChat(
 				// Session-level updates are handled elsewhere (useAgentSession)
 				case "available_commands_update":
 				case "current_mode_update":
+				case "usage_update":
 					// These are intentionally not handled here
 					break;
 			}
@@ -657,6 +738,53 @@ export function useChat(
 		return Platform.isWin && settingsContext.windowsWslMode;
 	}, [settingsContext.windowsWslMode]);
 
+	/**
+	 * Build the message-service input for a message.
+	 */
+	const buildPromptInput = useCallback(
+		(content: string, options: SendMessageOptions): PreparePromptInput => ({
+			message: content,
+			images: options.images,
+			activeNote: options.activeNote,
+			vaultBasePath: options.vaultBasePath,
+			isAutoMentionDisabled: options.isAutoMentionDisabled,
+			convertToWsl: shouldConvertToWsl,
+			supportsEmbeddedContext:
+				sessionContext.promptCapabilities?.embeddedContext ?? false,
+			supportsImages: sessionContext.promptCapabilities?.image ?? false,
+			maxNoteLength: settingsContext.maxNoteLength,
+			linkThreshold: settingsContext.mentionLinkThreshold,
+			maxSelectionLength: settingsContext.maxSelectionLength,
+			truncationStrategy: settingsContext.mentionTruncation,
+			contextOverrides: options.contextOverrides,
+			preamble: options.preamble,
+		}),
+		[
+			sessionContext.promptCapabilities,
+			settingsContext.maxNoteLength,
+			settingsContext.maxSelectionLength,
+			settingsContext.mentionLinkThreshold,
+			settingsContext.mentionTruncation,
+			shouldConvertToWsl,
+		],
+	);
+
+	/**
+	 * Prepare a message without sending it (context preview).
+	 */
+	const previewPrompt = useCallback(
+		(
+			content: string,
+			options: SendMessageOptions,
+		): Promise<PreparePromptResult> =>
+			preparePrompt(
+				buildPromptInput(content, options),
+				vaultAccess,
+				mentionService,
+			),
+		[buildPromptInput, vaultAccess, mentionService],
+	);
+
 	/**
 	 * Send a message to the agent.
 	 */
@@ -693,19 +821,7 @@ export function useChat(
 
 			// Phase 1: Prepare prompt using message-service
 			const prepared = await preparePrompt(
-				{
-					message: content,
-					images: options.images,
-					activeNote: options.activeNote,
-					vaultBasePath: options.vaultBasePath,
-					isAutoMentionDisabled: options.isAutoMentionDisabled,
-					convertToWsl: shouldConvertToWsl,
-					supportsEmbeddedContext:
-						sessionContext.promptCapabilities?.embeddedContext ??
-						false,
-					maxNoteLength: settingsContext.maxNoteLength,
-					maxSelectionLength: settingsContext.maxSelectionLength,
-				},
+				buildPromptInput(content, options),
 				vaultAccess,
 				mentionService,
 			);
@@ -766,6 +882,9 @@ export function useChat(
 				const result = await sendOp;
 
 				if (result.success) {
+					if (result.promptResult) {
+						attachTurnResult(result.promptResult);
+					}
 					// Success - clear stored message
 					setIsSending(false);
 					setStreamingPhase("idle");
@@ -822,9 +941,9 @@ export function useChat(
 			mentionService,
 			sessionContext.sessionId,
 			sessionContext.authMethods,
-			sessionContext.promptCapabilities,
-			shouldConvertToWsl,
+			buildPromptInput,
 			addMessage,
+			attachTurnResult,
 		],
 	);
 
@@ -841,6 +960,7 @@ export function useChat(
 		queueMessage,
 		removeQueuedMessage,
 		sendMessage,
+		previewPrompt,
 		clearMessages,
 		setInitialMessages,
 		setMessagesFromLocal,
@@ -1,13 +1,19 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useRef } from "react";
 import type {
 	NoteMetadata,
 	IVaultAccess,
 } from "../domain/ports/vault-access.port";
 import {
 	detectMention,
+	getMentionLinkText,
 	replaceMention,
+	type IMentionService,
 	type MentionContext,
 } from "../shared/mention-utils";
+import {
+	previewMentions,
+	type MentionPreview,
+} from "../shared/message-service";
 import type AgentClientPlugin from "../plugin";
 
 export interface UseMentionsReturn {
@@ -27,8 +33,9 @@ export interface UseMentionsReturn {
 	updateSuggestions: (input: string, cursorPosition: number) => Promise<void>;
 
 	/**
-	 * Select a note from the dropdown.
-	 * @returns Updated input text with mention replaced (e.g., "@[[note name]]")
+	 * Select a note, file or folder from the dropdown.
+	 * @returns Updated input text with mention replaced (e.g., "@[[note name]]",
+	 *   "@[[report.pdf]]", "@[[Projects/]]")
 	 */
 	selectSuggestion: (input: string, suggestion: NoteMetadata) => string;
 
@@ -37,6 +44,15 @@ export interface UseMentionsReturn {
 
 	/** Close the dropdown */
 	close: () => void;
+
+	/** How each @[[...]] in the composer will be sent (composer chips) */
+	previews: MentionPreview[];
+
+	/**
+	 * Recompute the previews for the composer text.
+	 * @param supportsImages - Whether the agent accepts image content
+	 */
+	updatePreviews: (input: string, supportsImages: boolean) => Promise<void>;
 }
 
 /**
@@ -46,13 +62,20 @@ export interface UseMentionsReturn {
  * Uses detectMention/replaceMention utilities for parsing.
  *
  * @param vaultAccess - Vault access port for note searching
+ * @param mentionService - Mention service for resolving mentions
  * @param plugin - Plugin instance for settings and configuration
  */
 export function useMentions(
 	vaultAccess: IVaultAccess,
+	mentionService: IMentionService,
 	plugin: AgentClientPlugin,
 ): UseMentionsReturn {
 	const [suggestions, setSuggestions] = useState<NoteMetadata[]>([]);
+	const [previews, setPreviews] = useState<MentionPreview[]>([]);
+	// Latest preview request; older results are dropped
+	const previewRequestRef = useRef(0);
+	// Latest search; results of slower, older searches are dropped
+	const searchRequestRef = useRef(0);
 	const [selectedIndex, setSelectedIndex] = useState(0);
 	const [context, setContext] = useState<MentionContext | null>(null);
 
@@ -60,6 +83,7 @@ export function useMentions(
 
 	const updateSuggestions = useCallback(
 		async (input: string, cursorPosition: number) => {
+			const request = ++searchRequestRef.current;
 			const ctx = detectMention(input, cursorPosition, plugin);
 
 			if (!ctx) {
@@ -71,6 +95,9 @@ export function useMentions(
 			}
 
 			const results = await vaultAccess.searchNotes(ctx.query);
+			if (request !== searchRequestRef.current) {
+				return;
+			}
 			setSuggestions(results);
 			setSelectedIndex(0);
 			setContext(ctx);
@@ -84,7 +111,11 @@ export function useMentions(
 				return input;
 			}
 
-			const { newText } = replaceMention(input, context, suggestion.name);
+			const { newText } = replaceMention(
+				input,
+				context,
+				getMentionLinkText(suggestion),
+			);
 
 			setSuggestions([]);
 			setSelectedIndex(0);
@@ -117,6 +148,27 @@ export function useMentions(
 		setContext(null);
 	}, []);
 
+	const updatePreviews = useCallback(
+		async (input: string, supportsImages: boolean) => {
+			const request = ++previewRequestRef.current;
+			const { displaySettings } = plugin.settings;
+			const next = await previewMentions(
+				input,
+				{
+					supportsImages,
+					maxNoteLength: displaySettings.maxNoteLength,
+					linkThreshold: displaySettings.mentionLinkThreshold,
+				},
+				vaultAccess,
+				mentionService,
+			);
+			if (request === previewRequestRef.current) {
+				setPreviews(next);
+			}
+		},
+		[vaultAccess, mentionService, plugin],
+	);
+
 	return {
 		suggestions,
 		selectedIndex,
@@ -126,5 +178,7 @@ export function useMentions(
 		selectSuggestion,
 		navigate,
 		close,
+		previews,
+		updatePreviews,
 	};
 }
@@ -0,0 +1,99 @@
+import { useState, useCallback, useRef } from "react";
+import type {
+	NoteMetadata,
+	RelatedNote,
+} from "../domain/ports/vault-access.port";
+import { getMentionLinkText } from "../shared/mention-utils";
+import type AgentClientPlugin from "../plugin";
+
+export interface UseRelatedNotesReturn {
+	/** Notes related to the composer text, best first */
+	suggestions: RelatedNote[];
+
+	/**
+	 * Notes mentioned automatically when sending (the top matches, per the
+	 * auto-attach setting), ranked with the suggestions so the preview and
+	 * the sent message agree. Empty while the index is building.
+	 */
+	autoAttach: NoteMetadata[];
+
+	/**
+	 * Recompute suggestions and auto-attached notes for the composer text.
+	 * Builds the index on first use.
+	 * @param excludePaths - Notes already in the context (e.g. the active note)
+	 */
+	updateSuggestions: (input: string, excludePaths: string[]) => Promise<void>;
+}
+
+/**
+ * Targets of the @[[...]] mentions in a message.
+ */
+function getMentionTargets(input: string): Set<string> {
+	return new Set(
+		Array.from(input.matchAll(/@\[\[([^\]]+)\]\]/g), (match) => match[1]),
+	);
+}
+
+/**
+ * Hook for related-note suggestions from the local full-text index.
+ *
+ * Notes already mentioned in the message and excluded paths are never
+ * suggested; mention markup is left out of the query.
+ *
+ * @param plugin - Plugin instance (index and settings)
+ */
+export function useRelatedNotes(
+	plugin: AgentClientPlugin,
+): UseRelatedNotesReturn {
+	const [suggestions, setSuggestions] = useState<RelatedNote[]>([]);
+	const [autoAttach, setAutoAttach] = useState<NoteMetadata[]>([]);
+	const requestRef = useRef(0);
+
+	const search = useCallback(
+		(input: string, excludePaths: string[], limit: number) => {
+			const mentioned = getMentionTargets(input);
+			const query = input.replace(/@\[\[[^\]]+\]\]/g, " ");
+			return plugin.relatedNotes
+				.search(query, limit + mentioned.size, new Set(excludePaths))
+				.filter(
+					({ note }) =>
+						!mentioned.has(getMentionLinkText(note)) &&
+						!mentioned.has(note.path),
+				)
+				.slice(0, limit);
+		},
+		[plugin],
+	);
+
+	const updateSuggestions = useCallback(
+		async (input: string, excludePaths: string[]) => {
+			const request = ++requestRef.current;
+			const settings = plugin.settings.relatedNotes;
+			if (!settings.enabled || !input.trim()) {
+				setSuggestions([]);
+				setAutoAttach([]);
+				return;
+			}
+			await plugin.relatedNotes.ensureIndexed();
+			if (request === requestRef.current) {
+				const ranked = search(
+					input,
+					excludePaths,
+					Math.max(
+						settings.suggestionCount,
+						settings.autoAttachCount,
+					),
+				);
+				setSuggestions(ranked.slice(0, settings.suggestionCount));
+				setAutoAttach(
+					ranked
+						.slice(0, settings.autoAttachCount)
+						.map(({ note }) => note),
+				);
+			}
+		},
+		[plugin, search],
+	);
+
+	return { suggestions, autoAttach, updateSuggestions };
+}
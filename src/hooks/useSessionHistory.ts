@@ -10,11 +10,16 @@ import type {
 	SessionModeState,
 	SessionModelState,
 } from "../domain/models/chat-session";
-import type { ChatMessage } from "../domain/models/chat-message";
+import type {
+	ChatMessage,
+	SessionCost,
+	TokenUsage,
+} from "../domain/models/chat-message";
 import {
 	getSessionCapabilityFlags,
 	type SessionCapabilityFlags,
 } from "../shared/session-capability-utils";
+import { addTokenUsage } from "../shared/token-usage";
 
 // ============================================================================
 // Types
@@ -156,6 +161,20 @@ export interface UseSessionHistoryReturn {
 		messages: import("../domain/models/chat-message").ChatMessage[],
 	) => void;
 
+	/**
+	 * Add a turn's token usage to the locally saved session's running total,
+	 * and record the session's cost so far.
+	 * No-op if the session has not been saved locally.
+	 * @param sessionId - Session ID
+	 * @param usage - Token usage reported for the turn, if any
+	 * @param cost - Cumulative cost from the latest usage_update, if any
+	 */
+	recordSessionUsage: (
+		sessionId: string,
+		usage: TokenUsage | undefined,
+		cost?: SessionCost,
+	) => void;
+
 	/**
 	 * Invalidate the session cache.
 	 * Call this when creating a new session to refresh the list.
@@ -620,6 +639,33 @@ export function useSessionHistory(
 		[session.agentId, settingsAccess],
 	);
 
+	/**
+	 * Accumulate token usage (and replace the cost) in saved session
+	 * metadata. Fire-and-forget (does not block UI).
+	 */
+	const recordSessionUsage = useCallback(
+		(
+			sessionId: string,
+			usage: TokenUsage | undefined,
+			cost?: SessionCost,
+		) => {
+			if (!session.agentId) return;
+
+			const saved = settingsAccess
+				.getSavedSessions(session.agentId)
+				.find((s) => s.sessionId === sessionId);
+			if (!saved) return;
+
+			void settingsAccess.saveSession({
+				...saved,
+				usage: usage ? addTokenUsage(saved.usage, usage) : saved.usage,
+				cost: cost ?? saved.cost,
+				updatedAt: new Date().toISOString(),
+			});
+		},
+		[session.agentId, settingsAccess],
+	);
+
 	return {
 		sessions,
 		loading,
@@ -646,6 +692,7 @@ export function useSessionHistory(
 		deleteSession,
 		saveSessionLocally,
 		saveSessionMessages,
+		recordSessionUsage,
 		invalidateCache,
 	};
 }
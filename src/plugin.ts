@@ -8,24 +8,50 @@ import {
 import { AgentClientSettingTab } from "./components/settings/AgentClientSettingTab";
 import { OnboardingModal } from "./components/OnboardingModal";
 import { AcpAdapter } from "./adapters/acp/acp.adapter";
+import { AcpConnectionPool } from "./adapters/acp/acp-connection-pool";
 import {
 	sanitizeArgs,
 	normalizeEnvVars,
 	normalizeCustomAgent,
 	ensureUniqueCustomAgentIds,
+	normalizeMcpServer,
+	normalizePermissionRule,
+	normalizePermissionGrant,
+	normalizeAgentProfile,
+	normalizeSessionDefaults,
+	normalizeAgentCredentials,
 } from "./shared/settings-utils";
 import {
+	AgentCredentials,
 	AgentEnvVar,
+	AgentSessionDefaults,
 	GeminiAgentSettings,
 	ClaudeAgentSettings,
 	CodexAgentSettings,
 	CustomAgentSettings,
+	McpServerSettings,
 } from "./domain/models/agent-config";
 import type { SavedSessionInfo } from "./domain/models/session-info";
+import type { AgentProfile } from "./domain/models/agent-profile";
+import type {
+	PermissionGrant,
+	PermissionRule,
+} from "./domain/models/permission-rule";
 import { ErrorLog } from "./shared/error-log";
+import type { MentionTruncationStrategy } from "./shared/note-truncation";
+import { VaultMcpServer } from "./adapters/obsidian/vault-mcp-server";
+import { RelatedNotesIndex } from "./adapters/obsidian/related-notes-index";
+import { SecretStore } from "./adapters/obsidian/secret-store.adapter";
+import {
+	collectSecretFields,
+	collectUncheckedValues,
+	getReferencedSecrets,
+	isPlaintextSecret,
+	toSecretRef,
+} from "./shared/secret-refs";
 
 // Re-export for backward compatibility
-export type { AgentEnvVar, CustomAgentSettings };
+export type { AgentEnvVar, CustomAgentSettings, McpServerSettings };
 
 /**
  * Send message shortcut configuration.
@@ -53,9 +79,37 @@ export interface AgentClientPluginSettings {
 	claude: Omit<ClaudeAgentSettings, "apiKey">;
 	codex: Omit<CodexAgentSettings, "apiKey">;
 	customAgents: CustomAgentSettings[];
+	// MCP servers passed to agents when a session starts
+	mcpServers: McpServerSettings[];
+	// Built-in vault MCP server (notes, search, tags, links) for agents
+	vaultMcpServer: {
+		enabled: boolean;
+		allowWrites: boolean;
+	};
 	activeAgentId: string;
-	autoAllowPermissions: boolean;
+	// Named bundles of agent, model, mode, instructions and permission
+	// policy, chosen per chat tab
+	profiles: AgentProfile[];
+	// Remember the model and mode chosen in a chat for the agent's next
+	// sessions
+	rememberModelAndMode: boolean;
+	// Last-chosen and pinned model and mode, keyed by agentId
+	sessionDefaults: Record<string, AgentSessionDefaults>;
+	// Ordered permission rules; the first enabled match decides a request
+	permissionRules: PermissionRule[];
+	// Remembered allow_always / reject_always choices, per agent and tool
+	permissionGrants: PermissionGrant[];
 	autoMentionActiveNote: boolean;
+	// Related-note suggestions from a local full-text index of the vault
+	relatedNotes: {
+		enabled: boolean;
+		// Chips shown above the composer
+		suggestionCount: number;
+		// Top suggestions mentioned automatically on send; 0 = off
+		autoAttachCount: number;
+	};
+	// Restart a crashed agent process and re-attach its session
+	autoRestartAgent: boolean;
 	debugMode: boolean;
 	nodePath: string;
 	exportSettings: {
@@ -67,6 +121,7 @@ export interface AgentClientPluginSettings {
 		includeImages: boolean;
 		imageLocation: "obsidian" | "custom" | "base64";
 		imageCustomFolder: string;
+		includeToolDetails: boolean;
 	};
 	// WSL settings (Windows only)
 	windowsWslMode: boolean;
@@ -81,6 +136,10 @@ export interface AgentClientPluginSettings {
 		diffCollapseThreshold: number;
 		maxNoteLength: number;
 		maxSelectionLength: number;
+		// Mentions longer than this (characters) are sent as links; 0 = never
+		mentionLinkThreshold: number;
+		// How mentions longer than maxNoteLength are cut
+		mentionTruncation: MentionTruncationStrategy;
 	};
 	// Locally saved session metadata (for agents without session/list support)
 	savedSessions: SavedSessionInfo[];
@@ -98,10 +157,12 @@ export interface AgentClientPluginSettings {
 	// back (e.g. after a broken agent release) aren't re-nagged every time
 	// the chat view opens; a newer version shows the banner again.
 	agentUpdateDismissed: Record<string, string>;
-	// Global API configuration
+	// Global API configuration (the default for every agent)
 	apiKey: string;
 	baseUrl: string;
 	model: string;
+	// Per-agent overrides of the global API configuration, keyed by agentId
+	agentCredentials: Record<string, AgentCredentials>;
 }
 
 // In claude-agent-acp v0.37.0 the npm package and binary were renamed from
@@ -119,6 +180,7 @@ const DEFAULT_SETTINGS: AgentClientPluginSettings = {
 		command: "",
 		args: [],
 		env: [],
+		envFile: "",
 	},
 	codex: {
 		id: "codex-acp",
@@ -126,6 +188,7 @@ const DEFAULT_SETTINGS: AgentClientPluginSettings = {
 		command: "",
 		args: [],
 		env: [],
+		envFile: "",
 	},
 	gemini: {
 		id: "gemini-cli",
@@ -133,11 +196,27 @@ const DEFAULT_SETTINGS: AgentClientPluginSettings = {
 		command: "",
 		args: ["--experimental-acp"],
 		env: [],
+		envFile: "",
 	},
 	customAgents: [],
+	mcpServers: [],
+	vaultMcpServer: {
+		enabled: true,
+		allowWrites: false,
+	},
 	activeAgentId: "claude-code-acp",
-	autoAllowPermissions: false,
+	profiles: [],
+	rememberModelAndMode: true,
+	sessionDefaults: {},
+	permissionRules: [],
+	permissionGrants: [],
 	autoMentionActiveNote: true,
+	relatedNotes: {
+		enabled: true,
+		suggestionCount: 3,
+		autoAttachCount: 0,
+	},
+	autoRestartAgent: true,
 	debugMode: false,
 	nodePath: "",
 	exportSettings: {
@@ -149,6 +228,7 @@ const DEFAULT_SETTINGS: AgentClientPluginSettings = {
 		includeImages: true,
 		imageLocation: "obsidian",
 		imageCustomFolder: "AI Tools",
+		includeToolDetails: false,
 	},
 	windowsWslMode: false,
 	windowsWslDistribution: undefined,
@@ -159,6 +239,8 @@ const DEFAULT_SETTINGS: AgentClientPluginSettings = {
 		diffCollapseThreshold: 10,
 		maxNoteLength: 10000,
 		maxSelectionLength: 10000,
+		mentionLinkThreshold: 50000,
+		mentionTruncation: "relevant",
 	},
 	savedSessions: [],
 	hasCompletedOnboarding: false,
@@ -168,17 +250,30 @@ const DEFAULT_SETTINGS: AgentClientPluginSettings = {
 	apiKey: "",
 	baseUrl: "https://chat.obsidianaitools.com",
 	model: "MiniMax-M2.1",
+	agentCredentials: {},
 };
 
 export default class AgentClientPlugin extends Plugin {
 	settings: AgentClientPluginSettings;
 	settingsStore!: SettingsStore;
 	errorLog!: ErrorLog;
+	/** Local MCP server exposing the vault; started on first session */
+	vaultMcp!: VaultMcpServer;
+	/** Full-text index for related-note suggestions; built on first use */
+	relatedNotes!: RelatedNotesIndex;
+	/** Values of `${secret:name}` references; never written to data.json */
+	secrets!: SecretStore;
 
 	/**
-	 * All live ACP adapters. Each chat tab owns one adapter (its own agent
-	 * process and connection); the registry exists so plugin-lifecycle
-	 * cleanup and file-lock operations can reach every process.
+	 * Agent processes shared by chat tabs, keyed by agent and spawn config.
+	 * Tabs using the same agent run separate sessions over one process.
+	 */
+	readonly acpConnections = new AcpConnectionPool(this);
+
+	/**
+	 * All live ACP adapters. Each chat tab owns one adapter (its session
+	 * handle on a pooled connection); the registry exists so
+	 * plugin-lifecycle cleanup and file-lock operations can reach every tab.
 	 */
 	private adapters = new Set<AcpAdapter>();
 
@@ -194,7 +289,11 @@ export default class AgentClientPlugin extends Plugin {
 			await this.loadSettings();
 			console.debug("[AI Tools] Settings loaded successfully");
 
+			this.secrets = new SecretStore(this);
+
 			this.errorLog = new ErrorLog(this);
+			this.vaultMcp = new VaultMcpServer(this);
+			this.relatedNotes = new RelatedNotesIndex(this);
 
 			// Show a one-time post-upgrade notice when the plugin version changes.
 			// Helps users on the claude-code-acp → claude-agent-acp migration realise
@@ -254,6 +353,7 @@ export default class AgentClientPlugin extends Plugin {
 
 			// Register agent-specific commands
 			this.registerAgentCommands();
+			this.registerProfileCommands();
 			this.registerPermissionCommands();
 			console.debug("[AI Tools] Commands registered");
 
@@ -282,10 +382,12 @@ export default class AgentClientPlugin extends Plugin {
 	onunload() {
 		// Fire and forget, but ensure we kill all tab subprocesses
 		this.disconnectAllAdapters("Unload");
+		this.vaultMcp?.stop();
+		this.relatedNotes?.destroy();
 	}
 
 	/**
-	 * Create a new ACP adapter (own agent process/connection) and track it.
+	 * Create a new ACP adapter (a tab's session handle) and track it.
 	 * Each chat tab calls this once and releases on unmount.
 	 */
 	createAdapter(): AcpAdapter {
@@ -297,6 +399,7 @@ export default class AgentClientPlugin extends Plugin {
 	/** Stop tracking an adapter (its owner is responsible for disconnect). */
 	releaseAdapter(adapter: AcpAdapter): void {
 		this.adapters.delete(adapter);
+		this.vaultMcp?.releaseClient(adapter);
 	}
 
 	private disconnectAllAdapters(context: string): void {
@@ -308,6 +411,7 @@ export default class AgentClientPlugin extends Plugin {
 				);
 			});
 		}
+		this.acpConnections.closeAll();
 	}
 
 	/**
@@ -331,6 +435,7 @@ export default class AgentClientPlugin extends Plugin {
 				error,
 			);
 		}
+		this.acpConnections.closeAll();
 		// Brief delay so Windows can finish releasing file handles before
 		// npm starts replacing files.
 		await new Promise((resolve) => setTimeout(resolve, 750));
@@ -435,6 +540,49 @@ export default class AgentClientPlugin extends Plugin {
 		}
 	}
 
+	/**
+	 * Open chat view and start a new chat with a profile
+	 */
+	private async openChatWithProfile(profile: AgentProfile): Promise<void> {
+		if (this.settings.activeAgentId !== profile.agentId) {
+			await this.settingsStore.updateSettings({
+				activeAgentId: profile.agentId,
+			});
+		}
+
+		await this.activateView();
+
+		this.app.workspace.trigger(
+			"obsidianaitools:new-chat-requested" as "quit",
+			profile.agentId,
+			profile.id,
+		);
+	}
+
+	/**
+	 * Register a command for each profile. Called again when profiles are
+	 * edited: re-adding a command ID renames it, and commands of deleted
+	 * profiles hide themselves from the palette.
+	 */
+	registerProfileCommands(): void {
+		for (const { id, name } of this.settings.profiles) {
+			this.addCommand({
+				id: `open-chat-with-profile-${id}`,
+				name: `New chat with profile ${name}`,
+				checkCallback: (checking) => {
+					const current = this.settings.profiles.find(
+						(profile) => profile.id === id,
+					);
+					if (!current) return false;
+					if (!checking) {
+						void this.openChatWithProfile(current);
+					}
+					return true;
+				},
+			});
+		}
+	}
+
 	private registerPermissionCommands(): void {
 		this.addCommand({
 			id: "approve-active-permission",
@@ -476,8 +624,13 @@ export default class AgentClientPlugin extends Plugin {
 		});
 	}
 
-	async loadSettings() {
-		const rawSettings = ((await this.loadData()) ?? {}) as Record<
+	/**
+	 * Load and validate settings.
+	 *
+	 * @param data - Raw settings to use instead of data.json (import)
+	 */
+	async loadSettings(data?: unknown) {
+		const rawSettings = (data ?? (await this.loadData()) ?? {}) as Record<
 			string,
 			unknown
 		>;
@@ -554,6 +707,10 @@ export default class AgentClientPlugin extends Plugin {
 				),
 				args: resolvedClaudeArgs.length > 0 ? resolvedClaudeArgs : [],
 				env: resolvedClaudeEnv.length > 0 ? resolvedClaudeEnv : [],
+				envFile:
+					typeof claudeFromRaw.envFile === "string"
+						? claudeFromRaw.envFile.trim()
+						: "",
 			},
 			codex: {
 				id: DEFAULT_SETTINGS.codex.id,
@@ -569,6 +726,10 @@ export default class AgentClientPlugin extends Plugin {
 						: DEFAULT_SETTINGS.codex.command,
 				args: resolvedCodexArgs.length > 0 ? resolvedCodexArgs : [],
 				env: resolvedCodexEnv.length > 0 ? resolvedCodexEnv : [],
+				envFile:
+					typeof codexFromRaw.envFile === "string"
+						? codexFromRaw.envFile.trim()
+						: "",
 			},
 			gemini: {
 				id: DEFAULT_SETTINGS.gemini.id,
@@ -590,17 +751,119 @@ export default class AgentClientPlugin extends Plugin {
 						? resolvedGeminiArgs
 						: DEFAULT_SETTINGS.gemini.args,
 				env: resolvedGeminiEnv.length > 0 ? resolvedGeminiEnv : [],
+				envFile:
+					typeof geminiFromRaw.envFile === "string"
+						? geminiFromRaw.envFile.trim()
+						: "",
 			},
 			customAgents: customAgents,
+			mcpServers: Array.isArray(rawSettings.mcpServers)
+				? rawSettings.mcpServers
+						.filter(
+							(server: unknown): server is Record<string, unknown> =>
+								typeof server === "object" && server !== null,
+						)
+						.map((server) => normalizeMcpServer(server))
+				: DEFAULT_SETTINGS.mcpServers,
+			vaultMcpServer: (() => {
+				const rawVaultMcp = rawSettings.vaultMcpServer as
+					| Record<string, unknown>
+					| null
+					| undefined;
+				if (rawVaultMcp && typeof rawVaultMcp === "object") {
+					return {
+						enabled:
+							typeof rawVaultMcp.enabled === "boolean"
+								? rawVaultMcp.enabled
+								: DEFAULT_SETTINGS.vaultMcpServer.enabled,
+						allowWrites:
+							typeof rawVaultMcp.allowWrites === "boolean"
+								? rawVaultMcp.allowWrites
+								: DEFAULT_SETTINGS.vaultMcpServer.allowWrites,
+					};
+				}
+				return { ...DEFAULT_SETTINGS.vaultMcpServer };
+			})(),
+			relatedNotes: (() => {
+				const rawRelated = rawSettings.relatedNotes as
+					| Record<string, unknown>
+					| null
+					| undefined;
+				if (rawRelated && typeof rawRelated === "object") {
+					return {
+						enabled:
+							typeof rawRelated.enabled === "boolean"
+								? rawRelated.enabled
+								: DEFAULT_SETTINGS.relatedNotes.enabled,
+						suggestionCount:
+							typeof rawRelated.suggestionCount === "number" &&
+							rawRelated.suggestionCount >= 1
+								? Math.floor(rawRelated.suggestionCount)
+								: DEFAULT_SETTINGS.relatedNotes.suggestionCount,
+						autoAttachCount:
+							typeof rawRelated.autoAttachCount === "number" &&
+							rawRelated.autoAttachCount >= 0
+								? Math.floor(rawRelated.autoAttachCount)
+								: DEFAULT_SETTINGS.relatedNotes.autoAttachCount,
+					};
+				}
+				return { ...DEFAULT_SETTINGS.relatedNotes };
+			})(),
 			activeAgentId,
-			autoAllowPermissions:
-				typeof rawSettings.autoAllowPermissions === "boolean"
-					? rawSettings.autoAllowPermissions
-					: DEFAULT_SETTINGS.autoAllowPermissions,
+			profiles: Array.isArray(rawSettings.profiles)
+				? rawSettings.profiles
+						.filter(
+							(
+								profile: unknown,
+							): profile is Record<string, unknown> =>
+								typeof profile === "object" && profile !== null,
+						)
+						.map((profile) =>
+							normalizeAgentProfile(profile, activeAgentId),
+						)
+						.map((profile) =>
+							availableAgentIds.includes(profile.agentId)
+								? profile
+								: { ...profile, agentId: activeAgentId },
+						)
+				: DEFAULT_SETTINGS.profiles,
+			rememberModelAndMode:
+				typeof rawSettings.rememberModelAndMode === "boolean"
+					? rawSettings.rememberModelAndMode
+					: DEFAULT_SETTINGS.rememberModelAndMode,
+			sessionDefaults: normalizeSessionDefaults(
+				rawSettings.sessionDefaults,
+			),
+			permissionRules: Array.isArray(rawSettings.permissionRules)
+				? rawSettings.permissionRules
+						.filter(
+							(rule: unknown): rule is Record<string, unknown> =>
+								typeof rule === "object" && rule !== null,
+						)
+						.map((rule) => normalizePermissionRule(rule))
+				: rawSettings.autoAllowPermissions === true
+					? // Migrate the old global auto-allow switch
+						[normalizePermissionRule({ action: "allow" })]
+					: DEFAULT_SETTINGS.permissionRules,
+			permissionGrants: Array.isArray(rawSettings.permissionGrants)
+				? rawSettings.permissionGrants
+						.filter(
+							(grant: unknown): grant is Record<string, unknown> =>
+								typeof grant === "object" && grant !== null,
+						)
+						.map((grant) => normalizePermissionGrant(grant))
+						.filter(
+							(grant): grant is PermissionGrant => grant !== null,
+						)
+				: DEFAULT_SETTINGS.permissionGrants,
 			autoMentionActiveNote:
 				typeof rawSettings.autoMentionActiveNote === "boolean"
 					? rawSettings.autoMentionActiveNote
 					: DEFAULT_SETTINGS.autoMentionActiveNote,
+			autoRestartAgent:
+				typeof rawSettings.autoRestartAgent === "boolean"
+					? rawSettings.autoRestartAgent
+					: DEFAULT_SETTINGS.autoRestartAgent,
 			debugMode:
 				typeof rawSettings.debugMode === "boolean"
 					? rawSettings.debugMode
@@ -655,6 +918,11 @@ export default class AgentClientPlugin extends Plugin {
 								? rawExport.imageCustomFolder
 								: DEFAULT_SETTINGS.exportSettings
 										.imageCustomFolder,
+						includeToolDetails:
+							typeof rawExport.includeToolDetails === "boolean"
+								? rawExport.includeToolDetails
+								: DEFAULT_SETTINGS.exportSettings
+										.includeToolDetails,
 					};
 				}
 				return DEFAULT_SETTINGS.exportSettings;
@@ -722,6 +990,20 @@ export default class AgentClientPlugin extends Plugin {
 								? rawDisplay.maxSelectionLength
 								: DEFAULT_SETTINGS.displaySettings
 										.maxSelectionLength,
+						mentionLinkThreshold:
+							typeof rawDisplay.mentionLinkThreshold ===
+								"number" && rawDisplay.mentionLinkThreshold >= 0
+								? rawDisplay.mentionLinkThreshold
+								: DEFAULT_SETTINGS.displaySettings
+										.mentionLinkThreshold,
+						mentionTruncation:
+							rawDisplay.mentionTruncation === "head" ||
+							rawDisplay.mentionTruncation === "outline" ||
+							rawDisplay.mentionTruncation === "relevant" ||
+							rawDisplay.mentionTruncation === "head-tail"
+								? rawDisplay.mentionTruncation
+								: DEFAULT_SETTINGS.displaySettings
+										.mentionTruncation,
 					};
 				}
 				return DEFAULT_SETTINGS.displaySettings;
@@ -762,6 +1044,9 @@ export default class AgentClientPlugin extends Plugin {
 				typeof rawSettings.model === "string"
 					? rawSettings.model
 					: DEFAULT_SETTINGS.model,
+			agentCredentials: normalizeAgentCredentials(
+				rawSettings.agentCredentials,
+			),
 		};
 
 		// Migrate: update displayName from "Claude Code" to "Claude Agent" (package rename)
@@ -776,6 +1061,132 @@ export default class AgentClientPlugin extends Plugin {
 		await this.saveData(this.settings);
 	}
 
+	/**
+	 * Put a credential in secret storage and return the reference to keep
+	 * in settings. Empty values and references are returned unchanged, as
+	 * is everything while the storage is locked.
+	 *
+	 * @param name - Secret name, e.g. "api-key"
+	 * @param value - Credential as entered
+	 */
+	async storeSecret(name: string, value: string): Promise<string> {
+		if (!isPlaintextSecret(value) || !this.secrets.isUnlocked()) {
+			return value;
+		}
+		await this.secrets.set(name, value);
+		return toSecretRef(name);
+	}
+
+	/**
+	 * Move every plaintext credential in settings to secret storage,
+	 * leaving references behind.
+	 *
+	 * @returns Number of credentials moved
+	 */
+	async moveSecretsToStorage(): Promise<number> {
+		if (!this.secrets.isUnlocked()) {
+			throw new Error("Secret storage is locked.");
+		}
+		const next = structuredClone(this.settings);
+		const taken = new Set(this.secrets.list());
+		let moved = 0;
+		for (const field of collectSecretFields(next)) {
+			if (!isPlaintextSecret(field.value)) continue;
+			// Reuse a secret holding the same value, otherwise pick a free name
+			let name = field.name;
+			for (let n = 2; taken.has(name); n++) {
+				if (this.secrets.get(name) === field.value) break;
+				name = `${field.name}-${n}`;
+			}
+			await this.secrets.set(name, field.value);
+			taken.add(name);
+			field.set(toSecretRef(name));
+			moved++;
+		}
+		if (moved > 0) {
+			await this.saveSettingsAndNotify(next);
+		}
+		return moved;
+	}
+
+	/**
+	 * Settings as JSON for sharing or backup. Plaintext credentials are
+	 * blanked (references are kept) and saved sessions are left out.
+	 * Values that could still hold a credential under another name are
+	 * listed, and left out as well on request.
+	 *
+	 * @param leaveOutUnchecked - Also leave out the listed values
+	 * @returns The JSON, the labels of the blanked credentials and the
+	 *   labels of the values to check (see collectUncheckedValues)
+	 */
+	exportSettings(leaveOutUnchecked = false): {
+		json: string;
+		omitted: string[];
+		unchecked: string[];
+	} {
+		const copy = structuredClone(this.settings);
+		const omitted: string[] = [];
+		for (const field of collectSecretFields(copy)) {
+			if (isPlaintextSecret(field.value)) {
+				field.set("");
+				omitted.push(field.label);
+			}
+		}
+		const unchecked = collectUncheckedValues(copy);
+		if (leaveOutUnchecked) {
+			for (const field of unchecked) {
+				field.set("");
+			}
+		}
+		const shared: Partial<AgentClientPluginSettings> = copy;
+		delete shared.savedSessions;
+		return {
+			json: JSON.stringify(shared, null, 2),
+			omitted,
+			unchecked: unchecked.map((field) => field.label),
+		};
+	}
+
+	/**
+	 * Replace settings with exported JSON. Saved sessions and onboarding
+	 * state are kept; plaintext credentials in the JSON go to secret
+	 * storage when it is unlocked.
+	 *
+	 * @returns Names of referenced secrets missing on this device
+	 */
+	async importSettings(json: string): Promise<string[]> {
+		let raw: unknown;
+		try {
+			raw = JSON.parse(json);
+		} catch {
+			throw new Error("Not valid settings JSON.");
+		}
+		if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+			throw new Error("Not valid settings JSON.");
+		}
+		const previous = this.settings;
+		await this.loadSettings({
+			...raw,
+			savedSessions: previous.savedSessions,
+			hasCompletedOnboarding: previous.hasCompletedOnboarding,
+			lastSeenPluginVersion: previous.lastSeenPluginVersion,
+		});
+		await this.saveSettingsAndNotify({ ...this.settings });
+		if (this.secrets.isUnlocked()) {
+			await this.moveSecretsToStorage();
+		}
+		return this.getMissingSecrets();
+	}
+
+	/**
+	 * Secrets referenced in settings that can't be read on this device.
+	 */
+	getMissingSecrets(): string[] {
+		return getReferencedSecrets(this.settings).filter(
+			(name) => this.secrets.get(name) === null,
+		);
+	}
+
 	/**
 	 * If the plugin version changed since the last load, show a one-time
 	 * notice and record the new version.
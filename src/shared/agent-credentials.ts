@@ -0,0 +1,173 @@
+import type { AgentClientPluginSettings } from "../plugin";
+import type { AgentCredentials } from "../domain/models/agent-config";
+import { findSecretRefs, resolveSecretRefs } from "./secret-refs";
+import { mapToApiUrl } from "./url-mapper";
+
+/**
+ * Per-agent API credentials. Pure — no Obsidian dependencies.
+ *
+ * Each agent receives an API key, base URL and model through environment
+ * variables. Values left empty in the agent's credentials inherit the
+ * global API configuration; variable names left empty use the agent's
+ * standard names (built-in agents only — custom agents receive nothing
+ * until a name is set). Nothing is passed while the agent has no API key,
+ * so agents signed in on their own keep working.
+ */
+
+export type CredentialField = "apiKey" | "baseUrl" | "model";
+
+/** A credential as the agent receives it */
+export interface ResolvedCredential {
+	field: CredentialField;
+	envName: string;
+	value: string;
+	/** Whether the value comes from the global API configuration */
+	inherited: boolean;
+}
+
+export const EMPTY_AGENT_CREDENTIALS: AgentCredentials = {
+	apiKey: "",
+	baseUrl: "",
+	model: "",
+	apiKeyEnv: "",
+	baseUrlEnv: "",
+	modelEnv: "",
+};
+
+const CREDENTIAL_FIELDS: CredentialField[] = ["apiKey", "baseUrl", "model"];
+
+const FIELD_LABELS: Record<CredentialField, string> = {
+	apiKey: "API key",
+	baseUrl: "base URL",
+	model: "model",
+};
+
+/**
+ * Standard variable names of an agent ("" = not passed unless named).
+ */
+export function getDefaultCredentialEnvNames(
+	settings: AgentClientPluginSettings,
+	agentId: string,
+): Record<CredentialField, string> {
+	if (agentId === settings.claude.id) {
+		// Claude takes the key as a bearer token; the model isn't passed
+		return {
+			apiKey: "ANTHROPIC_AUTH_TOKEN",
+			baseUrl: "ANTHROPIC_BASE_URL",
+			model: "",
+		};
+	}
+	if (agentId === settings.gemini.id) {
+		return {
+			apiKey: "GEMINI_API_KEY",
+			baseUrl: "GOOGLE_GEMINI_BASE_URL",
+			model: "GEMINI_MODEL",
+		};
+	}
+	if (agentId === settings.codex.id) {
+		return {
+			apiKey: "OPENAI_API_KEY",
+			baseUrl: "OPENAI_BASE_URL",
+			model: "OPENAI_MODEL",
+		};
+	}
+	return { apiKey: "", baseUrl: "", model: "" };
+}
+
+/**
+ * Credentials an agent receives, in field order. Empty when the agent
+ * has no API key.
+ */
+export function resolveAgentCredentials(
+	settings: AgentClientPluginSettings,
+	agentId: string,
+): ResolvedCredential[] {
+	const own = settings.agentCredentials[agentId] ?? EMPTY_AGENT_CREDENTIALS;
+	const defaults = getDefaultCredentialEnvNames(settings, agentId);
+	const global: Record<CredentialField, string> = {
+		apiKey: settings.apiKey,
+		baseUrl: settings.baseUrl,
+		model: settings.model,
+	};
+	const envNames: Record<CredentialField, string> = {
+		apiKey: own.apiKeyEnv || defaults.apiKey,
+		baseUrl: own.baseUrlEnv || defaults.baseUrl,
+		model: own.modelEnv || defaults.model,
+	};
+
+	if (!(own.apiKey || global.apiKey) || !envNames.apiKey) {
+		return [];
+	}
+
+	const resolved: ResolvedCredential[] = [];
+	for (const field of CREDENTIAL_FIELDS) {
+		const value = own[field] || global[field];
+		if (value && envNames[field]) {
+			resolved.push({
+				field,
+				envName: envNames[field],
+				// Map display URLs (obsidianaitools.com) to the actual API URL
+				value: field === "baseUrl" ? mapToApiUrl(value) : value,
+				inherited: !own[field],
+			});
+		}
+	}
+	return resolved;
+}
+
+/**
+ * Environment variables carrying an agent's credentials, with secret
+ * references resolved. Throws if a referenced secret isn't available.
+ */
+export function getCredentialEnv(
+	settings: AgentClientPluginSettings,
+	agentId: string,
+	getSecret: (name: string) => string | null,
+): Record<string, string> {
+	const env: Record<string, string> = {};
+	for (const credential of resolveAgentCredentials(settings, agentId)) {
+		env[credential.envName] = resolveSecretRefs(
+			credential.value,
+			getSecret,
+		);
+	}
+	return env;
+}
+
+/**
+ * Show only the end of a secret, e.g. "••••f3a9".
+ */
+export function maskSecret(value: string): string {
+	return value.length > 8 ? `••••${value.slice(-4)}` : "••••";
+}
+
+/**
+ * One-line summary of what an agent receives, for settings and
+ * onboarding, e.g. "Receives the global API key (••••f3a9) as
+ * GEMINI_API_KEY, ...".
+ */
+export function describeAgentCredentials(
+	settings: AgentClientPluginSettings,
+	agentId: string,
+): string {
+	const resolved = resolveAgentCredentials(settings, agentId);
+	if (resolved.length === 0) {
+		const own =
+			settings.agentCredentials[agentId] ?? EMPTY_AGENT_CREDENTIALS;
+		const envName =
+			own.apiKeyEnv ||
+			getDefaultCredentialEnvNames(settings, agentId).apiKey;
+		return envName
+			? "Receives no API key: neither this agent nor the global configuration has one."
+			: "Receives no API key: set a variable name for it.";
+	}
+	const parts = resolved.map(({ field, envName, value, inherited }) => {
+		// Secret references are safe to show; plain keys are masked
+		const shown =
+			field === "apiKey" && findSecretRefs(value).length === 0
+				? maskSecret(value)
+				: value;
+		return `the ${inherited ? "global" : "agent's"} ${FIELD_LABELS[field]} (${shown}) as ${envName}`;
+	});
+	return `Receives ${parts.join(", ")}.`;
+}
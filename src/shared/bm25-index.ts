@@ -0,0 +1,186 @@
+/**
+ * In-memory BM25 full-text index. Pure — no Obsidian dependencies; the
+ * related-notes index feeds it vault contents.
+ *
+ * Documents are keyed by id (a vault path) and can be replaced or removed
+ * one at a time, so the index stays current without rebuilding.
+ */
+
+/** A search hit */
+export interface Bm25Match {
+	id: string;
+	score: number;
+}
+
+/** Term frequency saturation */
+const K1 = 1.2;
+
+/** Document length normalisation */
+const B = 0.75;
+
+/** Words too common to be worth indexing */
+const STOP_WORDS = new Set([
+	"a",
+	"an",
+	"and",
+	"are",
+	"as",
+	"at",
+	"be",
+	"but",
+	"by",
+	"can",
+	"do",
+	"for",
+	"from",
+	"has",
+	"have",
+	"how",
+	"i",
+	"if",
+	"in",
+	"into",
+	"is",
+	"it",
+	"its",
+	"me",
+	"my",
+	"no",
+	"not",
+	"of",
+	"on",
+	"or",
+	"so",
+	"that",
+	"the",
+	"their",
+	"then",
+	"there",
+	"this",
+	"to",
+	"was",
+	"we",
+	"what",
+	"when",
+	"where",
+	"which",
+	"who",
+	"why",
+	"will",
+	"with",
+	"you",
+	"your",
+]);
+
+/**
+ * Split text into lowercase index terms (letters and digits in any
+ * script), dropping one-character words and stop words.
+ */
+export function tokenize(text: string): string[] {
+	const words: string[] = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+	return words.filter((word) => word.length > 1 && !STOP_WORDS.has(word));
+}
+
+export class Bm25Index {
+	/** term → (document id → term frequency) */
+	private postings = new Map<string, Map<string, number>>();
+	/** document id → (term → term frequency) and length in terms */
+	private docs = new Map<
+		string,
+		{ length: number; terms: Map<string, number> }
+	>();
+	private totalLength = 0;
+
+	/** Number of indexed documents */
+	get size(): number {
+		return this.docs.size;
+	}
+
+	/**
+	 * Add a document, replacing any previous version with the same id.
+	 */
+	set(id: string, text: string): void {
+		this.remove(id);
+		const tokens = tokenize(text);
+		const terms = new Map<string, number>();
+		for (const token of tokens) {
+			terms.set(token, (terms.get(token) ?? 0) + 1);
+		}
+		for (const [term, frequency] of terms) {
+			let posting = this.postings.get(term);
+			if (!posting) {
+				posting = new Map();
+				this.postings.set(term, posting);
+			}
+			posting.set(id, frequency);
+		}
+		this.docs.set(id, { length: tokens.length, terms });
+		this.totalLength += tokens.length;
+	}
+
+	remove(id: string): void {
+		const doc = this.docs.get(id);
+		if (!doc) return;
+		for (const term of doc.terms.keys()) {
+			const posting = this.postings.get(term);
+			posting?.delete(id);
+			if (posting?.size === 0) {
+				this.postings.delete(term);
+			}
+		}
+		this.docs.delete(id);
+		this.totalLength -= doc.length;
+	}
+
+	clear(): void {
+		this.postings.clear();
+		this.docs.clear();
+		this.totalLength = 0;
+	}
+
+	/**
+	 * Rank documents against a query. With several query terms, a document
+	 * must match at least two of them, which keeps one common word from
+	 * pulling in unrelated notes.
+	 *
+	 * @param query - Free text
+	 * @param limit - Maximum number of hits
+	 * @param exclude - Document ids to leave out
+	 * @returns Hits, best first
+	 */
+	search(query: string, limit: number, exclude?: Set<string>): Bm25Match[] {
+		const terms = Array.from(new Set(tokenize(query)));
+		if (terms.length === 0 || this.docs.size === 0) return [];
+
+		const averageLength = this.totalLength / this.docs.size || 1;
+		const scores = new Map<string, { score: number; matched: number }>();
+		for (const term of terms) {
+			const posting = this.postings.get(term);
+			if (!posting) continue;
+			const documentFrequency = posting.size;
+			const idf = Math.log(
+				1 +
+					(this.docs.size - documentFrequency + 0.5) /
+						(documentFrequency + 0.5),
+			);
+			for (const [id, frequency] of posting) {
+				if (exclude?.has(id)) continue;
+				const length = this.docs.get(id)?.length ?? 0;
+				const weight =
+					(idf * frequency * (K1 + 1)) /
+					(frequency + K1 * (1 - B + (B * length) / averageLength));
+				const entry = scores.get(id) ?? { score: 0, matched: 0 };
+				entry.score += weight;
+				entry.matched++;
+				scores.set(id, entry);
+			}
+		}
+
+		const minMatched = Math.min(2, terms.length);
+		return Array.from(scores)
+			.filter(([, entry]) => entry.matched >= minMatched)
+			.map(([id, entry]) => ({ id, score: entry.score }))
+			.sort((a, b) => b.score - a.score)
+			.slice(0, limit);
+	}
+}
@@ -1,6 +1,7 @@
 import type AgentClientPlugin from "../plugin";
 import type {
 	ChatMessage,
+	ContentBlock,
 	MessageContent,
 } from "../domain/models/chat-message";
 import { Logger } from "./logger";
@@ -20,6 +21,8 @@ interface ConvertContext {
 	imageLocation: "obsidian" | "custom" | "base64";
 	/** Custom folder for images */
 	imageCustomFolder: string;
+	/** Whether to include raw tool input/output */
+	includeToolDetails: boolean;
 }
 
 export class ChatExporter {
@@ -159,6 +162,7 @@ tags: [obsidianaitools]
 			includeImages: settings.includeImages,
 			imageLocation: settings.imageLocation,
 			imageCustomFolder: settings.imageCustomFolder,
+			includeToolDetails: settings.includeToolDetails,
 		};
 
 		let markdown = `# ${agentLabel}\n\n`;
@@ -211,7 +215,7 @@ tags: [obsidianaitools]
 				return `> [!info]- Thinking\n> ${content.text.split("\n").join("\n> ")}\n\n`;
 
 			case "tool_call":
-				return this.convertToolCallToMarkdown(content);
+				return this.convertToolCallToMarkdown(content, context);
 
 			case "terminal":
 				return `### 🖥️ Terminal: ${content.terminalId.slice(0, 8)}\n\n`;
@@ -260,6 +264,10 @@ tags: [obsidianaitools]
 					return `![Image](data:${content.mimeType};base64,${content.data})\n\n`;
 				}
 
+			case "resource_link":
+			case "resource":
+				return this.convertResourceToMarkdown(content);
+
 			default:
 				return "";
 		}
@@ -267,6 +275,7 @@ tags: [obsidianaitools]
 
 	private convertToolCallToMarkdown(
 		content: Extract<MessageContent, { type: "tool_call" }>,
+		context: ConvertContext,
 	): string {
 		let md = `### 🔧 ${content.title || "Tool"}\n\n`;
 
@@ -282,18 +291,64 @@ tags: [obsidianaitools]
 
 		md += `**Status**: ${content.status}\n\n`;
 
-		// Only export diffs
+		// Export diffs and tool output (terminals are live-only)
 		if (content.content && content.content.length > 0) {
 			for (const item of content.content) {
 				if (item.type === "diff") {
 					md += this.convertDiffToMarkdown(item);
+				} else if (item.type === "content") {
+					md += this.convertToolOutputToMarkdown(item.content);
 				}
 			}
 		}
 
+		if (context.includeToolDetails) {
+			if (content.rawInput) {
+				md += this.convertRawToolDataToMarkdown("Input", content.rawInput);
+			}
+			if (content.rawOutput) {
+				md += this.convertRawToolDataToMarkdown(
+					"Output",
+					content.rawOutput,
+				);
+			}
+		}
+
 		return md;
 	}
 
+	private convertToolOutputToMarkdown(block: ContentBlock): string {
+		switch (block.type) {
+			case "text":
+				return `> [!example]- Output\n> ${block.text.split("\n").join("\n> ")}\n\n`;
+			case "image":
+				return "> [!example]- Output\n> *(image)*\n\n";
+			case "resource_link":
+			case "resource":
+				return this.convertResourceToMarkdown(block);
+		}
+	}
+
+	private convertRawToolDataToMarkdown(
+		label: string,
+		data: { [k: string]: unknown },
+	): string {
+		const json = JSON.stringify(data, null, 2);
+		return `<details>\n<summary>${label}</summary>\n\n\`\`\`json\n${json}\n\`\`\`\n\n</details>\n\n`;
+	}
+
+	private convertResourceToMarkdown(
+		block: Extract<ContentBlock, { type: "resource_link" | "resource" }>,
+	): string {
+		if (block.type === "resource_link") {
+			return `🔗 [${block.title || block.name}](<${block.uri}>)\n\n`;
+		}
+		if (block.text === undefined) {
+			return `📎 \`${block.uri}\` (binary)\n\n`;
+		}
+		return `> [!note]- ${block.uri}\n> ${block.text.split("\n").join("\n> ")}\n\n`;
+	}
+
 	private convertDiffToMarkdown(diff: {
 		type: "diff";
 		path: string;
@@ -0,0 +1,170 @@
+import * as Diff from "diff";
+
+/**
+ * Per-hunk review of agent diffs (DiffContent).
+ *
+ * A diff is split into unified-diff hunks. The user accepts or rejects each
+ * one; the reviewed content is the original text with only the accepted
+ * hunks applied. Agents may send the whole file or just the edited snippet
+ * (old_string/new_string), so the diff is first located in the file and
+ * the reviewed text replaces only that span. Pure functions — no Obsidian
+ * or React dependencies.
+ */
+
+/** Context lines around each hunk (matches the diff view) */
+export const DIFF_CONTEXT_LINES = 3;
+
+export type HunkDecision = "pending" | "accepted" | "rejected";
+
+/**
+ * Relationship between the file on disk and the diff being reviewed.
+ * - original: file still holds oldText (agent has not written it)
+ * - applied: file already holds newText (agent wrote the change)
+ * - conflict: neither side is found exactly once; the hunks can't be
+ *   placed, so they are not applied
+ */
+export type DiffFileState = "original" | "applied" | "conflict";
+
+/**
+ * Where the diff sits in the current file.
+ */
+export interface DiffLocation {
+	state: DiffFileState;
+	/** Offset of the diff's text in the file (0 for the whole file) */
+	start: number;
+	/** Length of the file text the diff covers */
+	length: number;
+}
+
+/**
+ * Split a diff into unified-diff hunks.
+ *
+ * @param oldText - Original content (empty/null for a new file)
+ * @param newText - Proposed content
+ * @returns Hunks in file order
+ */
+export function computeDiffHunks(
+	oldText: string | null | undefined,
+	newText: string,
+): Diff.StructuredPatchHunk[] {
+	return Diff.structuredPatch("old", "new", oldText ?? "", newText, "", "", {
+		context: DIFF_CONTEXT_LINES,
+	}).hunks;
+}
+
+/**
+ * Build the reviewed file content: oldText plus accepted hunks only.
+ *
+ * @returns Reviewed content, or null if the hunks could not be applied
+ */
+export function applyAcceptedHunks(
+	oldText: string | null | undefined,
+	hunks: Diff.StructuredPatchHunk[],
+	decisions: HunkDecision[],
+): string | null {
+	const accepted = hunks.filter((_, i) => decisions[i] === "accepted");
+	const result = Diff.applyPatch(oldText ?? "", {
+		oldFileName: "old",
+		newFileName: "new",
+		oldHeader: "",
+		newHeader: "",
+		hunks: accepted,
+	});
+	return result === false ? null : result;
+}
+
+/**
+ * Find the diff in the current file: the whole file matching one side,
+ * or else one side found exactly once as a snippet.
+ *
+ * @param current - Current file content, or null if the file is missing
+ */
+export function locateDiff(
+	current: string | null,
+	oldText: string | null | undefined,
+	newText: string,
+): DiffLocation {
+	const content = current ?? "";
+	if (current === newText) {
+		return { state: "applied", start: 0, length: content.length };
+	}
+	if (content === (oldText ?? "")) {
+		return { state: "original", start: 0, length: content.length };
+	}
+	const applied = findOnce(content, newText);
+	if (applied !== null) {
+		return { state: "applied", start: applied, length: newText.length };
+	}
+	const original = oldText ? findOnce(content, oldText) : null;
+	if (oldText && original !== null) {
+		return { state: "original", start: original, length: oldText.length };
+	}
+	return { state: "conflict", start: 0, length: 0 };
+}
+
+/**
+ * Offset of the only occurrence of a non-empty snippet, or null if it
+ * is missing or appears more than once.
+ */
+function findOnce(content: string, snippet: string): number | null {
+	if (!snippet) return null;
+	const index = content.indexOf(snippet);
+	if (index < 0 || content.indexOf(snippet, index + 1) >= 0) return null;
+	return index;
+}
+
+/**
+ * Build the reviewed file content: the located span replaced by oldText
+ * plus accepted hunks, the rest of the file unchanged.
+ *
+ * @returns Reviewed content, or null if the diff could not be located or
+ *   the hunks could not be applied
+ */
+export function applyReviewedDiff(
+	current: string | null,
+	location: DiffLocation,
+	oldText: string | null | undefined,
+	hunks: Diff.StructuredPatchHunk[],
+	decisions: HunkDecision[],
+): string | null {
+	if (location.state === "conflict") return null;
+	const reviewed = applyAcceptedHunks(oldText, hunks, decisions);
+	if (reviewed === null) return null;
+	const content = current ?? "";
+	return (
+		content.slice(0, location.start) +
+		reviewed +
+		content.slice(location.start + location.length)
+	);
+}
+
+/**
+ * Format rejected hunks as a follow-up message for the agent.
+ *
+ * @param displayPath - Path shown to the agent (vault-relative if possible)
+ * @returns Message text, or null if nothing was rejected
+ */
+export function formatRejectionMessage(
+	displayPath: string,
+	hunks: Diff.StructuredPatchHunk[],
+	decisions: HunkDecision[],
+): string | null {
+	const rejected = hunks.filter((_, i) => decisions[i] === "rejected");
+	if (rejected.length === 0) return null;
+
+	const body = rejected
+		.map((hunk) =>
+			[
+				`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`,
+				...hunk.lines,
+			].join("\n"),
+		)
+		.join("\n");
+
+	const summary =
+		rejected.length === hunks.length
+			? `I rejected your changes to \`${displayPath}\`.`
+			: `I rejected ${rejected.length} of ${hunks.length} changes to \`${displayPath}\`; the rest were kept.`;
+
+	return `${summary} The file does not contain these edits:\n\n\`\`\`diff\n${body}\n\`\`\`\n\nPlease take this into account and don't reapply them unless I ask.`;
+}
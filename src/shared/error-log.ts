@@ -7,8 +7,9 @@
  * debug mode is enabled.
  *
  * Files live under `<vault>/<configDir>/plugins/obsidianaitools/`:
- *   - error.log      Always-on error sink (categorized failures)
- *   - acp-wire.log   Per-frame ACP traffic, only written when debugMode=true
+ *   - error.log             Always-on error sink (categorized failures)
+ *   - acp-wire.log          Per-frame ACP traffic, only written when debugMode=true
+ *   - permission-audit.log  Who decided each permission request (rule or user)
  *
  * Each file is size-capped and rotated in place: when the cap is exceeded,
  * the oldest ~50% of lines is dropped so writes stay bounded without us
@@ -16,13 +17,16 @@
  */
 
 import type AgentClientPlugin from "../plugin";
+import type { PermissionAuditEntry } from "../domain/models/permission-rule";
 
 const ERROR_LOG_FILENAME = "error.log";
 const WIRE_LOG_FILENAME = "acp-wire.log";
+const PERMISSION_AUDIT_FILENAME = "permission-audit.log";
 
 /** Hard cap before rotation kicks in. */
 const MAX_ERROR_LOG_BYTES = 512 * 1024; // 512 KB
 const MAX_WIRE_LOG_BYTES = 2 * 1024 * 1024; // 2 MB
+const MAX_PERMISSION_AUDIT_BYTES = 512 * 1024; // 512 KB
 
 /** Truncate user-supplied strings before persisting. */
 const MAX_FIELD_LENGTH = 4000;
@@ -33,6 +37,7 @@ export type ErrorLogSource =
 	| "send-error"
 	| "session-init"
 	| "auth"
+	| "agent-crash"
 	| "other";
 
 export interface ErrorLogEntry {
@@ -116,6 +121,10 @@ export class ErrorLog {
 		return `${this.getLogDir()}/${WIRE_LOG_FILENAME}`;
 	}
 
+	getPermissionAuditPath(): string {
+		return `${this.getLogDir()}/${PERMISSION_AUDIT_FILENAME}`;
+	}
+
 	/**
 	 * Append a single error entry. Never throws — logging must not break
 	 * the calling code path.
@@ -134,6 +143,25 @@ export class ErrorLog {
 		);
 	}
 
+	/**
+	 * Record how a permission request was decided. Always on — the audit
+	 * trail is how users check what their permission rules actually did.
+	 */
+	async logPermissionDecision(
+		entry: Omit<PermissionAuditEntry, "timestamp">,
+	): Promise<void> {
+		const record: PermissionAuditEntry = {
+			timestamp: new Date().toISOString(),
+			...entry,
+			title: truncate(entry.title),
+		};
+		await this.appendLine(
+			this.getPermissionAuditPath(),
+			JSON.stringify(record),
+			MAX_PERMISSION_AUDIT_BYTES,
+		);
+	}
+
 	/**
 	 * Append an ACP wire frame. No-op unless debug mode is enabled — frame
 	 * volume is high and most users don't want it.
@@ -265,6 +293,11 @@ export class ErrorLog {
 		return this.readFile(this.getWireLogPath());
 	}
 
+	/** Read the permission audit log as text. Empty string if missing. */
+	async readPermissionAudit(): Promise<string> {
+		return this.readFile(this.getPermissionAuditPath());
+	}
+
 	/** Parse the error log into entries (newest last). Malformed lines skipped. */
 	async readErrorEntries(): Promise<ErrorLogEntry[]> {
 		const raw = await this.readErrorLog();
@@ -292,6 +325,11 @@ export class ErrorLog {
 		await this.removeFile(this.getWireLogPath());
 	}
 
+	/** Delete the permission audit log file. */
+	async clearPermissionAudit(): Promise<void> {
+		await this.removeFile(this.getPermissionAuditPath());
+	}
+
 	// ────────────────────────────────────────────────────────────────────
 	// Internals
 	// ────────────────────────────────────────────────────────────────────
@@ -0,0 +1,314 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import type { AddressInfo } from "net";
+
+/**
+ * Minimal MCP (Model Context Protocol) server over Streamable HTTP.
+ *
+ * Implements just enough of the protocol for agents to discover and call
+ * tools: initialize, ping, tools/list and tools/call. Every POST gets a
+ * single JSON response (no SSE streaming, no server-initiated requests).
+ *
+ * The server binds to 127.0.0.1 on a random port and requires a bearer
+ * token, so only agents we hand a token to can reach it. Each client
+ * (a chat tab) gets its own token, and tool handlers are told which
+ * client is calling.
+ */
+
+/** Latest MCP protocol revision we speak; older client revisions are echoed back. */
+const MCP_PROTOCOL_VERSION = "2025-06-18";
+
+/** Reject request bodies larger than this. */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Tool exposed by the server.
+ */
+export interface McpTool<TClient> {
+	/** Tool name (unique within the server) */
+	name: string;
+	/** Description shown to the model */
+	description: string;
+	/** JSON Schema for the tool arguments */
+	inputSchema: Record<string, unknown>;
+	/** Run the tool; the returned string becomes the text result */
+	handler: (
+		args: Record<string, unknown>,
+		client: TClient,
+	) => Promise<string>;
+}
+
+/**
+ * Error thrown by tool handlers for expected failures (bad path, etc.).
+ * Reported to the model as an `isError` result rather than a protocol error.
+ */
+export class McpToolError extends Error {}
+
+interface JsonRpcRequest {
+	jsonrpc: "2.0";
+	id?: string | number | null;
+	method: string;
+	params?: Record<string, unknown>;
+}
+
+interface JsonRpcResponse {
+	jsonrpc: "2.0";
+	id: string | number | null;
+	result?: unknown;
+	error?: { code: number; message: string };
+}
+
+export class McpHttpServer<TClient> {
+	private server: Server | null = null;
+	private port: number | null = null;
+	/** Client for each issued token */
+	private clients = new Map<string, TClient>();
+
+	constructor(
+		private readonly info: { name: string; version: string },
+		private readonly getTools: (client: TClient) => McpTool<TClient>[],
+		private readonly onError?: (message: string, error: unknown) => void,
+	) {}
+
+	/**
+	 * Start listening (idempotent).
+	 *
+	 * @returns URL agents should connect to
+	 */
+	async start(): Promise<string> {
+		if (this.server && this.port !== null) {
+			return this.url;
+		}
+
+		const server = createServer((req, res) => {
+			void this.handleHttp(req, res);
+		});
+		await new Promise<void>((resolve, reject) => {
+			server.once("error", reject);
+			server.listen(0, "127.0.0.1", () => {
+				server.off("error", reject);
+				resolve();
+			});
+		});
+		this.server = server;
+		this.port = (server.address() as AddressInfo).port;
+		return this.url;
+	}
+
+	stop(): void {
+		this.server?.close();
+		this.server = null;
+		this.port = null;
+	}
+
+	get isRunning(): boolean {
+		return this.server !== null;
+	}
+
+	get url(): string {
+		return `http://127.0.0.1:${this.port ?? 0}/mcp`;
+	}
+
+	/**
+	 * Authorization header value a client's agent must send.
+	 * Issues a token on first use; later calls return the same one.
+	 */
+	authorizationHeaderFor(client: TClient): string {
+		for (const [token, existing] of this.clients) {
+			if (existing === client) return `Bearer ${token}`;
+		}
+		const token = crypto.randomUUID();
+		this.clients.set(token, client);
+		return `Bearer ${token}`;
+	}
+
+	/** Invalidate a client's token (the tab closed or switched agents) */
+	revoke(client: TClient): void {
+		for (const [token, existing] of this.clients) {
+			if (existing === client) this.clients.delete(token);
+		}
+	}
+
+	private async handleHttp(
+		req: IncomingMessage,
+		res: ServerResponse,
+	): Promise<void> {
+		const client = this.clients.get(
+			req.headers.authorization?.replace(/^Bearer /, "") ?? "",
+		);
+		if (client === undefined) {
+			res.writeHead(401).end();
+			return;
+		}
+		if (req.method !== "POST") {
+			// No server-initiated stream and no session teardown to do
+			res.writeHead(405, { Allow: "POST" }).end();
+			return;
+		}
+
+		let payload: unknown;
+		try {
+			payload = JSON.parse(await readBody(req));
+		} catch {
+			this.sendJson(res, {
+				jsonrpc: "2.0",
+				id: null,
+				error: { code: -32700, message: "Parse error" },
+			});
+			return;
+		}
+
+		const messages = Array.isArray(payload) ? payload : [payload];
+		const responses: JsonRpcResponse[] = [];
+		for (const message of messages) {
+			const response = await this.handleMessage(
+				message as JsonRpcRequest,
+				client,
+			);
+			if (response) {
+				responses.push(response);
+			}
+		}
+
+		if (responses.length === 0) {
+			// Notifications and responses only
+			res.writeHead(202).end();
+			return;
+		}
+		this.sendJson(res, Array.isArray(payload) ? responses : responses[0]);
+	}
+
+	private async handleMessage(
+		message: JsonRpcRequest,
+		client: TClient,
+	): Promise<JsonRpcResponse | null> {
+		if (!message || typeof message.method !== "string") {
+			return null;
+		}
+		const isNotification = message.id === undefined;
+		const id = message.id ?? null;
+
+		try {
+			const result = await this.dispatch(message, client);
+			return isNotification ? null : { jsonrpc: "2.0", id, result };
+		} catch (error) {
+			if (isNotification) return null;
+			const rpcError =
+				error instanceof JsonRpcError
+					? { code: error.code, message: error.message }
+					: { code: -32603, message: "Internal error" };
+			if (!(error instanceof JsonRpcError)) {
+				this.onError?.(`MCP ${message.method} failed`, error);
+			}
+			return { jsonrpc: "2.0", id, error: rpcError };
+		}
+	}
+
+	private async dispatch(
+		message: JsonRpcRequest,
+		client: TClient,
+	): Promise<unknown> {
+		const params = message.params ?? {};
+		switch (message.method) {
+			case "initialize":
+				return {
+					protocolVersion:
+						typeof params.protocolVersion === "string"
+							? params.protocolVersion
+							: MCP_PROTOCOL_VERSION,
+					capabilities: { tools: { listChanged: false } },
+					serverInfo: this.info,
+				};
+			case "ping":
+				return {};
+			case "tools/list":
+				return {
+					tools: this.getTools(client).map((tool) => ({
+						name: tool.name,
+						description: tool.description,
+						inputSchema: tool.inputSchema,
+					})),
+				};
+			case "tools/call":
+				return await this.callTool(params, client);
+			default:
+				if (message.method.startsWith("notifications/")) {
+					return {};
+				}
+				throw new JsonRpcError(
+					-32601,
+					`Method not found: ${message.method}`,
+				);
+		}
+	}
+
+	private async callTool(
+		params: Record<string, unknown>,
+		client: TClient,
+	): Promise<unknown> {
+		const tool = this.getTools(client).find((t) => t.name === params.name);
+		if (!tool) {
+			throw new JsonRpcError(
+				-32602,
+				`Unknown tool: ${String(params.name)}`,
+			);
+		}
+		const args =
+			typeof params.arguments === "object" && params.arguments !== null
+				? (params.arguments as Record<string, unknown>)
+				: {};
+
+		try {
+			const text = await tool.handler(args, client);
+			return { content: [{ type: "text", text }] };
+		} catch (error) {
+			if (!(error instanceof McpToolError)) {
+				this.onError?.(`MCP tool ${tool.name} failed`, error);
+			}
+			return {
+				content: [
+					{
+						type: "text",
+						text:
+							error instanceof Error
+								? error.message
+								: String(error),
+					},
+				],
+				isError: true,
+			};
+		}
+	}
+
+	private sendJson(res: ServerResponse, body: unknown): void {
+		res.writeHead(200, { "Content-Type": "application/json" }).end(
+			JSON.stringify(body),
+		);
+	}
+}
+
+class JsonRpcError extends Error {
+	constructor(
+		readonly code: number,
+		message: string,
+	) {
+		super(message);
+	}
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const chunks: Buffer[] = [];
+		let size = 0;
+		req.on("data", (chunk: Buffer) => {
+			size += chunk.length;
+			if (size > MAX_BODY_BYTES) {
+				reject(new Error("Request body too large"));
+				req.destroy();
+				return;
+			}
+			chunks.push(chunk);
+		});
+		req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+		req.on("error", reject);
+	});
+}
@@ -1,10 +1,93 @@
-import { TFile } from "obsidian";
 import { Logger } from "./logger";
 import type AgentClientPlugin from "../plugin";
+import type {
+	MentionKind,
+	NoteMetadata,
+	ResolvedMention,
+} from "../domain/ports/vault-access.port";
 
 // Interface for mention service to avoid circular dependency
 export interface IMentionService {
-	getAllFiles(): TFile[];
+	/** Resolve the text inside @[[...]], or null if nothing matches */
+	resolveMention(target: string): ResolvedMention | null;
+}
+
+// File types that can be mentioned, by lower-case extension
+const MENTIONABLE_FILE_TYPES: Record<
+	string,
+	{ kind: MentionKind; mimeType: string }
+> = {
+	md: { kind: "note", mimeType: "text/markdown" },
+	pdf: { kind: "pdf", mimeType: "application/pdf" },
+	csv: { kind: "csv", mimeType: "text/csv" },
+	canvas: { kind: "canvas", mimeType: "application/json" },
+	png: { kind: "image", mimeType: "image/png" },
+	jpg: { kind: "image", mimeType: "image/jpeg" },
+	jpeg: { kind: "image", mimeType: "image/jpeg" },
+	gif: { kind: "image", mimeType: "image/gif" },
+	webp: { kind: "image", mimeType: "image/webp" },
+	svg: { kind: "image", mimeType: "image/svg+xml" },
+	bmp: { kind: "image", mimeType: "image/bmp" },
+};
+
+// Mention kind and MIME type for a file extension, or null if not mentionable
+export function getMentionFileType(
+	extension: string,
+): { kind: MentionKind; mimeType: string } | null {
+	return MENTIONABLE_FILE_TYPES[extension.toLowerCase()] ?? null;
+}
+
+/**
+ * Split a mention target into the link path and the section it names.
+ *
+ * @example
+ * splitMentionTarget("note#Heading") // { linkpath: "note", heading: "Heading" }
+ * splitMentionTarget("note#^abc") // { linkpath: "note", blockId: "abc" }
+ * splitMentionTarget("note^abc") // { linkpath: "note", blockId: "abc" }
+ * splitMentionTarget("Projects/") // { linkpath: "Projects", isFolder: true }
+ */
+export function splitMentionTarget(target: string): {
+	linkpath: string;
+	heading?: string;
+	blockId?: string;
+	isFolder?: boolean;
+} {
+	const trimmed = target.trim();
+	if (trimmed.endsWith("/")) {
+		return { linkpath: trimmed.replace(/\/+$/, ""), isFolder: true };
+	}
+
+	const hashIndex = trimmed.indexOf("#");
+	if (hashIndex >= 0) {
+		const linkpath = trimmed.slice(0, hashIndex);
+		const subpath = trimmed.slice(hashIndex + 1).trim();
+		if (subpath.startsWith("^")) {
+			return { linkpath, blockId: subpath.slice(1) };
+		}
+		// Nested headings (note#A#B) name the last one
+		const heading = subpath.split("#").pop()?.trim();
+		return heading ? { linkpath, heading } : { linkpath };
+	}
+
+	const caretIndex = trimmed.lastIndexOf("^");
+	if (caretIndex > 0) {
+		return {
+			linkpath: trimmed.slice(0, caretIndex),
+			blockId: trimmed.slice(caretIndex + 1),
+		};
+	}
+	return { linkpath: trimmed };
+}
+
+// Text to put inside @[[...]] for a suggestion
+export function getMentionLinkText(note: NoteMetadata): string {
+	if (note.isFolder) {
+		return `${note.path}/`;
+	}
+	// Notes are linked by name; other files need the extension
+	return note.extension === "md"
+		? note.name
+		: `${note.name}.${note.extension}`;
 }
 
 // Mention detection utilities
@@ -111,29 +194,25 @@ export function replaceMention(
 	return { newText, newCursorPos };
 }
 
-// Extract all @mentions from text
-export function extractMentionedNotes(
+// Extract all @mentions from text and resolve them
+export function extractMentions(
 	text: string,
-	noteMentionService: IMentionService,
-): Array<{ noteTitle: string; file: TFile | undefined }> {
+	mentionService: IMentionService,
+): Array<{ target: string; mention: ResolvedMention | null }> {
 	const mentionRegex = /@\[\[([^\]]+)\]\]/g;
 	const matches = Array.from(text.matchAll(mentionRegex));
-	const result: Array<{ noteTitle: string; file: TFile | undefined }> = [];
+	const result: Array<{ target: string; mention: ResolvedMention | null }> =
+		[];
 	const seen = new Set<string>(); // Avoid duplicates
 
 	for (const match of matches) {
-		const noteTitle = match[1];
-		if (seen.has(noteTitle)) {
+		const target = match[1];
+		if (seen.has(target)) {
 			continue;
 		}
-		seen.add(noteTitle);
-
-		// Find the file by basename
-		const file = noteMentionService
-			.getAllFiles()
-			.find((f: TFile) => f.basename === noteTitle);
+		seen.add(target);
 
-		result.push({ noteTitle, file });
+		result.push({ target, mention: mentionService.resolveMention(target) });
 	}
 
 	return result;
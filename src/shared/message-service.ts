@@ -5,7 +5,7 @@
  * Extracted from SendMessageUseCase for better separation of concerns.
  *
  * Responsibilities:
- * - Process mentions (@[[note]] syntax)
+ * - Process mentions (@[[note]], @[[note#Heading]], @[[folder/]], attachments)
  * - Add auto-mention for active note
  * - Convert mentions to file paths
  * - Send prompt to agent via IAgentClient
@@ -17,26 +17,152 @@ import type {
 	IVaultAccess,
 	NoteMetadata,
 	EditorPosition,
+	MentionKind,
+	NoteOutline,
+	ResolvedMention,
 } from "../domain/ports/vault-access.port";
 import type { AgentError } from "../domain/models/agent-error";
 import type { AuthenticationMethod } from "../domain/models/chat-session";
+import type { PromptResult } from "../domain/models/chat-message";
 import type {
 	PromptContent,
 	ImagePromptContent,
 	ResourcePromptContent,
+	ResourceLinkPromptContent,
 } from "../domain/models/prompt-content";
-import { extractMentionedNotes, type IMentionService } from "./mention-utils";
+import { extractMentions, type IMentionService } from "./mention-utils";
 import { convertWindowsPathToWsl } from "./wsl-utils";
 import { buildFileUri } from "./path-utils";
+import { estimateTokens, IMAGE_TOKEN_ESTIMATE } from "./token-usage";
+import {
+	truncateNote,
+	type MentionTruncationStrategy,
+} from "./note-truncation";
 
 // ============================================================================
 // Types
 // ============================================================================
 
+/**
+ * How a mention reaches the agent.
+ * - embedded: Sent in full (text, or image content)
+ * - truncated: Text cut to the max note length
+ * - linked: Sent as a resource link; the agent reads the file itself
+ * - missing: Nothing in the vault matches (sent as plain text)
+ */
+export type MentionDelivery = "embedded" | "truncated" | "linked" | "missing";
+
+/**
+ * Options deciding how mentions are delivered
+ */
+export interface MentionDeliveryOptions {
+	/** Whether agent supports image prompt content (for image mentions) */
+	supportsImages?: boolean;
+
+	/** Maximum characters per mentioned note (default: 10000) */
+	maxNoteLength?: number;
+
+	/**
+	 * Text mentions longer than this many characters are sent as resource
+	 * links instead of being truncated (0 or unset: never)
+	 */
+	linkThreshold?: number;
+}
+
+/**
+ * How one mention in the composer will be sent
+ */
+export interface MentionPreview {
+	/** Text between @[[ and ]] */
+	target: string;
+
+	/** What the mention resolved to (unset when missing) */
+	kind?: MentionKind;
+
+	delivery: MentionDelivery;
+
+	/** Characters of text (text mentions only) */
+	length?: number;
+
+	/** File size in bytes */
+	size?: number;
+}
+
+/**
+ * Where a part of the prompt comes from.
+ * - message: The typed message
+ * - mention: An @[[...]] mention
+ * - auto-mention: The active note (and selection)
+ * - image: An attached image
+ * - instructions: The profile's instructions (first message only)
+ */
+export type ContextBudgetSource =
+	| "message"
+	| "mention"
+	| "auto-mention"
+	| "image"
+	| "instructions";
+
+/**
+ * One part of the prompt in the context budget
+ */
+export interface ContextBudgetItem {
+	/** Stable ID (see ContextOverrides) */
+	id: string;
+
+	source: ContextBudgetSource;
+
+	/** Display label (e.g., "@My Note", "Image 1") */
+	label: string;
+
+	/** Characters sent for this part */
+	chars: number;
+
+	/** Approximate tokens for this part */
+	tokens: number;
+
+	/** How a mention is delivered (mentions only) */
+	delivery?: MentionDelivery;
+
+	/** Whether the user dropped this part (it is not sent) */
+	dropped?: boolean;
+
+	/** Whether the part is text that can be trimmed */
+	canTrim?: boolean;
+
+	/** Character limit the user trimmed this part to */
+	trimmedTo?: number;
+}
+
+/**
+ * Per-prompt changes the user made in the context preview, keyed by
+ * ContextBudgetItem.id. Only mentions and the profile instructions can be
+ * dropped here (the auto-mention and images have their own controls);
+ * mentions and the auto-mentioned selection can be trimmed.
+ */
+export interface ContextOverrides {
+	/** Items left out of the prompt */
+	dropped?: string[];
+
+	/** Character limits for individual items */
+	trimmed?: Record<string, number>;
+}
+
+/** Budget item ID of the auto-mentioned note */
+export const AUTO_MENTION_BUDGET_ID = "auto-mention";
+
+/** Budget item ID of the profile instructions */
+export const INSTRUCTIONS_BUDGET_ID = "instructions";
+
+/** Budget item ID of a mention */
+export function getMentionBudgetId(target: string): string {
+	return `mention:${target}`;
+}
+
 /**
  * Input for preparing a prompt
  */
-export interface PreparePromptInput {
+export interface PreparePromptInput extends MentionDeliveryOptions {
 	/** User's message text (may contain @mentions) */
 	message: string;
 
@@ -58,11 +184,17 @@ export interface PreparePromptInput {
 	/** Whether agent supports embeddedContext capability */
 	supportsEmbeddedContext?: boolean;
 
-	/** Maximum characters per mentioned note (default: 10000) */
-	maxNoteLength?: number;
-
 	/** Maximum characters for selection (default: 10000) */
 	maxSelectionLength?: number;
+
+	/** How notes longer than maxNoteLength are cut (default: "head") */
+	truncationStrategy?: MentionTruncationStrategy;
+
+	/** Items the user dropped or trimmed in the context preview */
+	contextOverrides?: ContextOverrides;
+
+	/** Profile instructions sent ahead of everything else */
+	preamble?: string;
 }
 
 /**
@@ -84,6 +216,9 @@ export interface PreparePromptResult {
 			toLine: number;
 		};
 	};
+
+	/** Size of each part of the prompt, in message order */
+	budget: ContextBudgetItem[];
 }
 
 /**
@@ -124,6 +259,9 @@ export interface SendPromptResult {
 
 	/** Whether the prompt was successfully sent after retry */
 	retriedSuccessfully?: boolean;
+
+	/** Stop reason and token usage reported by the agent (on success) */
+	promptResult?: PromptResult;
 }
 
 // ============================================================================
@@ -132,96 +270,513 @@ export interface SendPromptResult {
 
 const DEFAULT_MAX_NOTE_LENGTH = 10000; // Default maximum characters per note
 const DEFAULT_MAX_SELECTION_LENGTH = 10000; // Default maximum characters for selection
+const MAX_FOLDER_LISTING = 200; // Maximum files listed for a folder mention
+const MAX_IMAGE_MENTION_BYTES = 5 * 1024 * 1024; // Larger images are sent as links
+
+// Image types agents accept as image content; others are sent as links
+const EMBEDDABLE_IMAGE_TYPES = [
+	"image/png",
+	"image/jpeg",
+	"image/gif",
+	"image/webp",
+];
 
 // ============================================================================
 // Prompt Preparation Functions
 // ============================================================================
 
+/**
+ * A mention loaded for the prompt.
+ * - text: Notes, sections, CSVs, canvases and folder listings; sent as an
+ *   embedded resource or as XML in the message text
+ * - block: Images and links; sent as their own content block
+ */
+type LoadedMention =
+	| {
+			type: "text";
+			mention: ResolvedMention;
+			/** Absolute path, with `#section` for headings and blocks */
+			ref: string;
+			uri: string;
+			mimeType: string;
+			text: string;
+			/** Original length when the text was truncated */
+			originalLength?: number;
+			/** What truncation left out (see truncateNote) */
+			omitted?: string[];
+	  }
+	| {
+			type: "block";
+			mention: ResolvedMention;
+			content: ImagePromptContent | ResourceLinkPromptContent;
+	  };
+
 /**
  * Prepare a prompt for sending to the agent.
  *
  * Processes the message by:
- * - Building context blocks for mentioned notes
+ * - Building context blocks for mentioned notes, sections, folders and files
  * - Adding auto-mention context for active note
  * - Creating agent content with context + user message + images
  *
- * When agent supports embeddedContext capability, mentioned notes are sent
+ * When agent supports embeddedContext capability, text mentions are sent
  * as Resource content blocks. Otherwise, they are embedded as XML text.
+ * Images are sent as image content (when the agent accepts images) and
+ * other binary files as resource links, in both cases.
  */
 export async function preparePrompt(
 	input: PreparePromptInput,
 	vaultAccess: IVaultAccess,
 	mentionService: IMentionService,
 ): Promise<PreparePromptResult> {
-	// Step 1: Extract all mentioned notes from the message
-	const mentionedNotes = extractMentionedNotes(input.message, mentionService);
+	// Step 1: Resolve and load all mentions in the message
+	const mentions = extractMentions(input.message, mentionService);
+	const dropped = new Set(input.contextOverrides?.dropped ?? []);
+	const trimmed = input.contextOverrides?.trimmed ?? {};
+	const loadedMentions: LoadedMention[] = [];
+	for (const { mention } of mentions) {
+		if (!mention || dropped.has(getMentionBudgetId(mention.target))) {
+			continue;
+		}
+		const trimTo = trimmed[getMentionBudgetId(mention.target)];
+		// A trimmed mention is sent as text, never as a link
+		const options: PreparePromptInput =
+			trimTo !== undefined
+				? {
+						...input,
+						maxNoteLength: Math.min(
+							trimTo,
+							input.maxNoteLength ?? DEFAULT_MAX_NOTE_LENGTH,
+						),
+						linkThreshold: 0,
+					}
+				: input;
+		try {
+			loadedMentions.push(
+				await loadMention(mention, options, vaultAccess),
+			);
+		} catch (error) {
+			console.error(`Failed to read mention ${mention.target}:`, error);
+		}
+	}
+
+	const autoMentionTrim = trimmed[AUTO_MENTION_BUDGET_ID];
+	const pathInput: PreparePromptInput =
+		autoMentionTrim !== undefined
+			? {
+					...input,
+					maxSelectionLength: Math.min(
+						autoMentionTrim,
+						input.maxSelectionLength ?? DEFAULT_MAX_SELECTION_LENGTH,
+					),
+				}
+			: input;
 
 	// Step 2: Build context based on agent capabilities
-	if (input.supportsEmbeddedContext) {
-		return preparePromptWithEmbeddedContext(
-			input,
-			vaultAccess,
-			mentionedNotes,
+	const sizes = new Map<string, number>();
+	const result = input.supportsEmbeddedContext
+		? await preparePromptWithEmbeddedContext(
+				pathInput,
+				vaultAccess,
+				loadedMentions,
+				sizes,
+			)
+		: await preparePromptWithTextContext(
+				pathInput,
+				vaultAccess,
+				loadedMentions,
+				sizes,
+			);
+
+	// Instructions go first, in their own block
+	const preamble = input.preamble?.trim();
+	let instructionsItem: ContextBudgetItem | null = null;
+	if (preamble) {
+		const isDropped = dropped.has(INSTRUCTIONS_BUDGET_ID);
+		const text = `<instructions>\n${preamble}\n</instructions>`;
+		if (!isDropped) {
+			result.agentContent.unshift({ type: "text", text });
+		}
+		instructionsItem = {
+			...budgetItem(
+				"instructions",
+				INSTRUCTIONS_BUDGET_ID,
+				"Profile instructions",
+				isDropped ? 0 : text.length,
+			),
+			dropped: isDropped || undefined,
+		};
+	}
+
+	// Step 3: Measure each part for the context budget
+	const budget: ContextBudgetItem[] = [
+		...(instructionsItem ? [instructionsItem] : []),
+		budgetItem("message", "message", "Message", sizes.get("message") ?? 0),
+	];
+	for (const { target, mention } of mentions) {
+		const id = getMentionBudgetId(target);
+		const loaded = loadedMentions.find(
+			(item) => item.mention.target === target,
 		);
-	} else {
-		return preparePromptWithTextContext(input, vaultAccess, mentionedNotes);
+		budget.push({
+			...budgetItem("mention", id, `@${target}`, sizes.get(id) ?? 0),
+			delivery: !mention
+				? "missing"
+				: !loaded
+					? undefined
+					: loaded.type === "text"
+						? loaded.originalLength !== undefined
+							? "truncated"
+							: "embedded"
+						: loaded.content.type === "image"
+							? "embedded"
+							: "linked",
+			dropped: dropped.has(id) || undefined,
+			canTrim: loaded?.type === "text",
+			trimmedTo: trimmed[id],
+		});
+	}
+	if (result.autoMentionContext) {
+		const { noteName, selection } = result.autoMentionContext;
+		budget.push({
+			...budgetItem(
+				"auto-mention",
+				AUTO_MENTION_BUDGET_ID,
+				selection
+					? `@${noteName}:${selection.fromLine}-${selection.toLine}`
+					: `@${noteName}`,
+				sizes.get(AUTO_MENTION_BUDGET_ID) ?? 0,
+			),
+			canTrim: selection !== undefined,
+			trimmedTo: selection ? autoMentionTrim : undefined,
+		});
 	}
+	(input.images ?? []).forEach((image, index) => {
+		budget.push({
+			...budgetItem(
+				"image",
+				`image:${index}`,
+				`Image ${index + 1}`,
+				image.data.length,
+			),
+			tokens: IMAGE_TOKEN_ESTIMATE,
+		});
+	});
+
+	return { ...result, budget };
+}
+
+function budgetItem(
+	source: ContextBudgetSource,
+	id: string,
+	label: string,
+	chars: number,
+): ContextBudgetItem {
+	return { id, source, label, chars, tokens: estimateTokens(chars) };
 }
 
 /**
- * Prepare prompt using embedded Resource format (for embeddedContext-capable agents).
+ * Characters a mention's own content block adds (images count their
+ * base64 data; see IMAGE_TOKEN_ESTIMATE for their token cost).
  */
-async function preparePromptWithEmbeddedContext(
-	input: PreparePromptInput,
-	vaultAccess: IVaultAccess,
-	mentionedNotes: Array<{
-		noteTitle: string;
-		file: { path: string; stat: { mtime: number } } | undefined;
-	}>,
-): Promise<PreparePromptResult> {
-	const resourceBlocks: ResourcePromptContent[] = [];
+function blockChars(
+	content: ImagePromptContent | ResourceLinkPromptContent,
+): number {
+	return content.type === "image"
+		? content.data.length
+		: content.uri.length +
+				content.name.length +
+				(content.description?.length ?? 0);
+}
 
-	// Build Resource blocks for each mentioned note
-	for (const { file } of mentionedNotes) {
-		if (!file) {
-			continue;
+/**
+ * Decide how a mention will reach the agent.
+ *
+ * @param textLength - Length of the mention's text (text mentions only)
+ */
+function chooseMentionDelivery(
+	mention: ResolvedMention,
+	textLength: number,
+	options: MentionDeliveryOptions,
+): Exclude<MentionDelivery, "missing"> {
+	switch (mention.kind) {
+		case "pdf":
+			return "linked";
+		case "image":
+			return options.supportsImages &&
+				EMBEDDABLE_IMAGE_TYPES.includes(mention.mimeType) &&
+				mention.size <= MAX_IMAGE_MENTION_BYTES
+				? "embedded"
+				: "linked";
+		case "folder":
+			// The listing itself is capped, so it always fits
+			return "embedded";
+		default: {
+			const linkThreshold = options.linkThreshold ?? 0;
+			if (linkThreshold > 0 && textLength > linkThreshold) {
+				return "linked";
+			}
+			const maxNoteLen = options.maxNoteLength ?? DEFAULT_MAX_NOTE_LENGTH;
+			return textLength > maxNoteLen ? "truncated" : "embedded";
 		}
+	}
+}
 
-		try {
-			const content = await vaultAccess.readNote(file.path);
-			const maxNoteLen = input.maxNoteLength ?? DEFAULT_MAX_NOTE_LENGTH;
-
-			let processedContent = content;
-			if (content.length > maxNoteLen) {
-				processedContent =
-					content.substring(0, maxNoteLen) +
-					`\n\n[Note: Truncated from ${content.length} to ${maxNoteLen} characters]`;
+/**
+ * Read the text a text mention sends: the note, its section, the file,
+ * or the folder listing.
+ *
+ * @returns Text, or null for images and PDFs
+ */
+async function readMentionText(
+	mention: ResolvedMention,
+	vaultAccess: IVaultAccess,
+): Promise<string | null> {
+	switch (mention.kind) {
+		case "image":
+		case "pdf":
+			return null;
+
+		case "folder": {
+			const paths = await vaultAccess.listFolder(mention.path);
+			if (paths.length === 0) {
+				return `The folder ${mention.path}/ is empty.`;
 			}
+			const prefix = `${mention.path}/`;
+			const lines = paths
+				.slice(0, MAX_FOLDER_LISTING)
+				.map(
+					(path) =>
+						`- ${path.startsWith(prefix) ? path.slice(prefix.length) : path}`,
+				);
+			if (paths.length > MAX_FOLDER_LISTING) {
+				lines.push(
+					`- ... and ${paths.length - MAX_FOLDER_LISTING} more files`,
+				);
+			}
+			return `The folder ${mention.path}/ contains ${paths.length} files:\n${lines.join("\n")}`;
+		}
 
-			let absolutePath = input.vaultBasePath
-				? `${input.vaultBasePath}/${file.path}`
-				: file.path;
+		default: {
+			// Notes, sections, CSVs and canvases
+			const content = await vaultAccess.readNote(mention.path);
+			return mention.range
+				? content.slice(mention.range.start, mention.range.end)
+				: content;
+		}
+	}
+}
 
-			if (input.convertToWsl) {
-				absolutePath = convertWindowsPathToWsl(absolutePath);
-			}
+/**
+ * Load a resolved mention: read the note (or just the section), list the
+ * folder, or turn it into an image or resource link.
+ */
+async function loadMention(
+	mention: ResolvedMention,
+	input: PreparePromptInput,
+	vaultAccess: IVaultAccess,
+): Promise<LoadedMention> {
+	let absolutePath = input.vaultBasePath
+		? `${input.vaultBasePath}/${mention.path}`
+		: mention.path;
 
-			resourceBlocks.push({
-				type: "resource",
-				resource: {
-					uri: buildFileUri(absolutePath),
-					mimeType: "text/markdown",
-					text: processedContent,
-				},
-				annotations: {
-					audience: ["assistant"],
-					priority: 1.0, // Manual mentions are high priority
-					lastModified: new Date(file.stat.mtime).toISOString(),
-				},
+	if (input.convertToWsl) {
+		absolutePath = convertWindowsPathToWsl(absolutePath);
+	}
+
+	const uri = buildFileUri(absolutePath);
+	const text = await readMentionText(mention, vaultAccess);
+	const delivery = chooseMentionDelivery(mention, text?.length ?? 0, input);
+
+	if (mention.kind === "image" && delivery === "embedded") {
+		const data = await vaultAccess.readBinary(mention.path);
+		return {
+			type: "block",
+			mention,
+			content: {
+				type: "image",
+				data: arrayBufferToBase64(data),
+				mimeType: mention.mimeType,
+			},
+		};
+	}
+
+	if (text === null || delivery === "linked") {
+		return {
+			type: "block",
+			mention,
+			content: {
+				type: "resource_link",
+				uri,
+				name: mention.name,
+				mimeType: mention.mimeType,
+				size: mention.size,
+				description:
+					mention.kind === "heading"
+						? `Only the section "${mention.subpath}" is relevant.`
+						: mention.kind === "block"
+							? `Only the block ^${mention.subpath} is relevant.`
+							: undefined,
+			},
+		};
+	}
+
+	if (mention.kind === "folder") {
+		return {
+			type: "text",
+			mention,
+			ref: `${absolutePath}/`,
+			uri: `${uri}/`,
+			mimeType: "text/plain",
+			text,
+		};
+	}
+
+	const fragment = mention.subpath
+		? `${mention.kind === "block" ? "^" : ""}${mention.subpath}`
+		: "";
+	const truncated =
+		delivery === "truncated"
+			? truncateNote(
+					text,
+					await readMentionOutline(mention, vaultAccess),
+					input.maxNoteLength ?? DEFAULT_MAX_NOTE_LENGTH,
+					input.truncationStrategy ?? "head",
+					input.message,
+				)
+			: null;
+
+	return {
+		type: "text",
+		mention,
+		ref: fragment ? `${absolutePath}#${fragment}` : absolutePath,
+		uri: fragment ? `${uri}#${encodeURIComponent(fragment)}` : uri,
+		mimeType: mention.mimeType,
+		text: truncated ? truncated.text : text,
+		originalLength: truncated ? text.length : undefined,
+		omitted: truncated?.omitted,
+	};
+}
+
+/**
+ * Headings of the mentioned text, with offsets relative to it. Only
+ * notes and heading sections have an outline; block mentions, CSVs and
+ * canvases are cut from the top.
+ */
+async function readMentionOutline(
+	mention: ResolvedMention,
+	vaultAccess: IVaultAccess,
+): Promise<NoteOutline> {
+	if (mention.kind !== "note" && mention.kind !== "heading") {
+		return { headings: [] };
+	}
+	const outline = await vaultAccess.getNoteOutline(mention.path);
+	if (!mention.range) {
+		return outline;
+	}
+	const { start, end = Infinity } = mention.range;
+	return {
+		headings: outline.headings
+			.filter(
+				(heading) => heading.offset >= start && heading.offset < end,
+			)
+			.map((heading) => ({ ...heading, offset: heading.offset - start })),
+	};
+}
+
+/**
+ * Sentence telling the agent what truncation left out.
+ */
+function describeOmitted(omitted: string[] | undefined): string {
+	return omitted && omitted.length > 0
+		? ` Omitted: ${omitted.join("; ")}.`
+		: "";
+}
+
+/**
+ * Preview how each mention in a message will be sent, for the composer.
+ * Uses the same rules as preparePrompt.
+ */
+export async function previewMentions(
+	message: string,
+	options: MentionDeliveryOptions,
+	vaultAccess: IVaultAccess,
+	mentionService: IMentionService,
+): Promise<MentionPreview[]> {
+	const previews: MentionPreview[] = [];
+	for (const { target, mention } of extractMentions(message, mentionService)) {
+		if (!mention) {
+			previews.push({ target, delivery: "missing" });
+			continue;
+		}
+		try {
+			const text = await readMentionText(mention, vaultAccess);
+			previews.push({
+				target,
+				kind: mention.kind,
+				delivery: chooseMentionDelivery(
+					mention,
+					text?.length ?? 0,
+					options,
+				),
+				length: text?.length,
+				size: mention.size,
 			});
-		} catch (error) {
-			console.error(`Failed to read note ${file.path}:`, error);
+		} catch {
+			previews.push({ target, kind: mention.kind, delivery: "missing" });
+		}
+	}
+	return previews;
+}
+
+/**
+ * Prepare prompt using embedded Resource format (for embeddedContext-capable agents).
+ */
+async function preparePromptWithEmbeddedContext(
+	input: PreparePromptInput,
+	vaultAccess: IVaultAccess,
+	loadedMentions: LoadedMention[],
+	sizes: Map<string, number>,
+): Promise<Omit<PreparePromptResult, "budget">> {
+	const resourceBlocks: ResourcePromptContent[] = [];
+	const mentionBlocks: PromptContent[] = [];
+
+	// Build Resource blocks for each text mention
+	for (const loaded of loadedMentions) {
+		const budgetId = getMentionBudgetId(loaded.mention.target);
+		if (loaded.type === "block") {
+			mentionBlocks.push(loaded.content);
+			sizes.set(budgetId, blockChars(loaded.content));
+			continue;
 		}
+
+		const maxNoteLen = input.maxNoteLength ?? DEFAULT_MAX_NOTE_LENGTH;
+		const processedContent =
+			loaded.originalLength !== undefined
+				? loaded.text +
+					`\n\n[Note: Truncated from ${loaded.originalLength} to ${maxNoteLen} characters.${describeOmitted(loaded.omitted)}]`
+				: loaded.text;
+		sizes.set(budgetId, processedContent.length);
+
+		resourceBlocks.push({
+			type: "resource",
+			resource: {
+				uri: loaded.uri,
+				mimeType: loaded.mimeType,
+				text: processedContent,
+			},
+			annotations: {
+				audience: ["assistant"],
+				priority: 1.0, // Manual mentions are high priority
+				...(loaded.mention.modified
+					? {
+							lastModified: new Date(
+								loaded.mention.modified,
+							).toISOString(),
+						}
+					: {}),
+			},
+		});
 	}
 
 	// Build auto-mention Resource block
@@ -235,6 +790,19 @@ async function preparePromptWithEmbeddedContext(
 			input.maxSelectionLength ?? DEFAULT_MAX_SELECTION_LENGTH,
 		);
 		autoMentionBlocks.push(...autoMentionResource);
+		sizes.set(
+			AUTO_MENTION_BUDGET_ID,
+			autoMentionResource.reduce(
+				(total, block) =>
+					total +
+					(block.type === "text"
+						? block.text.length
+						: block.type === "resource"
+							? block.resource.text.length
+							: 0),
+				0,
+			),
+		);
 	}
 
 	// Build content arrays
@@ -253,9 +821,11 @@ async function preparePromptWithEmbeddedContext(
 				? `@[[${input.activeNote.name}]]:${input.activeNote.selection.from.line + 1}-${input.activeNote.selection.to.line + 1}\n`
 				: `@[[${input.activeNote.name}]]\n`
 			: "";
+	sizes.set("message", autoMentionPrefix.length + input.message.length);
 
 	const agentContent: PromptContent[] = [
 		...resourceBlocks,
+		...mentionBlocks,
 		...autoMentionBlocks,
 		...(input.message || autoMentionPrefix
 			? [
@@ -297,44 +867,30 @@ async function preparePromptWithEmbeddedContext(
 async function preparePromptWithTextContext(
 	input: PreparePromptInput,
 	vaultAccess: IVaultAccess,
-	mentionedNotes: Array<{
-		noteTitle: string;
-		file: { path: string; stat: { mtime: number } } | undefined;
-	}>,
-): Promise<PreparePromptResult> {
+	loadedMentions: LoadedMention[],
+	sizes: Map<string, number>,
+): Promise<Omit<PreparePromptResult, "budget">> {
 	const contextBlocks: string[] = [];
-
-	// Build XML context blocks for each mentioned note
-	for (const { file } of mentionedNotes) {
-		if (!file) {
+	const mentionBlocks: PromptContent[] = [];
+
+	// Build XML context blocks for each text mention
+	for (const loaded of loadedMentions) {
+		const budgetId = getMentionBudgetId(loaded.mention.target);
+		if (loaded.type === "block") {
+			mentionBlocks.push(loaded.content);
+			sizes.set(budgetId, blockChars(loaded.content));
 			continue;
 		}
 
-		try {
-			const content = await vaultAccess.readNote(file.path);
-			const maxNoteLen = input.maxNoteLength ?? DEFAULT_MAX_NOTE_LENGTH;
+		const maxNoteLen = input.maxNoteLength ?? DEFAULT_MAX_NOTE_LENGTH;
+		const truncationNote =
+			loaded.originalLength !== undefined
+				? `\n\n[Note: This ${loaded.mention.kind === "note" ? "note" : "content"} was truncated. Original length: ${loaded.originalLength} characters, showing ${maxNoteLen} characters.${describeOmitted(loaded.omitted)}]`
+				: "";
 
-			let processedContent = content;
-			let truncationNote = "";
-
-			if (content.length > maxNoteLen) {
-				processedContent = content.substring(0, maxNoteLen);
-				truncationNote = `\n\n[Note: This note was truncated. Original length: ${content.length} characters, showing first ${maxNoteLen} characters]`;
-			}
-
-			let absolutePath = input.vaultBasePath
-				? `${input.vaultBasePath}/${file.path}`
-				: file.path;
-
-			if (input.convertToWsl) {
-				absolutePath = convertWindowsPathToWsl(absolutePath);
-			}
-
-			const contextBlock = `<obsidian_mentioned_note ref="${absolutePath}">\n${processedContent}${truncationNote}\n</obsidian_mentioned_note>`;
-			contextBlocks.push(contextBlock);
-		} catch (error) {
-			console.error(`Failed to read note ${file.path}:`, error);
-		}
+		const contextBlock = `${mentionOpeningTag(loaded.mention, loaded.ref)}\n${loaded.text}${truncationNote}\n</${mentionTagName(loaded.mention)}>`;
+		contextBlocks.push(contextBlock);
+		sizes.set(budgetId, contextBlock.length);
 	}
 
 	// Build auto-mention XML context
@@ -348,6 +904,7 @@ async function preparePromptWithTextContext(
 			input.maxSelectionLength ?? DEFAULT_MAX_SELECTION_LENGTH,
 		);
 		contextBlocks.push(autoMentionContextBlock);
+		sizes.set(AUTO_MENTION_BUDGET_ID, autoMentionContextBlock.length);
 	}
 
 	// Build auto-mention prefix for session/load recovery
@@ -359,6 +916,8 @@ async function preparePromptWithTextContext(
 				: `@[[${input.activeNote.name}]]\n`
 			: "";
 
+	sizes.set("message", autoMentionPrefix.length + input.message.length);
+
 	// Build agent message text (context blocks + auto-mention prefix + original message)
 	const agentMessageText =
 		contextBlocks.length > 0
@@ -377,6 +936,7 @@ async function preparePromptWithTextContext(
 	];
 
 	const agentContent: PromptContent[] = [
+		...mentionBlocks,
 		...(agentMessageText
 			? [{ type: "text" as const, text: agentMessageText }]
 			: []),
@@ -406,6 +966,41 @@ async function preparePromptWithTextContext(
 	};
 }
 
+/**
+ * XML tag wrapping a text mention in the fallback format.
+ */
+function mentionTagName(mention: ResolvedMention): string {
+	switch (mention.kind) {
+		case "folder":
+			return "obsidian_mentioned_folder";
+		case "csv":
+		case "canvas":
+			return "obsidian_mentioned_file";
+		default:
+			return "obsidian_mentioned_note";
+	}
+}
+
+function mentionOpeningTag(mention: ResolvedMention, ref: string): string {
+	const tag = mentionTagName(mention);
+	return tag === "obsidian_mentioned_file"
+		? `<${tag} ref="${ref}" type="${mention.mimeType}">`
+		: `<${tag} ref="${ref}">`;
+}
+
+/**
+ * Base64-encode binary file content (chunked to stay within the
+ * argument limit of String.fromCharCode).
+ */
+function arrayBufferToBase64(buffer: ArrayBuffer): string {
+	const bytes = new Uint8Array(buffer);
+	let binary = "";
+	for (let i = 0; i < bytes.length; i += 0x8000) {
+		binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+	}
+	return btoa(binary);
+}
+
 /**
  * Build Resource content blocks for auto-mentioned note.
  */
@@ -554,12 +1149,16 @@ export async function sendPreparedPrompt(
 	agentClient: IAgentClient,
 ): Promise<SendPromptResult> {
 	try {
-		await agentClient.sendPrompt(input.sessionId, input.agentContent);
+		const promptResult = await agentClient.sendPrompt(
+			input.sessionId,
+			input.agentContent,
+		);
 
 		return {
 			success: true,
 			displayContent: input.displayContent,
 			agentContent: input.agentContent,
+			promptResult,
 		};
 	} catch (error) {
 		return await handleSendError(
@@ -592,11 +1191,15 @@ async function handleSendError(
 	if (isEmptyResponseError(error)) {
 		console.warn("[AgentClient] Empty response from agent, retrying...");
 		try {
-			await agentClient.sendPrompt(sessionId, agentContent);
+			const promptResult = await agentClient.sendPrompt(
+				sessionId,
+				agentContent,
+			);
 			return {
 				success: true,
 				displayContent,
 				agentContent,
+				promptResult,
 			};
 		} catch (retryError) {
 			// If retry also returns empty response, show user-friendly error
@@ -867,13 +1470,17 @@ async function retryWithAuthentication(
 			return null;
 		}
 
-		await agentClient.sendPrompt(sessionId, agentContent);
+		const promptResult = await agentClient.sendPrompt(
+			sessionId,
+			agentContent,
+		);
 
 		return {
 			success: true,
 			displayContent,
 			agentContent,
 			retriedSuccessfully: true,
+			promptResult,
 		};
 	} catch (retryError) {
 		return {
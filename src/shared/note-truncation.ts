@@ -0,0 +1,348 @@
+import type {
+	NoteHeading,
+	NoteOutline,
+} from "../domain/ports/vault-access.port";
+
+/**
+ * Section-aware truncation for mentioned notes that exceed the max note
+ * length. Pure functions — no Obsidian dependencies; headings and the
+ * front matter position come from the metadata cache via NoteOutline.
+ *
+ * Strategies:
+ * - head: The first maxLength characters (the original behaviour)
+ * - outline: An outline of every heading, then whole sections in
+ *   document order while they fit; front matter goes last
+ * - relevant: The outline, then the sections sharing the most keywords
+ *   with the user's message
+ * - head-tail: The start and the end of the note
+ *
+ * Omitted parts are replaced by a `[... omitted: ...]` marker and listed
+ * in TruncatedText.omitted. Markers are not counted against maxLength;
+ * the outline is. Notes without headings fall back to head.
+ */
+export type MentionTruncationStrategy =
+	| "head"
+	| "outline"
+	| "relevant"
+	| "head-tail";
+
+/**
+ * Result of truncating a note.
+ */
+export interface TruncatedText {
+	text: string;
+
+	/** What was left out, for the truncation note (e.g. `## Setup`) */
+	omitted: string[];
+}
+
+/** A contiguous part of the note: front matter, intro, or one section */
+interface NoteSection {
+	label: string;
+	start: number;
+	end: number;
+	isFrontmatter: boolean;
+}
+
+/** Share of maxLength the heading outline may take */
+const MAX_OUTLINE_SHARE = 0.25;
+
+/** Share of maxLength kept from the start of the note in head-tail */
+const HEAD_SHARE = 0.6;
+
+/** Smallest leftover budget worth filling with part of a section */
+const MIN_PARTIAL_SECTION = 200;
+
+/** Words too common to rank sections by */
+const STOP_WORDS = new Set([
+	"the",
+	"and",
+	"for",
+	"are",
+	"but",
+	"not",
+	"you",
+	"all",
+	"can",
+	"this",
+	"that",
+	"with",
+	"from",
+	"what",
+	"when",
+	"where",
+	"which",
+	"how",
+	"why",
+	"about",
+	"into",
+	"does",
+	"have",
+	"has",
+	"was",
+	"were",
+	"will",
+	"would",
+	"should",
+	"could",
+	"please",
+	"note",
+	"notes",
+]);
+
+/**
+ * Cut a note down to maxLength characters using a strategy.
+ *
+ * @param content - Note (or section) text
+ * @param outline - Headings and front matter, offsets relative to content
+ * @param maxLength - Character budget for the note
+ * @param strategy - How to choose what to keep
+ * @param query - The user's message (ranks sections for "relevant")
+ */
+export function truncateNote(
+	content: string,
+	outline: NoteOutline,
+	maxLength: number,
+	strategy: MentionTruncationStrategy,
+	query: string,
+): TruncatedText {
+	if (content.length <= maxLength) {
+		return { text: content, omitted: [] };
+	}
+	const sections = splitSections(content, outline);
+	const hasHeadings = sections.some(
+		(section) => !section.isFrontmatter && section.label !== "introduction",
+	);
+
+	switch (strategy) {
+		case "head-tail":
+			return truncateHeadTail(content, maxLength);
+		case "outline":
+		case "relevant":
+			if (hasHeadings) {
+				return truncateBySections(
+					content,
+					sections,
+					outline.headings,
+					maxLength,
+					strategy === "relevant" ? extractKeywords(query) : [],
+				);
+			}
+			return truncateHead(content, maxLength);
+		case "head":
+			return truncateHead(content, maxLength);
+	}
+}
+
+function truncateHead(content: string, maxLength: number): TruncatedText {
+	return {
+		text: content.substring(0, maxLength),
+		omitted: [
+			`the last ${(content.length - maxLength).toLocaleString()} characters`,
+		],
+	};
+}
+
+function truncateHeadTail(content: string, maxLength: number): TruncatedText {
+	let headEnd = Math.floor(maxLength * HEAD_SHARE);
+	let tailStart = content.length - (maxLength - headEnd);
+	// Prefer cutting at line breaks when one is close
+	const headBreak = content.lastIndexOf("\n", headEnd);
+	if (headBreak > headEnd / 2) headEnd = headBreak;
+	const tailBreak = content.indexOf("\n", tailStart);
+	if (tailBreak >= 0 && tailBreak < tailStart + (maxLength - headEnd) / 2) {
+		tailStart = tailBreak + 1;
+	}
+	const omittedChars = tailStart - headEnd;
+	return {
+		text: `${content.slice(0, headEnd)}\n\n[... ${omittedChars.toLocaleString()} characters omitted ...]\n\n${content.slice(tailStart)}`,
+		omitted: [
+			`${omittedChars.toLocaleString()} characters from the middle`,
+		],
+	};
+}
+
+/**
+ * Keep an outline plus the highest-ranked sections that fit, in document
+ * order. With no keywords every section ranks equally, so sections are
+ * kept from the top (front matter last).
+ */
+function truncateBySections(
+	content: string,
+	sections: NoteSection[],
+	headings: NoteHeading[],
+	maxLength: number,
+	keywords: string[],
+): TruncatedText {
+	const outlineText = formatOutline(
+		headings,
+		Math.floor(maxLength * MAX_OUTLINE_SHARE),
+	);
+	let remaining = maxLength - outlineText.length;
+
+	const ranked = sections
+		.map((section, index) => ({
+			section,
+			index,
+			score: scoreSection(content, section, keywords),
+		}))
+		.sort(
+			(a, b) =>
+				b.score - a.score ||
+				Number(a.section.isFrontmatter) -
+					Number(b.section.isFrontmatter) ||
+				a.index - b.index,
+		);
+
+	const kept = new Set<number>();
+	for (const { section, index } of ranked) {
+		const length = section.end - section.start;
+		if (length <= remaining) {
+			kept.add(index);
+			remaining -= length;
+		}
+	}
+
+	// Fill a worthwhile leftover with the start of the best skipped section
+	let partial: { index: number; length: number } | null = null;
+	if (remaining >= MIN_PARTIAL_SECTION) {
+		const best = ranked.find(({ index }) => !kept.has(index));
+		if (best) {
+			partial = { index: best.index, length: remaining };
+		}
+	}
+
+	const parts = [outlineText];
+	const omitted: string[] = [];
+	let skipped: string[] = [];
+	const flushSkipped = () => {
+		if (skipped.length > 0) {
+			parts.push(`[... omitted: ${skipped.join(", ")} ...]\n\n`);
+			omitted.push(...skipped);
+			skipped = [];
+		}
+	};
+	sections.forEach((section, index) => {
+		const text = content.slice(section.start, section.end);
+		if (kept.has(index)) {
+			flushSkipped();
+			parts.push(text.endsWith("\n") ? text : `${text}\n`);
+		} else if (partial?.index === index) {
+			flushSkipped();
+			const cut = text.slice(0, partial.length);
+			parts.push(
+				`${cut}\n[... rest of section omitted (${(text.length - cut.length).toLocaleString()} characters) ...]\n\n`,
+			);
+			omitted.push(`the rest of ${section.label}`);
+		} else {
+			skipped.push(section.label);
+		}
+	});
+	flushSkipped();
+
+	return { text: parts.join(""), omitted };
+}
+
+/**
+ * Split a note into front matter, the text before the first heading, and
+ * one section per heading (each runs to the next heading of any level).
+ */
+function splitSections(content: string, outline: NoteOutline): NoteSection[] {
+	const sections: NoteSection[] = [];
+	const frontmatterEnd =
+		outline.frontmatterEnd !== undefined &&
+		outline.frontmatterEnd > 0 &&
+		outline.frontmatterEnd <= content.length
+			? outline.frontmatterEnd
+			: 0;
+	const headings = outline.headings
+		.filter(
+			(heading) =>
+				heading.offset >= frontmatterEnd &&
+				heading.offset < content.length,
+		)
+		.sort((a, b) => a.offset - b.offset);
+	const introEnd = headings[0]?.offset ?? content.length;
+	// Blank lines between front matter and the first heading stay with it
+	const hasIntro = content.slice(frontmatterEnd, introEnd).trim() !== "";
+
+	if (frontmatterEnd > 0) {
+		sections.push({
+			label: "front matter",
+			start: 0,
+			end: hasIntro ? frontmatterEnd : introEnd,
+			isFrontmatter: true,
+		});
+	}
+	if (hasIntro) {
+		sections.push({
+			label: "introduction",
+			start: frontmatterEnd,
+			end: introEnd,
+			isFrontmatter: false,
+		});
+	}
+	headings.forEach((heading, i) => {
+		sections.push({
+			label: `${"#".repeat(heading.level)} ${heading.heading}`,
+			start: heading.offset,
+			end: headings[i + 1]?.offset ?? content.length,
+			isFrontmatter: false,
+		});
+	});
+	return sections;
+}
+
+/**
+ * Indented list of headings, cut to maxLength characters.
+ */
+function formatOutline(headings: NoteHeading[], maxLength: number): string {
+	let text = "[Outline of the full note]\n";
+	for (const heading of headings) {
+		const line = `${"  ".repeat(Math.max(heading.level - 1, 0))}- ${heading.heading}\n`;
+		if (text.length + line.length + 1 > maxLength) {
+			text += "- ...\n";
+			break;
+		}
+		text += line;
+	}
+	return `${text}\n`;
+}
+
+/**
+ * Distinct lowercase words of the user's message worth matching,
+ * ignoring @[[...]] mentions.
+ */
+function extractKeywords(query: string): string[] {
+	const words: string[] =
+		query
+			.replace(/@\[\[[^\]]+\]\]/g, " ")
+			.toLowerCase()
+			.match(/[\p{L}\p{N}]+/gu) ?? [];
+	return Array.from(
+		new Set(
+			words.filter((word) => word.length >= 3 && !STOP_WORDS.has(word)),
+		),
+	);
+}
+
+/**
+ * Keyword overlap of a section: matches in the heading weigh most; body
+ * matches add less for each repeat.
+ */
+function scoreSection(
+	content: string,
+	section: NoteSection,
+	keywords: string[],
+): number {
+	if (keywords.length === 0) return 0;
+	const label = section.label.toLowerCase();
+	const body = content.slice(section.start, section.end).toLowerCase();
+	let score = 0;
+	for (const keyword of keywords) {
+		if (label.includes(keyword)) score += 3;
+		const count = body.split(keyword).length - 1;
+		if (count > 0) score += 1 + Math.log(count);
+	}
+	return score;
+}
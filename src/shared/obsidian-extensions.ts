@@ -0,0 +1,307 @@
+import * as acp from "@agentclientprotocol/sdk";
+import {
+	MarkdownView,
+	Notice,
+	TFile,
+	normalizePath,
+	type Editor,
+	type TAbstractFile,
+	type View,
+} from "obsidian";
+import type AgentClientPlugin from "../plugin";
+import { Logger } from "./logger";
+import type { VaultFileManager } from "./vault-file-manager";
+
+/**
+ * Obsidian-specific ACP extension methods (`_obsidian/*`).
+ *
+ * Agents call these with ordinary JSON-RPC requests (or notifications,
+ * when they don't need the result). The namespace is advertised in
+ * `clientCapabilities._meta.obsidian` during initialize.
+ *
+ * Paths may be absolute (inside the vault) or vault-relative; responses
+ * use vault-relative paths. Lines are 1-based, like fs/read_text_file;
+ * columns (`ch`) are 0-based.
+ *
+ * - _obsidian/open_note: { path, line?, newTab? } → { path }
+ * - _obsidian/reveal_file: { path } → { path }
+ * - _obsidian/show_notice: { message, durationMs? } → {}
+ * - _obsidian/insert_at_cursor: { text } → { path, line, ch } (an edit
+ *   of the note: checked like the agent's own edits, audited)
+ * - _obsidian/get_selection: {} → { path, text, from, to } (path null
+ *   and text "" when no note is open)
+ */
+
+/** Prefix of every Obsidian extension method */
+export const OBSIDIAN_EXT_PREFIX = "_obsidian/";
+
+export const OBSIDIAN_EXT_METHODS = {
+	openNote: "_obsidian/open_note",
+	revealFile: "_obsidian/reveal_file",
+	showNotice: "_obsidian/show_notice",
+	insertAtCursor: "_obsidian/insert_at_cursor",
+	getSelection: "_obsidian/get_selection",
+} as const;
+
+/** Version of the extension namespace, bumped on breaking changes */
+const OBSIDIAN_EXT_VERSION = 1;
+
+/** Longest a notice may stay up, so agents can't pin one forever */
+const MAX_NOTICE_DURATION_MS = 30_000;
+
+/**
+ * `clientCapabilities._meta` entry advertising the extension namespace.
+ */
+export function getObsidianExtensionMeta(): Record<string, unknown> {
+	return {
+		obsidian: {
+			version: OBSIDIAN_EXT_VERSION,
+			methods: Object.values(OBSIDIAN_EXT_METHODS),
+		},
+	};
+}
+
+/**
+ * Whether a method belongs to the Obsidian extension namespace.
+ */
+export function isObsidianExtMethod(method: string): boolean {
+	return method.startsWith(OBSIDIAN_EXT_PREFIX);
+}
+
+/** File explorer view; revealInFolder is not part of the public API */
+interface FileExplorerView extends View {
+	revealInFolder?(file: TAbstractFile): void;
+}
+
+/**
+ * Serves `_obsidian/*` extension requests against the workspace.
+ */
+export class ObsidianExtensionHandler {
+	private logger: Logger;
+
+	/**
+	 * @param requestEditPermission - Checks a change to a note against the
+	 *   tab's permissions, asking the user if needed; true if allowed
+	 */
+	constructor(
+		private plugin: AgentClientPlugin,
+		private vaultFileManager: VaultFileManager,
+		private requestEditPermission: (
+			title: string,
+			path: string,
+		) => Promise<boolean>,
+	) {
+		this.logger = new Logger(plugin);
+	}
+
+	/**
+	 * Run an extension method.
+	 *
+	 * @throws acp.RequestError for unknown methods, bad params or missing files
+	 */
+	async handle(
+		method: string,
+		params: Record<string, unknown>,
+	): Promise<Record<string, unknown>> {
+		this.logger.log(`[ObsidianExtensionHandler] ${method}`, params);
+		switch (method) {
+			case OBSIDIAN_EXT_METHODS.openNote:
+				return await this.openNote(params);
+			case OBSIDIAN_EXT_METHODS.revealFile:
+				return this.revealFile(params);
+			case OBSIDIAN_EXT_METHODS.showNotice:
+				return this.showNotice(params);
+			case OBSIDIAN_EXT_METHODS.insertAtCursor:
+				return await this.insertAtCursor(params);
+			case OBSIDIAN_EXT_METHODS.getSelection:
+				return this.getSelection();
+			default:
+				throw acp.RequestError.methodNotFound(method);
+		}
+	}
+
+	private async openNote(
+		params: Record<string, unknown>,
+	): Promise<Record<string, unknown>> {
+		const file = this.resolveFile(params);
+		const line = optionalNumber(params, "line");
+		const newTab = params.newTab === true;
+
+		const leaf = this.plugin.app.workspace.getLeaf(newTab ? "tab" : false);
+		await leaf.openFile(file, {
+			active: true,
+			eState: line !== undefined ? { line: line - 1 } : undefined,
+		});
+
+		if (line !== undefined && leaf.view instanceof MarkdownView) {
+			const editor = leaf.view.editor;
+			const target = {
+				line: Math.min(Math.max(line - 1, 0), editor.lastLine()),
+				ch: 0,
+			};
+			editor.setCursor(target);
+			editor.scrollIntoView({ from: target, to: target }, true);
+		}
+		return { path: file.path };
+	}
+
+	private revealFile(
+		params: Record<string, unknown>,
+	): Record<string, unknown> {
+		const file = this.resolveFile(params);
+		const { workspace } = this.plugin.app;
+		const leaf = workspace.getLeavesOfType("file-explorer")[0];
+		const view = leaf?.view as FileExplorerView | undefined;
+		if (!leaf || typeof view?.revealInFolder !== "function") {
+			throw acp.RequestError.internalError(
+				{ path: file.path },
+				"The file explorer is not available",
+			);
+		}
+		void workspace.revealLeaf(leaf);
+		view.revealInFolder(file);
+		return { path: file.path };
+	}
+
+	private showNotice(
+		params: Record<string, unknown>,
+	): Record<string, unknown> {
+		const message = params.message;
+		if (typeof message !== "string" || !message.trim()) {
+			throw acp.RequestError.invalidParams(
+				{ message },
+				"message must be a non-empty string",
+			);
+		}
+		const durationMs = optionalNumber(params, "durationMs");
+		new Notice(
+			message,
+			durationMs !== undefined
+				? Math.min(Math.max(durationMs, 0), MAX_NOTICE_DURATION_MS)
+				: undefined,
+		);
+		return {};
+	}
+
+	private async insertAtCursor(
+		params: Record<string, unknown>,
+	): Promise<Record<string, unknown>> {
+		const text = params.text;
+		if (typeof text !== "string") {
+			throw acp.RequestError.invalidParams(
+				{ text },
+				"text must be a string",
+			);
+		}
+		const view = this.findEditorView();
+		if (!view?.file) {
+			throw acp.RequestError.invalidRequest(
+				undefined,
+				"No note is open in an editor",
+			);
+		}
+		const path = view.file.path;
+		const allowed = await this.requestEditPermission(
+			`Insert text at the cursor in ${path}`,
+			path,
+		);
+		if (!allowed) {
+			throw acp.RequestError.invalidRequest(
+				{ path },
+				"Permission denied: the text was not inserted",
+			);
+		}
+		if (view.file?.path !== path) {
+			throw acp.RequestError.invalidRequest(
+				{ path },
+				"The note was closed while waiting for permission",
+			);
+		}
+		// Replaces the selection if there is one, like typing would
+		view.editor.replaceSelection(text);
+		const cursor = view.editor.getCursor();
+		return { path: view.file.path, line: cursor.line + 1, ch: cursor.ch };
+	}
+
+	private getSelection(): Record<string, unknown> {
+		const view = this.findEditorView();
+		if (!view?.file) {
+			return { path: null, text: "", from: null, to: null };
+		}
+		const editor: Editor = view.editor;
+		const from = editor.getCursor("from");
+		const to = editor.getCursor("to");
+		return {
+			path: view.file.path,
+			text: editor.getSelection(),
+			from: { line: from.line + 1, ch: from.ch },
+			to: { line: to.line + 1, ch: to.ch },
+		};
+	}
+
+	/**
+	 * The note editor the user was last working in. While the chat view
+	 * has focus there is no active MarkdownView, so fall back to the
+	 * workspace's last active editor.
+	 */
+	private findEditorView(): MarkdownView | null {
+		const { workspace } = this.plugin.app;
+		const active = workspace.getActiveViewOfType(MarkdownView);
+		if (active) return active;
+		const recent = workspace.activeEditor;
+		if (recent instanceof MarkdownView) return recent;
+		const leaf = workspace.getMostRecentLeaf(workspace.rootSplit);
+		return leaf?.view instanceof MarkdownView ? leaf.view : null;
+	}
+
+	/**
+	 * Resolve a `path` param (absolute inside the vault, or vault-relative)
+	 * to a vault file.
+	 *
+	 * @throws acp.RequestError if the path is missing, outside the vault or not a file
+	 */
+	private resolveFile(params: Record<string, unknown>): TFile {
+		const path = params.path;
+		if (typeof path !== "string" || !path.trim()) {
+			throw acp.RequestError.invalidParams(
+				{ path },
+				"path must be a non-empty string",
+			);
+		}
+		const isAbsolute = /^(?:\/|[A-Za-z]:[\\/]|\\\\)/.test(path);
+		const vaultPath = isAbsolute
+			? this.vaultFileManager.toVaultPath(path)
+			: normalizePath(path);
+		if (vaultPath === null) {
+			throw acp.RequestError.invalidParams(
+				{ path },
+				"Path is outside the vault",
+			);
+		}
+		const file = this.plugin.app.vault.getAbstractFileByPath(vaultPath);
+		if (!(file instanceof TFile)) {
+			throw acp.RequestError.resourceNotFound(path);
+		}
+		return file;
+	}
+}
+
+/**
+ * Read an optional numeric param.
+ *
+ * @throws acp.RequestError if the param is present but not a finite number
+ */
+function optionalNumber(
+	params: Record<string, unknown>,
+	key: string,
+): number | undefined {
+	const value = params[key];
+	if (value === undefined || value === null) return undefined;
+	if (typeof value !== "number" || !Number.isFinite(value)) {
+		throw acp.RequestError.invalidParams(
+			{ [key]: value },
+			`${key} must be a number`,
+		);
+	}
+	return value;
+}
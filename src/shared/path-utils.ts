@@ -61,3 +61,114 @@ export function buildFileUri(absolutePath: string): string {
 	// Unix path (e.g., /Users/...)
 	return `file://${normalizedPath}`;
 }
+
+/**
+ * Convert a file:// URI back to an absolute path (inverse of buildFileUri).
+ *
+ * @param uri - URI to convert
+ * @returns Absolute path, or null if the URI is not a file URI
+ *
+ * @example
+ * fileUriToPath("file:///Users/user/my%20note.md") // "/Users/user/my note.md"
+ * fileUriToPath("file:///C:/Users/user/note.md") // "C:/Users/user/note.md"
+ */
+export function fileUriToPath(uri: string): string | null {
+	if (!uri.startsWith("file://")) {
+		return null;
+	}
+	let path = uri.slice("file://".length);
+	try {
+		path = decodeURIComponent(path);
+	} catch {
+		// Keep the raw path if it is not valid percent-encoding
+	}
+
+	// Windows drive path (e.g., /C:/Users/...)
+	if (/^\/[A-Za-z]:/.test(path)) {
+		return path.slice(1);
+	}
+	return path;
+}
+
+/**
+ * Resolve an absolute path to a vault-relative path.
+ * Returns null when the path is outside the vault or escapes it via "..".
+ *
+ * @param absolutePath - Absolute path supplied by the agent
+ * @param basePaths - Absolute vault roots to match against (e.g., native and WSL forms)
+ * @param caseInsensitive - Compare case-insensitively (Windows file systems)
+ * @returns Normalized vault-relative path ("" for the vault root), or null
+ *
+ * @example
+ * toVaultRelativePath("/vault/notes/a.md", ["/vault"]) // "notes/a.md"
+ * toVaultRelativePath("/vault/../etc/passwd", ["/vault"]) // null
+ */
+export function toVaultRelativePath(
+	absolutePath: string,
+	basePaths: string[],
+	caseInsensitive = false,
+): string | null {
+	const normalizedPath = absolutePath.replace(/\\/g, "/");
+
+	for (const basePath of basePaths) {
+		if (!basePath) continue;
+		const normalizedBase = basePath.replace(/\\/g, "/").replace(/\/+$/, "");
+		const comparePath = caseInsensitive
+			? normalizedPath.toLowerCase()
+			: normalizedPath;
+		const compareBase = caseInsensitive
+			? normalizedBase.toLowerCase()
+			: normalizedBase;
+
+		let remainder: string;
+		if (comparePath === compareBase) {
+			remainder = "";
+		} else if (comparePath.startsWith(compareBase + "/")) {
+			remainder = normalizedPath.slice(normalizedBase.length + 1);
+		} else {
+			continue;
+		}
+
+		// Resolve "." and ".." segments without leaving the vault root
+		const segments: string[] = [];
+		for (const segment of remainder.split("/")) {
+			if (segment === "" || segment === ".") continue;
+			if (segment === "..") {
+				if (segments.length === 0) return null;
+				segments.pop();
+				continue;
+			}
+			segments.push(segment);
+		}
+		return segments.join("/");
+	}
+
+	return null;
+}
+
+/**
+ * Whether a vault-relative path is off limits to agents: anything inside
+ * the config folder (plugin settings and code) or a hidden file or
+ * folder, and anything leaving the vault with "..".
+ *
+ * @param relativePath - Vault-relative path
+ * @param configDir - The vault's config folder (usually ".obsidian")
+ *
+ * @example
+ * isProtectedVaultPath(".obsidian/plugins/x/data.json", ".obsidian") // true
+ * isProtectedVaultPath("notes/.env", ".obsidian") // true
+ * isProtectedVaultPath("notes/a.md", ".obsidian") // false
+ */
+export function isProtectedVaultPath(
+	relativePath: string,
+	configDir: string,
+): boolean {
+	const path = relativePath.replace(/\\/g, "/").replace(/^\/+/, "");
+	const config = configDir.replace(/\\/g, "/").replace(/^\/+|\/+$/g, "");
+	if (config && (path === config || path.startsWith(config + "/"))) {
+		return true;
+	}
+	return path
+		.split("/")
+		.some((segment) => segment.startsWith(".") && segment !== ".");
+}
@@ -0,0 +1,309 @@
+import type { ToolKind } from "../domain/models/chat-message";
+import type {
+	PermissionGrant,
+	PermissionRequestFacts,
+	PermissionRule,
+	PermissionRuleAction,
+} from "../domain/models/permission-rule";
+import type { ProfilePermissionPolicy } from "../domain/models/agent-profile";
+
+/**
+ * Permission rule engine. Pure functions — no Obsidian or ACP dependencies.
+ *
+ * Rules are evaluated in order and the first enabled match wins.
+ * Title patterns are case-insensitive and `*` spans any characters.
+ * Path patterns follow the usual glob rules (`*` stays within one folder,
+ * `**` spans folders, a glob without `/` matches file names anywhere);
+ * a pattern without wildcards matches the path itself and everything
+ * beneath it, so `Projects` and `Projects/` both cover `Projects/a.md`.
+ *
+ * Grants (remembered always-allow/reject choices) match exactly on agent,
+ * tool kind, title and location paths.
+ */
+
+/** Minimal option shape shared by ACP and domain permission options */
+interface SelectableOption {
+	optionId: string;
+	name: string;
+	kind?: string | null;
+}
+
+const GLOB_CHARS = /[*?]/;
+
+/** Every ACP tool kind, in display order */
+export const TOOL_KINDS: ToolKind[] = [
+	"read",
+	"edit",
+	"delete",
+	"move",
+	"search",
+	"execute",
+	"think",
+	"fetch",
+	"switch_mode",
+	"other",
+];
+
+/**
+ * Convert a glob pattern to an anchored regular expression.
+ *
+ * @param pattern - Glob (no leading `!`)
+ * @param crossSlash - Whether a single `*` may match `/`
+ * @param caseInsensitive - Compare case-insensitively
+ */
+export function globToRegExp(
+	pattern: string,
+	crossSlash: boolean,
+	caseInsensitive: boolean,
+): RegExp {
+	let source = "";
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+		if (char === "*") {
+			if (pattern[i + 1] === "*") {
+				i++;
+				if (pattern[i + 1] === "/") {
+					// "**/" matches zero or more whole folders
+					source += "(?:.*/)?";
+					i++;
+				} else {
+					source += ".*";
+				}
+			} else {
+				source += crossSlash ? ".*" : "[^/]*";
+			}
+		} else if (char === "?") {
+			source += crossSlash ? "." : "[^/]";
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		}
+	}
+	return new RegExp(`^${source}$`, caseInsensitive ? "i" : "");
+}
+
+/**
+ * Test a path against a path pattern (supports `!` negation).
+ */
+export function matchesPathPattern(
+	path: string,
+	pattern: string,
+	caseInsensitive: boolean,
+): boolean {
+	const negated = pattern.startsWith("!");
+	let glob = (negated ? pattern.slice(1) : pattern)
+		.trim()
+		.replace(/\\/g, "/");
+	const normalizedPath = path.replace(/\\/g, "/");
+
+	if (glob.endsWith("/")) {
+		glob += "**";
+	}
+
+	let matched: boolean;
+	if (!GLOB_CHARS.test(glob)) {
+		// Plain path: the path itself or anything beneath it
+		const comparePath = caseInsensitive
+			? normalizedPath.toLowerCase()
+			: normalizedPath;
+		const compareBase = caseInsensitive ? glob.toLowerCase() : glob;
+		matched =
+			comparePath === compareBase ||
+			comparePath.startsWith(compareBase + "/");
+	} else {
+		// Like .gitignore, a glob without "/" matches the file name anywhere
+		const subject = glob.includes("/")
+			? normalizedPath
+			: (normalizedPath.split("/").pop() ?? "");
+		matched = globToRegExp(glob, false, caseInsensitive).test(subject);
+	}
+	return negated ? !matched : matched;
+}
+
+/**
+ * Test a tool title against a title pattern (supports `!` negation).
+ * A pattern without wildcards matches titles containing it.
+ */
+export function matchesTitlePattern(title: string, pattern: string): boolean {
+	const negated = pattern.startsWith("!");
+	const glob = (negated ? pattern.slice(1) : pattern).trim();
+	const matched = GLOB_CHARS.test(glob)
+		? globToRegExp(glob, true, true).test(title)
+		: title.toLowerCase().includes(glob.toLowerCase());
+	return negated ? !matched : matched;
+}
+
+/**
+ * Whether a single rule matches a request.
+ *
+ * With several locations, an allow rule needs every path to match, while
+ * reject and ask rules need only one — so a multi-file request is never
+ * auto-allowed because one of its files looked safe.
+ */
+export function ruleMatches(
+	rule: PermissionRule,
+	facts: PermissionRequestFacts,
+	caseInsensitivePaths: boolean,
+): boolean {
+	if (!rule.enabled) return false;
+	if (rule.agentIds.length > 0 && !rule.agentIds.includes(facts.agentId)) {
+		return false;
+	}
+	if (
+		rule.kinds.length > 0 &&
+		(!facts.kind || !rule.kinds.includes(facts.kind))
+	) {
+		return false;
+	}
+	if (
+		rule.titlePattern.trim() &&
+		!matchesTitlePattern(facts.title ?? "", rule.titlePattern)
+	) {
+		return false;
+	}
+	if (rule.pathPattern.trim()) {
+		if (facts.paths.length === 0) return false;
+		const test = (path: string) =>
+			matchesPathPattern(path, rule.pathPattern, caseInsensitivePaths);
+		const pathsMatch =
+			rule.action === "allow"
+				? facts.paths.every(test)
+				: facts.paths.some(test);
+		if (!pathsMatch) return false;
+	}
+	return true;
+}
+
+/**
+ * Find the first enabled rule matching a request.
+ *
+ * @returns Matching rule, or null if none matches (the user is asked)
+ */
+export function findMatchingPermissionRule(
+	rules: PermissionRule[],
+	facts: PermissionRequestFacts,
+	caseInsensitivePaths = false,
+): PermissionRule | null {
+	return (
+		rules.find((rule) => ruleMatches(rule, facts, caseInsensitivePaths)) ??
+		null
+	);
+}
+
+/**
+ * Location paths as stored in a grant: unique and sorted.
+ */
+export function toGrantPaths(paths: string[]): string[] {
+	return Array.from(new Set(paths)).sort();
+}
+
+/**
+ * Find the remembered grant for a request's tool signature.
+ *
+ * @returns Matching grant, or null if the user never chose "always"
+ */
+export function findPermissionGrant(
+	grants: PermissionGrant[],
+	facts: PermissionRequestFacts,
+): PermissionGrant | null {
+	const paths = toGrantPaths(facts.paths).join("\n");
+	return (
+		grants.find(
+			(grant) =>
+				grant.agentId === facts.agentId &&
+				grant.kind === facts.kind &&
+				grant.title === (facts.title ?? "").trim() &&
+				grant.paths.join("\n") === paths,
+		) ?? null
+	);
+}
+
+/**
+ * Pick the agent option that carries out a rule action.
+ * Rules prefer one-time options so the agent does not cache the decision
+ * and the rule stays the source of truth; grants prefer the "always"
+ * option the user originally picked.
+ *
+ * @returns Option to select, or undefined if the agent offered none
+ */
+export function selectOptionForAction<T extends SelectableOption>(
+	options: T[],
+	action: Exclude<PermissionRuleAction, "ask">,
+	prefer: "once" | "always" = "once",
+): T | undefined {
+	const [once, always, keyword] =
+		action === "allow"
+			? ["allow_once", "allow_always", "allow"]
+			: ["reject_once", "reject_always", "reject"];
+	const [first, second] = prefer === "once" ? [once, always] : [always, once];
+	return (
+		options.find((option) => option.kind === first) ??
+		options.find((option) => option.kind === second) ??
+		options.find(
+			(option) =>
+				!option.kind && option.name.toLowerCase().includes(keyword),
+		)
+	);
+}
+
+/**
+ * One-line summary of a rule, e.g. `Allow read, search · path Projects/**`.
+ */
+export function describePermissionRule(rule: PermissionRule): string {
+	const action =
+		rule.action === "allow"
+			? "Allow"
+			: rule.action === "reject"
+				? "Reject"
+				: "Ask";
+	const parts = [
+		`${action} ${rule.kinds.length > 0 ? rule.kinds.join(", ") : "any tool"}`,
+	];
+	if (rule.agentIds.length > 0) {
+		parts.push(`agents ${rule.agentIds.join(", ")}`);
+	}
+	if (rule.titlePattern.trim()) {
+		parts.push(`title ${rule.titlePattern.trim()}`);
+	}
+	if (rule.pathPattern.trim()) {
+		parts.push(`path ${rule.pathPattern.trim()}`);
+	}
+	return parts.join(" · ");
+}
+
+/**
+ * Rules carrying out a profile's permission policy. They are checked
+ * before remembered grants and the user's rules, so a read-only profile
+ * stays read-only; requests they don't match fall through as usual.
+ * Read-only matches every request: kinds it doesn't know to be harmless
+ * (fetch, other, none) are always shown to the user.
+ */
+export function getProfilePermissionRules(
+	policy: ProfilePermissionPolicy,
+): PermissionRule[] {
+	const rule = (
+		action: PermissionRuleAction,
+		kinds: ToolKind[],
+	): PermissionRule => ({
+		id: `profile:${policy}:${action}`,
+		enabled: true,
+		action,
+		agentIds: [],
+		kinds,
+		titlePattern: "",
+		pathPattern: "",
+	});
+	switch (policy) {
+		case "rules":
+			return [];
+		case "ask":
+			return [rule("ask", [])];
+		case "read-only":
+			return [
+				rule("allow", ["read", "search", "think"]),
+				rule("reject", ["edit", "delete", "move", "execute"]),
+				rule("ask", []),
+			];
+		case "auto-edits":
+			return [rule("allow", ["read", "search", "think", "edit", "move"])];
+	}
+}
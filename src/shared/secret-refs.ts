@@ -0,0 +1,331 @@
+import type { AgentClientPluginSettings } from "../plugin";
+import type {
+	AgentEnvVar,
+	McpServerSettings,
+} from "../domain/models/agent-config";
+
+/**
+ * Secret references in settings. Pure — no Obsidian dependencies; the
+ * values come from the secret store (ISecretStore).
+ *
+ * A credential in settings is either plain text or contains references
+ * like `${secret:openai}`, which are replaced by the stored value when an
+ * agent starts. Export and import only ever carry the references.
+ */
+
+/** Valid secret names: lowercase letters and digits, separated by dashes */
+export const SECRET_NAME_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+const SECRET_REF_PATTERN = /\$\{secret:([^}]*)\}/g;
+
+const VARIABLE_PATTERN = /\$\{[^}]*\}/g;
+
+/** `?name=value` / `&name=value` in a URL */
+const QUERY_PARAM_PATTERN = /([?&])([^=&#]+)=([^&#]*)/g;
+
+/** A command-line flag without a value, e.g. `--verbose` or `-y` */
+const FLAG_PATTERN = /^--?[A-Za-z0-9][\w.-]*$/;
+
+/** Env var and header names whose values are credentials */
+const SENSITIVE_NAME_PATTERN =
+	/(^|[_-])(api[_-]?key|key|token|pat|secret|password|passwd|auth|authorization|credentials?|cookie)($|[_-])/i;
+
+/**
+ * Argument flags whose values are credentials. Whole names only, so
+ * `--token-limit` or `--key-file` don't count.
+ */
+const SENSITIVE_FLAG_PATTERN =
+	/^(api[_-]?key|(auth|access|bearer|api)[_-]?token|token|pat|(client[_-]?)?secret|password|passwd|auth|authorization|credentials?|cookie)$/i;
+
+/**
+ * A settings value that holds a credential.
+ */
+export interface SecretField {
+	/** Suggested secret name when moving the value to the store */
+	name: string;
+	/** Where the value is set, e.g. "Claude Agent: ANTHROPIC_API_KEY" */
+	label: string;
+	value: string;
+	set: (value: string) => void;
+}
+
+export function toSecretRef(name: string): string {
+	return `\${secret:${name}}`;
+}
+
+/**
+ * Names referenced in a value, in order of appearance.
+ */
+export function findSecretRefs(value: string): string[] {
+	return Array.from(value.matchAll(SECRET_REF_PATTERN), (match) =>
+		match[1].trim(),
+	);
+}
+
+/**
+ * Whether a credential value is plain text (set, without references).
+ */
+export function isPlaintextSecret(value: string): boolean {
+	return value.trim() !== "" && findSecretRefs(value).length === 0;
+}
+
+export function isSensitiveName(name: string): boolean {
+	return SENSITIVE_NAME_PATTERN.test(name);
+}
+
+/**
+ * Whether a value is made only of variables like `${secret:name}` or
+ * `${env:HOME}` (or is empty), so it can't hold a credential itself.
+ */
+export function isOnlyVariables(value: string): boolean {
+	return value.replace(VARIABLE_PATTERN, "").trim() === "";
+}
+
+/**
+ * Turn a label like "claude-code-acp ANTHROPIC_API_KEY" into a valid
+ * secret name ("claude-code-acp-anthropic-api-key").
+ */
+export function toSecretName(label: string): string {
+	return (
+		label
+			.toLowerCase()
+			.replace(/[^a-z0-9]+/g, "-")
+			.replace(/^-+|-+$/g, "") || "secret"
+	);
+}
+
+/**
+ * Replace every `${secret:name}` in a value.
+ * Throws if a referenced secret isn't set (or the store is locked), so
+ * an agent never starts with a broken credential.
+ *
+ * @param value - Settings value
+ * @param getSecret - Secret lookup (null = not available)
+ */
+export function resolveSecretRefs(
+	value: string,
+	getSecret: (name: string) => string | null,
+): string {
+	return value.replace(SECRET_REF_PATTERN, (_match, rawName: string) => {
+		const name = rawName.trim();
+		const secret = getSecret(name);
+		if (secret === null) {
+			throw new Error(
+				`Secret "${name}" is not available. Add it in Settings → AI Tools → Secrets, or unlock the secret storage.`,
+			);
+		}
+		return secret;
+	});
+}
+
+/**
+ * Every credential in the settings: API keys; env vars, HTTP headers and
+ * URL query parameters with credential-like names; and arguments such as
+ * `--api-key=...` or the one after `--token`. Setters write into the
+ * given settings object.
+ */
+export function collectSecretFields(
+	settings: AgentClientPluginSettings,
+): SecretField[] {
+	const fields: SecretField[] = [
+		{
+			name: "api-key",
+			label: "Global API key",
+			value: settings.apiKey,
+			set: (value) => {
+				settings.apiKey = value;
+			},
+		},
+	];
+
+	for (const [agentId, credentials] of Object.entries(
+		settings.agentCredentials,
+	)) {
+		fields.push({
+			name: toSecretName(`${agentId} api key`),
+			label: `${agentId}: API key`,
+			value: credentials.apiKey,
+			set: (value) => {
+				credentials.apiKey = value;
+			},
+		});
+	}
+
+	const addEntries = (prefix: string, label: string, list: AgentEnvVar[]) => {
+		for (const entry of list) {
+			if (!isSensitiveName(entry.key)) continue;
+			fields.push({
+				name: toSecretName(`${prefix} ${entry.key}`),
+				label: `${label}: ${entry.key}`,
+				value: entry.value,
+				set: (value) => {
+					entry.value = value;
+				},
+			});
+		}
+	};
+	const addArgs = (prefix: string, label: string, args: string[]) => {
+		args.forEach((arg, index) => {
+			const flag = getSensitiveFlag(args, index);
+			if (!flag) return;
+			const inline = arg.startsWith(`${flag}=`);
+			fields.push({
+				name: toSecretName(`${prefix} ${flag}`),
+				label: `${label}: ${flag}`,
+				value: inline ? arg.slice(flag.length + 1) : arg,
+				set: (value) => {
+					args[index] = inline ? `${flag}=${value}` : value;
+				},
+			});
+		});
+	};
+	for (const agent of [
+		settings.claude,
+		settings.codex,
+		settings.gemini,
+		...settings.customAgents,
+	]) {
+		const label = agent.displayName || agent.id;
+		addEntries(agent.id, label, agent.env);
+		addArgs(agent.id, label, agent.args);
+	}
+	for (const server of settings.mcpServers) {
+		addEntries(`mcp ${server.name}`, server.name, server.env);
+		addEntries(`mcp ${server.name}`, server.name, server.headers);
+		addArgs(`mcp ${server.name}`, server.name, server.args);
+		addQueryParams(fields, server);
+	}
+	return fields;
+}
+
+/**
+ * The credential-like flag an argument is the value of: its own
+ * `--api-key=` prefix, or the `--token` before it.
+ */
+function getSensitiveFlag(args: string[], index: number): string | null {
+	const inline = args[index].match(/^(--?[^=\s]+)=/);
+	const previous = index > 0 ? args[index - 1] : "";
+	const flag = inline
+		? inline[1]
+		: FLAG_PATTERN.test(previous)
+			? previous
+			: null;
+	return flag && SENSITIVE_FLAG_PATTERN.test(flag.replace(/^-+/, ""))
+		? flag
+		: null;
+}
+
+function addQueryParams(fields: SecretField[], server: McpServerSettings) {
+	for (const [, , param, value] of server.url.matchAll(QUERY_PARAM_PATTERN)) {
+		if (!isSensitiveName(param)) continue;
+		fields.push({
+			name: toSecretName(`mcp ${server.name} ${param}`),
+			label: `${server.name}: URL parameter ${param}`,
+			value,
+			set: (next) => {
+				server.url = server.url.replace(
+					QUERY_PARAM_PATTERN,
+					(match, separator: string, name: string) =>
+						name === param ? `${separator}${name}=${next}` : match,
+				);
+			},
+		});
+	}
+}
+
+/**
+ * Values that may hold a credential under a name that doesn't look like
+ * one (`GITHUB_PAT`, `--pat=...`, `?sig=...`): env vars, headers,
+ * arguments other than plain flags, and URL query strings of agents and
+ * MCP servers, unless they are made only of variables. Export lists them
+ * so the user decides whether they go along. Credentials found by
+ * collectSecretFields are not repeated.
+ */
+export function collectUncheckedValues(
+	settings: AgentClientPluginSettings,
+): SecretField[] {
+	const fields: SecretField[] = [];
+	const known = new Set(
+		collectSecretFields(settings).map((field) => field.label),
+	);
+	const add = (label: string, value: string, set: (v: string) => void) => {
+		if (known.has(label) || isOnlyVariables(value)) return;
+		fields.push({ name: toSecretName(label), label, value, set });
+	};
+	const addLists = (
+		label: string,
+		args: string[],
+		entries: AgentEnvVar[],
+	) => {
+		args.forEach((arg, index) => {
+			if (FLAG_PATTERN.test(arg) || getSensitiveFlag(args, index)) {
+				return;
+			}
+			add(`${label}: argument ${index + 1}`, arg, (value) => {
+				args[index] = value;
+			});
+		});
+		for (const entry of entries) {
+			add(`${label}: ${entry.key}`, entry.value, (value) => {
+				entry.value = value;
+			});
+		}
+	};
+
+	for (const agent of [
+		settings.claude,
+		settings.codex,
+		settings.gemini,
+		...settings.customAgents,
+	]) {
+		addLists(agent.displayName || agent.id, agent.args, agent.env);
+	}
+	for (const server of settings.mcpServers) {
+		addLists(server.name, server.args, [...server.env, ...server.headers]);
+		// Credential-named parameters are collectSecretFields' business
+		const queryStart = server.url.indexOf("?");
+		if (queryStart < 0) continue;
+		const base = server.url.slice(0, queryStart);
+		const params = server.url
+			.slice(queryStart + 1)
+			.split("&")
+			.filter((part) => part !== "");
+		const isSensitive = (part: string) =>
+			isSensitiveName(part.split("=", 1)[0]);
+		const plain = params.filter((part) => !isSensitive(part));
+		if (
+			plain.every((part) =>
+				isOnlyVariables(part.slice(part.indexOf("=") + 1)),
+			)
+		) {
+			continue;
+		}
+		fields.push({
+			name: toSecretName(`mcp ${server.name} query`),
+			label: `${server.name}: URL query`,
+			value: plain.join("&"),
+			set: (value) => {
+				const kept = params.filter(isSensitive);
+				if (value) kept.push(value);
+				server.url =
+					kept.length > 0 ? `${base}?${kept.join("&")}` : base;
+			},
+		});
+	}
+	return fields;
+}
+
+/**
+ * Names of all secrets the settings reference.
+ */
+export function getReferencedSecrets(
+	settings: AgentClientPluginSettings,
+): string[] {
+	const names = new Set<string>();
+	for (const field of collectSecretFields(settings)) {
+		for (const name of findSecretRefs(field.value)) {
+			names.add(name);
+		}
+	}
+	return Array.from(names).sort();
+}
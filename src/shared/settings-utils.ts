@@ -1,6 +1,27 @@
 import type { AgentEnvVar, CustomAgentSettings } from "../plugin";
-import type { BaseAgentSettings } from "../domain/models/agent-config";
-import type { AgentConfig } from "../domain/ports/agent-client.port";
+import type {
+	AgentCredentials,
+	AgentSessionDefaults,
+	AgentTransport,
+	BaseAgentSettings,
+	McpServerSettings,
+} from "../domain/models/agent-config";
+import type {
+	AgentConfig,
+	McpCapabilities,
+} from "../domain/ports/agent-client.port";
+import type {
+	PermissionGrant,
+	PermissionRule,
+} from "../domain/models/permission-rule";
+import type { AgentProfile } from "../domain/models/agent-profile";
+import { TOOL_KINDS, toGrantPaths } from "./permission-rules";
+import { resolveSecretRefs } from "./secret-refs";
+import {
+	interpolate,
+	loadDotEnvFile,
+	type InterpolationContext,
+} from "./variable-interpolation";
 
 export const sanitizeArgs = (value: unknown): string[] => {
 	if (Array.isArray(value)) {
@@ -87,9 +108,53 @@ export const normalizeCustomAgent = (
 				: "",
 		args: sanitizeArgs(agent?.args),
 		env: normalizeEnvVars(agent?.env),
+		envFile:
+			agent && typeof agent.envFile === "string"
+				? agent.envFile.trim()
+				: "",
+		transport:
+			agent?.transport === "websocket" || agent?.transport === "tcp"
+				? agent.transport
+				: "stdio",
+		endpoint:
+			agent && typeof agent.endpoint === "string"
+				? agent.endpoint.trim()
+				: "",
 	};
 };
 
+/**
+ * Check a custom agent's endpoint for its transport.
+ *
+ * @returns Problem description, or null if the endpoint is usable
+ */
+export const getAgentEndpointError = (
+	transport: AgentTransport,
+	endpoint: string,
+): string | null => {
+	if (transport === "stdio") {
+		return null;
+	}
+	if (!endpoint.trim()) {
+		return "Enter the agent's endpoint.";
+	}
+	let url: URL;
+	try {
+		url = new URL(endpoint.trim());
+	} catch {
+		return "Not a valid URL.";
+	}
+	if (transport === "websocket") {
+		return url.protocol === "ws:" || url.protocol === "wss:"
+			? null
+			: "WebSocket endpoints start with ws:// or wss://.";
+	}
+	if (url.protocol !== "tcp:") {
+		return "TCP endpoints look like tcp://host:port.";
+	}
+	return url.hostname && url.port ? null : "Include both host and port.";
+};
+
 // Ensure custom agent IDs are unique within the collection
 export const ensureUniqueCustomAgentIds = (
 	agents: CustomAgentSettings[],
@@ -111,35 +176,265 @@ export const ensureUniqueCustomAgentIds = (
 	});
 };
 
+// Rebuild an MCP server entry with defaults and cleaned values
+export const normalizeMcpServer = (
+	server: Record<string, unknown>,
+): McpServerSettings => {
+	const transport =
+		server.transport === "http" || server.transport === "sse"
+			? server.transport
+			: "stdio";
+	return {
+		id:
+			typeof server.id === "string" && server.id.length > 0
+				? server.id
+				: crypto.randomUUID(),
+		name:
+			typeof server.name === "string" && server.name.trim().length > 0
+				? server.name.trim()
+				: "mcp-server",
+		transport,
+		enabled: typeof server.enabled === "boolean" ? server.enabled : true,
+		agentIds: Array.isArray(server.agentIds)
+			? server.agentIds.filter(
+					(id): id is string =>
+						typeof id === "string" && id.length > 0,
+				)
+			: [],
+		command:
+			typeof server.command === "string" ? server.command.trim() : "",
+		args: sanitizeArgs(server.args),
+		env: normalizeEnvVars(server.env),
+		url: typeof server.url === "string" ? server.url.trim() : "",
+		headers: normalizeEnvVars(server.headers),
+	};
+};
+
+export const normalizePermissionRule = (
+	rule: Record<string, unknown>,
+): PermissionRule => {
+	const toStringList = (value: unknown): string[] =>
+		Array.isArray(value)
+			? value.filter(
+					(item): item is string =>
+						typeof item === "string" && item.length > 0,
+				)
+			: [];
+	return {
+		id:
+			typeof rule.id === "string" && rule.id.length > 0
+				? rule.id
+				: crypto.randomUUID(),
+		enabled: typeof rule.enabled === "boolean" ? rule.enabled : true,
+		action:
+			rule.action === "allow" || rule.action === "reject"
+				? rule.action
+				: "ask",
+		agentIds: toStringList(rule.agentIds),
+		kinds: TOOL_KINDS.filter((kind) =>
+			toStringList(rule.kinds).includes(kind),
+		),
+		titlePattern:
+			typeof rule.titlePattern === "string" ? rule.titlePattern : "",
+		pathPattern:
+			typeof rule.pathPattern === "string" ? rule.pathPattern.trim() : "",
+	};
+};
+
+export const normalizePermissionGrant = (
+	grant: Record<string, unknown>,
+): PermissionGrant | null => {
+	if (typeof grant.agentId !== "string" || grant.agentId.length === 0) {
+		return null;
+	}
+	if (grant.decision !== "allow" && grant.decision !== "reject") {
+		return null;
+	}
+	return {
+		id:
+			typeof grant.id === "string" && grant.id.length > 0
+				? grant.id
+				: crypto.randomUUID(),
+		agentId: grant.agentId,
+		kind: TOOL_KINDS.find((kind) => kind === grant.kind),
+		title: typeof grant.title === "string" ? grant.title : "",
+		paths: Array.isArray(grant.paths)
+			? toGrantPaths(
+					grant.paths.filter(
+						(path): path is string => typeof path === "string",
+					),
+				)
+			: [],
+		decision: grant.decision,
+		createdAt:
+			typeof grant.createdAt === "string"
+				? grant.createdAt
+				: new Date().toISOString(),
+		lastUsedAt:
+			typeof grant.lastUsedAt === "string" ? grant.lastUsedAt : undefined,
+	};
+};
+
+export const normalizeAgentProfile = (
+	profile: Record<string, unknown>,
+	fallbackAgentId: string,
+): AgentProfile => {
+	const toString = (value: unknown): string =>
+		typeof value === "string" ? value.trim() : "";
+	return {
+		id:
+			typeof profile.id === "string" && profile.id.length > 0
+				? profile.id
+				: crypto.randomUUID(),
+		name: toString(profile.name) || "Profile",
+		agentId: toString(profile.agentId) || fallbackAgentId,
+		modelId: toString(profile.modelId),
+		modeId: toString(profile.modeId),
+		preamble: typeof profile.preamble === "string" ? profile.preamble : "",
+		permissionPolicy:
+			profile.permissionPolicy === "ask" ||
+			profile.permissionPolicy === "read-only" ||
+			profile.permissionPolicy === "auto-edits"
+				? profile.permissionPolicy
+				: "rules",
+	};
+};
+
+export const normalizeSessionDefaults = (
+	value: unknown,
+): Record<string, AgentSessionDefaults> => {
+	if (typeof value !== "object" || value === null || Array.isArray(value)) {
+		return {};
+	}
+	const toString = (item: unknown): string =>
+		typeof item === "string" ? item.trim() : "";
+	const result: Record<string, AgentSessionDefaults> = {};
+	for (const [agentId, entry] of Object.entries(value)) {
+		if (typeof entry !== "object" || entry === null) continue;
+		const raw = entry as Record<string, unknown>;
+		result[agentId] = {
+			lastModelId: toString(raw.lastModelId),
+			lastModeId: toString(raw.lastModeId),
+			pinnedModelId: toString(raw.pinnedModelId),
+			pinnedModeId: toString(raw.pinnedModeId),
+		};
+	}
+	return result;
+};
+
+export const normalizeAgentCredentials = (
+	value: unknown,
+): Record<string, AgentCredentials> => {
+	if (typeof value !== "object" || value === null || Array.isArray(value)) {
+		return {};
+	}
+	const toString = (item: unknown): string =>
+		typeof item === "string" ? item.trim() : "";
+	const result: Record<string, AgentCredentials> = {};
+	for (const [agentId, entry] of Object.entries(value)) {
+		if (typeof entry !== "object" || entry === null) continue;
+		const raw = entry as Record<string, unknown>;
+		result[agentId] = {
+			apiKey: toString(raw.apiKey),
+			baseUrl: toString(raw.baseUrl).replace(/\/$/, ""),
+			model: toString(raw.model),
+			apiKeyEnv: toString(raw.apiKeyEnv),
+			baseUrlEnv: toString(raw.baseUrlEnv),
+			modelEnv: toString(raw.modelEnv),
+		};
+	}
+	return result;
+};
+
+/**
+ * Pick the MCP servers to pass to a given agent.
+ *
+ * Skips disabled entries, entries scoped to other agents, incomplete
+ * entries (no command / no URL), and HTTP/SSE servers the agent did not
+ * advertise support for in mcpCapabilities. Duplicate names keep the
+ * first entry, since agents key servers by name.
+ *
+ * @param servers - MCP servers from plugin settings
+ * @param agentId - Agent the session is being created for
+ * @param capabilities - MCP capabilities from the initialize response
+ * @returns Servers that the agent can use
+ */
+export const selectMcpServersForAgent = (
+	servers: McpServerSettings[],
+	agentId: string,
+	capabilities: McpCapabilities | undefined,
+): McpServerSettings[] => {
+	const seenNames = new Set<string>();
+	return servers.filter((server) => {
+		if (!server.enabled) return false;
+		if (server.agentIds.length > 0 && !server.agentIds.includes(agentId)) {
+			return false;
+		}
+		if (server.transport === "stdio" && !server.command) return false;
+		if (server.transport !== "stdio" && !server.url) return false;
+		if (server.transport === "http" && !capabilities?.http) return false;
+		if (server.transport === "sse" && !capabilities?.sse) return false;
+		if (seenNames.has(server.name)) return false;
+		seenNames.add(server.name);
+		return true;
+	});
+};
+
+/**
+ * Replace secret references in env var (or header) values.
+ * Throws if a referenced secret isn't available.
+ */
+export const resolveEnvVarSecrets = (
+	vars: AgentEnvVar[],
+	getSecret: (name: string) => string | null,
+): AgentEnvVar[] =>
+	vars.map(({ key, value }) => ({
+		key,
+		value: resolveSecretRefs(value, getSecret),
+	}));
+
 /**
  * Convert BaseAgentSettings to AgentConfig for process execution.
  *
  * Transforms the storage format (BaseAgentSettings) to the runtime format (AgentConfig)
- * needed by IAgentClient.initialize().
+ * needed by IAgentClient.initialize(). Variables in arguments and env var
+ * values (`${vault}`, `${secret:name}`, ...) are replaced here, right
+ * before spawning. The agent's env vars override its .env file.
  *
  * @param settings - Agent settings from plugin configuration
- * @param workingDirectory - Working directory for the agent session
+ * @param context - Variable values; `cwd` is the session's working directory
  * @returns AgentConfig ready for agent process spawning
  */
 export const toAgentConfig = (
 	settings: BaseAgentSettings,
-	workingDirectory: string,
+	context: InterpolationContext,
 ): AgentConfig => {
+	// Only custom agents can point at a running agent
+	const remote = settings as Partial<CustomAgentSettings>;
+	const transport = remote.transport ?? "stdio";
+
 	// Convert AgentEnvVar[] to Record<string, string> for process.spawn()
-	const env = settings.env.reduce(
-		(acc, { key, value }) => {
-			acc[key] = value;
-			return acc;
-		},
-		{} as Record<string, string>,
-	);
+	const env: Record<string, string> = {};
+	if (settings.envFile && transport === "stdio") {
+		for (const { key, value } of loadDotEnvFile(
+			settings.envFile,
+			context,
+		)) {
+			env[key] = value;
+		}
+	}
+	for (const { key, value } of settings.env) {
+		env[key] = interpolate(value, context);
+	}
 
 	return {
 		id: settings.id,
 		displayName: settings.displayName,
 		command: settings.command,
-		args: settings.args,
+		args: settings.args.map((arg) => interpolate(arg, context)),
 		env,
-		workingDirectory,
+		workingDirectory: context.cwd,
+		transport,
+		endpoint: transport === "stdio" ? undefined : remote.endpoint,
 	};
 };
@@ -0,0 +1,153 @@
+import type {
+	PromptStopReason,
+	SessionCost,
+	TokenUsage,
+} from "../domain/models/chat-message";
+import type { SessionUsage } from "../domain/models/chat-session";
+
+/**
+ * Token usage helpers for per-turn footers and cumulative session totals.
+ */
+
+/** Human-readable labels for prompt stop reasons */
+export const STOP_REASON_LABELS: Record<PromptStopReason, string> = {
+	end_turn: "Completed",
+	max_tokens: "Stopped at token limit",
+	max_turn_requests: "Stopped at request limit",
+	refusal: "Refused",
+	cancelled: "Cancelled",
+};
+
+/**
+ * Add two usage records. Optional counters stay undefined unless either
+ * side reports them.
+ */
+export function addTokenUsage(
+	total: TokenUsage | undefined,
+	turn: TokenUsage,
+): TokenUsage {
+	if (!total) {
+		return { ...turn };
+	}
+	const addOptional = (a?: number, b?: number): number | undefined =>
+		a === undefined && b === undefined ? undefined : (a ?? 0) + (b ?? 0);
+
+	return {
+		inputTokens: total.inputTokens + turn.inputTokens,
+		outputTokens: total.outputTokens + turn.outputTokens,
+		totalTokens: total.totalTokens + turn.totalTokens,
+		thoughtTokens: addOptional(total.thoughtTokens, turn.thoughtTokens),
+		cachedReadTokens: addOptional(
+			total.cachedReadTokens,
+			turn.cachedReadTokens,
+		),
+		cachedWriteTokens: addOptional(
+			total.cachedWriteTokens,
+			turn.cachedWriteTokens,
+		),
+	};
+}
+
+/**
+ * Rough token cost of one image; the real cost depends on its dimensions
+ * and the model.
+ */
+export const IMAGE_TOKEN_ESTIMATE = 1600;
+
+/**
+ * Estimate tokens for text before sending (about 4 characters per token
+ * for English prose; code and other languages run higher).
+ */
+export function estimateTokens(chars: number): number {
+	return Math.ceil(chars / 4);
+}
+
+/**
+ * Format a token count compactly (e.g., 950, 12.3k, 1.2M).
+ */
+export function formatTokenCount(count: number): string {
+	if (count < 1000) return String(count);
+	if (count < 1_000_000) {
+		return `${(count / 1000).toFixed(count < 10_000 ? 1 : 0)}k`;
+	}
+	return `${(count / 1_000_000).toFixed(1)}M`;
+}
+
+/**
+ * Summarise usage as short parts, e.g. ["1.2k in", "340 out", "cached 900"].
+ */
+export function describeTokenUsage(usage: TokenUsage): string[] {
+	const parts = [
+		`${formatTokenCount(usage.inputTokens)} in`,
+		`${formatTokenCount(usage.outputTokens)} out`,
+	];
+	if (usage.thoughtTokens) {
+		parts.push(`${formatTokenCount(usage.thoughtTokens)} thinking`);
+	}
+	if (usage.cachedReadTokens) {
+		parts.push(`${formatTokenCount(usage.cachedReadTokens)} cached`);
+	}
+	return parts;
+}
+
+/**
+ * Format a cost in its currency, e.g. "$0.42" (small amounts keep up to
+ * four decimals).
+ */
+export function formatCost(cost: SessionCost): string {
+	try {
+		return new Intl.NumberFormat(undefined, {
+			style: "currency",
+			currency: cost.currency,
+			maximumFractionDigits: cost.amount < 1 ? 4 : 2,
+		}).format(cost.amount);
+	} catch {
+		// Unknown currency code
+		return `${cost.amount.toFixed(2)} ${cost.currency}`;
+	}
+}
+
+/**
+ * Summarise a chat's totals for the header.
+ *
+ * @param tokens - Token usage summed over the chat's turns
+ * @param usage - Context use and cost from the latest usage_update
+ * @param savedCost - Cost saved with the session, used until the agent
+ *   reports one
+ * @returns Short summary (e.g. "12.3k tokens · $0.42") and a longer
+ *   description for the tooltip, or null if there is nothing to show
+ */
+export function describeSessionTotals(
+	tokens: TokenUsage | undefined,
+	usage: SessionUsage | undefined,
+	savedCost: SessionCost | undefined,
+): { summary: string; details: string } | null {
+	const cost = usage?.cost ?? savedCost;
+	const summary: string[] = [];
+	const details: string[] = [];
+	if (tokens) {
+		summary.push(`${formatTokenCount(tokens.totalTokens)} tokens`);
+		details.push(
+			`Tokens in this chat: ${describeTokenUsage(tokens).join(", ")}`,
+		);
+	}
+	if (cost) {
+		summary.push(formatCost(cost));
+		details.push(`Cost so far: ${formatCost(cost)}`);
+	}
+	if (usage && usage.size > 0) {
+		details.push(
+			`Context: ${formatTokenCount(usage.used)} of ${formatTokenCount(usage.size)}`,
+		);
+	}
+	if (summary.length === 0 && details.length === 0) {
+		return null;
+	}
+	return {
+		summary:
+			summary.length > 0
+				? summary.join(" · ")
+				: `${formatTokenCount(usage?.used ?? 0)} in context`,
+		details: details.join("\n"),
+	};
+}
@@ -0,0 +1,142 @@
+import { readFileSync } from "fs";
+import { isAbsolute, join } from "path";
+import type { AgentEnvVar } from "../domain/models/agent-config";
+import { resolveSecretRefs } from "./secret-refs";
+
+/**
+ * Variables in agent arguments, env vars and .env files.
+ *
+ * - `${vault}`: Vault folder
+ * - `${cwd}`: Working directory of the session
+ * - `${activeNote}`: Absolute path of the active note ("" if none)
+ * - `${env:NAME}`: Variable from Obsidian's environment ("" if unset)
+ * - `${secret:name}`: Value from secret storage
+ *
+ * Anything else in `${...}` is left as written, so shell-style
+ * references still reach the agent untouched.
+ */
+
+export interface InterpolationContext {
+	vault: string;
+	cwd: string;
+	/** Absolute path of the active note ("" = none) */
+	activeNote: string;
+	/** Environment for `${env:NAME}`, usually process.env */
+	env: Record<string, string | undefined>;
+	/** Secret lookup (null = not available) */
+	getSecret: (name: string) => string | null;
+}
+
+const VARIABLE_PATTERN = /\$\{([^}]*)\}/g;
+
+/**
+ * Context for a vault, with Obsidian's own environment.
+ *
+ * @param vault - Vault folder
+ * @param cwd - Session working directory
+ * @param activeNotePath - Vault-relative path of the active note, if any
+ * @param getSecret - Secret lookup
+ */
+export function createInterpolationContext(
+	vault: string,
+	cwd: string,
+	activeNotePath: string | null,
+	getSecret: (name: string) => string | null,
+): InterpolationContext {
+	return {
+		vault,
+		cwd,
+		activeNote: activeNotePath ? join(vault, activeNotePath) : "",
+		env: process.env,
+		getSecret,
+	};
+}
+
+/**
+ * Replace every variable in a value.
+ * Throws if a referenced secret isn't available.
+ */
+export function interpolate(
+	value: string,
+	context: InterpolationContext,
+): string {
+	return value.replace(VARIABLE_PATTERN, (match, rawName: string) => {
+		const name = rawName.trim();
+		if (name === "vault") return context.vault;
+		if (name === "cwd") return context.cwd;
+		if (name === "activeNote") return context.activeNote;
+		if (name.startsWith("env:")) {
+			return context.env[name.slice(4).trim()] ?? "";
+		}
+		if (name.startsWith("secret:")) {
+			return resolveSecretRefs(match, context.getSecret);
+		}
+		return match;
+	});
+}
+
+/**
+ * Parse .env file contents: `KEY=VALUE` lines, with optional `export`,
+ * quotes and `#` comments. Double-quoted values understand `\n`.
+ */
+export function parseDotEnv(text: string): AgentEnvVar[] {
+	const vars: AgentEnvVar[] = [];
+	for (const rawLine of text.split(/\r?\n/)) {
+		const line = rawLine.trim();
+		if (!line || line.startsWith("#")) continue;
+		const match = line.match(
+			/^(?:export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*=\s*(.*)$/,
+		);
+		if (!match) continue;
+		let value = match[2];
+		const quote = value[0];
+		if ((quote === '"' || quote === "'") && value.indexOf(quote, 1) > 0) {
+			value = value.slice(1, value.indexOf(quote, 1));
+			if (quote === '"') value = value.replace(/\\n/g, "\n");
+		} else {
+			// Unquoted: a comment starts at " #"
+			value = value.replace(/\s+#.*$/, "").trim();
+		}
+		vars.push({ key: match[1], value });
+	}
+	return vars;
+}
+
+/**
+ * Read an agent's .env file, with variables in its path and values
+ * replaced. Relative paths start at the vault.
+ * Throws if the file can't be read.
+ *
+ * @param path - .env file path as set in settings
+ * @param context - Variable values
+ */
+export function loadDotEnvFile(
+	path: string,
+	context: InterpolationContext,
+): AgentEnvVar[] {
+	const resolved = interpolate(path, context);
+	const fullPath = isAbsolute(resolved)
+		? resolved
+		: join(context.vault, resolved);
+	let text: string;
+	try {
+		text = readFileSync(fullPath, "utf8");
+	} catch (error) {
+		throw new Error(
+			`Could not read .env file "${fullPath}": ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+	return parseDotEnv(text).map(({ key, value }) => ({
+		key,
+		value: interpolate(value, context),
+	}));
+}
+
+/**
+ * Quote an argument for display when it contains spaces or quotes.
+ */
+export function quoteArg(arg: string): string {
+	return /^[\w@%+=:,./~-]+$/.test(arg)
+		? arg
+		: `"${arg.replace(/(["\\$`])/g, "\\$1")}"`;
+}
@@ -0,0 +1,240 @@
+import * as acp from "@agentclientprotocol/sdk";
+import {
+	MarkdownView,
+	Platform,
+	TFile,
+	TFolder,
+	normalizePath,
+} from "obsidian";
+import type AgentClientPlugin from "../plugin";
+import { Logger } from "./logger";
+import { isProtectedVaultPath, toVaultRelativePath } from "./path-utils";
+import { convertWindowsPathToWsl } from "./wsl-utils";
+
+/**
+ * Serves ACP fs/read_text_file and fs/write_text_file requests from the vault.
+ * Also used by the diff review UI to apply accepted changes.
+ *
+ * Reads prefer the live editor buffer so agents see unsaved edits.
+ * Writes go through the editor (when the note is open) or the Vault API,
+ * so changes land in Obsidian's undo history and fire vault events.
+ * Paths outside the vault, in the config folder or in hidden files and
+ * folders are rejected.
+ */
+export class VaultFileManager {
+	private logger: Logger;
+
+	constructor(private plugin: AgentClientPlugin) {
+		this.logger = new Logger(plugin);
+	}
+
+	async readTextFile(
+		params: acp.ReadTextFileRequest,
+	): Promise<acp.ReadTextFileResponse> {
+		const content = await this.readFile(params.path);
+		if (content === null) {
+			throw acp.RequestError.resourceNotFound(params.path);
+		}
+		this.logger.log(
+			`[VaultFileManager] read ${params.path} (line: ${params.line ?? "-"}, limit: ${params.limit ?? "-"})`,
+		);
+		return { content: sliceLines(content, params.line, params.limit) };
+	}
+
+	async writeTextFile(
+		params: acp.WriteTextFileRequest,
+	): Promise<acp.WriteTextFileResponse> {
+		await this.writeFile(params.path, params.content);
+		return {};
+	}
+
+	/**
+	 * Read a vault file by absolute path, preferring the open editor buffer.
+	 *
+	 * @param path - Absolute path (native or WSL form)
+	 * @returns File content, or null if the file does not exist
+	 * @throws acp.RequestError if the path is outside the vault, protected
+	 * or a folder
+	 */
+	async readFile(path: string): Promise<string | null> {
+		const relativePath = this.resolvePath(path);
+		const { vault } = this.plugin.app;
+
+		const file = vault.getAbstractFileByPath(relativePath);
+		if (file instanceof TFile) {
+			const view = this.findOpenView(file.path);
+			return view ? view.editor.getValue() : await vault.read(file);
+		}
+		if (file instanceof TFolder) {
+			throw acp.RequestError.invalidParams({ path }, "Path is a folder");
+		}
+		return null;
+	}
+
+	/**
+	 * Write a vault file by absolute path, creating it (and parent folders)
+	 * if needed. Open notes are edited through the editor.
+	 *
+	 * @param path - Absolute path (native or WSL form)
+	 * @param content - Full new file content
+	 * @throws acp.RequestError if the path is outside the vault, protected
+	 * or a folder
+	 */
+	async writeFile(path: string, content: string): Promise<void> {
+		const relativePath = this.resolvePath(path);
+		if (relativePath === "") {
+			throw acp.RequestError.invalidParams(
+				{ path },
+				"Cannot write to the vault root",
+			);
+		}
+		const { vault } = this.plugin.app;
+
+		const file = vault.getAbstractFileByPath(relativePath);
+		if (file instanceof TFolder) {
+			throw acp.RequestError.invalidParams({ path }, "Path is a folder");
+		}
+
+		if (file instanceof TFile) {
+			const view = this.findOpenView(file.path);
+			if (view) {
+				// Edit through the editor so the change is undoable
+				const editor = view.editor;
+				const current = editor.getValue();
+				if (current !== content) {
+					editor.replaceRange(
+						content,
+						{ line: 0, ch: 0 },
+						editor.offsetToPos(current.length),
+					);
+				}
+				await view.save();
+			} else {
+				await vault.modify(file, content);
+			}
+		} else {
+			await this.ensureParentFolder(relativePath);
+			await vault.create(relativePath, content);
+		}
+
+		this.logger.log(
+			`[VaultFileManager] wrote ${relativePath} (${content.length} chars)`,
+		);
+	}
+
+	/**
+	 * Move a vault file to the trash (respects the user's trash setting).
+	 *
+	 * @param path - Absolute path (native or WSL form)
+	 */
+	async deleteFile(path: string): Promise<void> {
+		const file = this.plugin.app.vault.getAbstractFileByPath(
+			this.resolvePath(path),
+		);
+		if (file instanceof TFile) {
+			await this.plugin.app.fileManager.trashFile(file);
+		}
+	}
+
+	/**
+	 * Whether an absolute path points inside the vault.
+	 */
+	isVaultPath(path: string): boolean {
+		try {
+			return this.resolvePath(path) !== "";
+		} catch {
+			return false;
+		}
+	}
+
+	/**
+	 * Vault-relative form of an absolute path.
+	 *
+	 * @returns Vault-relative path, or null if the path is outside the vault
+	 * or protected
+	 */
+	toVaultPath(path: string): string | null {
+		try {
+			return this.resolvePath(path);
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Convert an agent-supplied absolute path to a vault-relative path.
+	 * Accepts native and (in WSL mode) /mnt/<drive>/ forms of the vault root.
+	 * The config folder and hidden files are refused: they hold plugin
+	 * settings (API keys included) and code.
+	 */
+	private resolvePath(path: string): string {
+		const basePath =
+			(this.plugin.app.vault.adapter as { basePath?: string }).basePath ||
+			"";
+		const basePaths = [basePath];
+		if (Platform.isWin && this.plugin.settings.windowsWslMode) {
+			basePaths.push(convertWindowsPathToWsl(basePath));
+		}
+
+		const relativePath = toVaultRelativePath(
+			path,
+			basePaths,
+			Platform.isWin || Platform.isMacOS,
+		);
+		if (relativePath === null) {
+			throw acp.RequestError.invalidParams(
+				{ path },
+				"Path is outside the vault",
+			);
+		}
+		if (
+			isProtectedVaultPath(relativePath, this.plugin.app.vault.configDir)
+		) {
+			throw acp.RequestError.invalidParams(
+				{ path },
+				"Path is in the config folder or a hidden file",
+			);
+		}
+		return relativePath === "" ? "" : normalizePath(relativePath);
+	}
+
+	private findOpenView(path: string): MarkdownView | null {
+		for (const leaf of this.plugin.app.workspace.getLeavesOfType(
+			"markdown",
+		)) {
+			if (
+				leaf.view instanceof MarkdownView &&
+				leaf.view.file?.path === path
+			) {
+				return leaf.view;
+			}
+		}
+		return null;
+	}
+
+	private async ensureParentFolder(relativePath: string): Promise<void> {
+		const lastSlash = relativePath.lastIndexOf("/");
+		if (lastSlash <= 0) return;
+		const folderPath = relativePath.slice(0, lastSlash);
+		if (!(await this.plugin.app.vault.adapter.exists(folderPath))) {
+			await this.plugin.app.vault.createFolder(folderPath);
+		}
+	}
+}
+
+/**
+ * Apply ACP's 1-based `line` offset and `limit` line count to file content.
+ */
+function sliceLines(
+	content: string,
+	line?: number | null,
+	limit?: number | null,
+): string {
+	if (line == null && limit == null) {
+		return content;
+	}
+	const lines = content.split("\n");
+	const start = Math.max((line ?? 1) - 1, 0);
+	const end = limit != null ? start + Math.max(limit, 0) : lines.length;
+	return lines.slice(start, end).join("\n");
+}